@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useCallback } from 'react';
 import {
   View,
   Text,
@@ -10,10 +10,16 @@ import {
   RefreshControl,
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
-import { router } from 'expo-router';
+import { router, Redirect, useFocusEffect } from 'expo-router';
 import { Ionicons } from '@expo/vector-icons';
 import { supabase } from '@/lib/supabase';
-import { getCurrentUser } from '@/lib/auth';
+import { useAuth } from '@/hooks/useAuth';
+import { cancelBooking } from '@/lib/bookings';
+import {
+  getCancellationQuote,
+  getModificationQuote,
+  isChangeWindowError,
+} from '@/lib/bookingPolicy';
 
 interface Booking {
   id: string;
@@ -25,6 +31,9 @@ interface Booking {
   total_price: number;
   status: string;
   payment_status: string;
+  amount_charged: number;
+  refunded_amount: number;
+  modification_fee: number;
   created_at: string;
   vehicles: {
     name: string;
@@ -37,21 +46,22 @@ interface Booking {
 
 export default function BookingsScreen() {
   const [bookings, setBookings] = useState<Booking[]>([]);
+  const { user, loading: authLoading } = useAuth();
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
   const [activeTab, setActiveTab] = useState<'upcoming' | 'past'>('upcoming');
 
-  useEffect(() => {
-    fetchBookings();
-  }, []);
+  // Refetch on focus so changes made from the booking screens show up
+  useFocusEffect(
+    useCallback(() => {
+      if (user) fetchBookings();
+    }, [user])
+  );
 
   const fetchBookings = async () => {
+    if (!user) return;
+
     try {
-      const user = await getCurrentUser();
-      if (!user) {
-        router.replace('/auth/login');
-        return;
-      }
 
       const { data, error } = await supabase
         .from('bookings')
@@ -85,6 +95,64 @@ export default function BookingsScreen() {
     fetchBookings();
   };
 
+  const showPolicyBlocked = (title: string, reason?: string) => {
+    Alert.alert(title, reason || 'This booking can no longer be changed.', [
+      { text: 'OK', style: 'cancel' },
+      { text: 'Contact Support', onPress: () => router.push('/profile/help-support') },
+    ]);
+  };
+
+  const handleCancel = (booking: Booking) => {
+    const quote = getCancellationQuote(booking);
+    if (!quote.allowed) {
+      showPolicyBlocked('Cannot Cancel', quote.reason);
+      return;
+    }
+
+    const feeLine = quote.fee > 0
+      ? `A ${quote.feePercent}% cancellation fee of $${quote.fee.toFixed(2)} applies.`
+      : 'Cancellation is free.';
+    const refundLine = quote.refund > 0 ? ` $${quote.refund.toFixed(2)} will be refunded to your card.` : '';
+
+    Alert.alert(
+      'Cancel Booking',
+      `${feeLine}${refundLine}`,
+      [
+        { text: 'Keep Booking', style: 'cancel' },
+        {
+          text: 'Cancel Booking',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              const updated = await cancelBooking(booking.id, quote);
+              setBookings(current => current.map(b =>
+                b.id === booking.id ? { ...b, ...updated } : b
+              ));
+            } catch (error: any) {
+              console.error('Error cancelling booking:', error);
+              if (isChangeWindowError(error)) {
+                showPolicyBlocked('Cannot Cancel', error.message);
+              } else {
+                Alert.alert('Error', 'Failed to cancel booking');
+              }
+              fetchBookings();
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const handleReschedule = (booking: Booking) => {
+    const quote = getModificationQuote(booking);
+    if (!quote.allowed) {
+      showPolicyBlocked('Cannot Reschedule', quote.reason);
+      return;
+    }
+
+    router.push(`/booking/reschedule/${booking.id}`);
+  };
+
   const getStatusColor = (status: string) => {
     switch (status) {
       case 'confirmed':
@@ -185,10 +253,30 @@ export default function BookingsScreen() {
             Booked {formatDate(booking.created_at)}
           </Text>
         </View>
+
+        {['pending', 'confirmed'].includes(booking.status) && new Date(booking.start_date) > new Date() && (
+          <View style={styles.actionsRow}>
+            <TouchableOpacity style={styles.actionButton} onPress={() => handleReschedule(booking)}>
+              <Ionicons name="calendar-outline" size={16} color="#ff6b35" />
+              <Text style={styles.actionText}>Reschedule</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.actionButton, styles.cancelAction]}
+              onPress={() => handleCancel(booking)}
+            >
+              <Ionicons name="close-circle-outline" size={16} color="#dc3545" />
+              <Text style={[styles.actionText, styles.cancelActionText]}>Cancel</Text>
+            </TouchableOpacity>
+          </View>
+        )}
       </View>
     </TouchableOpacity>
   );
 
+  if (!authLoading && !user) {
+    return <Redirect href="/auth/login" />;
+  }
+
   if (loading) {
     return (
       <SafeAreaView style={styles.container}>
@@ -425,4 +513,35 @@ const styles = StyleSheet.create({
     fontSize: 12,
     color: '#999',
   },
+  actionsRow: {
+    flexDirection: 'row',
+    marginTop: 12,
+    paddingTop: 12,
+    borderTopWidth: 1,
+    borderTopColor: '#f1f3f5',
+  },
+  actionButton: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 8,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#ff6b35',
+    marginRight: 8,
+  },
+  actionText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#ff6b35',
+    marginLeft: 6,
+  },
+  cancelAction: {
+    borderColor: '#dc3545',
+    marginRight: 0,
+  },
+  cancelActionText: {
+    color: '#dc3545',
+  },
 });
\ No newline at end of file
@@ -10,10 +10,10 @@ import {
   RefreshControl,
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
-import { router } from 'expo-router';
+import { router, Redirect } from 'expo-router';
 import { Ionicons } from '@expo/vector-icons';
 import { supabase } from '@/lib/supabase';
-import { getCurrentUser } from '@/lib/auth';
+import { useAuth } from '@/hooks/useAuth';
 
 interface Favorite {
   id: string;
@@ -40,20 +40,18 @@ interface Favorite {
 
 export default function FavoritesScreen() {
   const [favorites, setFavorites] = useState<Favorite[]>([]);
+  const { user, loading: authLoading } = useAuth();
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
 
   useEffect(() => {
-    fetchFavorites();
-  }, []);
+    if (user) fetchFavorites();
+  }, [user]);
 
   const fetchFavorites = async () => {
+    if (!user) return;
+
     try {
-      const user = await getCurrentUser();
-      if (!user) {
-        router.replace('/auth/login');
-        return;
-      }
 
       const { data, error } = await supabase
         .from('favorites')
@@ -149,6 +147,10 @@ export default function FavoritesScreen() {
     </TouchableOpacity>
   );
 
+  if (!authLoading && !user) {
+    return <Redirect href="/auth/login" />;
+  }
+
   if (loading) {
     return (
       <SafeAreaView style={styles.container}>
@@ -15,6 +15,7 @@ import { router } from 'expo-router';
 import { Ionicons } from '@expo/vector-icons';
 import { supabase } from '@/lib/supabase';
 import { getCurrentUser } from '@/lib/auth';
+import { hasPermission } from '@/lib/permissions';
 
 const { width } = Dimensions.get('window');
 
@@ -55,8 +56,8 @@ export default function HomeScreen() {
       const currentUser = await getCurrentUser();
       setUser(currentUser);
       
-      // Auto-redirect admin user
-      if (currentUser?.email === 'sandewilliam594@gmail.com') {
+      // Auto-redirect staff to the admin dashboard
+      if (hasPermission(currentUser, 'access_admin')) {
         router.replace('/admin');
       }
     } catch (error) {
@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React from 'react';
 import {
   View,
   Text,
@@ -11,7 +11,9 @@ import {
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { router } from 'expo-router';
 import { Ionicons } from '@expo/vector-icons';
-import { getCurrentUser, signOut } from '@/lib/auth';
+import { signOut } from '@/lib/auth';
+import { useAuth } from '@/hooks/useAuth';
+import { hasPermission } from '@/lib/permissions';
 
 interface ProfileOption {
   id: string;
@@ -22,10 +24,15 @@ interface ProfileOption {
 }
 
 export default function ProfileScreen() {
-  const [user, setUser] = useState<any>(null);
-  const [loading, setLoading] = useState(true);
+  const { user, loading } = useAuth();
 
   const profileOptions: ProfileOption[] = [
+    {
+      id: 'driver-license',
+      title: 'Driver License',
+      icon: 'id-card-outline',
+      route: '/profile/driver-license',
+    },
     {
       id: 'pickup-locations',
       title: 'Pickup Locations',
@@ -58,21 +65,6 @@ export default function ProfileScreen() {
     },
   ];
 
-  useEffect(() => {
-    loadUser();
-  }, []);
-
-  const loadUser = async () => {
-    try {
-      const currentUser = await getCurrentUser();
-      setUser(currentUser);
-    } catch (error) {
-      console.error('Error loading user:', error);
-    } finally {
-      setLoading(false);
-    }
-  };
-
   const handleSignOut = async () => {
     Alert.alert(
       'Sign Out',
@@ -158,7 +150,7 @@ export default function ProfileScreen() {
           <View style={styles.userInfo}>
             <Text style={styles.userName}>{user.full_name || 'User'}</Text>
             <Text style={styles.userEmail}>{user.email}</Text>
-            {user.is_admin && (
+            {hasPermission(user, 'access_admin') && (
               <TouchableOpacity
                 style={styles.adminBadge}
                 onPress={() => router.push('/admin')}
@@ -170,7 +162,7 @@ export default function ProfileScreen() {
           </View>
           <TouchableOpacity
             style={styles.editButton}
-            onPress={() => Alert.alert('Edit Profile', 'Profile editing coming soon')}
+            onPress={() => router.push('/profile/edit')}
           >
             <Ionicons name="create-outline" size={20} color="#ff6b35" />
           </TouchableOpacity>
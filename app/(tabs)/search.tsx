@@ -13,6 +13,8 @@ import { SafeAreaView } from 'react-native-safe-area-context';
 import { router, useLocalSearchParams } from 'expo-router';
 import { Ionicons } from '@expo/vector-icons';
 import { supabase } from '@/lib/supabase';
+import { getAvailableVehicles } from '@/lib/availability';
+import AvailabilityCalendar from '@/components/AvailabilityCalendar';
 
 interface Vehicle {
   id: string;
@@ -35,18 +37,21 @@ interface Vehicle {
 }
 
 export default function SearchScreen() {
-  const { query, type } = useLocalSearchParams();
+  const { query, type, start, end } = useLocalSearchParams();
   const [vehicles, setVehicles] = useState<Vehicle[]>([]);
   const [filteredVehicles, setFilteredVehicles] = useState<Vehicle[]>([]);
   const [searchQuery, setSearchQuery] = useState((query as string) || '');
   const [selectedType, setSelectedType] = useState((type as string) || 'All');
+  const [startDate, setStartDate] = useState<Date | null>(start ? new Date(start as string) : null);
+  const [endDate, setEndDate] = useState<Date | null>(end ? new Date(end as string) : null);
+  const [showCalendar, setShowCalendar] = useState(false);
   const [loading, setLoading] = useState(true);
 
   const vehicleTypes = ['All', 'Sedan', 'SUV', 'Luxury', 'Electric', 'Truck'];
 
   useEffect(() => {
     fetchVehicles();
-  }, []);
+  }, [startDate, endDate]);
 
   useEffect(() => {
     filterVehicles();
@@ -54,6 +59,14 @@ export default function SearchScreen() {
 
   const fetchVehicles = async () => {
     try {
+      if (startDate && endDate) {
+        // Rentals cover whole days, so the vehicle must be free through the end of the return day
+        const rangeEnd = new Date(endDate);
+        rangeEnd.setDate(rangeEnd.getDate() + 1);
+        setVehicles(await getAvailableVehicles(startDate, rangeEnd));
+        return;
+      }
+
       const { data, error } = await supabase
         .from('vehicles')
         .select('*')
@@ -71,6 +84,26 @@ export default function SearchScreen() {
     }
   };
 
+  const handleSelectDate = (date: Date) => {
+    if (startDate && !endDate && date > startDate) {
+      setEndDate(date);
+      setShowCalendar(false);
+    } else {
+      setStartDate(date);
+      setEndDate(null);
+    }
+  };
+
+  const clearDates = () => {
+    setStartDate(null);
+    setEndDate(null);
+    setShowCalendar(false);
+  };
+
+  const formatDate = (date: Date) => {
+    return date.toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+  };
+
   const filterVehicles = () => {
     let filtered = vehicles;
 
@@ -179,6 +212,36 @@ export default function SearchScreen() {
         ))}
       </ScrollView>
 
+      <View style={styles.datesContainer}>
+        <TouchableOpacity
+          style={styles.datesButton}
+          onPress={() => setShowCalendar(!showCalendar)}
+        >
+          <Ionicons name="calendar-outline" size={20} color="#ff6b35" />
+          <Text style={styles.datesButtonText}>
+            {startDate && endDate
+              ? `${formatDate(startDate)} - ${formatDate(endDate)}`
+              : startDate
+                ? `${formatDate(startDate)} - Select return`
+                : 'Any dates'}
+          </Text>
+          {startDate ? (
+            <TouchableOpacity onPress={clearDates}>
+              <Ionicons name="close-circle" size={20} color="#999" />
+            </TouchableOpacity>
+          ) : (
+            <Ionicons name={showCalendar ? 'chevron-up' : 'chevron-down'} size={20} color="#666" />
+          )}
+        </TouchableOpacity>
+        {showCalendar && (
+          <AvailabilityCalendar
+            startDate={startDate}
+            endDate={endDate}
+            onSelectDate={handleSelectDate}
+          />
+        )}
+      </View>
+
       <ScrollView style={styles.content}>
         <View style={styles.resultsHeader}>
           <Text style={styles.resultsText}>
@@ -270,6 +333,28 @@ const styles = StyleSheet.create({
   selectedTypeButtonText: {
     color: '#fff',
   },
+  datesContainer: {
+    paddingHorizontal: 20,
+    paddingVertical: 12,
+    backgroundColor: '#fff',
+    borderBottomWidth: 1,
+    borderBottomColor: '#e9ecef',
+  },
+  datesButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#f8f9fa',
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    marginBottom: 4,
+  },
+  datesButtonText: {
+    flex: 1,
+    fontSize: 16,
+    color: '#333',
+    marginLeft: 8,
+  },
   content: {
     flex: 1,
     padding: 20,
@@ -1,12 +1,22 @@
 import { Stack } from 'expo-router';
+import RouteGuard from '@/components/RouteGuard';
 
 export default function AdminLayout() {
   return (
-    <Stack screenOptions={{ headerShown: false }}>
-      <Stack.Screen name="index" />
-      <Stack.Screen name="vehicles" />
-      <Stack.Screen name="bookings" />
-      <Stack.Screen name="users" />
-    </Stack>
+    <RouteGuard permission="access_admin">
+      <Stack screenOptions={{ headerShown: false }}>
+        <Stack.Screen name="index" />
+        <Stack.Screen name="vehicles" />
+        <Stack.Screen name="bookings" />
+        <Stack.Screen name="users" />
+        <Stack.Screen name="licenses" />
+        <Stack.Screen name="pricing" />
+        <Stack.Screen name="extras" />
+        <Stack.Screen name="charges" />
+        <Stack.Screen name="check-in/[id]" />
+        <Stack.Screen name="return/[id]" />
+        <Stack.Screen name="damage/[vehicleId]" />
+      </Stack>
+    </RouteGuard>
   );
 }
\ No newline at end of file
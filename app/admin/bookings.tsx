@@ -0,0 +1,747 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  TextInput,
+  Alert,
+  RefreshControl,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { router } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import { supabase } from '@/lib/supabase';
+import {
+  BOOKING_ACTIONS,
+  BOOKING_STATUSES,
+  PAYMENT_STATUSES,
+  BookingAction,
+  cancelBooking,
+  getAvailableActions,
+  hasRefundDue,
+  refundRescheduledCharge,
+  updateBookingStatus,
+} from '@/lib/bookings';
+import { refundBooking } from '@/lib/payments';
+import { DEPOSIT_STATUS_LABELS, DepositStatus } from '@/lib/deposits';
+import { BookingExtra, formatBookingExtras } from '@/lib/extras';
+import {
+  RentalSettlement,
+  SETTLEMENT_STATUS_LABELS,
+  SettlementStatus,
+  retrySettlementCharge,
+} from '@/lib/settlement';
+import AvailabilityCalendar from '@/components/AvailabilityCalendar';
+
+interface Booking {
+  id: string;
+  user_id: string | null;
+  vehicle_id: string;
+  start_date: string;
+  end_date: string;
+  pickup_location: string;
+  dropoff_location: string | null;
+  total_price: number;
+  status: string;
+  payment_status: string;
+  payment_method_id: string | null;
+  payment_intent_id: string | null;
+  amount_charged: number;
+  refunded_amount: number;
+  refund_due_intent_id: string | null;
+  refund_due_amount: number;
+  deposit_amount: number;
+  deposit_status: DepositStatus;
+  deposit_intent_id: string | null;
+  settlement: RentalSettlement | null;
+  settlement_status: SettlementStatus;
+  created_at: string;
+  vehicles: {
+    name: string;
+    license_plate: string | null;
+  };
+  booking_extras: BookingExtra[];
+}
+
+interface Customer {
+  id: string;
+  email: string;
+  full_name: string | null;
+}
+
+const ACTION_COLORS: Record<BookingAction, string> = {
+  confirm: '#28a745',
+  activate: '#007bff',
+  complete: '#6c757d',
+  cancel: '#dc3545',
+};
+
+export default function AdminBookingsScreen() {
+  const [bookings, setBookings] = useState<Booking[]>([]);
+  const [customers, setCustomers] = useState<Record<string, Customer>>({});
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [showFilters, setShowFilters] = useState(false);
+  const [statusFilter, setStatusFilter] = useState('all');
+  const [paymentFilter, setPaymentFilter] = useState('all');
+  const [vehicleFilter, setVehicleFilter] = useState('all');
+  const [customerQuery, setCustomerQuery] = useState('');
+  const [fromDate, setFromDate] = useState<Date | null>(null);
+  const [toDate, setToDate] = useState<Date | null>(null);
+
+  useEffect(() => {
+    fetchBookings();
+  }, []);
+
+  const fetchBookings = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('bookings')
+        .select(`
+          *,
+          vehicles (
+            name,
+            license_plate
+          ),
+          booking_extras (
+            *,
+            extras (
+              name,
+              icon
+            )
+          )
+        `)
+        .order('start_date', { ascending: false });
+
+      if (error) throw error;
+
+      setBookings(data || []);
+
+      const userIds = [...new Set((data || []).map((booking: Booking) => booking.user_id).filter(Boolean))];
+      if (userIds.length > 0) {
+        const { data: profiles, error: profilesError } = await supabase
+          .from('profiles')
+          .select('id, email, full_name')
+          .in('id', userIds);
+
+        if (profilesError) throw profilesError;
+
+        setCustomers(Object.fromEntries((profiles || []).map((profile: Customer) => [profile.id, profile])));
+      }
+    } catch (error) {
+      console.error('Error fetching bookings:', error);
+      Alert.alert('Error', 'Failed to load bookings');
+    } finally {
+      setLoading(false);
+      setRefreshing(false);
+    }
+  };
+
+  const onRefresh = () => {
+    setRefreshing(true);
+    fetchBookings();
+  };
+
+  const handleAction = (booking: Booking, action: BookingAction) => {
+    // Pickups go through the check-in screen, which holds the deposit
+    if (action === 'activate') {
+      router.push(`/admin/check-in/${booking.id}`);
+      return;
+    }
+
+    // Returns go through the inspection screen, which settles the deposit
+    if (action === 'complete') {
+      router.push(`/admin/return/${booking.id}`);
+      return;
+    }
+
+    const { label, to } = BOOKING_ACTIONS[action];
+
+    const refundNote = action === 'cancel' && booking.payment_status === 'completed'
+      ? ` The $${(booking.amount_charged - booking.refunded_amount).toFixed(2)} payment will be refunded.`
+      : '';
+
+    Alert.alert(
+      `${label} Booking`,
+      `Mark ${booking.vehicles.name} booking as ${to}?${refundNote}`,
+      [
+        { text: 'Back', style: 'cancel' },
+        {
+          text: label,
+          style: action === 'cancel' ? 'destructive' : 'default',
+          onPress: async () => {
+            try {
+              const updated = action === 'cancel'
+                ? await cancelBooking(booking.id)
+                : await updateBookingStatus(booking.id, action);
+              setBookings(current => current.map(b =>
+                b.id === booking.id ? { ...b, ...updated } : b
+              ));
+            } catch (error) {
+              console.error('Error updating booking:', error);
+              Alert.alert('Error', 'Failed to update booking. It may have been changed by someone else.');
+              fetchBookings();
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  // Retries a refund that failed when the booking was cancelled
+  const handleRefund = (booking: Booking) => {
+    Alert.alert(
+      'Issue Refund',
+      `Refund $${(booking.amount_charged - booking.refunded_amount).toFixed(2)} for this cancelled booking?`,
+      [
+        { text: 'Back', style: 'cancel' },
+        {
+          text: 'Refund',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              const updated = await refundBooking(booking);
+              setBookings(current => current.map(b =>
+                b.id === booking.id ? { ...b, payment_status: updated.payment_status } : b
+              ));
+            } catch (error: any) {
+              console.error('Error refunding booking:', error);
+              Alert.alert('Refund Failed', error.message || 'Failed to refund payment');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  // Retries the refund of the original charge when it failed during a reschedule
+  const handleRefundDue = (booking: Booking) => {
+    Alert.alert(
+      'Refund Original Charge',
+      `Refund the $${booking.refund_due_amount.toFixed(2)} original payment replaced when this booking was rescheduled?`,
+      [
+        { text: 'Back', style: 'cancel' },
+        {
+          text: 'Refund',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              const updated = await refundRescheduledCharge(booking);
+              setBookings(current => current.map(b =>
+                b.id === booking.id
+                  ? { ...b, refund_due_intent_id: updated.refund_due_intent_id, refund_due_amount: updated.refund_due_amount }
+                  : b
+              ));
+            } catch (error: any) {
+              console.error('Error refunding original charge:', error);
+              Alert.alert('Refund Failed', error.message || 'Failed to refund payment');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  // Retries the post-rental charge when the card was declined at return
+  const handleRetryCharge = (booking: Booking) => {
+    Alert.alert(
+      'Charge Card',
+      `Charge the $${(booking.settlement?.toCard || 0).toFixed(2)} return balance to the customer's card?`,
+      [
+        { text: 'Back', style: 'cancel' },
+        {
+          text: 'Charge',
+          onPress: async () => {
+            try {
+              const updated = await retrySettlementCharge(booking);
+              setBookings(current => current.map(b =>
+                b.id === booking.id ? { ...b, settlement_status: updated.settlement_status } : b
+              ));
+              if (updated.settlement_status === 'failed') {
+                Alert.alert('Charge Failed', 'The card was declined again. Collect the balance from the customer.');
+              }
+            } catch (error: any) {
+              console.error('Error charging return balance:', error);
+              Alert.alert('Charge Failed', error.message || 'Failed to charge card');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const handleSelectDate = (date: Date) => {
+    if (fromDate && !toDate && date >= fromDate) {
+      setToDate(date);
+    } else {
+      setFromDate(date);
+      setToDate(null);
+    }
+  };
+
+  const clearFilters = () => {
+    setStatusFilter('all');
+    setPaymentFilter('all');
+    setVehicleFilter('all');
+    setCustomerQuery('');
+    setFromDate(null);
+    setToDate(null);
+  };
+
+  const vehicleOptions = [...new Map(bookings.map(b => [b.vehicle_id, b.vehicles.name])).entries()];
+
+  const filteredBookings = bookings.filter(booking => {
+    if (statusFilter !== 'all' && booking.status !== statusFilter) return false;
+    if (paymentFilter !== 'all' && booking.payment_status !== paymentFilter) return false;
+    if (vehicleFilter !== 'all' && booking.vehicle_id !== vehicleFilter) return false;
+
+    // Keep bookings that overlap the selected date window
+    if (fromDate) {
+      const windowEnd = new Date(toDate || fromDate);
+      windowEnd.setDate(windowEnd.getDate() + 1);
+      if (new Date(booking.start_date) >= windowEnd || new Date(booking.end_date) <= fromDate) {
+        return false;
+      }
+    }
+
+    if (customerQuery.trim()) {
+      const customer = booking.user_id ? customers[booking.user_id] : undefined;
+      const query = customerQuery.toLowerCase();
+      const matches =
+        customer?.email.toLowerCase().includes(query) ||
+        (customer?.full_name || '').toLowerCase().includes(query);
+      if (!matches) return false;
+    }
+
+    return true;
+  });
+
+  const getStatusColor = (status: string) => {
+    switch (status) {
+      case 'confirmed':
+        return '#28a745';
+      case 'active':
+        return '#007bff';
+      case 'completed':
+        return '#6c757d';
+      case 'cancelled':
+        return '#dc3545';
+      default:
+        return '#ffc107';
+    }
+  };
+
+  const formatDate = (date: string | Date) => {
+    return new Date(date).toLocaleDateString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      year: 'numeric',
+    });
+  };
+
+  const FilterChips = ({
+    options,
+    selected,
+    onSelect,
+  }: {
+    options: [string, string][];
+    selected: string;
+    onSelect: (value: string) => void;
+  }) => (
+    <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.chipRow}>
+      {options.map(([value, label]) => (
+        <TouchableOpacity
+          key={value}
+          style={[styles.chip, selected === value && styles.chipSelected]}
+          onPress={() => onSelect(value)}
+        >
+          <Text style={[styles.chipText, selected === value && styles.chipTextSelected]}>
+            {label}
+          </Text>
+        </TouchableOpacity>
+      ))}
+    </ScrollView>
+  );
+
+  const BookingRow = ({ booking }: { booking: Booking }) => {
+    const customer = booking.user_id ? customers[booking.user_id] : undefined;
+    const actions = getAvailableActions(booking.status);
+    const needsRefund = booking.status === 'cancelled' && booking.payment_status === 'completed';
+    const needsCharge = booking.settlement_status === 'failed' && booking.settlement != null;
+    const needsRefundDue = hasRefundDue(booking);
+
+    return (
+      <View style={styles.bookingCard}>
+        <View style={styles.bookingHeader}>
+          <Text style={styles.vehicleName}>{booking.vehicles.name}</Text>
+          <View style={[styles.statusBadge, { backgroundColor: getStatusColor(booking.status) }]}>
+            <Text style={styles.statusText}>{booking.status.toUpperCase()}</Text>
+          </View>
+        </View>
+        <Text style={styles.customerText}>
+          {customer ? `${customer.full_name || 'Unnamed'} • ${customer.email}` : booking.user_id || 'Deleted account'}
+        </Text>
+        <View style={styles.detailRow}>
+          <Ionicons name="calendar-outline" size={16} color="#666" />
+          <Text style={styles.detailText}>
+            {formatDate(booking.start_date)} - {formatDate(booking.end_date)}
+          </Text>
+        </View>
+        <View style={styles.detailRow}>
+          <Ionicons name="location-outline" size={16} color="#666" />
+          <Text style={styles.detailText}>{booking.pickup_location}</Text>
+        </View>
+        {booking.booking_extras.length > 0 && (
+          <View style={styles.detailRow}>
+            <Ionicons name="bag-add-outline" size={16} color="#666" />
+            <Text style={styles.detailText}>{formatBookingExtras(booking.booking_extras)}</Text>
+          </View>
+        )}
+        <View style={styles.bookingFooter}>
+          <Text style={styles.totalPrice}>${booking.total_price.toFixed(2)}</Text>
+          <Text style={styles.paymentText}>Payment: {booking.payment_status}</Text>
+        </View>
+        {booking.deposit_amount > 0 && (
+          <Text style={styles.paymentText}>
+            Deposit ${booking.deposit_amount.toFixed(2)}: {DEPOSIT_STATUS_LABELS[booking.deposit_status]}
+          </Text>
+        )}
+        {needsRefundDue && (
+          <Text style={styles.paymentText}>
+            Refund owed from reschedule: ${booking.refund_due_amount.toFixed(2)}
+          </Text>
+        )}
+        {booking.settlement && booking.settlement.total > 0 && (
+          <Text style={styles.paymentText}>
+            Return charges ${booking.settlement.total.toFixed(2)}: {SETTLEMENT_STATUS_LABELS[booking.settlement_status]}
+          </Text>
+        )}
+        {(actions.length > 0 || needsRefund || needsRefundDue || needsCharge) && (
+          <View style={styles.actionsRow}>
+            {actions.map((action) => (
+              <TouchableOpacity
+                key={action}
+                style={[styles.actionButton, { borderColor: ACTION_COLORS[action] }]}
+                onPress={() => handleAction(booking, action)}
+              >
+                <Text style={[styles.actionText, { color: ACTION_COLORS[action] }]}>
+                  {BOOKING_ACTIONS[action].label}
+                </Text>
+              </TouchableOpacity>
+            ))}
+            {needsRefund && (
+              <TouchableOpacity
+                style={[styles.actionButton, { borderColor: '#6f42c1' }]}
+                onPress={() => handleRefund(booking)}
+              >
+                <Text style={[styles.actionText, { color: '#6f42c1' }]}>Refund</Text>
+              </TouchableOpacity>
+            )}
+            {needsRefundDue && (
+              <TouchableOpacity
+                style={[styles.actionButton, { borderColor: '#6f42c1' }]}
+                onPress={() => handleRefundDue(booking)}
+              >
+                <Text style={[styles.actionText, { color: '#6f42c1' }]}>Refund Original</Text>
+              </TouchableOpacity>
+            )}
+            {needsCharge && (
+              <TouchableOpacity
+                style={[styles.actionButton, { borderColor: '#6f42c1' }]}
+                onPress={() => handleRetryCharge(booking)}
+              >
+                <Text style={[styles.actionText, { color: '#6f42c1' }]}>Charge Card</Text>
+              </TouchableOpacity>
+            )}
+          </View>
+        )}
+      </View>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.backButton} onPress={() => router.back()}>
+          <Ionicons name="arrow-back" size={24} color="#333" />
+        </TouchableOpacity>
+        <Text style={styles.title}>Bookings</Text>
+        <TouchableOpacity style={styles.backButton} onPress={() => setShowFilters(!showFilters)}>
+          <Ionicons name={showFilters ? 'options' : 'options-outline'} size={24} color="#ff6b35" />
+        </TouchableOpacity>
+      </View>
+
+      <View style={styles.searchContainer}>
+        <View style={styles.searchBar}>
+          <Ionicons name="person-outline" size={20} color="#666" />
+          <TextInput
+            style={styles.searchInput}
+            placeholder="Filter by customer name or email"
+            value={customerQuery}
+            onChangeText={setCustomerQuery}
+            autoCapitalize="none"
+          />
+        </View>
+      </View>
+
+      <ScrollView
+        style={styles.content}
+        refreshControl={<RefreshControl refreshing={refreshing} onRefresh={onRefresh} />}
+      >
+        {showFilters && (
+          <View style={styles.filtersCard}>
+            <Text style={styles.filterLabel}>Status</Text>
+            <FilterChips
+              options={[['all', 'All'], ...BOOKING_STATUSES.map(s => [s, s] as [string, string])]}
+              selected={statusFilter}
+              onSelect={setStatusFilter}
+            />
+            <Text style={styles.filterLabel}>Payment</Text>
+            <FilterChips
+              options={[['all', 'All'], ...PAYMENT_STATUSES.map(s => [s, s] as [string, string])]}
+              selected={paymentFilter}
+              onSelect={setPaymentFilter}
+            />
+            <Text style={styles.filterLabel}>Vehicle</Text>
+            <FilterChips
+              options={[['all', 'All'], ...vehicleOptions]}
+              selected={vehicleFilter}
+              onSelect={setVehicleFilter}
+            />
+            <Text style={styles.filterLabel}>
+              Dates{fromDate ? `: ${formatDate(fromDate)} - ${toDate ? formatDate(toDate) : '...'}` : ''}
+            </Text>
+            <AvailabilityCalendar
+              minDate={new Date(2000, 0, 1)}
+              startDate={fromDate}
+              endDate={toDate}
+              onSelectDate={handleSelectDate}
+            />
+            <TouchableOpacity style={styles.clearButton} onPress={clearFilters}>
+              <Text style={styles.clearButtonText}>Clear filters</Text>
+            </TouchableOpacity>
+          </View>
+        )}
+
+        <Text style={styles.resultsText}>
+          {filteredBookings.length} booking{filteredBookings.length !== 1 ? 's' : ''}
+        </Text>
+
+        {loading ? (
+          <Text style={styles.emptyText}>Loading bookings...</Text>
+        ) : filteredBookings.length === 0 ? (
+          <View style={styles.emptyState}>
+            <Ionicons name="calendar-outline" size={64} color="#ccc" />
+            <Text style={styles.emptyText}>No bookings match these filters</Text>
+          </View>
+        ) : (
+          filteredBookings.map((booking) => (
+            <BookingRow key={booking.id} booking={booking} />
+          ))
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8f9fa',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingVertical: 15,
+    backgroundColor: '#fff',
+    borderBottomWidth: 1,
+    borderBottomColor: '#e9ecef',
+  },
+  backButton: {
+    padding: 5,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#333',
+  },
+  searchContainer: {
+    paddingHorizontal: 20,
+    paddingVertical: 12,
+    backgroundColor: '#fff',
+    borderBottomWidth: 1,
+    borderBottomColor: '#e9ecef',
+  },
+  searchBar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#f8f9fa',
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+  },
+  searchInput: {
+    flex: 1,
+    fontSize: 16,
+    marginLeft: 8,
+    color: '#333',
+  },
+  content: {
+    flex: 1,
+    padding: 20,
+  },
+  filtersCard: {
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 16,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+  },
+  filterLabel: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#333',
+    marginBottom: 8,
+  },
+  chipRow: {
+    marginBottom: 12,
+  },
+  chip: {
+    paddingHorizontal: 14,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: '#f8f9fa',
+    borderWidth: 1,
+    borderColor: '#e9ecef',
+    marginRight: 8,
+  },
+  chipSelected: {
+    backgroundColor: '#ff6b35',
+    borderColor: '#ff6b35',
+  },
+  chipText: {
+    fontSize: 13,
+    color: '#666',
+    fontWeight: '500',
+    textTransform: 'capitalize',
+  },
+  chipTextSelected: {
+    color: '#fff',
+  },
+  clearButton: {
+    alignItems: 'center',
+    paddingVertical: 8,
+  },
+  clearButtonText: {
+    color: '#ff6b35',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  resultsText: {
+    fontSize: 16,
+    fontWeight: '500',
+    color: '#333',
+    marginBottom: 12,
+  },
+  emptyState: {
+    alignItems: 'center',
+    paddingVertical: 60,
+  },
+  emptyText: {
+    fontSize: 16,
+    color: '#666',
+    marginTop: 16,
+    textAlign: 'center',
+  },
+  bookingCard: {
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 12,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+  },
+  bookingHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 4,
+  },
+  vehicleName: {
+    flex: 1,
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+  },
+  statusBadge: {
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    borderRadius: 12,
+  },
+  statusText: {
+    color: '#fff',
+    fontSize: 10,
+    fontWeight: '600',
+  },
+  customerText: {
+    fontSize: 13,
+    color: '#666',
+    marginBottom: 8,
+  },
+  detailRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 4,
+  },
+  detailText: {
+    fontSize: 14,
+    color: '#333',
+    marginLeft: 8,
+  },
+  bookingFooter: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginTop: 8,
+  },
+  totalPrice: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: '#ff6b35',
+  },
+  paymentText: {
+    fontSize: 12,
+    color: '#666',
+  },
+  actionsRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginTop: 12,
+    borderTopWidth: 1,
+    borderTopColor: '#f0f0f0',
+    paddingTop: 12,
+  },
+  actionButton: {
+    borderWidth: 1,
+    borderRadius: 8,
+    paddingHorizontal: 14,
+    paddingVertical: 6,
+    marginRight: 8,
+    marginBottom: 4,
+  },
+  actionText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+});
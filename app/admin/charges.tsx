@@ -0,0 +1,235 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  TextInput,
+  Alert,
+  ActivityIndicator,
+  KeyboardAvoidingView,
+  Platform,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { router } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import { ChargeRates, getChargeRates, saveChargeRates } from '@/lib/settlement';
+
+type RateField = keyof ChargeRates;
+type RateForm = Record<RateField, string>;
+
+const RATE_FIELDS: { field: RateField; label: string; hint: string; integer: boolean }[] = [
+  { field: 'late_grace_minutes', label: 'Grace period (minutes)', hint: 'How late a return can be before it is charged', integer: true },
+  { field: 'late_fee_per_hour', label: 'Late fee per hour ($)', hint: "Each day late is capped at the vehicle's daily rate", integer: false },
+  { field: 'fuel_per_percent', label: 'Fuel per percent ($)', hint: 'Charged for each percent below the pickup level', integer: false },
+  { field: 'refuel_service_fee', label: 'Refuelling service fee ($)', hint: 'Added once whenever fuel is charged', integer: false },
+  { field: 'included_miles_per_day', label: 'Included miles per day', hint: 'Mileage allowance for each rental day', integer: true },
+  { field: 'per_excess_mile', label: 'Excess mileage per mile ($)', hint: 'Charged for each mile over the allowance', integer: false },
+];
+
+const toForm = (rates: ChargeRates): RateForm => {
+  return Object.fromEntries(RATE_FIELDS.map(({ field }) => [field, `${rates[field]}`])) as RateForm;
+};
+
+export default function AdminChargesScreen() {
+  const [form, setForm] = useState<RateForm | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    fetchRates();
+  }, []);
+
+  const fetchRates = async () => {
+    try {
+      setForm(toForm(await getChargeRates()));
+    } catch (error) {
+      console.error('Error fetching charge rates:', error);
+      Alert.alert('Error', 'Failed to load return charges');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSave = async () => {
+    if (!form) return;
+
+    for (const { field, label, integer } of RATE_FIELDS) {
+      const value = Number(form[field]);
+      if (!form[field].trim() || !(value >= 0) || (integer && !Number.isInteger(value))) {
+        Alert.alert('Error', `${label} must be ${integer ? 'a whole number' : 'a number'} of zero or more`);
+        return;
+      }
+    }
+
+    setSaving(true);
+    try {
+      const rates = RATE_FIELDS.reduce(
+        (values, { field }) => ({ ...values, [field]: Number(form[field]) }),
+        {} as ChargeRates
+      );
+      setForm(toForm(await saveChargeRates(rates)));
+      Alert.alert('Saved', 'New rates apply to vehicles returned from now on.');
+    } catch (error: any) {
+      console.error('Error saving charge rates:', error);
+      Alert.alert('Error', error.message || 'Failed to save return charges');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.backButton} onPress={() => router.back()}>
+          <Ionicons name="arrow-back" size={24} color="#333" />
+        </TouchableOpacity>
+        <Text style={styles.title}>Return Charges</Text>
+        <View style={styles.placeholder} />
+      </View>
+
+      {loading ? (
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color="#ff6b35" />
+        </View>
+      ) : !form ? (
+        <View style={styles.loadingContainer}>
+          <Text style={styles.emptyText}>Return charges are not set up</Text>
+        </View>
+      ) : (
+        <KeyboardAvoidingView
+          behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+          style={styles.keyboardView}
+        >
+          <ScrollView style={styles.content} keyboardShouldPersistTaps="handled">
+            <View style={styles.card}>
+              <Text style={styles.description}>
+                Charged when a vehicle comes back late, with less fuel than at pickup or over its mileage
+                allowance. Charges come out of the deposit first and any balance goes on the customer's card.
+              </Text>
+              {RATE_FIELDS.map(({ field, label, hint, integer }) => (
+                <View key={field} style={styles.field}>
+                  <Text style={styles.label}>{label}</Text>
+                  <TextInput
+                    style={styles.input}
+                    value={form[field]}
+                    onChangeText={(text) => setForm(current => current && { ...current, [field]: text })}
+                    keyboardType={integer ? 'numeric' : 'decimal-pad'}
+                  />
+                  <Text style={styles.hint}>{hint}</Text>
+                </View>
+              ))}
+            </View>
+
+            <TouchableOpacity
+              style={[styles.saveButton, saving && styles.saveButtonDisabled]}
+              onPress={handleSave}
+              disabled={saving}
+            >
+              <Text style={styles.saveButtonText}>{saving ? 'Saving...' : 'Save Rates'}</Text>
+            </TouchableOpacity>
+          </ScrollView>
+        </KeyboardAvoidingView>
+      )}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8f9fa',
+  },
+  keyboardView: {
+    flex: 1,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  emptyText: {
+    fontSize: 16,
+    color: '#666',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingVertical: 15,
+    backgroundColor: '#fff',
+    borderBottomWidth: 1,
+    borderBottomColor: '#e9ecef',
+  },
+  backButton: {
+    padding: 5,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#333',
+  },
+  placeholder: {
+    width: 34,
+  },
+  content: {
+    flex: 1,
+    padding: 20,
+  },
+  card: {
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 16,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.05,
+    shadowRadius: 4,
+    elevation: 2,
+  },
+  description: {
+    fontSize: 14,
+    color: '#666',
+    lineHeight: 20,
+    marginBottom: 16,
+  },
+  field: {
+    marginBottom: 16,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#333',
+    marginBottom: 6,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+    backgroundColor: '#f8f9fa',
+  },
+  hint: {
+    fontSize: 12,
+    color: '#999',
+    marginTop: 4,
+  },
+  saveButton: {
+    backgroundColor: '#ff6b35',
+    borderRadius: 12,
+    paddingVertical: 16,
+    alignItems: 'center',
+    marginBottom: 40,
+  },
+  saveButtonDisabled: {
+    opacity: 0.6,
+  },
+  saveButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,662 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  TextInput,
+  Alert,
+  ActivityIndicator,
+  KeyboardAvoidingView,
+  Platform,
+  Image,
+  Switch,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { router, useLocalSearchParams } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import { supabase } from '@/lib/supabase';
+import { useAuth } from '@/hooks/useAuth';
+import { checkInBooking } from '@/lib/bookings';
+import { DepositBooking } from '@/lib/deposits';
+import { DriverLicense, getLicense, getLicenseImageUrl } from '@/lib/licenses';
+import {
+  INSPECTION_ANGLES,
+  InspectionPhoto,
+  deleteInspectionPhoto,
+  getInspectionPhotoUrls,
+  getInspectionPhotos,
+  getMissingAngles,
+  pickInspectionImage,
+  uploadInspectionPhoto,
+} from '@/lib/inspections';
+import InspectionPhotoStrip from '@/components/InspectionPhotoStrip';
+
+interface CheckInBooking extends DepositBooking {
+  user_id: string | null;
+  status: string;
+  start_date: string;
+  end_date: string;
+  pickup_location: string;
+  driver_license: string | null;
+  actual_pickup_time: string | null;
+  fuel_level_pickup: number | null;
+  mileage_start: number | null;
+  license_checked_at: string | null;
+  vehicles: {
+    name: string;
+    license_plate: string | null;
+    mileage: number | null;
+  };
+}
+
+// License numbers are typed by hand, so ignore spacing, dashes and case
+const normalizeLicenseNumber = (value: string | null | undefined) => {
+  return (value || '').replace(/[\s-]/g, '').toUpperCase();
+};
+
+const formatTime = (date: string) => {
+  return new Date(date).toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' });
+};
+
+export default function AdminCheckInScreen() {
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const { user } = useAuth();
+  const [booking, setBooking] = useState<CheckInBooking | null>(null);
+  const [license, setLicense] = useState<DriverLicense | null>(null);
+  const [licenseImageUrl, setLicenseImageUrl] = useState<string | null>(null);
+  const [photos, setPhotos] = useState<InspectionPhoto[]>([]);
+  const [photoUrls, setPhotoUrls] = useState<Record<string, string>>({});
+  const [fuelLevel, setFuelLevel] = useState('');
+  const [mileage, setMileage] = useState('');
+  const [licenseSeen, setLicenseSeen] = useState(false);
+  const [uploadingAngle, setUploadingAngle] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    loadBooking();
+  }, [id]);
+
+  const loadBooking = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('bookings')
+        .select(`
+          *,
+          vehicles (
+            name,
+            license_plate,
+            mileage
+          )
+        `)
+        .eq('id', id)
+        .single();
+
+      if (error) throw error;
+
+      const [licenseData, photoData] = await Promise.all([
+        data.user_id ? getLicense(data.user_id) : Promise.resolve(null),
+        getInspectionPhotos(data.id, 'pickup'),
+      ]);
+
+      setBooking(data);
+      setLicense(licenseData);
+      setPhotos(photoData);
+      setPhotoUrls(await getInspectionPhotoUrls(photoData));
+      setFuelLevel(data.fuel_level_pickup != null ? `${data.fuel_level_pickup}` : '');
+      setMileage(data.mileage_start != null ? `${data.mileage_start}` : '');
+
+      if (licenseData) {
+        setLicenseImageUrl(await getLicenseImageUrl(licenseData.front_image_path).catch(() => null));
+      }
+    } catch (error) {
+      console.error('Error loading booking:', error);
+      Alert.alert('Error', 'Failed to load booking');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <SafeAreaView style={styles.container}>
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color="#ff6b35" />
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  if (!booking) {
+    return (
+      <SafeAreaView style={styles.container}>
+        <View style={styles.loadingContainer}>
+          <Text style={styles.emptyText}>Booking not found</Text>
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  const isConfirmed = booking.status === 'confirmed';
+  const missingAngles = getMissingAngles(photos, 'pickup');
+
+  // Anything listed here blocks the handover until the customer sorts it out
+  const licenseProblems: string[] = [];
+  if (!license) {
+    licenseProblems.push('The customer has no driver license on file.');
+  } else {
+    if (license.status !== 'approved') {
+      licenseProblems.push(`The license on file is ${license.status}, not approved.`);
+    }
+    if (new Date(`${license.expiry_date}T23:59:59`) < new Date(booking.end_date)) {
+      licenseProblems.push('The license expires before the end of the rental.');
+    }
+    if (normalizeLicenseNumber(license.license_number) !== normalizeLicenseNumber(booking.driver_license)) {
+      licenseProblems.push('The license number on file does not match the one on the booking.');
+    }
+  }
+
+  const addPhoto = async (angle: string, source: 'camera' | 'library') => {
+    try {
+      const image = await pickInspectionImage(source);
+      if (!image) return;
+
+      setUploadingAngle(angle);
+      const photo = await uploadInspectionPhoto(booking.id, 'pickup', angle, image);
+      const urls = await getInspectionPhotoUrls([photo]);
+      setPhotos(current => [...current, photo]);
+      setPhotoUrls(current => ({ ...current, ...urls }));
+    } catch (error: any) {
+      console.error('Error adding inspection photo:', error);
+      Alert.alert('Error', error.message || 'Failed to upload photo');
+    } finally {
+      setUploadingAngle(null);
+    }
+  };
+
+  const handleAddPhoto = (angle: string) => {
+    Alert.alert('Add Photo', 'Choose how to add the photo', [
+      { text: 'Camera', onPress: () => addPhoto(angle, 'camera') },
+      { text: 'Library', onPress: () => addPhoto(angle, 'library') },
+      { text: 'Cancel', style: 'cancel' },
+    ]);
+  };
+
+  const handleRemovePhoto = (photo: InspectionPhoto) => {
+    Alert.alert('Remove Photo', 'Remove this photo from the check-in?', [
+      { text: 'Back', style: 'cancel' },
+      {
+        text: 'Remove',
+        style: 'destructive',
+        onPress: async () => {
+          try {
+            await deleteInspectionPhoto(photo);
+            setPhotos(current => current.filter(p => p.id !== photo.id));
+          } catch (error) {
+            console.error('Error removing inspection photo:', error);
+            Alert.alert('Error', 'Failed to remove photo');
+          }
+        },
+      },
+    ]);
+  };
+
+  const validate = () => {
+    if (licenseProblems.length > 0) {
+      Alert.alert('License Check Failed', licenseProblems.join('\n'));
+      return false;
+    }
+    if (!licenseSeen) {
+      Alert.alert('Error', "Confirm that you have checked the customer's physical license");
+      return false;
+    }
+
+    const odometer = Number(mileage);
+    if (!mileage.trim() || !Number.isInteger(odometer) || odometer < 0) {
+      Alert.alert('Error', 'Please enter the odometer reading');
+      return false;
+    }
+    if (booking.vehicles.mileage && odometer < booking.vehicles.mileage) {
+      Alert.alert('Error', `Odometer cannot be lower than the last recorded reading (${booking.vehicles.mileage} mi)`);
+      return false;
+    }
+
+    const fuel = Number(fuelLevel);
+    if (!fuelLevel.trim() || !Number.isInteger(fuel) || fuel < 0 || fuel > 100) {
+      Alert.alert('Error', 'Fuel level must be a whole number between 0 and 100');
+      return false;
+    }
+
+    if (missingAngles.length > 0) {
+      Alert.alert('Error', `Photos still needed: ${missingAngles.map(angle => angle.label).join(', ')}`);
+      return false;
+    }
+
+    return true;
+  };
+
+  const completeCheckIn = async () => {
+    if (!user) return;
+
+    setSaving(true);
+    try {
+      await checkInBooking(booking, user.id, {
+        fuel_level_pickup: Number(fuelLevel),
+        mileage_start: Number(mileage),
+      });
+
+      Alert.alert(
+        'Check-in Completed',
+        'The booking is now active. Hand over the keys.',
+        [{ text: 'OK', onPress: () => router.back() }]
+      );
+    } catch (error: any) {
+      console.error('Error completing check-in:', error);
+      Alert.alert('Error', error.message || 'Failed to complete check-in');
+      loadBooking();
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleComplete = () => {
+    if (!validate()) return;
+
+    const depositLine = booking.deposit_amount > 0
+      ? `\n\nA $${booking.deposit_amount.toFixed(2)} deposit will be held on the customer's card.`
+      : '';
+
+    Alert.alert(
+      'Complete Check-in',
+      `Hand over ${booking.vehicles.name} and start the rental?${depositLine}`,
+      [
+        { text: 'Back', style: 'cancel' },
+        { text: 'Complete', onPress: completeCheckIn },
+      ]
+    );
+  };
+
+  const renderPhotoSlot = (angle: typeof INSPECTION_ANGLES[number]) => {
+    const anglePhotos = photos.filter(photo => photo.angle === angle.key);
+    const uploading = uploadingAngle === angle.key;
+
+    return (
+      <View key={angle.key} style={styles.angleRow}>
+        <View style={styles.angleHeader}>
+          <Text style={styles.angleLabel}>
+            {angle.label}
+            {angle.required && <Text style={styles.requiredMark}> *</Text>}
+          </Text>
+          <TouchableOpacity
+            style={styles.addPhotoButton}
+            onPress={() => handleAddPhoto(angle.key)}
+            disabled={uploadingAngle !== null}
+          >
+            {uploading ? (
+              <ActivityIndicator size="small" color="#ff6b35" />
+            ) : (
+              <Ionicons name="camera-outline" size={20} color="#ff6b35" />
+            )}
+          </TouchableOpacity>
+        </View>
+        {anglePhotos.length > 0 && (
+          <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+            {anglePhotos.map(photo => (
+              <TouchableOpacity
+                key={photo.id}
+                style={styles.thumbnailItem}
+                onLongPress={() => handleRemovePhoto(photo)}
+              >
+                {photoUrls[photo.id] ? (
+                  <Image source={{ uri: photoUrls[photo.id] }} style={styles.thumbnail} resizeMode="cover" />
+                ) : (
+                  <View style={styles.thumbnail} />
+                )}
+                <Text style={styles.thumbnailTime}>{formatTime(photo.taken_at)}</Text>
+              </TouchableOpacity>
+            ))}
+          </ScrollView>
+        )}
+      </View>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.backButton} onPress={() => router.back()}>
+          <Ionicons name="arrow-back" size={24} color="#333" />
+        </TouchableOpacity>
+        <Text style={styles.title}>Vehicle Check-in</Text>
+        <View style={styles.placeholder} />
+      </View>
+
+      <KeyboardAvoidingView
+        behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+        style={styles.keyboardView}
+      >
+        <ScrollView style={styles.content} keyboardShouldPersistTaps="handled">
+          <View style={styles.card}>
+            <Text style={styles.vehicleName}>{booking.vehicles.name}</Text>
+            {booking.vehicles.license_plate && (
+              <Text style={styles.mutedText}>{booking.vehicles.license_plate}</Text>
+            )}
+            <View style={styles.readingRow}>
+              <Text style={styles.readingLabel}>Rental</Text>
+              <Text style={styles.readingValue}>
+                {new Date(booking.start_date).toLocaleDateString()} - {new Date(booking.end_date).toLocaleDateString()}
+              </Text>
+            </View>
+            <View style={styles.readingRow}>
+              <Text style={styles.readingLabel}>Pickup</Text>
+              <Text style={styles.readingValue}>{booking.pickup_location}</Text>
+            </View>
+          </View>
+
+          {isConfirmed ? (
+            <>
+              <View style={styles.card}>
+                <Text style={styles.cardTitle}>Driver License</Text>
+                <View style={styles.readingRow}>
+                  <Text style={styles.readingLabel}>On booking</Text>
+                  <Text style={styles.readingValue}>{booking.driver_license || 'Not provided'}</Text>
+                </View>
+                <View style={styles.readingRow}>
+                  <Text style={styles.readingLabel}>On file</Text>
+                  <Text style={styles.readingValue}>{license?.license_number || 'None'}</Text>
+                </View>
+                {license && (
+                  <View style={styles.readingRow}>
+                    <Text style={styles.readingLabel}>Expires</Text>
+                    <Text style={styles.readingValue}>{new Date(license.expiry_date).toLocaleDateString()}</Text>
+                  </View>
+                )}
+                {licenseImageUrl && (
+                  <Image source={{ uri: licenseImageUrl }} style={styles.licenseImage} resizeMode="contain" />
+                )}
+                {licenseProblems.map(problem => (
+                  <Text key={problem} style={styles.warningText}>{problem}</Text>
+                ))}
+                <View style={styles.switchRow}>
+                  <Text style={styles.switchLabel}>
+                    I have checked the physical license and it matches the customer
+                  </Text>
+                  <Switch
+                    value={licenseSeen}
+                    onValueChange={setLicenseSeen}
+                    disabled={licenseProblems.length > 0}
+                    trackColor={{ false: '#e9ecef', true: '#ff6b35' }}
+                    thumbColor="#fff"
+                  />
+                </View>
+              </View>
+
+              <View style={styles.card}>
+                <Text style={styles.cardTitle}>Handover Readings</Text>
+                <Text style={styles.label}>Odometer (mi)</Text>
+                <TextInput
+                  style={styles.input}
+                  value={mileage}
+                  onChangeText={setMileage}
+                  placeholder={booking.vehicles.mileage ? `Last recorded ${booking.vehicles.mileage}` : 'Current reading'}
+                  keyboardType="numeric"
+                />
+                <Text style={styles.label}>Fuel level (%)</Text>
+                <TextInput
+                  style={styles.input}
+                  value={fuelLevel}
+                  onChangeText={setFuelLevel}
+                  placeholder="0 - 100"
+                  keyboardType="numeric"
+                  maxLength={3}
+                />
+              </View>
+
+              <View style={styles.card}>
+                <Text style={styles.cardTitle}>Walk-around Photos</Text>
+                <Text style={styles.hintText}>
+                  Photograph the vehicle from every marked angle. Long-press a photo to remove it.
+                </Text>
+                {INSPECTION_ANGLES.map(renderPhotoSlot)}
+              </View>
+
+              <TouchableOpacity
+                style={[styles.completeButton, saving && styles.completeButtonDisabled]}
+                onPress={handleComplete}
+                disabled={saving || uploadingAngle !== null}
+              >
+                <Text style={styles.completeButtonText}>
+                  {saving ? 'Checking in...' : 'Complete Check-in'}
+                </Text>
+              </TouchableOpacity>
+            </>
+          ) : (
+            <View style={styles.card}>
+              <Text style={styles.cardTitle}>Pickup Check-in</Text>
+              {booking.actual_pickup_time ? (
+                <>
+                  <View style={styles.readingRow}>
+                    <Text style={styles.readingLabel}>Picked up</Text>
+                    <Text style={styles.readingValue}>{new Date(booking.actual_pickup_time).toLocaleString()}</Text>
+                  </View>
+                  <View style={styles.readingRow}>
+                    <Text style={styles.readingLabel}>Odometer</Text>
+                    <Text style={styles.readingValue}>
+                      {booking.mileage_start != null ? `${booking.mileage_start.toLocaleString()} mi` : 'Not recorded'}
+                    </Text>
+                  </View>
+                  <View style={styles.readingRow}>
+                    <Text style={styles.readingLabel}>Fuel level</Text>
+                    <Text style={styles.readingValue}>
+                      {booking.fuel_level_pickup != null ? `${booking.fuel_level_pickup}%` : 'Not recorded'}
+                    </Text>
+                  </View>
+                  <View style={styles.photoStrip}>
+                    <InspectionPhotoStrip photos={photos} urls={photoUrls} />
+                  </View>
+                </>
+              ) : (
+                <Text style={styles.mutedText}>This booking is {booking.status} and cannot be checked in.</Text>
+              )}
+            </View>
+          )}
+        </ScrollView>
+      </KeyboardAvoidingView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8f9fa',
+  },
+  keyboardView: {
+    flex: 1,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  emptyText: {
+    fontSize: 16,
+    color: '#666',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingVertical: 15,
+    backgroundColor: '#fff',
+    borderBottomWidth: 1,
+    borderBottomColor: '#e9ecef',
+  },
+  backButton: {
+    padding: 5,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#333',
+  },
+  placeholder: {
+    width: 34,
+  },
+  content: {
+    flex: 1,
+    padding: 20,
+  },
+  card: {
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 16,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.05,
+    shadowRadius: 4,
+    elevation: 2,
+  },
+  cardTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+    marginBottom: 12,
+  },
+  vehicleName: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#333',
+  },
+  mutedText: {
+    fontSize: 12,
+    color: '#666',
+    marginTop: 2,
+  },
+  hintText: {
+    fontSize: 13,
+    color: '#666',
+    marginBottom: 8,
+  },
+  readingRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginTop: 8,
+  },
+  readingLabel: {
+    flex: 1,
+    fontSize: 14,
+    color: '#666',
+  },
+  readingValue: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#333',
+  },
+  licenseImage: {
+    width: '100%',
+    height: 180,
+    borderRadius: 8,
+    backgroundColor: '#f1f3f5',
+    marginTop: 12,
+  },
+  warningText: {
+    fontSize: 12,
+    color: '#dc3545',
+    marginTop: 8,
+  },
+  switchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    borderTopWidth: 1,
+    borderTopColor: '#f1f3f5',
+    marginTop: 12,
+    paddingTop: 12,
+  },
+  switchLabel: {
+    flex: 1,
+    fontSize: 14,
+    color: '#333',
+    marginRight: 12,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#333',
+    marginBottom: 6,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+    marginBottom: 12,
+    backgroundColor: '#f8f9fa',
+  },
+  angleRow: {
+    borderTopWidth: 1,
+    borderTopColor: '#f1f3f5',
+    paddingVertical: 10,
+  },
+  angleHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  angleLabel: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#333',
+  },
+  requiredMark: {
+    color: '#dc3545',
+  },
+  addPhotoButton: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    backgroundColor: '#fff5f0',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  thumbnailItem: {
+    marginTop: 8,
+    marginRight: 10,
+  },
+  thumbnail: {
+    width: 96,
+    height: 72,
+    borderRadius: 8,
+    backgroundColor: '#f1f3f5',
+  },
+  thumbnailTime: {
+    fontSize: 11,
+    color: '#999',
+    marginTop: 2,
+  },
+  photoStrip: {
+    marginTop: 12,
+  },
+  completeButton: {
+    backgroundColor: '#ff6b35',
+    borderRadius: 12,
+    paddingVertical: 16,
+    alignItems: 'center',
+    marginBottom: 40,
+  },
+  completeButtonDisabled: {
+    opacity: 0.6,
+  },
+  completeButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
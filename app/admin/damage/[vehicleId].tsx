@@ -0,0 +1,268 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  Alert,
+  ActivityIndicator,
+  RefreshControl,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { router, useLocalSearchParams } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import { supabase } from '@/lib/supabase';
+import { getInspectionPhotoUrls } from '@/lib/inspections';
+import {
+  DAMAGE_SEVERITY_LABELS,
+  DamageHistoryRecord,
+  DamageSeverity,
+  getDamageMarks,
+  getDamageTotal,
+  getVehicleDamage,
+  getZoneLabel,
+} from '@/lib/damage';
+import VehicleDiagram from '@/components/VehicleDiagram';
+import InspectionPhotoStrip from '@/components/InspectionPhotoStrip';
+
+interface DamageVehicle {
+  id: string;
+  name: string;
+  license_plate: string | null;
+}
+
+const SEVERITY_COLORS: Record<DamageSeverity, string> = {
+  minor: '#ffc107',
+  moderate: '#fd7e14',
+  severe: '#dc3545',
+};
+
+const formatDate = (date: string) => {
+  return new Date(date).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+};
+
+export default function AdminDamageHistoryScreen() {
+  const { vehicleId } = useLocalSearchParams<{ vehicleId: string }>();
+  const [vehicle, setVehicle] = useState<DamageVehicle | null>(null);
+  const [records, setRecords] = useState<DamageHistoryRecord[]>([]);
+  const [photoUrls, setPhotoUrls] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+
+  useEffect(() => {
+    fetchHistory();
+  }, [vehicleId]);
+
+  const fetchHistory = async () => {
+    try {
+      const [{ data: vehicleData, error: vehicleError }, damageData] = await Promise.all([
+        supabase.from('vehicles').select('id, name, license_plate').eq('id', vehicleId).single(),
+        getVehicleDamage(vehicleId),
+      ]);
+
+      if (vehicleError) throw vehicleError;
+
+      setVehicle(vehicleData);
+      setRecords(damageData);
+      setPhotoUrls(await getInspectionPhotoUrls(damageData.flatMap(record => record.inspection_photos)));
+    } catch (error) {
+      console.error('Error fetching damage history:', error);
+      Alert.alert('Error', 'Failed to load damage history');
+    } finally {
+      setLoading(false);
+      setRefreshing(false);
+    }
+  };
+
+  const onRefresh = () => {
+    setRefreshing(true);
+    fetchHistory();
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.backButton} onPress={() => router.back()}>
+          <Ionicons name="arrow-back" size={24} color="#333" />
+        </TouchableOpacity>
+        <Text style={styles.title}>Damage History</Text>
+        <View style={styles.placeholder} />
+      </View>
+
+      {loading ? (
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color="#ff6b35" />
+        </View>
+      ) : (
+        <ScrollView
+          style={styles.content}
+          refreshControl={<RefreshControl refreshing={refreshing} onRefresh={onRefresh} />}
+        >
+          {vehicle && (
+            <View style={styles.card}>
+              <Text style={styles.vehicleName}>{vehicle.name}</Text>
+              {vehicle.license_plate && <Text style={styles.mutedText}>{vehicle.license_plate}</Text>}
+              <View style={styles.summaryRow}>
+                <Text style={styles.summaryLabel}>Damage reports</Text>
+                <Text style={styles.summaryValue}>{records.length}</Text>
+              </View>
+              <View style={styles.summaryRow}>
+                <Text style={styles.summaryLabel}>Estimated repairs</Text>
+                <Text style={styles.summaryValue}>${getDamageTotal(records).toFixed(2)}</Text>
+              </View>
+              <View style={styles.diagram}>
+                <VehicleDiagram marks={getDamageMarks(records)} />
+              </View>
+            </View>
+          )}
+
+          {records.length === 0 ? (
+            <View style={styles.emptyState}>
+              <Ionicons name="shield-checkmark-outline" size={64} color="#ccc" />
+              <Text style={styles.emptyText}>No damage recorded for this vehicle</Text>
+            </View>
+          ) : (
+            records.map(record => (
+              <View key={record.id} style={styles.card}>
+                <View style={styles.recordHeader}>
+                  <Text style={styles.recordZone}>{getZoneLabel(record.zone)}</Text>
+                  <View style={[styles.severityBadge, { backgroundColor: SEVERITY_COLORS[record.severity] }]}>
+                    <Text style={styles.severityText}>{DAMAGE_SEVERITY_LABELS[record.severity]}</Text>
+                  </View>
+                </View>
+                <Text style={styles.recordDescription}>{record.description}</Text>
+                <View style={styles.summaryRow}>
+                  <Text style={styles.summaryLabel}>
+                    {record.bookings
+                      ? `Rental ${formatDate(record.bookings.start_date)} - ${formatDate(record.bookings.end_date)}`
+                      : `Recorded ${formatDate(record.created_at)}`}
+                  </Text>
+                  <Text style={styles.summaryValue}>${record.repair_cost.toFixed(2)}</Text>
+                </View>
+                <View style={styles.photos}>
+                  <InspectionPhotoStrip photos={record.inspection_photos} urls={photoUrls} />
+                </View>
+              </View>
+            ))
+          )}
+        </ScrollView>
+      )}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8f9fa',
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingVertical: 15,
+    backgroundColor: '#fff',
+    borderBottomWidth: 1,
+    borderBottomColor: '#e9ecef',
+  },
+  backButton: {
+    padding: 5,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#333',
+  },
+  placeholder: {
+    width: 34,
+  },
+  content: {
+    flex: 1,
+    padding: 20,
+  },
+  card: {
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 16,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.05,
+    shadowRadius: 4,
+    elevation: 2,
+  },
+  vehicleName: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#333',
+  },
+  mutedText: {
+    fontSize: 12,
+    color: '#666',
+    marginTop: 2,
+  },
+  summaryRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginTop: 8,
+  },
+  summaryLabel: {
+    flex: 1,
+    fontSize: 14,
+    color: '#666',
+  },
+  summaryValue: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#333',
+  },
+  diagram: {
+    marginTop: 16,
+  },
+  recordHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  recordZone: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+  },
+  severityBadge: {
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    borderRadius: 12,
+  },
+  severityText: {
+    color: '#fff',
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  recordDescription: {
+    fontSize: 14,
+    color: '#333',
+    marginTop: 8,
+  },
+  photos: {
+    marginTop: 12,
+  },
+  emptyState: {
+    alignItems: 'center',
+    paddingVertical: 60,
+  },
+  emptyText: {
+    fontSize: 16,
+    color: '#666',
+    textAlign: 'center',
+    marginTop: 16,
+  },
+});
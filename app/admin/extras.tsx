@@ -0,0 +1,326 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  TextInput,
+  Alert,
+  RefreshControl,
+  Switch,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { router } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import { supabase } from '@/lib/supabase';
+import {
+  EXTRA_PRICING_LABELS,
+  Extra,
+  getExtraStock,
+  getExtras,
+  setExtraActive,
+  setExtraStock,
+} from '@/lib/extras';
+
+const stockKey = (extraId: string, location: string) => `${extraId}:${location}`;
+
+export default function AdminExtrasScreen() {
+  const [extras, setExtras] = useState<Extra[]>([]);
+  const [branches, setBranches] = useState<string[]>([]);
+  const [stock, setStock] = useState<Record<string, number>>({});
+  const [drafts, setDrafts] = useState<Record<string, string>>({});
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [savingId, setSavingId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+
+  useEffect(() => {
+    fetchExtras();
+  }, []);
+
+  const fetchExtras = async () => {
+    try {
+      const [extrasData, stockData, { data: vehicles, error: vehiclesError }] = await Promise.all([
+        getExtras(true),
+        getExtraStock(),
+        supabase.from('vehicles').select('location'),
+      ]);
+
+      if (vehiclesError) throw vehiclesError;
+
+      // Every branch with vehicles, plus any that still holds stock
+      const locations = new Set<string>([
+        ...(vehicles || []).map((vehicle: { location: string }) => vehicle.location),
+        ...stockData.map(row => row.location),
+      ]);
+
+      setExtras(extrasData);
+      setBranches([...locations].sort());
+      setStock(Object.fromEntries(stockData.map(row => [stockKey(row.extra_id, row.location), row.quantity])));
+      setDrafts({});
+    } catch (error) {
+      console.error('Error fetching extras:', error);
+      Alert.alert('Error', 'Failed to load extras');
+    } finally {
+      setLoading(false);
+      setRefreshing(false);
+    }
+  };
+
+  const onRefresh = () => {
+    setRefreshing(true);
+    fetchExtras();
+  };
+
+  const getTotalStock = (extraId: string) => {
+    return branches.reduce((sum, location) => sum + (stock[stockKey(extraId, location)] || 0), 0);
+  };
+
+  const handleToggleActive = async (extra: Extra) => {
+    try {
+      await setExtraActive(extra.id, !extra.active);
+      setExtras(current => current.map(e => (e.id === extra.id ? { ...e, active: !extra.active } : e)));
+    } catch (error) {
+      console.error('Error updating extra:', error);
+      Alert.alert('Error', 'Failed to update extra');
+    }
+  };
+
+  const handleSaveStock = async (extra: Extra) => {
+    const changes = branches
+      .map(location => ({ location, value: drafts[stockKey(extra.id, location)] }))
+      .filter(change => change.value !== undefined);
+
+    if (changes.some(change => !/^\d+$/.test(change.value.trim()))) {
+      Alert.alert('Error', 'Stock counts must be whole numbers');
+      return;
+    }
+
+    setSavingId(extra.id);
+    try {
+      for (const change of changes) {
+        await setExtraStock(extra.id, change.location, Number(change.value));
+      }
+
+      setStock(current => ({
+        ...current,
+        ...Object.fromEntries(changes.map(change => [stockKey(extra.id, change.location), Number(change.value)])),
+      }));
+      setDrafts(current => {
+        const next = { ...current };
+        changes.forEach(change => delete next[stockKey(extra.id, change.location)]);
+        return next;
+      });
+    } catch (error: any) {
+      console.error('Error saving stock:', error);
+      Alert.alert('Error', error.message || 'Failed to save stock');
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  // A render function rather than an inner component so the stock inputs
+  // keep focus while typing
+  const renderExtraCard = (extra: Extra) => {
+    const expanded = expandedId === extra.id;
+    const hasChanges = branches.some(location => drafts[stockKey(extra.id, location)] !== undefined);
+
+    return (
+      <View key={extra.id} style={[styles.extraCard, !extra.active && styles.inactiveCard]}>
+        <TouchableOpacity
+          style={styles.extraHeader}
+          onPress={() => setExpandedId(expanded ? null : extra.id)}
+        >
+          <Ionicons name={extra.icon as any} size={24} color="#ff6b35" />
+          <View style={styles.extraInfo}>
+            <Text style={styles.extraName}>{extra.name}</Text>
+            <Text style={styles.extraMeta}>
+              ${extra.price.toFixed(2)}{EXTRA_PRICING_LABELS[extra.pricing]} • {getTotalStock(extra.id)} in stock
+            </Text>
+          </View>
+          <Switch
+            value={extra.active}
+            onValueChange={() => handleToggleActive(extra)}
+            trackColor={{ false: '#e9ecef', true: '#ff6b35' }}
+            thumbColor="#fff"
+          />
+        </TouchableOpacity>
+
+        {expanded && (
+          <View style={styles.stockSection}>
+            {branches.map(location => {
+              const key = stockKey(extra.id, location);
+              return (
+                <View key={location} style={styles.stockRow}>
+                  <Text style={styles.stockLocation}>{location}</Text>
+                  <TextInput
+                    style={styles.stockInput}
+                    value={drafts[key] ?? `${stock[key] || 0}`}
+                    onChangeText={(text) => setDrafts(current => ({ ...current, [key]: text }))}
+                    keyboardType="numeric"
+                    maxLength={4}
+                  />
+                </View>
+              );
+            })}
+            <TouchableOpacity
+              style={[styles.saveButton, (!hasChanges || savingId === extra.id) && styles.saveButtonDisabled]}
+              onPress={() => handleSaveStock(extra)}
+              disabled={!hasChanges || savingId === extra.id}
+            >
+              <Text style={styles.saveButtonText}>
+                {savingId === extra.id ? 'Saving...' : 'Save Stock'}
+              </Text>
+            </TouchableOpacity>
+          </View>
+        )}
+      </View>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.backButton} onPress={() => router.back()}>
+          <Ionicons name="arrow-back" size={24} color="#333" />
+        </TouchableOpacity>
+        <Text style={styles.title}>Rental Extras</Text>
+        <View style={styles.placeholder} />
+      </View>
+
+      <ScrollView
+        style={styles.content}
+        refreshControl={<RefreshControl refreshing={refreshing} onRefresh={onRefresh} />}
+        keyboardShouldPersistTaps="handled"
+      >
+        {loading ? (
+          <Text style={styles.emptyText}>Loading extras...</Text>
+        ) : extras.length === 0 ? (
+          <View style={styles.emptyState}>
+            <Ionicons name="bag-add-outline" size={64} color="#ccc" />
+            <Text style={styles.emptyText}>No extras in the catalogue</Text>
+          </View>
+        ) : (
+          extras.map(renderExtraCard)
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8f9fa',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingVertical: 15,
+    backgroundColor: '#fff',
+    borderBottomWidth: 1,
+    borderBottomColor: '#e9ecef',
+  },
+  backButton: {
+    padding: 5,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#333',
+  },
+  placeholder: {
+    width: 34,
+  },
+  content: {
+    flex: 1,
+    padding: 20,
+  },
+  extraCard: {
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 12,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.05,
+    shadowRadius: 4,
+    elevation: 2,
+  },
+  inactiveCard: {
+    opacity: 0.6,
+  },
+  extraHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  extraInfo: {
+    flex: 1,
+    marginHorizontal: 12,
+  },
+  extraName: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+  },
+  extraMeta: {
+    fontSize: 13,
+    color: '#666',
+    marginTop: 2,
+  },
+  stockSection: {
+    borderTopWidth: 1,
+    borderTopColor: '#f1f3f5',
+    marginTop: 12,
+    paddingTop: 12,
+  },
+  stockRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 8,
+  },
+  stockLocation: {
+    fontSize: 14,
+    color: '#333',
+  },
+  stockInput: {
+    width: 70,
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 8,
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    fontSize: 14,
+    textAlign: 'right',
+    backgroundColor: '#f8f9fa',
+  },
+  saveButton: {
+    backgroundColor: '#ff6b35',
+    borderRadius: 8,
+    paddingVertical: 10,
+    alignItems: 'center',
+    marginTop: 4,
+  },
+  saveButtonDisabled: {
+    backgroundColor: '#ccc',
+  },
+  saveButtonText: {
+    color: '#fff',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  emptyState: {
+    alignItems: 'center',
+    paddingVertical: 60,
+  },
+  emptyText: {
+    fontSize: 16,
+    color: '#666',
+    textAlign: 'center',
+    marginTop: 16,
+  },
+});
@@ -12,6 +12,9 @@ import { SafeAreaView } from 'react-native-safe-area-context';
 import { router } from 'expo-router';
 import { Ionicons } from '@expo/vector-icons';
 import { supabase } from '@/lib/supabase';
+import { getCurrentUser } from '@/lib/auth';
+import { hasPermission, ROLE_LABELS, Role } from '@/lib/permissions';
+import { getBookingRevenue } from '@/lib/settlement';
 
 const { width } = Dimensions.get('window');
 
@@ -34,6 +37,7 @@ export default function AdminDashboard() {
     availableVehicles: 0,
   });
 
+  const [role, setRole] = useState<Role | null>(null);
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
@@ -42,6 +46,9 @@ export default function AdminDashboard() {
 
   const fetchDashboardStats = async () => {
     try {
+      const currentUser = await getCurrentUser();
+      setRole(currentUser?.role || null);
+
       // Fetch vehicles count
       const { count: vehiclesCount } = await supabase
         .from('vehicles')
@@ -72,10 +79,15 @@ export default function AdminDashboard() {
       // Fetch total revenue
       const { data: revenueData } = await supabase
         .from('bookings')
-        .select('total_price')
-        .eq('payment_status', 'completed');
+        .select('amount_charged, refunded_amount, settlement_charged, deposit_transactions ( type, amount )')
+        .in('payment_status', ['completed', 'refunded']);
 
-      const totalRevenue = revenueData?.reduce((sum, booking) => sum + (booking.total_price || 0), 0) || 0;
+      // Cancellation and modification fees kept after refunds count as revenue,
+      // as do return charges
+      const totalRevenue = revenueData?.reduce(
+        (sum, booking) => sum + getBookingRevenue(booking),
+        0
+      ) || 0;
 
       setStats({
         totalVehicles: vehiclesCount || 0,
@@ -141,7 +153,7 @@ export default function AdminDashboard() {
             style={styles.welcomeLogo}
             resizeMode="contain"
           />
-          <Text style={styles.welcomeTitle}>Welcome, Admin!</Text>
+          <Text style={styles.welcomeTitle}>Welcome, {role ? ROLE_LABELS[role] : 'Admin'}!</Text>
           <Text style={styles.welcomeSubtitle}>
             Here's an overview of your rental business
           </Text>
@@ -212,12 +224,46 @@ export default function AdminDashboard() {
               color="#6f42c1"
               onPress={() => router.push('/admin/users')}
             />
-            <QuickAction
-              title="Add Vehicle"
-              icon="add-circle-outline"
-              color="#28a745"
-              onPress={() => router.push('/admin/vehicles?action=add')}
-            />
+            {hasPermission(role, 'verify_licenses') && (
+              <QuickAction
+                title="Verify Licenses"
+                icon="id-card-outline"
+                color="#17a2b8"
+                onPress={() => router.push('/admin/licenses')}
+              />
+            )}
+            {hasPermission(role, 'manage_pricing') && (
+              <QuickAction
+                title="Pricing Rules"
+                icon="pricetags-outline"
+                color="#fd7e14"
+                onPress={() => router.push('/admin/pricing')}
+              />
+            )}
+            {hasPermission(role, 'manage_pricing') && (
+              <QuickAction
+                title="Return Charges"
+                icon="timer-outline"
+                color="#6f42c1"
+                onPress={() => router.push('/admin/charges')}
+              />
+            )}
+            {hasPermission(role, 'manage_vehicles') && (
+              <QuickAction
+                title="Rental Extras"
+                icon="bag-add-outline"
+                color="#20c997"
+                onPress={() => router.push('/admin/extras')}
+              />
+            )}
+            {hasPermission(role, 'manage_vehicles') && (
+              <QuickAction
+                title="Add Vehicle"
+                icon="add-circle-outline"
+                color="#28a745"
+                onPress={() => router.push('/admin/vehicles?action=add')}
+              />
+            )}
           </View>
         </View>
 
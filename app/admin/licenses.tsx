@@ -0,0 +1,493 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  TextInput,
+  Image,
+  Alert,
+  RefreshControl,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { router } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import { supabase } from '@/lib/supabase';
+import { getAge } from '@/lib/profile';
+import {
+  DriverLicense,
+  LicenseStatus,
+  MIN_DRIVER_AGE,
+  getLicenseImageUrl,
+  reviewLicense,
+} from '@/lib/licenses';
+
+interface Customer {
+  id: string;
+  email: string;
+  full_name: string | null;
+  date_of_birth: string | null;
+}
+
+const STATUS_TABS: { key: LicenseStatus; label: string }[] = [
+  { key: 'pending', label: 'Pending' },
+  { key: 'approved', label: 'Approved' },
+  { key: 'rejected', label: 'Rejected' },
+];
+
+const STATUS_COLORS: Record<LicenseStatus, string> = {
+  pending: '#ffc107',
+  approved: '#28a745',
+  rejected: '#dc3545',
+};
+
+export default function AdminLicensesScreen() {
+  const [licenses, setLicenses] = useState<DriverLicense[]>([]);
+  const [customers, setCustomers] = useState<Record<string, Customer>>({});
+  const [statusTab, setStatusTab] = useState<LicenseStatus>('pending');
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [photoUrls, setPhotoUrls] = useState<Record<string, { front: string; back: string }>>({});
+  const [rejectionReason, setRejectionReason] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+
+  useEffect(() => {
+    fetchLicenses();
+  }, []);
+
+  const fetchLicenses = async () => {
+    try {
+      // Oldest first so the queue is worked in submission order
+      const { data, error } = await supabase
+        .from('driver_licenses')
+        .select('*')
+        .order('updated_at', { ascending: true });
+
+      if (error) throw error;
+
+      setLicenses(data || []);
+
+      const userIds = [...new Set((data || []).map((license: DriverLicense) => license.user_id))];
+      if (userIds.length > 0) {
+        const { data: profiles, error: profilesError } = await supabase
+          .from('profiles')
+          .select('id, email, full_name, date_of_birth')
+          .in('id', userIds);
+
+        if (profilesError) throw profilesError;
+
+        setCustomers(Object.fromEntries((profiles || []).map((profile: Customer) => [profile.id, profile])));
+      }
+    } catch (error) {
+      console.error('Error fetching licenses:', error);
+      Alert.alert('Error', 'Failed to load driver licenses');
+    } finally {
+      setLoading(false);
+      setRefreshing(false);
+    }
+  };
+
+  const onRefresh = () => {
+    setRefreshing(true);
+    fetchLicenses();
+  };
+
+  const toggleExpanded = async (license: DriverLicense) => {
+    if (expandedId === license.id) {
+      setExpandedId(null);
+      return;
+    }
+
+    setExpandedId(license.id);
+    setRejectionReason('');
+
+    if (!photoUrls[license.id]) {
+      try {
+        const [front, back] = await Promise.all([
+          getLicenseImageUrl(license.front_image_path),
+          getLicenseImageUrl(license.back_image_path),
+        ]);
+        setPhotoUrls(current => ({ ...current, [license.id]: { front, back } }));
+      } catch (error) {
+        console.error('Error loading license photos:', error);
+      }
+    }
+  };
+
+  const handleReview = (license: DriverLicense, status: 'approved' | 'rejected') => {
+    if (status === 'rejected' && !rejectionReason.trim()) {
+      Alert.alert('Reason Required', 'Tell the customer why their license was rejected.');
+      return;
+    }
+
+    const customer = customers[license.user_id];
+
+    Alert.alert(
+      status === 'approved' ? 'Approve License' : 'Reject License',
+      `${status === 'approved' ? 'Approve' : 'Reject'} the license for ${customer?.full_name || customer?.email || 'this customer'}?`,
+      [
+        { text: 'Back', style: 'cancel' },
+        {
+          text: status === 'approved' ? 'Approve' : 'Reject',
+          style: status === 'rejected' ? 'destructive' : 'default',
+          onPress: async () => {
+            try {
+              const updated = await reviewLicense(license.id, status, rejectionReason.trim());
+              setLicenses(current => current.map(l => (l.id === license.id ? updated : l)));
+              setExpandedId(null);
+            } catch (error: any) {
+              console.error('Error reviewing license:', error);
+              Alert.alert('Error', error.message || 'Failed to update license');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const formatDate = (dateString: string) => {
+    return new Date(`${dateString.slice(0, 10)}T00:00:00`).toLocaleDateString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      year: 'numeric',
+    });
+  };
+
+  const filteredLicenses = licenses.filter(license => license.status === statusTab);
+
+  // A render function rather than an inner component so the rejection
+  // TextInput keeps focus while typing
+  const renderLicenseCard = (license: DriverLicense) => {
+    const customer = customers[license.user_id];
+    const expanded = expandedId === license.id;
+    const photos = photoUrls[license.id];
+    const age = customer?.date_of_birth ? getAge(customer.date_of_birth) : null;
+    const expired = new Date(`${license.expiry_date}T23:59:59`) < new Date();
+
+    return (
+      <View key={license.id} style={styles.licenseCard}>
+        <TouchableOpacity style={styles.licenseHeader} onPress={() => toggleExpanded(license)}>
+          <View style={styles.licenseInfo}>
+            <Text style={styles.customerName}>{customer?.full_name || 'Unnamed user'}</Text>
+            <Text style={styles.customerEmail}>{customer?.email}</Text>
+            <Text style={styles.licenseMeta}>
+              #{license.license_number} • Submitted {formatDate(license.updated_at)}
+            </Text>
+          </View>
+          <View style={[styles.statusBadge, { backgroundColor: STATUS_COLORS[license.status] }]}>
+            <Text style={styles.statusText}>{license.status.toUpperCase()}</Text>
+          </View>
+        </TouchableOpacity>
+
+        <View style={styles.checksRow}>
+          <View style={styles.check}>
+            <Ionicons
+              name={expired ? 'close-circle' : 'checkmark-circle'}
+              size={16}
+              color={expired ? '#dc3545' : '#28a745'}
+            />
+            <Text style={styles.checkText}>Expires {formatDate(license.expiry_date)}</Text>
+          </View>
+          <View style={styles.check}>
+            <Ionicons
+              name={age !== null && age >= MIN_DRIVER_AGE ? 'checkmark-circle' : 'alert-circle'}
+              size={16}
+              color={age !== null && age >= MIN_DRIVER_AGE ? '#28a745' : '#dc3545'}
+            />
+            <Text style={styles.checkText}>
+              {age !== null ? `Age ${age}` : 'No date of birth'}
+            </Text>
+          </View>
+        </View>
+
+        {expanded && (
+          <View style={styles.licenseDetails}>
+            <View style={styles.photoRow}>
+              {(['front', 'back'] as const).map((side) => (
+                <View key={side} style={styles.photoSlot}>
+                  {photos ? (
+                    <Image source={{ uri: photos[side] }} style={styles.photo} resizeMode="cover" />
+                  ) : (
+                    <Text style={styles.photoLoading}>Loading...</Text>
+                  )}
+                  <Text style={styles.photoLabel}>{side === 'front' ? 'Front' : 'Back'}</Text>
+                </View>
+              ))}
+            </View>
+
+            {license.status === 'rejected' && license.rejection_reason && (
+              <Text style={styles.rejectionText}>Rejected: {license.rejection_reason}</Text>
+            )}
+
+            {license.status !== 'rejected' && (
+              <TextInput
+                style={styles.reasonInput}
+                placeholder="Reason for rejection (shown to the customer)"
+                value={rejectionReason}
+                onChangeText={setRejectionReason}
+              />
+            )}
+
+            <View style={styles.actionsRow}>
+              {license.status !== 'rejected' && (
+                <TouchableOpacity
+                  style={[styles.actionButton, { borderColor: '#dc3545' }]}
+                  onPress={() => handleReview(license, 'rejected')}
+                >
+                  <Text style={[styles.actionText, { color: '#dc3545' }]}>Reject</Text>
+                </TouchableOpacity>
+              )}
+              {license.status !== 'approved' && (
+                <TouchableOpacity
+                  style={[styles.actionButton, { borderColor: '#28a745' }]}
+                  onPress={() => handleReview(license, 'approved')}
+                >
+                  <Text style={[styles.actionText, { color: '#28a745' }]}>Approve</Text>
+                </TouchableOpacity>
+              )}
+            </View>
+          </View>
+        )}
+      </View>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.backButton} onPress={() => router.back()}>
+          <Ionicons name="arrow-back" size={24} color="#333" />
+        </TouchableOpacity>
+        <Text style={styles.title}>Driver Licenses</Text>
+        <View style={styles.placeholder} />
+      </View>
+
+      <View style={styles.tabContainer}>
+        {STATUS_TABS.map((tab) => {
+          const count = licenses.filter(l => l.status === tab.key).length;
+          return (
+            <TouchableOpacity
+              key={tab.key}
+              style={[styles.tab, statusTab === tab.key && styles.activeTab]}
+              onPress={() => setStatusTab(tab.key)}
+            >
+              <Text style={[styles.tabText, statusTab === tab.key && styles.activeTabText]}>
+                {tab.label} ({count})
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+
+      <ScrollView
+        style={styles.content}
+        refreshControl={<RefreshControl refreshing={refreshing} onRefresh={onRefresh} />}
+        keyboardShouldPersistTaps="handled"
+      >
+        {loading ? (
+          <Text style={styles.emptyText}>Loading licenses...</Text>
+        ) : filteredLicenses.length === 0 ? (
+          <View style={styles.emptyState}>
+            <Ionicons name="id-card-outline" size={64} color="#ccc" />
+            <Text style={styles.emptyText}>No {statusTab} licenses</Text>
+          </View>
+        ) : (
+          filteredLicenses.map(renderLicenseCard)
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8f9fa',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingVertical: 15,
+    backgroundColor: '#fff',
+    borderBottomWidth: 1,
+    borderBottomColor: '#e9ecef',
+  },
+  backButton: {
+    padding: 5,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#333',
+  },
+  placeholder: {
+    width: 34,
+  },
+  tabContainer: {
+    flexDirection: 'row',
+    backgroundColor: '#fff',
+    paddingHorizontal: 20,
+    paddingBottom: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#e9ecef',
+  },
+  tab: {
+    flex: 1,
+    paddingVertical: 10,
+    alignItems: 'center',
+    borderRadius: 8,
+    marginHorizontal: 4,
+    marginTop: 12,
+    backgroundColor: '#f8f9fa',
+  },
+  activeTab: {
+    backgroundColor: '#ff6b35',
+  },
+  tabText: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#666',
+  },
+  activeTabText: {
+    color: '#fff',
+  },
+  content: {
+    flex: 1,
+    padding: 20,
+  },
+  licenseCard: {
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 12,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.05,
+    shadowRadius: 4,
+    elevation: 2,
+  },
+  licenseHeader: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+  },
+  licenseInfo: {
+    flex: 1,
+  },
+  customerName: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+  },
+  customerEmail: {
+    fontSize: 14,
+    color: '#666',
+    marginTop: 2,
+  },
+  licenseMeta: {
+    fontSize: 12,
+    color: '#999',
+    marginTop: 4,
+  },
+  statusBadge: {
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    borderRadius: 12,
+  },
+  statusText: {
+    color: '#fff',
+    fontSize: 10,
+    fontWeight: '600',
+  },
+  checksRow: {
+    flexDirection: 'row',
+    marginTop: 12,
+  },
+  check: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginRight: 16,
+  },
+  checkText: {
+    fontSize: 13,
+    color: '#666',
+    marginLeft: 4,
+  },
+  licenseDetails: {
+    borderTopWidth: 1,
+    borderTopColor: '#f1f3f5',
+    marginTop: 12,
+    paddingTop: 12,
+  },
+  photoRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginBottom: 12,
+  },
+  photoSlot: {
+    width: '48%',
+  },
+  photo: {
+    width: '100%',
+    aspectRatio: 1.6,
+    borderRadius: 8,
+    backgroundColor: '#f1f3f5',
+  },
+  photoLoading: {
+    aspectRatio: 1.6,
+    textAlign: 'center',
+    textAlignVertical: 'center',
+    color: '#999',
+    backgroundColor: '#f1f3f5',
+    borderRadius: 8,
+  },
+  photoLabel: {
+    fontSize: 12,
+    color: '#666',
+    textAlign: 'center',
+    marginTop: 4,
+  },
+  rejectionText: {
+    fontSize: 14,
+    color: '#dc3545',
+    marginBottom: 12,
+  },
+  reasonInput: {
+    backgroundColor: '#f8f9fa',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 14,
+    color: '#333',
+    borderWidth: 1,
+    borderColor: '#e9ecef',
+    marginBottom: 12,
+  },
+  actionsRow: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+  },
+  actionButton: {
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderRadius: 8,
+    borderWidth: 1,
+    marginLeft: 8,
+  },
+  actionText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  emptyState: {
+    alignItems: 'center',
+    paddingVertical: 60,
+  },
+  emptyText: {
+    fontSize: 16,
+    color: '#666',
+    textAlign: 'center',
+    marginTop: 16,
+  },
+});
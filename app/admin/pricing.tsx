@@ -0,0 +1,627 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  TextInput,
+  Alert,
+  RefreshControl,
+  Switch,
+  KeyboardAvoidingView,
+  Platform,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { router } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import {
+  PRICING_RULE_TYPES,
+  PRICING_RULE_TYPE_LABELS,
+  PricingRule,
+  PricingRuleType,
+  describePricingRule,
+} from '@/lib/pricing';
+import { PricingRuleInput, deletePricingRule, getPricingRules, savePricingRule } from '@/lib/pricingRules';
+
+interface RuleForm {
+  name: string;
+  type: PricingRuleType;
+  value: string;
+  start_date: string;
+  end_date: string;
+  min_days: string;
+  min_utilization: string;
+  vehicle_type: string;
+  per_day: boolean;
+  active: boolean;
+}
+
+const EMPTY_FORM: RuleForm = {
+  name: '',
+  type: 'weekend',
+  value: '',
+  start_date: '',
+  end_date: '',
+  min_days: '',
+  min_utilization: '',
+  vehicle_type: '',
+  per_day: false,
+  active: true,
+};
+
+const VEHICLE_TYPES = ['Sedan', 'SUV', 'Luxury', 'Electric', 'Truck'];
+
+// Rate rules are stored as multipliers but edited as a percentage increase
+const MULTIPLIER_TYPES: PricingRuleType[] = ['weekend', 'holiday', 'seasonal', 'surge'];
+const DATED_TYPES: PricingRuleType[] = ['holiday', 'seasonal'];
+
+const VALUE_LABELS: Record<PricingRuleType, string> = {
+  weekend: 'Rate increase (%)',
+  holiday: 'Rate increase (%)',
+  seasonal: 'Rate increase (%)',
+  surge: 'Rate increase (%)',
+  duration_discount: 'Discount (%)',
+  tax: 'Tax rate (%)',
+  fee: 'Amount ($)',
+};
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const round = (value: number) => Math.round(value * 10000) / 10000;
+
+const toForm = (rule: PricingRule): RuleForm => ({
+  name: rule.name,
+  type: rule.type,
+  value: `${MULTIPLIER_TYPES.includes(rule.type) ? round((rule.value - 1) * 100) : rule.value}`,
+  start_date: rule.start_date || '',
+  end_date: rule.end_date || '',
+  min_days: rule.min_days != null ? `${rule.min_days}` : '',
+  min_utilization: rule.min_utilization != null ? `${round(rule.min_utilization * 100)}` : '',
+  vehicle_type: rule.vehicle_type || '',
+  per_day: rule.per_day,
+  active: rule.active,
+});
+
+export default function AdminPricingScreen() {
+  const [rules, setRules] = useState<PricingRule[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [showForm, setShowForm] = useState(false);
+  const [form, setForm] = useState<RuleForm>(EMPTY_FORM);
+
+  useEffect(() => {
+    fetchRules();
+  }, []);
+
+  const fetchRules = async () => {
+    try {
+      setRules(await getPricingRules());
+    } catch (error) {
+      console.error('Error fetching pricing rules:', error);
+      Alert.alert('Error', 'Failed to load pricing rules');
+    } finally {
+      setLoading(false);
+      setRefreshing(false);
+    }
+  };
+
+  const onRefresh = () => {
+    setRefreshing(true);
+    fetchRules();
+  };
+
+  const openAddForm = () => {
+    setEditingId(null);
+    setForm(EMPTY_FORM);
+    setShowForm(true);
+  };
+
+  const openEditForm = (rule: PricingRule) => {
+    setEditingId(rule.id);
+    setForm(toForm(rule));
+    setShowForm(true);
+  };
+
+  const closeForm = () => {
+    setShowForm(false);
+    setEditingId(null);
+    setForm(EMPTY_FORM);
+  };
+
+  const updateField = <K extends keyof RuleForm>(key: K, value: RuleForm[K]) => {
+    setForm(current => ({ ...current, [key]: value }));
+  };
+
+  const validateForm = () => {
+    if (!form.name.trim()) {
+      return 'Please enter a name';
+    }
+
+    const value = Number(form.value);
+    if (!form.value.trim() || isNaN(value) || value < 0) {
+      return `${VALUE_LABELS[form.type].replace(/ \(.*\)$/, '')} must be zero or more`;
+    }
+    if ((form.type === 'duration_discount' || form.type === 'tax') && value > 100) {
+      return 'Percentages cannot be more than 100';
+    }
+
+    if (DATED_TYPES.includes(form.type)) {
+      if (!DATE_PATTERN.test(form.start_date.trim()) || !DATE_PATTERN.test(form.end_date.trim())) {
+        return 'Start and end dates must be in YYYY-MM-DD format';
+      }
+      if (form.end_date.trim() < form.start_date.trim()) {
+        return 'End date must be on or after the start date';
+      }
+    }
+
+    if (form.type === 'duration_discount') {
+      const minDays = Number(form.min_days);
+      if (!Number.isInteger(minDays) || minDays < 1) {
+        return 'Minimum days must be a whole number';
+      }
+    }
+
+    if (form.type === 'surge') {
+      const utilization = Number(form.min_utilization);
+      if (!form.min_utilization.trim() || isNaN(utilization) || utilization < 0 || utilization > 100) {
+        return 'Fleet booked threshold must be between 0 and 100';
+      }
+    }
+
+    return null;
+  };
+
+  const handleSave = async () => {
+    const validationError = validateForm();
+    if (validationError) {
+      Alert.alert('Error', validationError);
+      return;
+    }
+
+    const value = Number(form.value);
+    const dated = DATED_TYPES.includes(form.type);
+    const payload: PricingRuleInput = {
+      name: form.name.trim(),
+      type: form.type,
+      value: MULTIPLIER_TYPES.includes(form.type) ? round(1 + value / 100) : value,
+      start_date: dated ? form.start_date.trim() : null,
+      end_date: dated ? form.end_date.trim() : null,
+      min_days: form.type === 'duration_discount' ? Number(form.min_days) : null,
+      min_utilization: form.type === 'surge' ? round(Number(form.min_utilization) / 100) : null,
+      vehicle_type: form.vehicle_type || null,
+      per_day: form.type === 'fee' && form.per_day,
+      active: form.active,
+    };
+
+    setSaving(true);
+    try {
+      await savePricingRule(payload, editingId || undefined);
+      closeForm();
+      fetchRules();
+    } catch (error: any) {
+      console.error('Error saving pricing rule:', error);
+      Alert.alert('Error', error.message || 'Failed to save pricing rule');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleToggleActive = async (rule: PricingRule) => {
+    try {
+      const { id, ...input } = rule;
+      const updated = await savePricingRule({ ...input, active: !rule.active }, id);
+      setRules(current => current.map(r => (r.id === id ? updated : r)));
+    } catch (error) {
+      console.error('Error updating pricing rule:', error);
+      Alert.alert('Error', 'Failed to update pricing rule');
+    }
+  };
+
+  const handleDelete = (rule: PricingRule) => {
+    Alert.alert(
+      'Delete Rule',
+      `Delete "${rule.name}"? Existing bookings keep the price they were quoted.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await deletePricingRule(rule.id);
+              setRules(current => current.filter(r => r.id !== rule.id));
+              if (editingId === rule.id) closeForm();
+            } catch (error) {
+              console.error('Error deleting pricing rule:', error);
+              Alert.alert('Error', 'Failed to delete pricing rule');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const renderField = ({
+    label,
+    field,
+    placeholder,
+    keyboardType = 'default',
+  }: {
+    label: string;
+    field: 'name' | 'value' | 'start_date' | 'end_date' | 'min_days' | 'min_utilization';
+    placeholder?: string;
+    keyboardType?: 'default' | 'numeric' | 'decimal-pad';
+  }) => (
+    <View key={field} style={styles.field}>
+      <Text style={styles.fieldLabel}>{label}</Text>
+      <TextInput
+        style={styles.input}
+        placeholder={placeholder}
+        value={form[field]}
+        onChangeText={(text) => updateField(field, text)}
+        keyboardType={keyboardType}
+        autoCorrect={false}
+      />
+    </View>
+  );
+
+  const renderOptions = <T extends string>({
+    label,
+    selected,
+    options,
+    onSelect,
+  }: {
+    label: string;
+    selected: T;
+    options: { value: T; label: string }[];
+    onSelect: (value: T) => void;
+  }) => (
+    <View style={styles.field}>
+      <Text style={styles.fieldLabel}>{label}</Text>
+      <View style={styles.optionRow}>
+        {options.map((option) => (
+          <TouchableOpacity
+            key={option.value}
+            style={[styles.optionChip, selected === option.value && styles.optionChipSelected]}
+            onPress={() => onSelect(option.value)}
+          >
+            <Text style={[styles.optionText, selected === option.value && styles.optionTextSelected]}>
+              {option.label}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+    </View>
+  );
+
+  const RuleRow = ({ rule }: { rule: PricingRule }) => (
+    <TouchableOpacity style={[styles.ruleCard, !rule.active && styles.inactiveCard]} onPress={() => openEditForm(rule)}>
+      <View style={styles.ruleInfo}>
+        <Text style={styles.ruleName}>{rule.name}</Text>
+        <Text style={styles.ruleDescription}>{describePricingRule(rule)}</Text>
+        {rule.vehicle_type && <Text style={styles.ruleMeta}>{rule.vehicle_type} only</Text>}
+      </View>
+      <Switch
+        value={rule.active}
+        onValueChange={() => handleToggleActive(rule)}
+        trackColor={{ false: '#e9ecef', true: '#ff6b35' }}
+        thumbColor="#fff"
+      />
+    </TouchableOpacity>
+  );
+
+  if (showForm) {
+    return (
+      <SafeAreaView style={styles.container}>
+        <KeyboardAvoidingView
+          behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+          style={styles.keyboardView}
+        >
+          <View style={styles.header}>
+            <TouchableOpacity style={styles.backButton} onPress={closeForm}>
+              <Ionicons name="close" size={24} color="#333" />
+            </TouchableOpacity>
+            <Text style={styles.title}>{editingId ? 'Edit Rule' : 'Add Rule'}</Text>
+            <TouchableOpacity style={styles.headerButton} onPress={handleSave} disabled={saving}>
+              <Text style={styles.headerButtonText}>{saving ? 'Saving...' : 'Save'}</Text>
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView style={styles.content} keyboardShouldPersistTaps="handled">
+            <View style={styles.formSection}>
+              {renderField({ label: 'Name', field: 'name', placeholder: 'Weekend rate' })}
+              {renderOptions({
+                label: 'Type',
+                selected: form.type,
+                options: PRICING_RULE_TYPES.map(type => ({ value: type, label: PRICING_RULE_TYPE_LABELS[type] })),
+                onSelect: (type) => updateField('type', type),
+              })}
+              {renderField({ label: VALUE_LABELS[form.type], field: 'value', keyboardType: 'decimal-pad' })}
+
+              {DATED_TYPES.includes(form.type) && (
+                <View style={styles.row}>
+                  <View style={styles.halfField}>
+                    {renderField({ label: 'Start date', field: 'start_date', placeholder: 'YYYY-MM-DD' })}
+                  </View>
+                  <View style={styles.halfField}>
+                    {renderField({ label: 'End date', field: 'end_date', placeholder: 'YYYY-MM-DD' })}
+                  </View>
+                </View>
+              )}
+
+              {form.type === 'duration_discount' &&
+                renderField({ label: 'Minimum rental days', field: 'min_days', keyboardType: 'numeric', placeholder: '7' })}
+
+              {form.type === 'surge' &&
+                renderField({ label: 'Applies when fleet booked reaches (%)', field: 'min_utilization', keyboardType: 'decimal-pad', placeholder: '80' })}
+
+              {form.type === 'fee' && (
+                <View style={styles.switchRow}>
+                  <Text style={styles.fieldLabel}>Charge per day</Text>
+                  <Switch
+                    value={form.per_day}
+                    onValueChange={(value) => updateField('per_day', value)}
+                    trackColor={{ false: '#e9ecef', true: '#ff6b35' }}
+                    thumbColor="#fff"
+                  />
+                </View>
+              )}
+            </View>
+
+            <View style={styles.formSection}>
+              {renderOptions({
+                label: 'Vehicle type',
+                selected: form.vehicle_type,
+                options: [{ value: '', label: 'All' }, ...VEHICLE_TYPES.map(type => ({ value: type, label: type }))],
+                onSelect: (type) => updateField('vehicle_type', type),
+              })}
+              <View style={styles.switchRow}>
+                <Text style={styles.fieldLabel}>Active</Text>
+                <Switch
+                  value={form.active}
+                  onValueChange={(value) => updateField('active', value)}
+                  trackColor={{ false: '#e9ecef', true: '#ff6b35' }}
+                  thumbColor="#fff"
+                />
+              </View>
+            </View>
+
+            {editingId && (
+              <TouchableOpacity
+                style={styles.deleteRuleButton}
+                onPress={() => {
+                  const rule = rules.find(r => r.id === editingId);
+                  if (rule) handleDelete(rule);
+                }}
+              >
+                <Ionicons name="trash-outline" size={20} color="#dc3545" />
+                <Text style={styles.deleteRuleText}>Delete Rule</Text>
+              </TouchableOpacity>
+            )}
+          </ScrollView>
+        </KeyboardAvoidingView>
+      </SafeAreaView>
+    );
+  }
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.backButton} onPress={() => router.back()}>
+          <Ionicons name="arrow-back" size={24} color="#333" />
+        </TouchableOpacity>
+        <Text style={styles.title}>Pricing Rules</Text>
+        <TouchableOpacity style={styles.backButton} onPress={openAddForm}>
+          <Ionicons name="add" size={24} color="#ff6b35" />
+        </TouchableOpacity>
+      </View>
+
+      <ScrollView
+        style={styles.content}
+        refreshControl={<RefreshControl refreshing={refreshing} onRefresh={onRefresh} />}
+      >
+        {loading ? (
+          <Text style={styles.emptyText}>Loading pricing rules...</Text>
+        ) : rules.length === 0 ? (
+          <View style={styles.emptyState}>
+            <Ionicons name="pricetags-outline" size={64} color="#ccc" />
+            <Text style={styles.emptyText}>No pricing rules yet. Vehicles are charged their daily rate.</Text>
+          </View>
+        ) : (
+          PRICING_RULE_TYPES.map((type) => {
+            const group = rules.filter(rule => rule.type === type);
+            if (group.length === 0) return null;
+            return (
+              <View key={type} style={styles.group}>
+                <Text style={styles.groupTitle}>{PRICING_RULE_TYPE_LABELS[type]}</Text>
+                {group.map((rule) => (
+                  <RuleRow key={rule.id} rule={rule} />
+                ))}
+              </View>
+            );
+          })
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8f9fa',
+  },
+  keyboardView: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingVertical: 15,
+    backgroundColor: '#fff',
+    borderBottomWidth: 1,
+    borderBottomColor: '#e9ecef',
+  },
+  backButton: {
+    padding: 5,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#333',
+  },
+  headerButton: {
+    padding: 5,
+  },
+  headerButtonText: {
+    color: '#ff6b35',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  content: {
+    flex: 1,
+    padding: 20,
+  },
+  emptyState: {
+    alignItems: 'center',
+    paddingVertical: 60,
+  },
+  emptyText: {
+    fontSize: 16,
+    color: '#666',
+    marginTop: 16,
+    textAlign: 'center',
+  },
+  group: {
+    marginBottom: 12,
+  },
+  groupTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#666',
+    textTransform: 'uppercase',
+    marginBottom: 8,
+  },
+  ruleCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 8,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.05,
+    shadowRadius: 4,
+    elevation: 2,
+  },
+  inactiveCard: {
+    opacity: 0.6,
+  },
+  ruleInfo: {
+    flex: 1,
+    marginRight: 12,
+  },
+  ruleName: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+  },
+  ruleDescription: {
+    fontSize: 14,
+    color: '#666',
+    marginTop: 2,
+  },
+  ruleMeta: {
+    fontSize: 12,
+    color: '#999',
+    marginTop: 4,
+  },
+  formSection: {
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 16,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+  },
+  field: {
+    marginBottom: 12,
+  },
+  fieldLabel: {
+    fontSize: 14,
+    color: '#666',
+    marginBottom: 6,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+    backgroundColor: '#f8f9fa',
+  },
+  optionRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  optionChip: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 20,
+    backgroundColor: '#f8f9fa',
+    borderWidth: 1,
+    borderColor: '#e9ecef',
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  optionChipSelected: {
+    backgroundColor: '#ff6b35',
+    borderColor: '#ff6b35',
+  },
+  optionText: {
+    fontSize: 14,
+    color: '#666',
+    fontWeight: '500',
+  },
+  optionTextSelected: {
+    color: '#fff',
+  },
+  switchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  row: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  halfField: {
+    width: '48%',
+  },
+  deleteRuleButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#dc3545',
+    paddingVertical: 14,
+    marginBottom: 40,
+  },
+  deleteRuleText: {
+    color: '#dc3545',
+    fontSize: 16,
+    fontWeight: '600',
+    marginLeft: 8,
+  },
+});
@@ -0,0 +1,1135 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  TextInput,
+  Alert,
+  ActivityIndicator,
+  KeyboardAvoidingView,
+  Platform,
+  Image,
+  RefreshControl,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { router, useLocalSearchParams } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import { supabase } from '@/lib/supabase';
+import { updateBookingStatus } from '@/lib/bookings';
+import {
+  DEPOSIT_STATUS_LABELS,
+  DepositTransaction,
+  getDepositTransactions,
+} from '@/lib/deposits';
+import { formatDeductible } from '@/lib/protection';
+import { PriceQuote } from '@/lib/pricing';
+import {
+  SETTLEMENT_STATUS_LABELS,
+  ChargeRates,
+  SettlementBooking,
+  calculateSettlement,
+  calculateSettlementItems,
+  getChargeRates,
+  settleRental,
+} from '@/lib/settlement';
+import {
+  INSPECTION_ANGLES,
+  InspectionImage,
+  InspectionPhoto,
+  deleteInspectionPhoto,
+  getInspectionPhotoUrls,
+  getInspectionPhotos,
+  getMissingAngles,
+  pickInspectionImage,
+  uploadInspectionPhoto,
+} from '@/lib/inspections';
+import {
+  DAMAGE_SEVERITIES,
+  DAMAGE_SEVERITY_LABELS,
+  DamageRecord,
+  DamageSeverity,
+  deleteDamageRecord,
+  formatDamageReport,
+  getBookingDamage,
+  getDamageMarks,
+  getDamageTotal,
+  getVehicleDamage,
+  getZoneLabel,
+  recordDamage,
+} from '@/lib/damage';
+import VehicleDiagram from '@/components/VehicleDiagram';
+import InspectionPhotoStrip from '@/components/InspectionPhotoStrip';
+
+interface ReturnBooking extends SettlementBooking {
+  vehicle_id: string;
+  status: string;
+  total_price: number;
+  price_quote: PriceQuote | null;
+  fuel_level_pickup: number | null;
+  fuel_level_dropoff: number | null;
+  mileage_start: number | null;
+  mileage_end: number | null;
+  actual_dropoff_time: string | null;
+  protection_deductible: number | null;
+  vehicles: {
+    name: string;
+    license_plate: string | null;
+  };
+  protection_plans: { name: string } | null;
+}
+
+interface DamageDraft {
+  severity: DamageSeverity;
+  description: string;
+  repairCost: string;
+  photos: InspectionImage[];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const EMPTY_DRAFT: DamageDraft = { severity: 'minor', description: '', repairCost: '', photos: [] };
+
+const optionalInteger = (value: string) => (value.trim() ? Number(value) : null);
+
+const formatTime = (date: string) => {
+  return new Date(date).toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' });
+};
+
+export default function AdminReturnScreen() {
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const [booking, setBooking] = useState<ReturnBooking | null>(null);
+  const [transactions, setTransactions] = useState<DepositTransaction[]>([]);
+  const [rates, setRates] = useState<ChargeRates | null>(null);
+  const [photos, setPhotos] = useState<InspectionPhoto[]>([]);
+  const [photoUrls, setPhotoUrls] = useState<Record<string, string>>({});
+  const [damage, setDamage] = useState<DamageRecord[]>([]);
+  const [previousZones, setPreviousZones] = useState<string[]>([]);
+  const [selectedZone, setSelectedZone] = useState<string | null>(null);
+  const [draft, setDraft] = useState<DamageDraft>(EMPTY_DRAFT);
+  const [fuelLevel, setFuelLevel] = useState('');
+  const [mileage, setMileage] = useState('');
+  const [uploadingAngle, setUploadingAngle] = useState<string | null>(null);
+  const [savingDamage, setSavingDamage] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    loadBooking();
+  }, [id]);
+
+  const loadBooking = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('bookings')
+        .select(`
+          *,
+          vehicles (
+            name,
+            license_plate
+          ),
+          protection_plans (
+            name
+          )
+        `)
+        .eq('id', id)
+        .single();
+
+      if (error) throw error;
+
+      const [transactionData, rateData, photoData, damageData, historyData] = await Promise.all([
+        getDepositTransactions(data.id),
+        getChargeRates(),
+        getInspectionPhotos(data.id),
+        getBookingDamage(data.id),
+        getVehicleDamage(data.vehicle_id),
+      ]);
+
+      setBooking(data);
+      setFuelLevel(data.fuel_level_dropoff != null ? `${data.fuel_level_dropoff}` : '');
+      setMileage(data.mileage_end != null ? `${data.mileage_end}` : '');
+      setTransactions(transactionData);
+      setRates(rateData);
+      setPhotos(photoData);
+      setPhotoUrls(await getInspectionPhotoUrls(photoData));
+      setDamage(damageData);
+      setPreviousZones(historyData.filter(record => record.booking_id !== data.id).map(record => record.zone));
+    } catch (error) {
+      console.error('Error loading booking:', error);
+      Alert.alert('Error', 'Failed to load booking');
+    } finally {
+      setLoading(false);
+      setRefreshing(false);
+    }
+  };
+
+  const onRefresh = () => {
+    setRefreshing(true);
+    loadBooking();
+  };
+
+  if (loading) {
+    return (
+      <SafeAreaView style={styles.container}>
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color="#ff6b35" />
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  if (!booking) {
+    return (
+      <SafeAreaView style={styles.container}>
+        <View style={styles.loadingContainer}>
+          <Text style={styles.emptyText}>Booking not found</Text>
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  const isActive = booking.status === 'active';
+  const walkAroundPhotos = photos.filter(photo => !photo.damage_record_id);
+  const missingAngles = getMissingAngles(walkAroundPhotos, 'return');
+  const damageCharge = getDamageTotal(damage);
+  const rentalDays = Math.max(
+    1,
+    Math.ceil((new Date(booking.end_date).getTime() - new Date(booking.start_date).getTime()) / DAY_MS)
+  );
+  // Late fees are capped at the vehicle's daily rate, before any adjustments
+  const dailyRate = booking.price_quote?.dailyRate ?? booking.total_price / rentalDays;
+
+  const getSettlement = (target: ReturnBooking, actualDropoff: Date) => {
+    const items = rates
+      ? calculateSettlementItems({
+          endDate: new Date(target.end_date),
+          actualDropoff,
+          dailyRate,
+          rentalDays,
+          fuelLevelPickup: target.fuel_level_pickup,
+          fuelLevelDropoff: optionalInteger(fuelLevel),
+          mileageStart: target.mileage_start,
+          mileageEnd: optionalInteger(mileage),
+          damageCharge,
+          damageDeductible: target.protection_deductible,
+        }, rates)
+      : [];
+    return calculateSettlement(target, items);
+  };
+
+  // Returns settled, or part-way through settling, show the saved breakdown
+  const settlement = booking.settlement_status !== 'none' && booking.settlement
+    ? booking.settlement
+    : getSettlement(booking, booking.actual_dropoff_time ? new Date(booking.actual_dropoff_time) : new Date());
+
+  const addPhoto = async (angle: string, source: 'camera' | 'library') => {
+    try {
+      const image = await pickInspectionImage(source);
+      if (!image) return;
+
+      setUploadingAngle(angle);
+      const photo = await uploadInspectionPhoto(booking.id, 'return', angle, image);
+      const urls = await getInspectionPhotoUrls([photo]);
+      setPhotos(current => [...current, photo]);
+      setPhotoUrls(current => ({ ...current, ...urls }));
+    } catch (error: any) {
+      console.error('Error adding inspection photo:', error);
+      Alert.alert('Error', error.message || 'Failed to upload photo');
+    } finally {
+      setUploadingAngle(null);
+    }
+  };
+
+  const handleAddPhoto = (angle: string) => {
+    Alert.alert('Add Photo', 'Choose how to add the photo', [
+      { text: 'Camera', onPress: () => addPhoto(angle, 'camera') },
+      { text: 'Library', onPress: () => addPhoto(angle, 'library') },
+      { text: 'Cancel', style: 'cancel' },
+    ]);
+  };
+
+  const handleRemovePhoto = (photo: InspectionPhoto) => {
+    Alert.alert('Remove Photo', 'Remove this photo from the return inspection?', [
+      { text: 'Back', style: 'cancel' },
+      {
+        text: 'Remove',
+        style: 'destructive',
+        onPress: async () => {
+          try {
+            await deleteInspectionPhoto(photo);
+            setPhotos(current => current.filter(p => p.id !== photo.id));
+          } catch (error) {
+            console.error('Error removing inspection photo:', error);
+            Alert.alert('Error', 'Failed to remove photo');
+          }
+        },
+      },
+    ]);
+  };
+
+  const addDamagePhoto = async (source: 'camera' | 'library') => {
+    try {
+      const image = await pickInspectionImage(source);
+      if (image) {
+        setDraft(current => ({ ...current, photos: [...current.photos, image] }));
+      }
+    } catch (error: any) {
+      console.error('Error adding damage photo:', error);
+      Alert.alert('Error', error.message || 'Failed to add photo');
+    }
+  };
+
+  const handleAddDamagePhoto = () => {
+    Alert.alert('Add Photo', 'Choose how to add the photo', [
+      { text: 'Camera', onPress: () => addDamagePhoto('camera') },
+      { text: 'Library', onPress: () => addDamagePhoto('library') },
+      { text: 'Cancel', style: 'cancel' },
+    ]);
+  };
+
+  const handleSelectZone = (zone: string) => {
+    setSelectedZone(current => (current === zone ? null : zone));
+    setDraft(EMPTY_DRAFT);
+  };
+
+  const handleSaveDamage = async () => {
+    if (!selectedZone) return;
+
+    if (!draft.description.trim()) {
+      Alert.alert('Error', 'Please describe the damage');
+      return;
+    }
+    if (draft.repairCost.trim() && !(Number(draft.repairCost) >= 0)) {
+      Alert.alert('Error', 'Repair cost must be zero or more');
+      return;
+    }
+    if (draft.photos.length === 0) {
+      Alert.alert('Error', 'Add at least one photo of the damage');
+      return;
+    }
+
+    setSavingDamage(true);
+    try {
+      const record = await recordDamage(booking, {
+        zone: selectedZone,
+        severity: draft.severity,
+        description: draft.description.trim(),
+        repair_cost: Number(draft.repairCost) || 0,
+        photos: draft.photos,
+      });
+      const urls = await getInspectionPhotoUrls(record.inspection_photos);
+
+      setDamage(current => [...current, record]);
+      setPhotoUrls(current => ({ ...current, ...urls }));
+      setSelectedZone(null);
+      setDraft(EMPTY_DRAFT);
+    } catch (error: any) {
+      console.error('Error recording damage:', error);
+      Alert.alert('Error', error.message || 'Failed to record damage');
+    } finally {
+      setSavingDamage(false);
+    }
+  };
+
+  const handleRemoveDamage = (record: DamageRecord) => {
+    Alert.alert('Remove Damage', `Remove the ${getZoneLabel(record.zone).toLowerCase()} damage and its photos?`, [
+      { text: 'Back', style: 'cancel' },
+      {
+        text: 'Remove',
+        style: 'destructive',
+        onPress: async () => {
+          try {
+            await deleteDamageRecord(record);
+            setDamage(current => current.filter(d => d.id !== record.id));
+          } catch (error) {
+            console.error('Error removing damage:', error);
+            Alert.alert('Error', 'Failed to remove damage');
+          }
+        },
+      },
+    ]);
+  };
+
+  const validate = () => {
+    const fuel = Number(fuelLevel);
+    if (!fuelLevel.trim() || !Number.isInteger(fuel) || fuel < 0 || fuel > 100) {
+      Alert.alert('Error', 'Fuel level must be a whole number between 0 and 100');
+      return false;
+    }
+
+    const odometer = Number(mileage);
+    if (!mileage.trim() || !Number.isInteger(odometer) || odometer < 0) {
+      Alert.alert('Error', 'Please enter the odometer reading');
+      return false;
+    }
+    if (booking.mileage_start != null && odometer < booking.mileage_start) {
+      Alert.alert('Error', `Odometer cannot be lower than at pickup (${booking.mileage_start} mi)`);
+      return false;
+    }
+
+    if (missingAngles.length > 0) {
+      Alert.alert('Error', `Photos still needed: ${missingAngles.map(angle => angle.label).join(', ')}`);
+      return false;
+    }
+    if (selectedZone) {
+      Alert.alert('Error', `Save or discard the ${getZoneLabel(selectedZone).toLowerCase()} damage first`);
+      return false;
+    }
+
+    return true;
+  };
+
+  const completeReturn = async () => {
+    if (!rates) {
+      Alert.alert('Error', 'Return charge rates are not loaded. Pull to refresh and try again.');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const { data: returned, error } = await supabase
+        .from('bookings')
+        .update({
+          fuel_level_dropoff: Number(fuelLevel),
+          mileage_end: Number(mileage),
+          damage_report: formatDamageReport(damage),
+          // Kept from an earlier attempt that failed part-way
+          actual_dropoff_time: booking.actual_dropoff_time || new Date().toISOString(),
+          updated_at: new Date().toISOString(),
+        })
+        .eq('id', booking.id)
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      // Charged on the recorded drop-off time rather than the preview's. An
+      // earlier attempt that got as far as saving the breakdown is finished
+      // from that breakdown.
+      const final = returned.settlement_status !== 'none' && returned.settlement
+        ? returned.settlement
+        : getSettlement(returned, new Date(returned.actual_dropoff_time));
+      const settled = await settleRental(returned, final);
+      await updateBookingStatus(booking.id, 'complete');
+
+      Alert.alert(
+        'Return Completed',
+        settled.settlement_status === 'failed'
+          ? `The $${final.toCard.toFixed(2)} balance could not be charged to the customer's card. Retry the charge from Bookings.`
+          : final.toCard > 0
+            ? `The booking is completed and $${final.toCard.toFixed(2)} above the deposit was charged to the customer's card.`
+            : 'The booking is completed and the deposit has been settled.',
+        [{ text: 'OK', onPress: () => router.back() }]
+      );
+    } catch (error: any) {
+      console.error('Error completing return:', error);
+      Alert.alert('Error', error.message || 'Failed to complete return');
+      loadBooking();
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleComplete = () => {
+    if (!validate()) return;
+
+    const depositLine = booking.deposit_status !== 'held'
+      ? ''
+      : settlement.fromDeposit > 0
+        ? `\n\n$${settlement.fromDeposit.toFixed(2)} of the deposit will be captured and $${(booking.deposit_amount - settlement.fromDeposit).toFixed(2)} released.`
+        : `\n\nThe $${booking.deposit_amount.toFixed(2)} deposit will be released in full.`;
+    const cardLine = settlement.toCard > 0
+      ? `\n\n$${settlement.toCard.toFixed(2)} will be charged to the customer's card.`
+      : '';
+
+    Alert.alert(
+      'Complete Return',
+      `Record the return of ${booking.vehicles.name}?${depositLine}${cardLine}`,
+      [
+        { text: 'Back', style: 'cancel' },
+        { text: 'Complete', onPress: completeReturn },
+      ]
+    );
+  };
+
+  const renderThumbnail = (photo: InspectionPhoto | undefined, onLongPress?: () => void) => {
+    if (!photo) {
+      return <View style={[styles.thumbnail, styles.emptyThumbnail]} />;
+    }
+
+    return (
+      <TouchableOpacity onLongPress={onLongPress} disabled={!onLongPress}>
+        {photoUrls[photo.id] ? (
+          <Image source={{ uri: photoUrls[photo.id] }} style={styles.thumbnail} resizeMode="cover" />
+        ) : (
+          <View style={styles.thumbnail} />
+        )}
+        <Text style={styles.thumbnailTime}>{formatTime(photo.taken_at)}</Text>
+      </TouchableOpacity>
+    );
+  };
+
+  // Pickup and return photos of the same angle side by side
+  const renderComparisonRow = (angle: typeof INSPECTION_ANGLES[number]) => {
+    const pickupPhoto = walkAroundPhotos.filter(photo => photo.stage === 'pickup' && photo.angle === angle.key).pop();
+    const returnPhoto = walkAroundPhotos.filter(photo => photo.stage === 'return' && photo.angle === angle.key).pop();
+    const uploading = uploadingAngle === angle.key;
+
+    return (
+      <View key={angle.key} style={styles.comparisonRow}>
+        <Text style={styles.angleLabel}>
+          {angle.label}
+          {angle.required && <Text style={styles.requiredMark}> *</Text>}
+        </Text>
+        <View style={styles.comparisonCell}>{renderThumbnail(pickupPhoto)}</View>
+        <View style={styles.comparisonCell}>
+          {returnPhoto ? (
+            renderThumbnail(returnPhoto, isActive ? () => handleRemovePhoto(returnPhoto) : undefined)
+          ) : (
+            <TouchableOpacity
+              style={[styles.thumbnail, styles.addThumbnail]}
+              onPress={() => handleAddPhoto(angle.key)}
+              disabled={!isActive || uploadingAngle !== null}
+            >
+              {uploading ? (
+                <ActivityIndicator size="small" color="#ff6b35" />
+              ) : (
+                <Ionicons name="camera-outline" size={24} color={isActive ? '#ff6b35' : '#ccc'} />
+              )}
+            </TouchableOpacity>
+          )}
+        </View>
+      </View>
+    );
+  };
+
+  // A render function rather than an inner component so the damage inputs
+  // keep focus while typing
+  const renderDamageForm = () => {
+    if (!selectedZone) return null;
+
+    return (
+      <View style={styles.damageForm}>
+        <Text style={styles.damageFormTitle}>{getZoneLabel(selectedZone)}</Text>
+        <Text style={styles.label}>Severity</Text>
+        <View style={styles.severityRow}>
+          {DAMAGE_SEVERITIES.map(severity => (
+            <TouchableOpacity
+              key={severity}
+              style={[styles.severityChip, draft.severity === severity && styles.severityChipActive]}
+              onPress={() => setDraft(current => ({ ...current, severity }))}
+            >
+              <Text style={[styles.severityChipText, draft.severity === severity && styles.severityChipTextActive]}>
+                {DAMAGE_SEVERITY_LABELS[severity]}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+        <Text style={styles.label}>Description</Text>
+        <TextInput
+          style={[styles.input, styles.textArea]}
+          value={draft.description}
+          onChangeText={(text) => setDraft(current => ({ ...current, description: text }))}
+          placeholder="e.g. 10cm scratch above the wheel arch"
+          multiline
+        />
+        <Text style={styles.label}>Repair cost ($)</Text>
+        <TextInput
+          style={styles.input}
+          value={draft.repairCost}
+          onChangeText={(text) => setDraft(current => ({ ...current, repairCost: text }))}
+          placeholder="0"
+          keyboardType="decimal-pad"
+        />
+        <Text style={styles.label}>Photos</Text>
+        <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.draftPhotos}>
+          {draft.photos.map((image, index) => (
+            <TouchableOpacity
+              key={index}
+              onLongPress={() => setDraft(current => ({
+                ...current,
+                photos: current.photos.filter((_, i) => i !== index),
+              }))}
+            >
+              <Image
+                source={{ uri: `data:${image.mimeType || 'image/jpeg'};base64,${image.base64}` }}
+                style={[styles.thumbnail, styles.draftPhoto]}
+                resizeMode="cover"
+              />
+            </TouchableOpacity>
+          ))}
+          <TouchableOpacity style={[styles.thumbnail, styles.addThumbnail]} onPress={handleAddDamagePhoto}>
+            <Ionicons name="camera-outline" size={24} color="#ff6b35" />
+          </TouchableOpacity>
+        </ScrollView>
+        <View style={styles.damageFormButtons}>
+          <TouchableOpacity style={styles.secondaryButton} onPress={() => setSelectedZone(null)}>
+            <Text style={styles.secondaryButtonText}>Discard</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={[styles.primaryButton, savingDamage && styles.completeButtonDisabled]}
+            onPress={handleSaveDamage}
+            disabled={savingDamage}
+          >
+            <Text style={styles.primaryButtonText}>{savingDamage ? 'Saving...' : 'Save Damage'}</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.backButton} onPress={() => router.back()}>
+          <Ionicons name="arrow-back" size={24} color="#333" />
+        </TouchableOpacity>
+        <Text style={styles.title}>Vehicle Return</Text>
+        <View style={styles.placeholder} />
+      </View>
+
+      <KeyboardAvoidingView
+        behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+        style={styles.keyboardView}
+      >
+        <ScrollView
+          style={styles.content}
+          keyboardShouldPersistTaps="handled"
+          refreshControl={<RefreshControl refreshing={refreshing} onRefresh={onRefresh} />}
+        >
+          <View style={styles.card}>
+            <Text style={styles.vehicleName}>{booking.vehicles.name}</Text>
+            {booking.vehicles.license_plate && (
+              <Text style={styles.mutedText}>{booking.vehicles.license_plate}</Text>
+            )}
+            <View style={styles.readingRow}>
+              <Text style={styles.readingLabel}>Fuel at pickup</Text>
+              <Text style={styles.readingValue}>
+                {booking.fuel_level_pickup != null ? `${booking.fuel_level_pickup}%` : 'Not recorded'}
+              </Text>
+            </View>
+            <View style={styles.readingRow}>
+              <Text style={styles.readingLabel}>Odometer at pickup</Text>
+              <Text style={styles.readingValue}>
+                {booking.mileage_start != null ? `${booking.mileage_start.toLocaleString()} mi` : 'Not recorded'}
+              </Text>
+            </View>
+            <View style={styles.readingRow}>
+              <Text style={styles.readingLabel}>{booking.protection_plans?.name || 'No protection plan'}</Text>
+              <Text style={styles.readingValue}>{formatDeductible(booking.protection_deductible)}</Text>
+            </View>
+            <TouchableOpacity
+              style={styles.historyLink}
+              onPress={() => router.push(`/admin/damage/${booking.vehicle_id}`)}
+            >
+              <Ionicons name="time-outline" size={16} color="#ff6b35" />
+              <Text style={styles.historyLinkText}>Damage history</Text>
+            </TouchableOpacity>
+          </View>
+
+          <View style={styles.card}>
+            <Text style={styles.cardTitle}>Walk-around Photos</Text>
+            <View style={styles.comparisonHeader}>
+              <Text style={styles.comparisonHeading}>Pickup</Text>
+              <Text style={styles.comparisonHeading}>Return</Text>
+            </View>
+            {INSPECTION_ANGLES.map(renderComparisonRow)}
+            {isActive && (
+              <Text style={styles.hintText}>Long-press a return photo to remove it.</Text>
+            )}
+          </View>
+
+          <View style={styles.card}>
+            <Text style={styles.cardTitle}>Damage</Text>
+            {isActive && (
+              <Text style={styles.hintText}>Tap the area of the vehicle where you found new damage.</Text>
+            )}
+            <VehicleDiagram
+              marks={getDamageMarks(damage)}
+              previousZones={previousZones}
+              selectedZone={selectedZone}
+              onSelectZone={isActive ? handleSelectZone : undefined}
+            />
+            {renderDamageForm()}
+
+            {damage.length === 0 ? (
+              <Text style={styles.noDamageText}>No new damage recorded</Text>
+            ) : (
+              damage.map(record => (
+                <View key={record.id} style={styles.damageItem}>
+                  <View style={styles.damageItemHeader}>
+                    <View style={styles.damageItemInfo}>
+                      <Text style={styles.damageZone}>
+                        {getZoneLabel(record.zone)} • {DAMAGE_SEVERITY_LABELS[record.severity]}
+                      </Text>
+                      <Text style={styles.mutedText}>{record.description}</Text>
+                    </View>
+                    <Text style={styles.readingValue}>${record.repair_cost.toFixed(2)}</Text>
+                    {isActive && (
+                      <TouchableOpacity style={styles.removeButton} onPress={() => handleRemoveDamage(record)}>
+                        <Ionicons name="trash-outline" size={18} color="#dc3545" />
+                      </TouchableOpacity>
+                    )}
+                  </View>
+                  <InspectionPhotoStrip photos={record.inspection_photos} urls={photoUrls} />
+                </View>
+              ))
+            )}
+          </View>
+
+          <View style={styles.card}>
+            <Text style={styles.cardTitle}>Return Condition</Text>
+            <Text style={styles.label}>Fuel level (%)</Text>
+            <TextInput
+              style={styles.input}
+              value={fuelLevel}
+              onChangeText={setFuelLevel}
+              placeholder="0 - 100"
+              keyboardType="numeric"
+              maxLength={3}
+              editable={isActive}
+            />
+            <Text style={styles.label}>Odometer (mi)</Text>
+            <TextInput
+              style={styles.input}
+              value={mileage}
+              onChangeText={setMileage}
+              placeholder="Current reading"
+              keyboardType="numeric"
+              editable={isActive}
+            />
+            {booking.actual_dropoff_time && (
+              <View style={styles.readingRow}>
+                <Text style={styles.readingLabel}>Returned</Text>
+                <Text style={styles.readingValue}>{new Date(booking.actual_dropoff_time).toLocaleString()}</Text>
+              </View>
+            )}
+          </View>
+
+          <View style={styles.card}>
+            <View style={styles.depositHeader}>
+              <Text style={styles.cardTitle}>Return Charges</Text>
+              <Text style={styles.depositStatus}>{SETTLEMENT_STATUS_LABELS[booking.settlement_status]}</Text>
+            </View>
+            {settlement.items.length === 0 ? (
+              <Text style={styles.mutedText}>No charges</Text>
+            ) : (
+              settlement.items.map(item => (
+                <View key={item.type} style={styles.readingRow}>
+                  <Text style={styles.readingLabel}>{item.label}</Text>
+                  <Text style={[styles.readingValue, styles.deductionText]}>${item.amount.toFixed(2)}</Text>
+                </View>
+              ))
+            )}
+            <View style={[styles.readingRow, styles.totalRow]}>
+              <Text style={styles.totalLabel}>Total</Text>
+              <Text style={styles.totalValue}>${settlement.total.toFixed(2)}</Text>
+            </View>
+            <View style={styles.readingRow}>
+              <Text style={styles.readingLabel}>From deposit</Text>
+              <Text style={styles.readingValue}>${settlement.fromDeposit.toFixed(2)}</Text>
+            </View>
+            <View style={styles.readingRow}>
+              <Text style={styles.readingLabel}>To card</Text>
+              <Text style={styles.readingValue}>${settlement.toCard.toFixed(2)}</Text>
+            </View>
+            {isActive && !booking.payment_method_id && settlement.toCard > 0 && (
+              <Text style={styles.warningText}>
+                This booking has no card on file. Collect the balance from the customer.
+              </Text>
+            )}
+          </View>
+
+          <View style={styles.card}>
+            <View style={styles.depositHeader}>
+              <Text style={styles.cardTitle}>Security Deposit</Text>
+              <Text style={styles.depositStatus}>{DEPOSIT_STATUS_LABELS[booking.deposit_status]}</Text>
+            </View>
+            <View style={styles.readingRow}>
+              <Text style={styles.readingLabel}>Deposit</Text>
+              <Text style={styles.readingValue}>${booking.deposit_amount.toFixed(2)}</Text>
+            </View>
+
+            {transactions.length > 0 && (
+              <>
+                <Text style={styles.ledgerTitle}>History</Text>
+                {transactions.map(transaction => (
+                  <View key={transaction.id} style={styles.ledgerRow}>
+                    <View style={styles.ledgerInfo}>
+                      <Text style={styles.ledgerType}>{transaction.type.toUpperCase()}</Text>
+                      {transaction.reason && <Text style={styles.mutedText}>{transaction.reason}</Text>}
+                      <Text style={styles.mutedText}>{new Date(transaction.created_at).toLocaleString()}</Text>
+                    </View>
+                    <Text style={styles.readingValue}>${transaction.amount.toFixed(2)}</Text>
+                  </View>
+                ))}
+              </>
+            )}
+          </View>
+
+          {isActive && (
+            <TouchableOpacity
+              style={[styles.completeButton, saving && styles.completeButtonDisabled]}
+              onPress={handleComplete}
+              disabled={saving || uploadingAngle !== null || savingDamage}
+            >
+              <Text style={styles.completeButtonText}>
+                {saving ? 'Completing...' : 'Complete Return'}
+              </Text>
+            </TouchableOpacity>
+          )}
+        </ScrollView>
+      </KeyboardAvoidingView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8f9fa',
+  },
+  keyboardView: {
+    flex: 1,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  emptyText: {
+    fontSize: 16,
+    color: '#666',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingVertical: 15,
+    backgroundColor: '#fff',
+    borderBottomWidth: 1,
+    borderBottomColor: '#e9ecef',
+  },
+  backButton: {
+    padding: 5,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#333',
+  },
+  placeholder: {
+    width: 34,
+  },
+  content: {
+    flex: 1,
+    padding: 20,
+  },
+  card: {
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 16,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.05,
+    shadowRadius: 4,
+    elevation: 2,
+  },
+  cardTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+    marginBottom: 12,
+  },
+  vehicleName: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#333',
+  },
+  mutedText: {
+    fontSize: 12,
+    color: '#666',
+    marginTop: 2,
+  },
+  hintText: {
+    fontSize: 13,
+    color: '#666',
+    marginBottom: 12,
+  },
+  readingRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginTop: 8,
+  },
+  readingLabel: {
+    flex: 1,
+    fontSize: 14,
+    color: '#666',
+  },
+  readingValue: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#333',
+  },
+  historyLink: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 12,
+  },
+  historyLinkText: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#ff6b35',
+    marginLeft: 4,
+  },
+  comparisonHeader: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+  },
+  comparisonHeading: {
+    width: 96,
+    marginLeft: 10,
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#999',
+  },
+  comparisonRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    borderTopWidth: 1,
+    borderTopColor: '#f1f3f5',
+    paddingVertical: 10,
+  },
+  comparisonCell: {
+    marginLeft: 10,
+  },
+  angleLabel: {
+    flex: 1,
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#333',
+  },
+  requiredMark: {
+    color: '#dc3545',
+  },
+  thumbnail: {
+    width: 96,
+    height: 72,
+    borderRadius: 8,
+    backgroundColor: '#f1f3f5',
+  },
+  emptyThumbnail: {
+    borderWidth: 1,
+    borderColor: '#e9ecef',
+    borderStyle: 'dashed',
+  },
+  addThumbnail: {
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: '#fff5f0',
+  },
+  thumbnailTime: {
+    fontSize: 11,
+    color: '#999',
+    marginTop: 2,
+  },
+  damageForm: {
+    borderTopWidth: 1,
+    borderTopColor: '#f1f3f5',
+    marginTop: 16,
+    paddingTop: 16,
+  },
+  damageFormTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#333',
+    marginBottom: 12,
+  },
+  severityRow: {
+    flexDirection: 'row',
+    marginHorizontal: -4,
+    marginBottom: 12,
+  },
+  severityChip: {
+    flex: 1,
+    marginHorizontal: 4,
+    paddingVertical: 8,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#ddd',
+    alignItems: 'center',
+  },
+  severityChipActive: {
+    borderColor: '#ff6b35',
+    backgroundColor: '#fff5f0',
+  },
+  severityChipText: {
+    fontSize: 14,
+    color: '#666',
+  },
+  severityChipTextActive: {
+    color: '#ff6b35',
+    fontWeight: '600',
+  },
+  draftPhotos: {
+    marginBottom: 12,
+  },
+  draftPhoto: {
+    marginRight: 10,
+  },
+  damageFormButtons: {
+    flexDirection: 'row',
+  },
+  primaryButton: {
+    flex: 1,
+    backgroundColor: '#ff6b35',
+    borderRadius: 8,
+    paddingVertical: 10,
+    alignItems: 'center',
+  },
+  primaryButtonText: {
+    color: '#fff',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  secondaryButton: {
+    flex: 1,
+    marginRight: 10,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#ddd',
+    paddingVertical: 10,
+    alignItems: 'center',
+  },
+  secondaryButtonText: {
+    color: '#666',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  noDamageText: {
+    fontSize: 14,
+    color: '#999',
+    textAlign: 'center',
+    marginTop: 12,
+  },
+  damageItem: {
+    borderTopWidth: 1,
+    borderTopColor: '#f1f3f5',
+    marginTop: 12,
+    paddingTop: 12,
+  },
+  damageItemHeader: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    marginBottom: 8,
+  },
+  damageItemInfo: {
+    flex: 1,
+    marginRight: 12,
+  },
+  damageZone: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#333',
+  },
+  removeButton: {
+    padding: 4,
+    marginLeft: 8,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#333',
+    marginBottom: 6,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+    marginBottom: 12,
+    backgroundColor: '#f8f9fa',
+  },
+  textArea: {
+    height: 90,
+    textAlignVertical: 'top',
+  },
+  depositHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'flex-start',
+  },
+  depositStatus: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#6f42c1',
+  },
+  deductionText: {
+    color: '#dc3545',
+  },
+  totalRow: {
+    borderTopWidth: 1,
+    borderTopColor: '#e9ecef',
+    paddingTop: 8,
+  },
+  totalLabel: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#333',
+  },
+  totalValue: {
+    fontSize: 15,
+    fontWeight: 'bold',
+    color: '#ff6b35',
+  },
+  warningText: {
+    fontSize: 12,
+    color: '#dc3545',
+    marginTop: 8,
+  },
+  ledgerTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#333',
+    marginTop: 16,
+  },
+  ledgerRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'flex-start',
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f1f3f5',
+  },
+  ledgerInfo: {
+    flex: 1,
+    marginRight: 12,
+  },
+  ledgerType: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#333',
+  },
+  completeButton: {
+    backgroundColor: '#ff6b35',
+    borderRadius: 12,
+    paddingVertical: 16,
+    alignItems: 'center',
+    marginBottom: 40,
+  },
+  completeButtonDisabled: {
+    opacity: 0.6,
+  },
+  completeButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
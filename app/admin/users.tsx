@@ -0,0 +1,552 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  TextInput,
+  Image,
+  Alert,
+  RefreshControl,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { router } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import { supabase } from '@/lib/supabase';
+import { getCurrentUser } from '@/lib/auth';
+import { ROLES, ROLE_LABELS, Role, hasPermission } from '@/lib/permissions';
+import { RevenueBooking, getBookingRevenue } from '@/lib/settlement';
+
+interface Profile {
+  id: string;
+  email: string;
+  full_name: string | null;
+  avatar_url: string | null;
+  phone: string | null;
+  role: Role;
+  created_at: string;
+}
+
+interface Booking {
+  id: string;
+  user_id: string;
+  start_date: string;
+  end_date: string;
+  total_price: number;
+  status: string;
+  payment_status: string;
+  amount_charged: number;
+  refunded_amount: number;
+  settlement_charged: number;
+  deposit_transactions: RevenueBooking['deposit_transactions'];
+  vehicles: {
+    name: string;
+  };
+}
+
+export default function AdminUsersScreen() {
+  const [profiles, setProfiles] = useState<Profile[]>([]);
+  const [bookingsByUser, setBookingsByUser] = useState<Record<string, Booking[]>>({});
+  const [currentUserId, setCurrentUserId] = useState<string | null>(null);
+  const [canManageRoles, setCanManageRoles] = useState(false);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+
+  useEffect(() => {
+    fetchUsers();
+  }, []);
+
+  const fetchUsers = async () => {
+    try {
+      const currentUser = await getCurrentUser();
+      setCurrentUserId(currentUser?.id || null);
+      setCanManageRoles(hasPermission(currentUser, 'manage_users'));
+
+      const { data: profileData, error: profileError } = await supabase
+        .from('profiles')
+        .select('id, email, full_name, avatar_url, phone, role, created_at')
+        .order('created_at', { ascending: false });
+
+      if (profileError) throw profileError;
+
+      const { data: bookingData, error: bookingError } = await supabase
+        .from('bookings')
+        .select(`
+          id,
+          user_id,
+          start_date,
+          end_date,
+          total_price,
+          status,
+          payment_status,
+          amount_charged,
+          refunded_amount,
+          settlement_charged,
+          deposit_transactions (
+            type,
+            amount
+          ),
+          vehicles (
+            name
+          )
+        `)
+        .order('start_date', { ascending: false });
+
+      if (bookingError) throw bookingError;
+
+      const grouped: Record<string, Booking[]> = {};
+      (bookingData || []).forEach((booking: any) => {
+        if (!booking.user_id) return;
+        grouped[booking.user_id] = [...(grouped[booking.user_id] || []), booking];
+      });
+
+      setProfiles(profileData || []);
+      setBookingsByUser(grouped);
+    } catch (error) {
+      console.error('Error fetching users:', error);
+      Alert.alert('Error', 'Failed to load users');
+    } finally {
+      setLoading(false);
+      setRefreshing(false);
+    }
+  };
+
+  const onRefresh = () => {
+    setRefreshing(true);
+    fetchUsers();
+  };
+
+  // Lifetime spend is money actually kept after refunds, matching the dashboard revenue figure
+  const getLifetimeSpend = (userId: string) => {
+    return (bookingsByUser[userId] || [])
+      .reduce((sum, booking) => sum + getBookingRevenue(booking), 0);
+  };
+
+  const changeRole = (profile: Profile, role: Role) => {
+    if (role === profile.role) return;
+
+    Alert.alert(
+      'Change Role',
+      `Change ${profile.full_name || profile.email} from ${ROLE_LABELS[profile.role]} to ${ROLE_LABELS[role]}?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Change',
+          onPress: async () => {
+            try {
+              const { error } = await supabase
+                .from('profiles')
+                .update({ role, updated_at: new Date().toISOString() })
+                .eq('id', profile.id);
+
+              if (error) throw error;
+
+              setProfiles(current => current.map(p =>
+                p.id === profile.id ? { ...p, role } : p
+              ));
+            } catch (error: any) {
+              console.error('Error updating role:', error);
+              Alert.alert('Error', error.message || 'Failed to update role');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const filteredProfiles = profiles.filter(profile => {
+    if (!searchQuery.trim()) return true;
+    const query = searchQuery.toLowerCase();
+    return (
+      profile.email.toLowerCase().includes(query) ||
+      (profile.full_name || '').toLowerCase().includes(query) ||
+      (profile.phone || '').includes(query)
+    );
+  });
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleDateString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      year: 'numeric',
+    });
+  };
+
+  const getStatusColor = (status: string) => {
+    switch (status) {
+      case 'confirmed':
+        return '#28a745';
+      case 'active':
+        return '#007bff';
+      case 'completed':
+        return '#6c757d';
+      case 'cancelled':
+        return '#dc3545';
+      default:
+        return '#ffc107';
+    }
+  };
+
+  const UserCard = ({ profile }: { profile: Profile }) => {
+    const bookings = bookingsByUser[profile.id] || [];
+    const expanded = expandedId === profile.id;
+    const isSelf = profile.id === currentUserId;
+
+    return (
+      <View style={styles.userCard}>
+        <TouchableOpacity
+          style={styles.userHeader}
+          onPress={() => setExpandedId(expanded ? null : profile.id)}
+        >
+          {profile.avatar_url ? (
+            <Image source={{ uri: profile.avatar_url }} style={styles.avatar} />
+          ) : (
+            <View style={[styles.avatar, styles.avatarPlaceholder]}>
+              <Ionicons name="person" size={20} color="#999" />
+            </View>
+          )}
+          <View style={styles.userInfo}>
+            <View style={styles.nameRow}>
+              <Text style={styles.userName}>{profile.full_name || 'Unnamed user'}</Text>
+              {profile.role !== 'customer' && (
+                <View style={styles.roleBadge}>
+                  <Text style={styles.roleBadgeText}>{ROLE_LABELS[profile.role]}</Text>
+                </View>
+              )}
+            </View>
+            <Text style={styles.userEmail}>{profile.email}</Text>
+            <Text style={styles.userMeta}>
+              {bookings.length} booking{bookings.length !== 1 ? 's' : ''} • ${getLifetimeSpend(profile.id).toFixed(2)} spent
+            </Text>
+          </View>
+          <Ionicons name={expanded ? 'chevron-up' : 'chevron-down'} size={20} color="#666" />
+        </TouchableOpacity>
+
+        {expanded && (
+          <View style={styles.userDetails}>
+            <View style={styles.detailRow}>
+              <Text style={styles.detailLabel}>Joined</Text>
+              <Text style={styles.detailValue}>{formatDate(profile.created_at)}</Text>
+            </View>
+            {profile.phone && (
+              <View style={styles.detailRow}>
+                <Text style={styles.detailLabel}>Phone</Text>
+                <Text style={styles.detailValue}>{profile.phone}</Text>
+              </View>
+            )}
+            <View style={styles.detailRow}>
+              <Text style={styles.detailLabel}>Lifetime spend</Text>
+              <Text style={styles.spendValue}>${getLifetimeSpend(profile.id).toFixed(2)}</Text>
+            </View>
+
+            <Text style={styles.historyTitle}>Booking History</Text>
+            {bookings.length === 0 ? (
+              <Text style={styles.emptyHistory}>No bookings yet</Text>
+            ) : (
+              bookings.map((booking) => (
+                <View key={booking.id} style={styles.historyItem}>
+                  <View style={styles.historyInfo}>
+                    <Text style={styles.historyVehicle}>{booking.vehicles?.name}</Text>
+                    <Text style={styles.historyDates}>
+                      {formatDate(booking.start_date)} - {formatDate(booking.end_date)}
+                    </Text>
+                  </View>
+                  <View style={styles.historyRight}>
+                    <Text style={styles.historyPrice}>${booking.total_price.toFixed(2)}</Text>
+                    <Text style={[styles.historyStatus, { color: getStatusColor(booking.status) }]}>
+                      {booking.status}
+                    </Text>
+                  </View>
+                </View>
+              ))
+            )}
+
+            {canManageRoles && !isSelf && (
+              <>
+                <Text style={styles.historyTitle}>Role</Text>
+                <View style={styles.roleRow}>
+                  {ROLES.map((role) => (
+                    <TouchableOpacity
+                      key={role}
+                      style={[styles.roleChip, profile.role === role && styles.roleChipSelected]}
+                      onPress={() => changeRole(profile, role)}
+                    >
+                      <Text style={[styles.roleChipText, profile.role === role && styles.roleChipTextSelected]}>
+                        {ROLE_LABELS[role]}
+                      </Text>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+              </>
+            )}
+          </View>
+        )}
+      </View>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.backButton} onPress={() => router.back()}>
+          <Ionicons name="arrow-back" size={24} color="#333" />
+        </TouchableOpacity>
+        <Text style={styles.title}>Users</Text>
+        <View style={styles.placeholder} />
+      </View>
+
+      <View style={styles.searchContainer}>
+        <View style={styles.searchBar}>
+          <Ionicons name="search-outline" size={20} color="#666" />
+          <TextInput
+            style={styles.searchInput}
+            placeholder="Search by name, email or phone"
+            value={searchQuery}
+            onChangeText={setSearchQuery}
+            autoCapitalize="none"
+          />
+        </View>
+      </View>
+
+      <ScrollView
+        style={styles.content}
+        refreshControl={<RefreshControl refreshing={refreshing} onRefresh={onRefresh} />}
+      >
+        {loading ? (
+          <Text style={styles.emptyText}>Loading users...</Text>
+        ) : filteredProfiles.length === 0 ? (
+          <View style={styles.emptyState}>
+            <Ionicons name="people-outline" size={64} color="#ccc" />
+            <Text style={styles.emptyText}>No users found</Text>
+          </View>
+        ) : (
+          filteredProfiles.map((profile) => (
+            <UserCard key={profile.id} profile={profile} />
+          ))
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8f9fa',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingVertical: 15,
+    backgroundColor: '#fff',
+    borderBottomWidth: 1,
+    borderBottomColor: '#e9ecef',
+  },
+  backButton: {
+    padding: 5,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#333',
+  },
+  placeholder: {
+    width: 34,
+  },
+  searchContainer: {
+    paddingHorizontal: 20,
+    paddingVertical: 12,
+    backgroundColor: '#fff',
+    borderBottomWidth: 1,
+    borderBottomColor: '#e9ecef',
+  },
+  searchBar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#f8f9fa',
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+  },
+  searchInput: {
+    flex: 1,
+    fontSize: 16,
+    marginLeft: 8,
+    color: '#333',
+  },
+  content: {
+    flex: 1,
+    padding: 20,
+  },
+  emptyState: {
+    alignItems: 'center',
+    paddingVertical: 60,
+  },
+  emptyText: {
+    fontSize: 16,
+    color: '#666',
+    marginTop: 16,
+    textAlign: 'center',
+  },
+  userCard: {
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    marginBottom: 12,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+  },
+  userHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 16,
+  },
+  avatar: {
+    width: 44,
+    height: 44,
+    borderRadius: 22,
+  },
+  avatarPlaceholder: {
+    backgroundColor: '#f0f0f0',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  userInfo: {
+    flex: 1,
+    marginLeft: 12,
+  },
+  nameRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  userName: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+    marginRight: 8,
+  },
+  roleBadge: {
+    backgroundColor: '#6f42c1',
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    borderRadius: 10,
+  },
+  roleBadgeText: {
+    color: '#fff',
+    fontSize: 11,
+    fontWeight: '600',
+  },
+  userEmail: {
+    fontSize: 13,
+    color: '#666',
+    marginTop: 2,
+  },
+  userMeta: {
+    fontSize: 12,
+    color: '#999',
+    marginTop: 4,
+  },
+  userDetails: {
+    borderTopWidth: 1,
+    borderTopColor: '#f0f0f0',
+    padding: 16,
+  },
+  detailRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginBottom: 8,
+  },
+  detailLabel: {
+    fontSize: 14,
+    color: '#666',
+  },
+  detailValue: {
+    fontSize: 14,
+    color: '#333',
+    fontWeight: '500',
+  },
+  spendValue: {
+    fontSize: 14,
+    color: '#20c997',
+    fontWeight: '700',
+  },
+  historyTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#333',
+    marginTop: 8,
+    marginBottom: 8,
+  },
+  emptyHistory: {
+    fontSize: 14,
+    color: '#999',
+    marginBottom: 8,
+  },
+  historyItem: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f0f0f0',
+  },
+  historyInfo: {
+    flex: 1,
+  },
+  historyVehicle: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#333',
+  },
+  historyDates: {
+    fontSize: 12,
+    color: '#666',
+    marginTop: 2,
+  },
+  historyRight: {
+    alignItems: 'flex-end',
+  },
+  historyPrice: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#333',
+  },
+  historyStatus: {
+    fontSize: 12,
+    fontWeight: '600',
+    textTransform: 'capitalize',
+    marginTop: 2,
+  },
+  roleRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  roleChip: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 20,
+    backgroundColor: '#f8f9fa',
+    borderWidth: 1,
+    borderColor: '#e9ecef',
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  roleChipSelected: {
+    backgroundColor: '#6f42c1',
+    borderColor: '#6f42c1',
+  },
+  roleChipText: {
+    fontSize: 14,
+    color: '#666',
+    fontWeight: '500',
+  },
+  roleChipTextSelected: {
+    color: '#fff',
+  },
+});
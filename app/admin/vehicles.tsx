@@ -0,0 +1,796 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  TextInput,
+  Image,
+  Alert,
+  Switch,
+  RefreshControl,
+  KeyboardAvoidingView,
+  Platform,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { router, useLocalSearchParams } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import { supabase } from '@/lib/supabase';
+import { getCurrentUser } from '@/lib/auth';
+import { hasPermission } from '@/lib/permissions';
+
+interface Vehicle {
+  id: string;
+  name: string;
+  type: string;
+  brand: string;
+  model: string;
+  year: number;
+  price_per_day: number;
+  deposit_amount: number;
+  passenger_capacity: number;
+  fuel_type: string;
+  transmission: string;
+  image_url: string | null;
+  description: string | null;
+  features: string[] | null;
+  location: string;
+  latitude: number | null;
+  longitude: number | null;
+  available: boolean;
+  rating: number;
+  total_reviews: number;
+  mileage: number | null;
+  license_plate: string | null;
+  vin: string | null;
+  insurance_policy: string | null;
+  last_maintenance: string | null;
+}
+
+interface VehicleForm {
+  name: string;
+  type: string;
+  brand: string;
+  model: string;
+  year: string;
+  price_per_day: string;
+  deposit_amount: string;
+  passenger_capacity: string;
+  fuel_type: string;
+  transmission: string;
+  image_url: string;
+  description: string;
+  features: string;
+  location: string;
+  latitude: string;
+  longitude: string;
+  available: boolean;
+  mileage: string;
+  license_plate: string;
+  vin: string;
+  insurance_policy: string;
+  last_maintenance: string;
+}
+
+const EMPTY_FORM: VehicleForm = {
+  name: '',
+  type: 'Sedan',
+  brand: '',
+  model: '',
+  year: `${new Date().getFullYear()}`,
+  price_per_day: '',
+  deposit_amount: '0',
+  passenger_capacity: '5',
+  fuel_type: 'Gasoline',
+  transmission: 'Automatic',
+  image_url: '',
+  description: '',
+  features: '',
+  location: '',
+  latitude: '',
+  longitude: '',
+  available: true,
+  mileage: '0',
+  license_plate: '',
+  vin: '',
+  insurance_policy: '',
+  last_maintenance: '',
+};
+
+const VEHICLE_TYPES = ['Sedan', 'SUV', 'Luxury', 'Electric', 'Truck'];
+const FUEL_TYPES = ['Gasoline', 'Diesel', 'Hybrid', 'Electric'];
+const TRANSMISSIONS = ['Automatic', 'Manual'];
+
+const toForm = (vehicle: Vehicle): VehicleForm => ({
+  name: vehicle.name,
+  type: vehicle.type,
+  brand: vehicle.brand,
+  model: vehicle.model,
+  year: `${vehicle.year}`,
+  price_per_day: `${vehicle.price_per_day}`,
+  deposit_amount: `${vehicle.deposit_amount ?? 0}`,
+  passenger_capacity: `${vehicle.passenger_capacity}`,
+  fuel_type: vehicle.fuel_type,
+  transmission: vehicle.transmission,
+  image_url: vehicle.image_url || '',
+  description: vehicle.description || '',
+  features: (vehicle.features || []).join(', '),
+  location: vehicle.location,
+  latitude: vehicle.latitude != null ? `${vehicle.latitude}` : '',
+  longitude: vehicle.longitude != null ? `${vehicle.longitude}` : '',
+  available: vehicle.available,
+  mileage: vehicle.mileage != null ? `${vehicle.mileage}` : '',
+  license_plate: vehicle.license_plate || '',
+  vin: vehicle.vin || '',
+  insurance_policy: vehicle.insurance_policy || '',
+  last_maintenance: vehicle.last_maintenance || '',
+});
+
+const optionalNumber = (value: string) => (value.trim() ? Number(value) : null);
+const optionalText = (value: string) => value.trim() || null;
+
+export default function AdminVehiclesScreen() {
+  const { action } = useLocalSearchParams<{ action?: string }>();
+  const [vehicles, setVehicles] = useState<Vehicle[]>([]);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [showForm, setShowForm] = useState(action === 'add');
+  const [form, setForm] = useState<VehicleForm>(EMPTY_FORM);
+  const [canManage, setCanManage] = useState(false);
+
+  useEffect(() => {
+    fetchVehicles();
+  }, []);
+
+  const fetchVehicles = async () => {
+    try {
+      const currentUser = await getCurrentUser();
+      setCanManage(hasPermission(currentUser, 'manage_vehicles'));
+
+      const { data, error } = await supabase
+        .from('vehicles')
+        .select('*')
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+
+      setVehicles(data || []);
+    } catch (error) {
+      console.error('Error fetching vehicles:', error);
+      Alert.alert('Error', 'Failed to load vehicles');
+    } finally {
+      setLoading(false);
+      setRefreshing(false);
+    }
+  };
+
+  const onRefresh = () => {
+    setRefreshing(true);
+    fetchVehicles();
+  };
+
+  const openAddForm = () => {
+    setEditingId(null);
+    setForm(EMPTY_FORM);
+    setShowForm(true);
+  };
+
+  const openEditForm = (vehicle: Vehicle) => {
+    setEditingId(vehicle.id);
+    setForm(toForm(vehicle));
+    setShowForm(true);
+  };
+
+  const closeForm = () => {
+    setShowForm(false);
+    setEditingId(null);
+    setForm(EMPTY_FORM);
+  };
+
+  const updateField = <K extends keyof VehicleForm>(key: K, value: VehicleForm[K]) => {
+    setForm(current => ({ ...current, [key]: value }));
+  };
+
+  const validateForm = () => {
+    const required: (keyof VehicleForm)[] = ['name', 'type', 'brand', 'model', 'year', 'price_per_day', 'location'];
+    if (required.some(key => !`${form[key]}`.trim())) {
+      return 'Please fill in name, type, brand, model, year, price and location';
+    }
+
+    const year = Number(form.year);
+    if (!Number.isInteger(year) || year < 1950 || year > new Date().getFullYear() + 1) {
+      return 'Please enter a valid model year';
+    }
+
+    if (!(Number(form.price_per_day) > 0)) {
+      return 'Price per day must be greater than zero';
+    }
+
+    if (form.deposit_amount.trim() && !(Number(form.deposit_amount) >= 0)) {
+      return 'Security deposit must be zero or more';
+    }
+
+    if (!Number.isInteger(Number(form.passenger_capacity)) || Number(form.passenger_capacity) < 1) {
+      return 'Passenger capacity must be a whole number';
+    }
+
+    if (form.mileage.trim() && (!Number.isInteger(Number(form.mileage)) || Number(form.mileage) < 0)) {
+      return 'Mileage must be a positive whole number';
+    }
+
+    const latitude = optionalNumber(form.latitude);
+    const longitude = optionalNumber(form.longitude);
+    if ((latitude === null) !== (longitude === null)) {
+      return 'Please enter both latitude and longitude, or neither';
+    }
+    if (latitude !== null && (isNaN(latitude) || latitude < -90 || latitude > 90)) {
+      return 'Latitude must be between -90 and 90';
+    }
+    if (longitude !== null && (isNaN(longitude) || longitude < -180 || longitude > 180)) {
+      return 'Longitude must be between -180 and 180';
+    }
+
+    if (form.vin.trim() && !/^[A-HJ-NPR-Z0-9]{17}$/i.test(form.vin.trim())) {
+      return 'VIN must be 17 characters (letters I, O and Q are not allowed)';
+    }
+
+    if (form.last_maintenance.trim() && isNaN(Date.parse(form.last_maintenance.trim()))) {
+      return 'Last maintenance must be a date in YYYY-MM-DD format';
+    }
+
+    return null;
+  };
+
+  const handleSave = async () => {
+    const validationError = validateForm();
+    if (validationError) {
+      Alert.alert('Error', validationError);
+      return;
+    }
+
+    const payload = {
+      name: form.name.trim(),
+      type: form.type.trim(),
+      brand: form.brand.trim(),
+      model: form.model.trim(),
+      year: Number(form.year),
+      price_per_day: Number(form.price_per_day),
+      deposit_amount: Number(form.deposit_amount) || 0,
+      passenger_capacity: Number(form.passenger_capacity),
+      fuel_type: form.fuel_type,
+      transmission: form.transmission,
+      image_url: optionalText(form.image_url),
+      description: optionalText(form.description),
+      features: form.features.split(',').map(f => f.trim()).filter(Boolean),
+      location: form.location.trim(),
+      latitude: optionalNumber(form.latitude),
+      longitude: optionalNumber(form.longitude),
+      available: form.available,
+      mileage: optionalNumber(form.mileage),
+      license_plate: optionalText(form.license_plate.toUpperCase()),
+      vin: optionalText(form.vin.toUpperCase()),
+      insurance_policy: optionalText(form.insurance_policy),
+      last_maintenance: optionalText(form.last_maintenance),
+      updated_at: new Date().toISOString(),
+    };
+
+    setSaving(true);
+    try {
+      if (editingId) {
+        const { error } = await supabase
+          .from('vehicles')
+          .update(payload)
+          .eq('id', editingId);
+
+        if (error) throw error;
+      } else {
+        const { error } = await supabase.from('vehicles').insert(payload);
+
+        if (error) throw error;
+      }
+
+      closeForm();
+      fetchVehicles();
+    } catch (error: any) {
+      console.error('Error saving vehicle:', error);
+      Alert.alert('Error', error.message || 'Failed to save vehicle');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = (vehicle: Vehicle) => {
+    Alert.alert(
+      'Delete Vehicle',
+      `Delete ${vehicle.name}? Its bookings, reviews and favorites will also be removed.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              const { error } = await supabase
+                .from('vehicles')
+                .delete()
+                .eq('id', vehicle.id);
+
+              if (error) throw error;
+
+              setVehicles(vehicles.filter(v => v.id !== vehicle.id));
+              if (editingId === vehicle.id) closeForm();
+            } catch (error) {
+              console.error('Error deleting vehicle:', error);
+              Alert.alert('Error', 'Failed to delete vehicle');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const filteredVehicles = vehicles.filter(vehicle => {
+    if (!searchQuery.trim()) return true;
+    const query = searchQuery.toLowerCase();
+    return (
+      vehicle.name.toLowerCase().includes(query) ||
+      vehicle.brand.toLowerCase().includes(query) ||
+      vehicle.model.toLowerCase().includes(query) ||
+      vehicle.location.toLowerCase().includes(query) ||
+      (vehicle.license_plate || '').toLowerCase().includes(query) ||
+      (vehicle.vin || '').toLowerCase().includes(query)
+    );
+  });
+
+  const renderField = ({
+    label,
+    field,
+    placeholder,
+    keyboardType = 'default',
+    multiline = false,
+  }: {
+    label: string;
+    field: keyof VehicleForm;
+    placeholder?: string;
+    keyboardType?: 'default' | 'numeric' | 'decimal-pad';
+    multiline?: boolean;
+  }) => (
+    <View key={field} style={styles.field}>
+      <Text style={styles.fieldLabel}>{label}</Text>
+      <TextInput
+        style={[styles.input, multiline && styles.textArea]}
+        placeholder={placeholder}
+        value={form[field] as string}
+        onChangeText={(text) => updateField(field, text)}
+        keyboardType={keyboardType}
+        multiline={multiline}
+        autoCorrect={false}
+      />
+    </View>
+  );
+
+  const renderOptions = ({
+    label,
+    field,
+    options,
+  }: {
+    label: string;
+    field: 'type' | 'fuel_type' | 'transmission';
+    options: string[];
+  }) => (
+    <View key={field} style={styles.field}>
+      <Text style={styles.fieldLabel}>{label}</Text>
+      <View style={styles.optionRow}>
+        {options.map((option) => (
+          <TouchableOpacity
+            key={option}
+            style={[styles.optionChip, form[field] === option && styles.optionChipSelected]}
+            onPress={() => updateField(field, option)}
+          >
+            <Text style={[styles.optionText, form[field] === option && styles.optionTextSelected]}>
+              {option}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+    </View>
+  );
+
+  const VehicleRow = ({ vehicle }: { vehicle: Vehicle }) => (
+    <TouchableOpacity
+      style={styles.vehicleCard}
+      onPress={() => openEditForm(vehicle)}
+      disabled={!canManage}
+    >
+      <Image source={{ uri: vehicle.image_url || undefined }} style={styles.vehicleImage} />
+      <View style={styles.vehicleInfo}>
+        <Text style={styles.vehicleName}>{vehicle.name}</Text>
+        <Text style={styles.vehicleMeta}>
+          {vehicle.license_plate || 'No plate'} • {vehicle.location}
+        </Text>
+        <View style={styles.vehicleFooter}>
+          <Text style={styles.vehiclePrice}>${vehicle.price_per_day}/day</Text>
+          <View style={[styles.availabilityBadge, !vehicle.available && styles.unavailableBadge]}>
+            <Text style={styles.availabilityText}>
+              {vehicle.available ? 'Available' : 'Unavailable'}
+            </Text>
+          </View>
+        </View>
+      </View>
+      <TouchableOpacity style={styles.historyButton} onPress={() => router.push(`/admin/damage/${vehicle.id}`)}>
+        <Ionicons name="construct-outline" size={20} color="#666" />
+      </TouchableOpacity>
+      {canManage && (
+        <TouchableOpacity style={styles.deleteButton} onPress={() => handleDelete(vehicle)}>
+          <Ionicons name="trash-outline" size={20} color="#ff4444" />
+        </TouchableOpacity>
+      )}
+    </TouchableOpacity>
+  );
+
+  if (showForm && canManage) {
+    return (
+      <SafeAreaView style={styles.container}>
+        <KeyboardAvoidingView
+          behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+          style={styles.keyboardView}
+        >
+          <View style={styles.header}>
+            <TouchableOpacity style={styles.backButton} onPress={closeForm}>
+              <Ionicons name="close" size={24} color="#333" />
+            </TouchableOpacity>
+            <Text style={styles.title}>{editingId ? 'Edit Vehicle' : 'Add Vehicle'}</Text>
+            <TouchableOpacity style={styles.headerButton} onPress={handleSave} disabled={saving}>
+              <Text style={styles.headerButtonText}>{saving ? 'Saving...' : 'Save'}</Text>
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView style={styles.content} keyboardShouldPersistTaps="handled">
+            <View style={styles.formSection}>
+              <Text style={styles.formSectionTitle}>Details</Text>
+              {renderField({ label: 'Display name', field: 'name', placeholder: 'Toyota Camry 2024' })}
+              {renderOptions({ label: 'Type', field: 'type', options: VEHICLE_TYPES })}
+              {renderField({ label: 'Brand', field: 'brand', placeholder: 'Toyota' })}
+              {renderField({ label: 'Model', field: 'model', placeholder: 'Camry' })}
+              {renderField({ label: 'Year', field: 'year', keyboardType: 'numeric' })}
+              {renderField({ label: 'Passenger capacity', field: 'passenger_capacity', keyboardType: 'numeric' })}
+              {renderOptions({ label: 'Fuel type', field: 'fuel_type', options: FUEL_TYPES })}
+              {renderOptions({ label: 'Transmission', field: 'transmission', options: TRANSMISSIONS })}
+              {renderField({ label: 'Image URL', field: 'image_url', placeholder: 'https://...' })}
+              {renderField({ label: 'Description', field: 'description', multiline: true })}
+              {renderField({ label: 'Features (comma separated)', field: 'features', placeholder: 'Bluetooth, Backup Camera' })}
+            </View>
+
+            <View style={styles.formSection}>
+              <Text style={styles.formSectionTitle}>Pricing & Availability</Text>
+              {renderField({ label: 'Price per day ($)', field: 'price_per_day', keyboardType: 'decimal-pad' })}
+              {renderField({ label: 'Security deposit ($)', field: 'deposit_amount', keyboardType: 'decimal-pad', placeholder: '0' })}
+              <View style={styles.switchRow}>
+                <Text style={styles.fieldLabel}>Available for booking</Text>
+                <Switch
+                  value={form.available}
+                  onValueChange={(value) => updateField('available', value)}
+                  trackColor={{ false: '#e9ecef', true: '#ff6b35' }}
+                  thumbColor="#fff"
+                />
+              </View>
+            </View>
+
+            <View style={styles.formSection}>
+              <Text style={styles.formSectionTitle}>Location</Text>
+              {renderField({ label: 'Branch / location', field: 'location', placeholder: 'Downtown' })}
+              <View style={styles.row}>
+                <View style={styles.halfField}>
+                  {renderField({ label: 'Latitude', field: 'latitude', keyboardType: 'decimal-pad' })}
+                </View>
+                <View style={styles.halfField}>
+                  {renderField({ label: 'Longitude', field: 'longitude', keyboardType: 'decimal-pad' })}
+                </View>
+              </View>
+            </View>
+
+            <View style={styles.formSection}>
+              <Text style={styles.formSectionTitle}>Fleet Records</Text>
+              {renderField({ label: 'License plate', field: 'license_plate' })}
+              {renderField({ label: 'VIN', field: 'vin' })}
+              {renderField({ label: 'Insurance policy', field: 'insurance_policy' })}
+              {renderField({ label: 'Mileage', field: 'mileage', keyboardType: 'numeric' })}
+              {renderField({ label: 'Last maintenance (YYYY-MM-DD)', field: 'last_maintenance', placeholder: '2024-01-31' })}
+            </View>
+
+            {editingId && (
+              <TouchableOpacity
+                style={styles.deleteVehicleButton}
+                onPress={() => {
+                  const vehicle = vehicles.find(v => v.id === editingId);
+                  if (vehicle) handleDelete(vehicle);
+                }}
+              >
+                <Ionicons name="trash-outline" size={20} color="#dc3545" />
+                <Text style={styles.deleteVehicleText}>Delete Vehicle</Text>
+              </TouchableOpacity>
+            )}
+          </ScrollView>
+        </KeyboardAvoidingView>
+      </SafeAreaView>
+    );
+  }
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.backButton} onPress={() => router.back()}>
+          <Ionicons name="arrow-back" size={24} color="#333" />
+        </TouchableOpacity>
+        <Text style={styles.title}>{canManage ? 'Manage Vehicles' : 'Vehicles'}</Text>
+        <TouchableOpacity style={styles.backButton} onPress={openAddForm} disabled={!canManage}>
+          <Ionicons name="add" size={24} color={canManage ? '#ff6b35' : 'transparent'} />
+        </TouchableOpacity>
+      </View>
+
+      <View style={styles.searchContainer}>
+        <View style={styles.searchBar}>
+          <Ionicons name="search-outline" size={20} color="#666" />
+          <TextInput
+            style={styles.searchInput}
+            placeholder="Search by name, plate, VIN, location..."
+            value={searchQuery}
+            onChangeText={setSearchQuery}
+            autoCapitalize="none"
+          />
+        </View>
+      </View>
+
+      <ScrollView
+        style={styles.content}
+        refreshControl={<RefreshControl refreshing={refreshing} onRefresh={onRefresh} />}
+      >
+        {loading ? (
+          <Text style={styles.emptyText}>Loading vehicles...</Text>
+        ) : filteredVehicles.length === 0 ? (
+          <View style={styles.emptyState}>
+            <Ionicons name="car-outline" size={64} color="#ccc" />
+            <Text style={styles.emptyText}>No vehicles found</Text>
+          </View>
+        ) : (
+          filteredVehicles.map((vehicle) => (
+            <VehicleRow key={vehicle.id} vehicle={vehicle} />
+          ))
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8f9fa',
+  },
+  keyboardView: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingVertical: 15,
+    backgroundColor: '#fff',
+    borderBottomWidth: 1,
+    borderBottomColor: '#e9ecef',
+  },
+  backButton: {
+    padding: 5,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#333',
+  },
+  headerButton: {
+    padding: 5,
+  },
+  headerButtonText: {
+    color: '#ff6b35',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  searchContainer: {
+    paddingHorizontal: 20,
+    paddingVertical: 12,
+    backgroundColor: '#fff',
+    borderBottomWidth: 1,
+    borderBottomColor: '#e9ecef',
+  },
+  searchBar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#f8f9fa',
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+  },
+  searchInput: {
+    flex: 1,
+    fontSize: 16,
+    marginLeft: 8,
+    color: '#333',
+  },
+  content: {
+    flex: 1,
+    padding: 20,
+  },
+  emptyState: {
+    alignItems: 'center',
+    paddingVertical: 60,
+  },
+  emptyText: {
+    fontSize: 16,
+    color: '#666',
+    marginTop: 16,
+    textAlign: 'center',
+  },
+  vehicleCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 12,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+  },
+  vehicleImage: {
+    width: 80,
+    height: 60,
+    borderRadius: 8,
+    backgroundColor: '#e9ecef',
+  },
+  vehicleInfo: {
+    flex: 1,
+    marginLeft: 12,
+  },
+  vehicleName: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+  },
+  vehicleMeta: {
+    fontSize: 13,
+    color: '#666',
+    marginTop: 2,
+  },
+  vehicleFooter: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginTop: 6,
+  },
+  vehiclePrice: {
+    fontSize: 14,
+    fontWeight: '700',
+    color: '#ff6b35',
+  },
+  availabilityBadge: {
+    backgroundColor: '#28a745',
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    borderRadius: 10,
+  },
+  unavailableBadge: {
+    backgroundColor: '#6c757d',
+  },
+  availabilityText: {
+    color: '#fff',
+    fontSize: 11,
+    fontWeight: '600',
+  },
+  historyButton: {
+    padding: 8,
+    marginLeft: 4,
+  },
+  deleteButton: {
+    padding: 8,
+    marginLeft: 4,
+  },
+  formSection: {
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 16,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+  },
+  formSectionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+    marginBottom: 12,
+  },
+  field: {
+    marginBottom: 12,
+  },
+  fieldLabel: {
+    fontSize: 14,
+    color: '#666',
+    marginBottom: 6,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+    backgroundColor: '#f8f9fa',
+  },
+  textArea: {
+    height: 100,
+    textAlignVertical: 'top',
+  },
+  optionRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  optionChip: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 20,
+    backgroundColor: '#f8f9fa',
+    borderWidth: 1,
+    borderColor: '#e9ecef',
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  optionChipSelected: {
+    backgroundColor: '#ff6b35',
+    borderColor: '#ff6b35',
+  },
+  optionText: {
+    fontSize: 14,
+    color: '#666',
+    fontWeight: '500',
+  },
+  optionTextSelected: {
+    color: '#fff',
+  },
+  switchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  row: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  halfField: {
+    width: '48%',
+  },
+  deleteVehicleButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#dc3545',
+    paddingVertical: 14,
+    marginBottom: 40,
+  },
+  deleteVehicleText: {
+    color: '#dc3545',
+    fontSize: 16,
+    fontWeight: '600',
+    marginLeft: 8,
+  },
+});
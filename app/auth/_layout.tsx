@@ -5,6 +5,11 @@ export default function AuthLayout() {
     <Stack screenOptions={{ headerShown: false }}>
       <Stack.Screen name="login" />
       <Stack.Screen name="signup" />
+      <Stack.Screen name="forgot-password" />
+      <Stack.Screen name="reset-password" />
+      <Stack.Screen name="verify-email" />
+      <Stack.Screen name="magic-link" />
+      <Stack.Screen name="callback" />
     </Stack>
   );
 }
\ No newline at end of file
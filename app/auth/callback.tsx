@@ -0,0 +1,112 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  ActivityIndicator,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { router } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import * as Linking from 'expo-linking';
+import { completeSessionFromUrl, ensureProfile, getUserProfile } from '@/lib/auth';
+import { hasPermission } from '@/lib/permissions';
+
+// Landing route for magic links and OAuth redirects
+export default function AuthCallbackScreen() {
+  const url = Linking.useURL();
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (url) completeSignIn(url);
+  }, [url]);
+
+  useEffect(() => {
+    Linking.getInitialURL().then((initialUrl) => {
+      if (!initialUrl) setError('Open the sign-in link from your email to continue');
+    });
+  }, []);
+
+  const completeSignIn = async (link: string) => {
+    setError(null);
+    try {
+      const session = await completeSessionFromUrl(link);
+      if (!session) throw new Error('Sign-in could not be completed');
+
+      await ensureProfile(session.user);
+      const user = await getUserProfile(session.user);
+
+      router.replace(hasPermission(user, 'access_admin') ? '/admin' : '/(tabs)');
+    } catch (error: any) {
+      console.error('Sign-in callback error:', error);
+      setError(error.message || 'This sign-in link is invalid or has expired');
+    }
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.content}>
+        {error ? (
+          <>
+            <Ionicons name="alert-circle-outline" size={72} color="#dc3545" />
+            <Text style={styles.title}>Sign-In Failed</Text>
+            <Text style={styles.subtitle}>{error}</Text>
+            <TouchableOpacity
+              style={styles.primaryButton}
+              onPress={() => router.replace('/auth/login')}
+            >
+              <Text style={styles.primaryButtonText}>Back to Sign In</Text>
+            </TouchableOpacity>
+          </>
+        ) : (
+          <>
+            <ActivityIndicator size="large" color="#ff6b35" />
+            <Text style={styles.subtitle}>Signing you in...</Text>
+          </>
+        )}
+      </View>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#fff',
+  },
+  content: {
+    flex: 1,
+    paddingHorizontal: 20,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  title: {
+    fontSize: 28,
+    fontWeight: '700',
+    color: '#333',
+    textAlign: 'center',
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  subtitle: {
+    fontSize: 16,
+    color: '#666',
+    textAlign: 'center',
+    lineHeight: 22,
+    marginTop: 16,
+    marginBottom: 32,
+  },
+  primaryButton: {
+    alignSelf: 'stretch',
+    backgroundColor: '#ff6b35',
+    borderRadius: 12,
+    paddingVertical: 16,
+    alignItems: 'center',
+  },
+  primaryButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
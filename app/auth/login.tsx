@@ -14,13 +14,15 @@ import {
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { router } from 'expo-router';
 import { Ionicons } from '@expo/vector-icons';
-import { signIn } from '@/lib/auth';
+import { signIn, signInWithOAuth, OAuthProvider } from '@/lib/auth';
+import { hasPermission } from '@/lib/permissions';
 
 export default function LoginScreen() {
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
   const [loading, setLoading] = useState(false);
   const [showPassword, setShowPassword] = useState(false);
+  const [oauthProvider, setOauthProvider] = useState<OAuthProvider | null>(null);
 
   const handleLogin = async () => {
     if (!email.trim() || !password.trim()) {
@@ -30,10 +32,9 @@ export default function LoginScreen() {
 
     setLoading(true);
     try {
-      const result = await signIn(email.trim(), password);
-      
-      // Check if this is the admin user
-      if (email.trim() === 'sandewilliam594@gmail.com') {
+      const { role } = await signIn(email.trim(), password);
+
+      if (hasPermission(role, 'access_admin')) {
         router.replace('/admin');
       } else {
         router.replace('/(tabs)');
@@ -46,6 +47,19 @@ export default function LoginScreen() {
     }
   };
 
+  const handleOAuth = async (provider: OAuthProvider) => {
+    setOauthProvider(provider);
+    try {
+      // The session is completed by /auth/callback when the provider redirects back
+      await signInWithOAuth(provider);
+    } catch (error: any) {
+      console.error('OAuth error:', error);
+      Alert.alert('Sign In Failed', error.message || 'Could not start sign in');
+    } finally {
+      setOauthProvider(null);
+    }
+  };
+
   return (
     <SafeAreaView style={styles.container}>
       <KeyboardAvoidingView
@@ -121,12 +135,45 @@ export default function LoginScreen() {
 
               <TouchableOpacity
                 style={styles.forgotPassword}
-                onPress={() => Alert.alert('Forgot Password', 'Password reset coming soon')}
+                onPress={() => router.push({ pathname: '/auth/forgot-password', params: { email: email.trim() } })}
               >
                 <Text style={styles.forgotPasswordText}>Forgot Password?</Text>
               </TouchableOpacity>
             </View>
 
+            <View style={styles.divider}>
+              <View style={styles.dividerLine} />
+              <Text style={styles.dividerText}>or continue with</Text>
+              <View style={styles.dividerLine} />
+            </View>
+
+            <View style={styles.socialRow}>
+              <TouchableOpacity
+                style={styles.socialButton}
+                onPress={() => handleOAuth('google')}
+                disabled={!!oauthProvider}
+              >
+                <Ionicons name="logo-google" size={20} color="#db4437" />
+                <Text style={styles.socialButtonText}>Google</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[styles.socialButton, styles.appleButton]}
+                onPress={() => handleOAuth('apple')}
+                disabled={!!oauthProvider}
+              >
+                <Ionicons name="logo-apple" size={20} color="#fff" />
+                <Text style={[styles.socialButtonText, styles.appleButtonText]}>Apple</Text>
+              </TouchableOpacity>
+            </View>
+
+            <TouchableOpacity
+              style={styles.magicLinkButton}
+              onPress={() => router.push({ pathname: '/auth/magic-link', params: { email: email.trim() } })}
+            >
+              <Ionicons name="mail-outline" size={20} color="#ff6b35" />
+              <Text style={styles.magicLinkText}>Email me a sign-in link</Text>
+            </TouchableOpacity>
+
             <View style={styles.footer}>
               <Text style={styles.footerText}>Don't have an account? </Text>
               <TouchableOpacity onPress={() => router.push('/auth/signup')}>
@@ -191,7 +238,7 @@ const styles = StyleSheet.create({
     color: '#666',
   },
   form: {
-    marginBottom: 32,
+    marginBottom: 24,
   },
   inputContainer: {
     flexDirection: 'row',
@@ -237,6 +284,67 @@ const styles = StyleSheet.create({
     fontSize: 14,
     fontWeight: '500',
   },
+  divider: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 20,
+  },
+  dividerLine: {
+    flex: 1,
+    height: 1,
+    backgroundColor: '#e9ecef',
+  },
+  dividerText: {
+    fontSize: 14,
+    color: '#999',
+    marginHorizontal: 12,
+  },
+  socialRow: {
+    flexDirection: 'row',
+    marginBottom: 12,
+  },
+  socialButton: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    borderRadius: 12,
+    paddingVertical: 14,
+    marginHorizontal: 4,
+    backgroundColor: '#fff',
+    borderWidth: 1,
+    borderColor: '#e9ecef',
+  },
+  socialButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+    marginLeft: 8,
+  },
+  appleButton: {
+    backgroundColor: '#000',
+    borderColor: '#000',
+  },
+  appleButtonText: {
+    color: '#fff',
+  },
+  magicLinkButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    borderRadius: 12,
+    paddingVertical: 14,
+    marginHorizontal: 4,
+    marginBottom: 32,
+    borderWidth: 1,
+    borderColor: '#ff6b35',
+  },
+  magicLinkText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#ff6b35',
+    marginLeft: 8,
+  },
   footer: {
     flexDirection: 'row',
     justifyContent: 'center',
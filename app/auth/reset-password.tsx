@@ -0,0 +1,251 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TextInput,
+  TouchableOpacity,
+  Alert,
+  KeyboardAvoidingView,
+  Platform,
+  ScrollView,
+  ActivityIndicator,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { router } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import * as Linking from 'expo-linking';
+import { completeSessionFromUrl, updatePassword } from '@/lib/auth';
+
+export default function ResetPasswordScreen() {
+  const url = Linking.useURL();
+  const [verifying, setVerifying] = useState(true);
+  const [linkError, setLinkError] = useState<string | null>(null);
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [showPassword, setShowPassword] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (url) verifyLink(url);
+  }, [url]);
+
+  // useURL stays null when the screen wasn't opened from an email link
+  useEffect(() => {
+    Linking.getInitialURL().then((initialUrl) => {
+      if (!initialUrl) {
+        setLinkError('Open the reset link from your email to choose a new password');
+        setVerifying(false);
+      }
+    });
+  }, []);
+
+  const verifyLink = async (link: string) => {
+    setVerifying(true);
+    try {
+      await completeSessionFromUrl(link);
+      setLinkError(null);
+    } catch (error: any) {
+      console.error('Reset link error:', error);
+      setLinkError(error.message || 'This reset link is invalid or has expired');
+    } finally {
+      setVerifying(false);
+    }
+  };
+
+  const handleSave = async () => {
+    if (password.length < 6) {
+      Alert.alert('Error', 'Password must be at least 6 characters long');
+      return;
+    }
+
+    if (password !== confirmPassword) {
+      Alert.alert('Error', 'Passwords do not match');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await updatePassword(password);
+      Alert.alert(
+        'Password Updated',
+        'Your password has been changed.',
+        [{ text: 'OK', onPress: () => router.replace('/(tabs)') }]
+      );
+    } catch (error: any) {
+      console.error('Update password error:', error);
+      Alert.alert('Error', error.message || 'Failed to update password');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (verifying) {
+    return (
+      <SafeAreaView style={styles.container}>
+        <View style={styles.centered}>
+          <ActivityIndicator size="large" color="#ff6b35" />
+          <Text style={styles.verifyingText}>Verifying reset link...</Text>
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  if (linkError) {
+    return (
+      <SafeAreaView style={styles.container}>
+        <View style={[styles.centered, styles.content]}>
+          <Ionicons name="alert-circle-outline" size={56} color="#dc3545" />
+          <Text style={styles.title}>Link Expired</Text>
+          <Text style={styles.subtitle}>{linkError}</Text>
+          <TouchableOpacity
+            style={styles.primaryButton}
+            onPress={() => router.replace('/auth/forgot-password')}
+          >
+            <Text style={styles.primaryButtonText}>Request a New Link</Text>
+          </TouchableOpacity>
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <KeyboardAvoidingView
+        behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+        style={styles.keyboardView}
+      >
+        <ScrollView contentContainerStyle={styles.scrollContent}>
+          <View style={styles.content}>
+            <Text style={styles.title}>Choose a New Password</Text>
+            <Text style={styles.subtitle}>Enter a new password for your account.</Text>
+
+            <View style={styles.inputContainer}>
+              <Ionicons name="lock-closed-outline" size={20} color="#666" />
+              <TextInput
+                style={styles.input}
+                placeholder="New password"
+                value={password}
+                onChangeText={setPassword}
+                secureTextEntry={!showPassword}
+                autoCapitalize="none"
+              />
+              <TouchableOpacity
+                onPress={() => setShowPassword(!showPassword)}
+                style={styles.eyeButton}
+              >
+                <Ionicons
+                  name={showPassword ? "eye-outline" : "eye-off-outline"}
+                  size={20}
+                  color="#666"
+                />
+              </TouchableOpacity>
+            </View>
+
+            <View style={styles.inputContainer}>
+              <Ionicons name="lock-closed-outline" size={20} color="#666" />
+              <TextInput
+                style={styles.input}
+                placeholder="Confirm new password"
+                value={confirmPassword}
+                onChangeText={setConfirmPassword}
+                secureTextEntry={!showPassword}
+                autoCapitalize="none"
+              />
+            </View>
+
+            <TouchableOpacity
+              style={[styles.primaryButton, saving && styles.primaryButtonDisabled]}
+              onPress={handleSave}
+              disabled={saving}
+            >
+              <Text style={styles.primaryButtonText}>
+                {saving ? 'Saving...' : 'Update Password'}
+              </Text>
+            </TouchableOpacity>
+          </View>
+        </ScrollView>
+      </KeyboardAvoidingView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#fff',
+  },
+  keyboardView: {
+    flex: 1,
+  },
+  scrollContent: {
+    flexGrow: 1,
+  },
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  verifyingText: {
+    fontSize: 16,
+    color: '#666',
+    marginTop: 16,
+  },
+  content: {
+    flex: 1,
+    paddingHorizontal: 20,
+    justifyContent: 'center',
+  },
+  title: {
+    fontSize: 28,
+    fontWeight: '700',
+    color: '#333',
+    textAlign: 'center',
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  subtitle: {
+    fontSize: 16,
+    color: '#666',
+    textAlign: 'center',
+    lineHeight: 22,
+    marginBottom: 32,
+  },
+  inputContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#f8f9fa',
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 16,
+    marginBottom: 16,
+    borderWidth: 1,
+    borderColor: '#e9ecef',
+  },
+  input: {
+    flex: 1,
+    fontSize: 16,
+    color: '#333',
+    marginLeft: 12,
+  },
+  eyeButton: {
+    padding: 4,
+  },
+  primaryButton: {
+    alignSelf: 'stretch',
+    backgroundColor: '#ff6b35',
+    borderRadius: 12,
+    paddingVertical: 16,
+    paddingHorizontal: 24,
+    alignItems: 'center',
+    marginTop: 8,
+  },
+  primaryButtonDisabled: {
+    opacity: 0.6,
+  },
+  primaryButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
@@ -43,12 +43,18 @@ export default function SignUpScreen() {
 
     setLoading(true);
     try {
-      await signUp(email.trim(), password, fullName.trim());
-      Alert.alert(
-        'Success',
-        'Account created successfully! Please sign in.',
-        [{ text: 'OK', onPress: () => router.replace('/auth/login') }]
-      );
+      const { session } = await signUp(email.trim(), password, fullName.trim());
+
+      // Without a session the project requires email confirmation first
+      if (session) {
+        router.replace('/(tabs)');
+      } else {
+        Alert.alert(
+          'Confirm Your Email',
+          `We sent a confirmation link to ${email.trim()}. Open it on this device to finish creating your account.`,
+          [{ text: 'OK', onPress: () => router.replace('/auth/login') }]
+        );
+      }
     } catch (error: any) {
       console.error('Sign up error:', error);
       Alert.alert('Sign Up Failed', error.message || 'Failed to create account');
@@ -0,0 +1,122 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  ActivityIndicator,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { router } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import * as Linking from 'expo-linking';
+import { completeSessionFromUrl } from '@/lib/auth';
+
+export default function VerifyEmailScreen() {
+  const url = Linking.useURL();
+  const [verifying, setVerifying] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (url) verifyLink(url);
+  }, [url]);
+
+  useEffect(() => {
+    Linking.getInitialURL().then((initialUrl) => {
+      if (!initialUrl) {
+        setError('Open the confirmation link from your email to verify your account');
+        setVerifying(false);
+      }
+    });
+  }, []);
+
+  const verifyLink = async (link: string) => {
+    setVerifying(true);
+    try {
+      await completeSessionFromUrl(link);
+      setError(null);
+    } catch (error: any) {
+      console.error('Email verification error:', error);
+      setError(error.message || 'This confirmation link is invalid or has expired');
+    } finally {
+      setVerifying(false);
+    }
+  };
+
+  if (verifying) {
+    return (
+      <SafeAreaView style={styles.container}>
+        <View style={styles.content}>
+          <ActivityIndicator size="large" color="#ff6b35" />
+          <Text style={styles.subtitle}>Confirming your email...</Text>
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.content}>
+        <Ionicons
+          name={error ? 'alert-circle-outline' : 'checkmark-circle-outline'}
+          size={72}
+          color={error ? '#dc3545' : '#28a745'}
+        />
+        <Text style={styles.title}>{error ? 'Verification Failed' : 'Email Confirmed'}</Text>
+        <Text style={styles.subtitle}>
+          {error || 'Your account is ready. Welcome to Aryeh Rentals!'}
+        </Text>
+
+        <TouchableOpacity
+          style={styles.primaryButton}
+          onPress={() => router.replace(error ? '/auth/login' : '/(tabs)')}
+        >
+          <Text style={styles.primaryButtonText}>
+            {error ? 'Back to Sign In' : 'Start Exploring'}
+          </Text>
+        </TouchableOpacity>
+      </View>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#fff',
+  },
+  content: {
+    flex: 1,
+    paddingHorizontal: 20,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  title: {
+    fontSize: 28,
+    fontWeight: '700',
+    color: '#333',
+    textAlign: 'center',
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  subtitle: {
+    fontSize: 16,
+    color: '#666',
+    textAlign: 'center',
+    lineHeight: 22,
+    marginTop: 16,
+    marginBottom: 32,
+  },
+  primaryButton: {
+    alignSelf: 'stretch',
+    backgroundColor: '#ff6b35',
+    borderRadius: 12,
+    paddingVertical: 16,
+    alignItems: 'center',
+  },
+  primaryButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,1573 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  TextInput,
+  Image,
+  Alert,
+  KeyboardAvoidingView,
+  Platform,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { router, useLocalSearchParams, useFocusEffect } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import { supabase } from '@/lib/supabase';
+import { useAuth } from '@/hooks/useAuth';
+import {
+  cancelBooking,
+  createBooking,
+  getBooking,
+  getLocalTimeZone,
+  isBookingConflict,
+  updateBookingStatus,
+} from '@/lib/bookings';
+import { PayableBooking, PaymentResult, chargeBooking } from '@/lib/payments';
+import { DEPOSIT_STATUS_LABELS, DepositStatus } from '@/lib/deposits';
+import { getCancellationQuote, isChangeWindowError } from '@/lib/bookingPolicy';
+import { DriverLicense, getDriverEligibility, getLicense, isEligibilityError } from '@/lib/licenses';
+import { PaymentMethod, getPaymentMethods, getPaymentMethodLabel, isExpired } from '@/lib/paymentMethods';
+import { BookedRange, getBookedRanges, isDayBooked, isRangeFree } from '@/lib/availability';
+import { PriceQuote, PricingRule, calculateQuote, isSamePrice } from '@/lib/pricing';
+import { getFleetUtilization, getPricingRules } from '@/lib/pricingRules';
+import { ProtectionPlan, formatDeductible, getDefaultProtectionPlan, getProtectionPlans } from '@/lib/protection';
+import {
+  BookingExtra,
+  EXTRA_PRICING_LABELS,
+  Extra,
+  ExtraSelection,
+  formatBookingExtras,
+  getBookingExtras,
+  getExtraAvailability,
+  getExtras,
+  isExtrasUnavailableError,
+  reserveExtras,
+  toQuoteExtras,
+} from '@/lib/extras';
+import { InspectionPhoto, getInspectionPhotoUrls, getInspectionPhotos } from '@/lib/inspections';
+import { DAMAGE_SEVERITY_LABELS, DamageRecord, getBookingDamage, getZoneLabel } from '@/lib/damage';
+import { RentalSettlement, SETTLEMENT_STATUS_LABELS, SettlementStatus } from '@/lib/settlement';
+import AvailabilityCalendar from '@/components/AvailabilityCalendar';
+import PriceQuoteBreakdown from '@/components/PriceQuoteBreakdown';
+import InspectionPhotoStrip from '@/components/InspectionPhotoStrip';
+
+interface Vehicle {
+  id: string;
+  name: string;
+  type: string;
+  brand: string;
+  model: string;
+  image_url: string;
+  price_per_day: number;
+  deposit_amount: number;
+  location: string;
+  available: boolean;
+}
+
+interface Booking {
+  id: string;
+  vehicle_id: string;
+  start_date: string;
+  end_date: string;
+  pickup_location: string;
+  dropoff_location: string | null;
+  pickup_time: string | null;
+  dropoff_time: string | null;
+  total_price: number;
+  price_quote: PriceQuote | null;
+  status: string;
+  payment_status: string;
+  payment_method: string | null;
+  amount_charged: number;
+  refunded_amount: number;
+  modification_fee: number;
+  cancellation_fee: number;
+  deposit_amount: number;
+  deposit_status: DepositStatus;
+  protection_deductible: number | null;
+  protection_plans: { name: string } | null;
+  actual_pickup_time: string | null;
+  fuel_level_pickup: number | null;
+  mileage_start: number | null;
+  actual_dropoff_time: string | null;
+  fuel_level_dropoff: number | null;
+  mileage_end: number | null;
+  settlement: RentalSettlement | null;
+  settlement_status: SettlementStatus;
+  driver_license: string | null;
+  special_requests: string | null;
+  created_at: string;
+}
+
+type Step = 'dates' | 'locations' | 'driver' | 'protection' | 'review';
+
+const STEPS: { key: Step; title: string }[] = [
+  { key: 'dates', title: 'Dates' },
+  { key: 'locations', title: 'Locations' },
+  { key: 'driver', title: 'Driver' },
+  { key: 'protection', title: 'Add-ons' },
+  { key: 'review', title: 'Review' },
+];
+
+const TIME_SLOTS = ['08:00', '10:00', '12:00', '14:00', '16:00', '18:00'];
+const AVAILABILITY_WINDOW_DAYS = 365;
+
+const startOfDay = (date: Date) => {
+  const day = new Date(date);
+  day.setHours(0, 0, 0, 0);
+  return day;
+};
+
+const addDays = (date: Date, days: number) => {
+  const result = new Date(date);
+  result.setDate(result.getDate() + days);
+  return result;
+};
+
+const combineDateAndTime = (date: Date, time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  const result = new Date(date);
+  result.setHours(hours, minutes, 0, 0);
+  return result;
+};
+
+export default function BookingScreen() {
+  const { vehicleId, bookingId } = useLocalSearchParams<{ vehicleId: string; bookingId?: string }>();
+  const { user } = useAuth();
+  const [vehicle, setVehicle] = useState<Vehicle | null>(null);
+  const [booking, setBooking] = useState<Booking | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [submitting, setSubmitting] = useState(false);
+  const [step, setStep] = useState<Step>('dates');
+
+  const today = startOfDay(new Date());
+  const [pickupDate, setPickupDate] = useState(addDays(today, 1));
+  const [dropoffDate, setDropoffDate] = useState(addDays(today, 2));
+  const [pickupTime, setPickupTime] = useState('10:00');
+  const [dropoffTime, setDropoffTime] = useState('10:00');
+  const [selectingReturn, setSelectingReturn] = useState(false);
+  const [bookedRanges, setBookedRanges] = useState<BookedRange[]>([]);
+  const [pickupLocation, setPickupLocation] = useState('');
+  const [dropoffLocation, setDropoffLocation] = useState('');
+  const [sameDropoff, setSameDropoff] = useState(true);
+  const [license, setLicense] = useState<DriverLicense | null>(null);
+  const [specialRequests, setSpecialRequests] = useState('');
+  const [paymentMethods, setPaymentMethods] = useState<PaymentMethod[]>([]);
+  const [paymentMethodId, setPaymentMethodId] = useState<string | null>(null);
+  const [pricingRules, setPricingRules] = useState<PricingRule[]>([]);
+  const [utilization, setUtilization] = useState(0);
+  const [protectionPlans, setProtectionPlans] = useState<ProtectionPlan[]>([]);
+  const [protectionPlanId, setProtectionPlanId] = useState<string | null>(null);
+  const [extras, setExtras] = useState<Extra[]>([]);
+  const [extraSelection, setExtraSelection] = useState<ExtraSelection>({});
+  const [extraAvailability, setExtraAvailability] = useState<Record<string, number>>({});
+  const [bookingExtras, setBookingExtras] = useState<BookingExtra[]>([]);
+  const [pickupPhotos, setPickupPhotos] = useState<InspectionPhoto[]>([]);
+  const [returnDamage, setReturnDamage] = useState<DamageRecord[]>([]);
+  const [inspectionPhotoUrls, setInspectionPhotoUrls] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    loadData();
+  }, [vehicleId, bookingId]);
+
+  // Reload on focus so a license or card added meanwhile is picked up
+  useFocusEffect(
+    useCallback(() => {
+      if (user && !bookingId) {
+        getLicense(user.id)
+          .then(setLicense)
+          .catch(error => console.error('Error loading license:', error));
+
+        getPaymentMethods(user.id)
+          .then(methods => {
+            const usable = methods.filter(method => !isExpired(method.exp_month, method.exp_year));
+            setPaymentMethods(usable);
+            setPaymentMethodId(current =>
+              usable.some(method => method.id === current)
+                ? current
+                : usable.find(method => method.is_default)?.id || usable[0]?.id || null
+            );
+          })
+          .catch(error => console.error('Error loading payment methods:', error));
+      }
+    }, [user, bookingId])
+  );
+
+  const loadData = async () => {
+    try {
+      const { data: vehicleData, error: vehicleError } = await supabase
+        .from('vehicles')
+        .select('id, name, type, brand, model, image_url, price_per_day, deposit_amount, location, available')
+        .eq('id', vehicleId)
+        .single();
+
+      if (vehicleError) throw vehicleError;
+
+      setVehicle(vehicleData);
+      setPickupLocation(vehicleData.location);
+
+      if (bookingId) {
+        const { data: bookingData, error: bookingError } = await supabase
+          .from('bookings')
+          .select(`
+            *,
+            protection_plans (
+              name
+            )
+          `)
+          .eq('id', bookingId)
+          .single();
+
+        if (bookingError) throw bookingError;
+
+        setBooking(bookingData);
+        setBookingExtras(await getBookingExtras(bookingData.id));
+
+        if (bookingData.actual_pickup_time) {
+          const [photos, damage] = await Promise.all([
+            getInspectionPhotos(bookingData.id, 'pickup'),
+            bookingData.actual_dropoff_time ? getBookingDamage(bookingData.id) : Promise.resolve([]),
+          ]);
+          setPickupPhotos(photos);
+          setReturnDamage(damage);
+          setInspectionPhotoUrls(await getInspectionPhotoUrls([
+            ...photos,
+            ...damage.flatMap(record => record.inspection_photos),
+          ]));
+        }
+      } else {
+        const [ranges, rules, plans, extrasData] = await Promise.all([
+          getBookedRanges(vehicleData.id, today, addDays(today, AVAILABILITY_WINDOW_DAYS)),
+          getPricingRules(),
+          getProtectionPlans(),
+          getExtras(),
+        ]);
+        setBookedRanges(ranges);
+        setPricingRules(rules);
+        setProtectionPlans(plans);
+        setExtras(extrasData);
+        setProtectionPlanId(getDefaultProtectionPlan(plans)?.id || null);
+      }
+    } catch (error) {
+      console.error('Error loading booking data:', error);
+      Alert.alert('Error', 'Failed to load booking details');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const startDate = combineDateAndTime(pickupDate, pickupTime);
+  const endDate = combineDateAndTime(dropoffDate, dropoffTime);
+  const protectionPlan = protectionPlans.find(plan => plan.id === protectionPlanId) || null;
+  const selectedExtras = toQuoteExtras(extras, extraSelection);
+  const quote = vehicle
+    ? calculateQuote({
+        pricePerDay: vehicle.price_per_day,
+        vehicleType: vehicle.type,
+        start: startDate,
+        end: endDate,
+        rules: pricingRules,
+        utilization,
+        protection: protectionPlan && { name: protectionPlan.name, dailyPrice: protectionPlan.daily_price },
+        extras: selectedExtras,
+      })
+    : null;
+  const totalPrice = quote?.total ?? 0;
+
+  // Demand pricing depends on how busy the fleet is over the chosen dates
+  useEffect(() => {
+    if (bookingId || endDate <= startDate) return;
+
+    getFleetUtilization(startDate, endDate)
+      .then(setUtilization)
+      .catch(error => console.error('Error loading fleet utilization:', error));
+  }, [bookingId, startDate.getTime(), endDate.getTime()]);
+
+  // Extras are stocked per branch, so availability follows the vehicle's
+  // branch and the chosen dates
+  useEffect(() => {
+    if (bookingId || !vehicle || endDate <= startDate) return;
+
+    getExtraAvailability(vehicle.location, startDate, endDate)
+      .then(setExtraAvailability)
+      .catch(error => console.error('Error loading extras availability:', error));
+  }, [bookingId, vehicle?.location, startDate.getTime(), endDate.getTime()]);
+
+  const getExtraLimit = (extra: Extra) => Math.min(extra.max_per_booking, extraAvailability[extra.id] ?? 0);
+
+  const changeExtraQuantity = (extra: Extra, delta: number) => {
+    setExtraSelection(current => ({
+      ...current,
+      [extra.id]: Math.max(0, Math.min((current[extra.id] || 0) + delta, getExtraLimit(extra))),
+    }));
+  };
+
+  const eligibility = getDriverEligibility(license, user?.date_of_birth, startDate, endDate);
+  const paymentMethod = paymentMethods.find(method => method.id === paymentMethodId) || null;
+
+  const hasBookedDayBetween = (from: Date, to: Date) => {
+    for (let day = addDays(from, 1); day < to; day = addDays(day, 1)) {
+      if (isDayBooked(day, bookedRanges)) return true;
+    }
+    return false;
+  };
+
+  // First tap picks the pickup day, second tap the return day
+  const handleSelectDate = (date: Date) => {
+    if (selectingReturn && date > pickupDate && !hasBookedDayBetween(pickupDate, date)) {
+      setDropoffDate(date);
+      setSelectingReturn(false);
+      return;
+    }
+
+    setPickupDate(date);
+    setDropoffDate(addDays(date, 1));
+    setSelectingReturn(true);
+  };
+
+  const validateStep = (current: Step) => {
+    switch (current) {
+      case 'dates':
+        if (startDate <= new Date()) {
+          Alert.alert('Error', 'Pickup time must be in the future');
+          return false;
+        }
+        if (endDate <= startDate) {
+          Alert.alert('Error', 'Return must be after pickup');
+          return false;
+        }
+        if (!isRangeFree(startDate, endDate, bookedRanges)) {
+          Alert.alert('Dates Unavailable', 'This vehicle is already booked for part of the selected period');
+          return false;
+        }
+        return true;
+      case 'locations':
+        if (!pickupLocation.trim()) {
+          Alert.alert('Error', 'Please enter a pickup location');
+          return false;
+        }
+        if (!sameDropoff && !dropoffLocation.trim()) {
+          Alert.alert('Error', 'Please enter a drop-off location');
+          return false;
+        }
+        return true;
+      case 'driver':
+        if (!eligibility.eligible) {
+          Alert.alert('Driver Not Verified', eligibility.reason);
+          return false;
+        }
+        return true;
+      case 'protection': {
+        if (!protectionPlan) {
+          Alert.alert('Error', 'Please choose a protection plan');
+          return false;
+        }
+        const unavailable = extras.find(extra => (extraSelection[extra.id] || 0) > getExtraLimit(extra));
+        if (unavailable) {
+          Alert.alert('Extras Unavailable', `Not enough ${unavailable.name} units are free for these dates`);
+          return false;
+        }
+        return true;
+      }
+      default:
+        return true;
+    }
+  };
+
+  const stepIndex = STEPS.findIndex(s => s.key === step);
+
+  const handleNext = () => {
+    if (!validateStep(step)) return;
+    setStep(STEPS[stepIndex + 1].key);
+  };
+
+  const handleBack = () => {
+    if (stepIndex === 0) {
+      router.back();
+    } else {
+      setStep(STEPS[stepIndex - 1].key);
+    }
+  };
+
+  const handleConfirm = async () => {
+    if (!vehicle || !user || !license || !quote || !protectionPlan) return;
+
+    if (!paymentMethod) {
+      Alert.alert('Payment Method Required', 'Please add a card to pay for this booking');
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      const created = await createBooking({
+        user_id: user.id,
+        vehicle_id: vehicle.id,
+        start_date: startDate.toISOString(),
+        end_date: endDate.toISOString(),
+        pickup_time: pickupTime,
+        dropoff_time: dropoffTime,
+        pickup_location: pickupLocation.trim(),
+        dropoff_location: sameDropoff ? pickupLocation.trim() : dropoffLocation.trim(),
+        driver_license: license.license_number,
+        special_requests: specialRequests.trim() || null,
+        time_zone: getLocalTimeZone(),
+        protection_plan_id: protectionPlan.id,
+        payment_method_id: paymentMethod.id,
+        payment_method: getPaymentMethodLabel(paymentMethod),
+      });
+
+      let priced: PayableBooking;
+      try {
+        await reserveExtras(created.id, extraSelection);
+        priced = await getBooking(created.id);
+      } catch (error) {
+        await updateBookingStatus(created.id, 'cancel');
+        throw error;
+      }
+
+      // The database prices the booking itself. If rates or demand moved
+      // since the quote was shown, let the customer see the new total first.
+      if (!isSamePrice(priced.total_price, totalPrice)) {
+        await updateBookingStatus(created.id, 'cancel');
+        await refreshPricing();
+        Alert.alert(
+          'Price Changed',
+          `The price for these dates is now $${priced.total_price.toFixed(2)}. Please review the new total and confirm again.`
+        );
+        return;
+      }
+
+      const payment = await chargeBooking(priced).catch((error): PaymentResult => {
+        console.error('Error charging booking:', error);
+        return { succeeded: false, booking: priced, message: error.message };
+      });
+      if (!payment.succeeded) {
+        // Release the dates; the failed booking stays on record
+        await updateBookingStatus(created.id, 'cancel');
+        Alert.alert(
+          'Payment Failed',
+          `${payment.message}\n\nPlease choose another card or try again.`
+        );
+        return;
+      }
+
+      Alert.alert(
+        'Booking Requested',
+        `Your ${vehicle.name} is reserved and ${getPaymentMethodLabel(paymentMethod)} has been charged $${priced.total_price.toFixed(2)}. We'll confirm your booking shortly.`,
+        [{ text: 'OK', onPress: () => router.replace('/(tabs)/bookings') }]
+      );
+    } catch (error: any) {
+      console.error('Error creating booking:', error);
+      if (isEligibilityError(error)) {
+        Alert.alert(
+          'Driver Not Verified',
+          error.message,
+          [{ text: 'OK', onPress: () => setStep('driver') }]
+        );
+      } else if (isBookingConflict(error)) {
+        Alert.alert(
+          'Dates Unavailable',
+          'This vehicle is already booked for part of the selected period. Please choose different dates.',
+          [{ text: 'Change Dates', onPress: () => setStep('dates') }]
+        );
+      } else if (isExtrasUnavailableError(error)) {
+        Alert.alert(
+          'Extras Unavailable',
+          error.message,
+          [{ text: 'Change Extras', onPress: () => setStep('protection') }]
+        );
+      } else {
+        Alert.alert('Booking Failed', error.message || 'Failed to create booking');
+      }
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  // Picks up rate and demand changes without losing the customer's choices
+  const refreshPricing = async () => {
+    try {
+      const { data: vehicleData, error: vehicleError } = await supabase
+        .from('vehicles')
+        .select('price_per_day')
+        .eq('id', vehicleId)
+        .single();
+
+      if (vehicleError) throw vehicleError;
+
+      const [rules, plans, extrasData, fleetUtilization] = await Promise.all([
+        getPricingRules(),
+        getProtectionPlans(),
+        getExtras(),
+        getFleetUtilization(startDate, endDate),
+      ]);
+
+      setVehicle(current => current && { ...current, price_per_day: vehicleData.price_per_day });
+      setPricingRules(rules);
+      setProtectionPlans(plans);
+      setExtras(extrasData);
+      setUtilization(fleetUtilization);
+    } catch (error) {
+      console.error('Error refreshing prices:', error);
+    }
+  };
+
+  const handleCancelBooking = () => {
+    if (!booking) return;
+
+    const quote = getCancellationQuote(booking);
+    if (!quote.allowed) {
+      Alert.alert('Cannot Cancel', quote.reason);
+      return;
+    }
+
+    const feeLine = quote.fee > 0
+      ? `A ${quote.feePercent}% cancellation fee of $${quote.fee.toFixed(2)} applies.`
+      : 'Cancellation is free.';
+    const refundLine = quote.refund > 0 ? ` $${quote.refund.toFixed(2)} will be refunded to your card.` : '';
+
+    Alert.alert(
+      'Cancel Booking',
+      `${feeLine}${refundLine}`,
+      [
+        { text: 'Keep Booking', style: 'cancel' },
+        {
+          text: 'Cancel Booking',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              const updated = await cancelBooking(booking.id, quote);
+              setBooking(updated);
+            } catch (error: any) {
+              console.error('Error cancelling booking:', error);
+              Alert.alert('Error', isChangeWindowError(error) ? error.message : 'Failed to cancel booking');
+              loadData();
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const formatDate = (date: Date | string) => {
+    return new Date(date).toLocaleDateString('en-US', {
+      weekday: 'short',
+      month: 'short',
+      day: 'numeric',
+    });
+  };
+
+  const formatDateTime = (date: Date | string) => {
+    return new Date(date).toLocaleString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      year: 'numeric',
+      hour: 'numeric',
+      minute: '2-digit',
+      hour12: true,
+    });
+  };
+
+  const getStatusColor = (status: string) => {
+    switch (status) {
+      case 'confirmed':
+        return '#28a745';
+      case 'active':
+        return '#007bff';
+      case 'completed':
+        return '#6c757d';
+      case 'cancelled':
+        return '#dc3545';
+      default:
+        return '#ffc107';
+    }
+  };
+
+  const TimeSelector = ({ selected, onSelect }: { selected: string; onSelect: (time: string) => void }) => (
+    <View style={styles.timeRow}>
+      {TIME_SLOTS.map((time) => (
+        <TouchableOpacity
+          key={time}
+          style={[styles.timeChip, selected === time && styles.selectedChip]}
+          onPress={() => onSelect(time)}
+        >
+          <Text style={[styles.timeChipText, selected === time && styles.selectedChipText]}>
+            {time}
+          </Text>
+        </TouchableOpacity>
+      ))}
+    </View>
+  );
+
+  const PriceBreakdown = () => (
+    <View style={styles.priceCard}>
+      <Text style={styles.cardTitle}>Price Breakdown</Text>
+      {quote && <PriceQuoteBreakdown quote={quote} />}
+      {!!vehicle?.deposit_amount && (
+        <Text style={styles.depositNote}>
+          A refundable ${vehicle.deposit_amount.toFixed(2)} security deposit is held on your card at pickup and released after return.
+        </Text>
+      )}
+    </View>
+  );
+
+  const DetailRow = ({ icon, label, value }: { icon: string; label: string; value: string }) => (
+    <View style={styles.detailRow}>
+      <Ionicons name={icon as any} size={20} color="#ff6b35" />
+      <View style={styles.detailInfo}>
+        <Text style={styles.detailLabel}>{label}</Text>
+        <Text style={styles.detailValue}>{value}</Text>
+      </View>
+    </View>
+  );
+
+  const VehicleSummary = () => (
+    <View style={styles.vehicleCard}>
+      <Image source={{ uri: vehicle?.image_url }} style={styles.vehicleImage} />
+      <View style={styles.vehicleInfo}>
+        <Text style={styles.vehicleName}>{vehicle?.name}</Text>
+        <Text style={styles.vehicleType}>
+          {vehicle?.brand} {vehicle?.model} • {vehicle?.type}
+        </Text>
+        <Text style={styles.vehiclePrice}>${vehicle?.price_per_day}/day</Text>
+      </View>
+    </View>
+  );
+
+  if (loading) {
+    return (
+      <SafeAreaView style={styles.container}>
+        <View style={styles.loadingContainer}>
+          <Text>Loading...</Text>
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  if (!vehicle) {
+    return (
+      <SafeAreaView style={styles.container}>
+        <View style={styles.loadingContainer}>
+          <Ionicons name="car-outline" size={64} color="#ccc" />
+          <Text style={styles.emptyText}>Vehicle not found</Text>
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  if (booking) {
+    const canCancel = booking.status === 'pending' || booking.status === 'confirmed';
+
+    return (
+      <SafeAreaView style={styles.container}>
+        <View style={styles.header}>
+          <TouchableOpacity style={styles.backButton} onPress={() => router.back()}>
+            <Ionicons name="arrow-back" size={24} color="#333" />
+          </TouchableOpacity>
+          <Text style={styles.title}>Booking Details</Text>
+          <View style={styles.placeholder} />
+        </View>
+
+        <ScrollView style={styles.content}>
+          <VehicleSummary />
+
+          <View style={styles.card}>
+            <View style={styles.statusRow}>
+              <Text style={styles.cardTitle}>Status</Text>
+              <View style={[styles.statusBadge, { backgroundColor: getStatusColor(booking.status) }]}>
+                <Text style={styles.statusText}>{booking.status.toUpperCase()}</Text>
+              </View>
+            </View>
+            <DetailRow icon="calendar-outline" label="Pickup" value={formatDateTime(booking.start_date)} />
+            <DetailRow icon="calendar-outline" label="Return" value={formatDateTime(booking.end_date)} />
+            <DetailRow icon="location-outline" label="Pickup location" value={booking.pickup_location} />
+            <DetailRow
+              icon="flag-outline"
+              label="Drop-off location"
+              value={booking.dropoff_location || booking.pickup_location}
+            />
+            {booking.driver_license && (
+              <DetailRow icon="card-outline" label="Driver license" value={booking.driver_license} />
+            )}
+            {booking.protection_plans && (
+              <DetailRow
+                icon="shield-checkmark-outline"
+                label="Protection"
+                value={`${booking.protection_plans.name} • ${formatDeductible(booking.protection_deductible)}`}
+              />
+            )}
+            {bookingExtras.length > 0 && (
+              <DetailRow icon="bag-add-outline" label="Extras" value={formatBookingExtras(bookingExtras)} />
+            )}
+            {booking.special_requests && (
+              <DetailRow icon="chatbubble-outline" label="Special requests" value={booking.special_requests} />
+            )}
+          </View>
+
+          {booking.actual_pickup_time && (
+            <View style={styles.card}>
+              <Text style={styles.cardTitle}>Pickup Check-in</Text>
+              <DetailRow icon="key-outline" label="Picked up" value={formatDateTime(booking.actual_pickup_time)} />
+              {booking.mileage_start != null && (
+                <DetailRow
+                  icon="speedometer-outline"
+                  label="Odometer"
+                  value={`${booking.mileage_start.toLocaleString()} mi`}
+                />
+              )}
+              {booking.fuel_level_pickup != null && (
+                <DetailRow icon="water-outline" label="Fuel level" value={`${booking.fuel_level_pickup}%`} />
+              )}
+              <View style={styles.inspectionPhotos}>
+                <InspectionPhotoStrip photos={pickupPhotos} urls={inspectionPhotoUrls} emptyText="No walk-around photos" />
+              </View>
+            </View>
+          )}
+
+          {booking.actual_dropoff_time && (
+            <View style={styles.card}>
+              <Text style={styles.cardTitle}>Return Inspection</Text>
+              <DetailRow icon="key-outline" label="Returned" value={formatDateTime(booking.actual_dropoff_time)} />
+              {booking.mileage_end != null && (
+                <DetailRow
+                  icon="speedometer-outline"
+                  label="Odometer"
+                  value={`${booking.mileage_end.toLocaleString()} mi`}
+                />
+              )}
+              {booking.fuel_level_dropoff != null && (
+                <DetailRow icon="water-outline" label="Fuel level" value={`${booking.fuel_level_dropoff}%`} />
+              )}
+              {returnDamage.length === 0 ? (
+                <DetailRow icon="shield-checkmark-outline" label="Damage" value="No new damage found" />
+              ) : (
+                returnDamage.map(record => (
+                  <View key={record.id}>
+                    <DetailRow
+                      icon="warning-outline"
+                      label={`${getZoneLabel(record.zone)} • ${DAMAGE_SEVERITY_LABELS[record.severity]}`}
+                      value={record.description}
+                    />
+                    <View style={styles.inspectionPhotos}>
+                      <InspectionPhotoStrip photos={record.inspection_photos} urls={inspectionPhotoUrls} />
+                    </View>
+                  </View>
+                ))
+              )}
+            </View>
+          )}
+
+          {booking.price_quote && (
+            <View style={styles.card}>
+              <Text style={styles.cardTitle}>Price Breakdown</Text>
+              <PriceQuoteBreakdown quote={booking.price_quote} showTotal={false} />
+            </View>
+          )}
+
+          <View style={styles.card}>
+            <Text style={styles.cardTitle}>Payment</Text>
+            {booking.payment_method && (
+              <View style={styles.priceRow}>
+                <Text style={styles.priceLabel}>Payment method</Text>
+                <Text style={styles.priceValue}>{booking.payment_method}</Text>
+              </View>
+            )}
+            <View style={styles.priceRow}>
+              <Text style={styles.priceLabel}>Payment status</Text>
+              <Text style={styles.priceValue}>{booking.payment_status}</Text>
+            </View>
+            {booking.deposit_amount > 0 && (
+              <View style={styles.priceRow}>
+                <Text style={styles.priceLabel}>Deposit (${booking.deposit_amount.toFixed(2)})</Text>
+                <Text style={styles.priceValue}>{DEPOSIT_STATUS_LABELS[booking.deposit_status]}</Text>
+              </View>
+            )}
+            {booking.modification_fee > 0 && (
+              <View style={styles.priceRow}>
+                <Text style={styles.priceLabel}>Modification fees</Text>
+                <Text style={styles.priceValue}>${booking.modification_fee.toFixed(2)}</Text>
+              </View>
+            )}
+            {booking.cancellation_fee > 0 && (
+              <View style={styles.priceRow}>
+                <Text style={styles.priceLabel}>Cancellation fee</Text>
+                <Text style={styles.priceValue}>${booking.cancellation_fee.toFixed(2)}</Text>
+              </View>
+            )}
+            {booking.settlement && booking.settlement.total > 0 && (
+              <>
+                {booking.settlement.items.map(item => (
+                  <View key={item.type} style={styles.priceRow}>
+                    <Text style={styles.priceLabel}>{item.label}</Text>
+                    <Text style={styles.priceValue}>${item.amount.toFixed(2)}</Text>
+                  </View>
+                ))}
+                {booking.settlement.fromDeposit > 0 && (
+                  <View style={styles.priceRow}>
+                    <Text style={styles.priceLabel}>Paid from deposit</Text>
+                    <Text style={styles.priceValue}>${booking.settlement.fromDeposit.toFixed(2)}</Text>
+                  </View>
+                )}
+                {booking.settlement.toCard > 0 && (
+                  <View style={styles.priceRow}>
+                    <Text style={styles.priceLabel}>Charged to card</Text>
+                    <Text style={styles.priceValue}>
+                      {booking.settlement_status === 'charged'
+                        ? `$${booking.settlement.toCard.toFixed(2)}`
+                        : SETTLEMENT_STATUS_LABELS[booking.settlement_status]}
+                    </Text>
+                  </View>
+                )}
+              </>
+            )}
+            {booking.refunded_amount > 0 && (
+              <View style={styles.priceRow}>
+                <Text style={styles.priceLabel}>Refunded</Text>
+                <Text style={styles.priceValue}>${booking.refunded_amount.toFixed(2)}</Text>
+              </View>
+            )}
+            <View style={[styles.priceRow, styles.totalRow]}>
+              <Text style={styles.totalLabel}>Total</Text>
+              <Text style={styles.totalValue}>${booking.total_price.toFixed(2)}</Text>
+            </View>
+          </View>
+
+          {canCancel && (
+            <TouchableOpacity style={styles.cancelBookingButton} onPress={handleCancelBooking}>
+              <Ionicons name="close-circle-outline" size={20} color="#dc3545" />
+              <Text style={styles.cancelBookingText}>Cancel Booking</Text>
+            </TouchableOpacity>
+          )}
+        </ScrollView>
+      </SafeAreaView>
+    );
+  }
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <KeyboardAvoidingView
+        behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+        style={styles.keyboardView}
+      >
+        <View style={styles.header}>
+          <TouchableOpacity style={styles.backButton} onPress={handleBack}>
+            <Ionicons name="arrow-back" size={24} color="#333" />
+          </TouchableOpacity>
+          <Text style={styles.title}>Book {vehicle.name}</Text>
+          <View style={styles.placeholder} />
+        </View>
+
+        <View style={styles.stepper}>
+          {STEPS.map((s, i) => (
+            <View key={s.key} style={styles.stepItem}>
+              <View style={[styles.stepDot, i <= stepIndex && styles.stepDotActive]}>
+                <Text style={[styles.stepNumber, i <= stepIndex && styles.stepNumberActive]}>
+                  {i + 1}
+                </Text>
+              </View>
+              <Text style={[styles.stepLabel, i === stepIndex && styles.stepLabelActive]}>
+                {s.title}
+              </Text>
+            </View>
+          ))}
+        </View>
+
+        <ScrollView style={styles.content} keyboardShouldPersistTaps="handled">
+          {step === 'dates' && (
+            <>
+              <View style={styles.card}>
+                <Text style={styles.cardTitle}>
+                  {selectingReturn ? 'Select your return date' : 'Select your pickup date'}
+                </Text>
+                <AvailabilityCalendar
+                  bookedRanges={bookedRanges}
+                  minDate={today}
+                  startDate={pickupDate}
+                  endDate={selectingReturn ? null : dropoffDate}
+                  onSelectDate={handleSelectDate}
+                />
+              </View>
+              <View style={styles.card}>
+                <Text style={styles.cardTitle}>Pickup time • {formatDate(pickupDate)}</Text>
+                <TimeSelector selected={pickupTime} onSelect={setPickupTime} />
+                <Text style={styles.cardTitle}>Return time • {formatDate(dropoffDate)}</Text>
+                <TimeSelector selected={dropoffTime} onSelect={setDropoffTime} />
+              </View>
+            </>
+          )}
+
+          {step === 'locations' && (
+            <View style={styles.card}>
+              <Text style={styles.cardTitle}>Pickup location</Text>
+              <TextInput
+                style={styles.input}
+                placeholder="Where will you pick up the vehicle?"
+                value={pickupLocation}
+                onChangeText={setPickupLocation}
+              />
+              <TouchableOpacity
+                style={styles.checkboxRow}
+                onPress={() => setSameDropoff(!sameDropoff)}
+              >
+                <Ionicons
+                  name={sameDropoff ? 'checkbox' : 'square-outline'}
+                  size={22}
+                  color="#ff6b35"
+                />
+                <Text style={styles.checkboxText}>Return to the same location</Text>
+              </TouchableOpacity>
+              {!sameDropoff && (
+                <>
+                  <Text style={styles.cardTitle}>Drop-off location</Text>
+                  <TextInput
+                    style={styles.input}
+                    placeholder="Where will you return the vehicle?"
+                    value={dropoffLocation}
+                    onChangeText={setDropoffLocation}
+                  />
+                </>
+              )}
+            </View>
+          )}
+
+          {step === 'driver' && (
+            <View style={styles.card}>
+              <Text style={styles.cardTitle}>Driver license</Text>
+              {eligibility.eligible && license ? (
+                <View style={styles.licenseStatus}>
+                  <Ionicons name="shield-checkmark" size={20} color="#28a745" />
+                  <Text style={styles.licenseStatusText}>
+                    Verified • #{license.license_number}
+                  </Text>
+                </View>
+              ) : (
+                <>
+                  <View style={styles.licenseStatus}>
+                    <Ionicons name="alert-circle" size={20} color="#dc3545" />
+                    <Text style={[styles.licenseStatusText, styles.licenseStatusError]}>
+                      {eligibility.reason}
+                    </Text>
+                  </View>
+                  <TouchableOpacity
+                    style={styles.licenseLink}
+                    onPress={() => router.push(
+                      license?.status === 'approved' && !user?.date_of_birth
+                        ? '/profile/edit'
+                        : '/profile/driver-license'
+                    )}
+                  >
+                    <Text style={styles.licenseLinkText}>
+                      {license?.status === 'approved' && !user?.date_of_birth
+                        ? 'Add date of birth'
+                        : license ? 'View license' : 'Add driver license'}
+                    </Text>
+                    <Ionicons name="chevron-forward" size={16} color="#ff6b35" />
+                  </TouchableOpacity>
+                </>
+              )}
+              <Text style={styles.cardTitle}>Special requests</Text>
+              <TextInput
+                style={[styles.input, styles.textArea]}
+                placeholder="Anything we should know? (optional)"
+                value={specialRequests}
+                onChangeText={setSpecialRequests}
+                multiline
+                numberOfLines={4}
+              />
+            </View>
+          )}
+
+          {step === 'protection' && (
+            <View style={styles.card}>
+              <Text style={styles.cardTitle}>Choose your protection</Text>
+              {protectionPlans.map(plan => (
+                <TouchableOpacity
+                  key={plan.id}
+                  style={[styles.planOption, plan.id === protectionPlanId && styles.paymentOptionSelected]}
+                  onPress={() => setProtectionPlanId(plan.id)}
+                >
+                  <Ionicons
+                    name={plan.id === protectionPlanId ? 'radio-button-on' : 'radio-button-off'}
+                    size={20}
+                    color={plan.id === protectionPlanId ? '#ff6b35' : '#999'}
+                  />
+                  <View style={styles.planInfo}>
+                    <View style={styles.planHeader}>
+                      <Text style={styles.planName}>{plan.name}</Text>
+                      <Text style={styles.planPrice}>
+                        {plan.daily_price > 0 ? `$${plan.daily_price.toFixed(2)}/day` : 'Included'}
+                      </Text>
+                    </View>
+                    <Text style={styles.planDeductible}>{formatDeductible(plan.deductible)}</Text>
+                    {plan.description && <Text style={styles.planDescription}>{plan.description}</Text>}
+                  </View>
+                </TouchableOpacity>
+              ))}
+              <Text style={styles.depositNote}>
+                The deductible is the most you pay towards repairs if the vehicle is damaged during your rental.
+              </Text>
+            </View>
+          )}
+
+          {step === 'protection' && extras.length > 0 && (
+            <View style={styles.card}>
+              <Text style={styles.cardTitle}>Extras</Text>
+              {extras.map(extra => {
+                const quantity = extraSelection[extra.id] || 0;
+                const limit = getExtraLimit(extra);
+                return (
+                  <View key={extra.id} style={styles.extraRow}>
+                    <Ionicons name={extra.icon as any} size={22} color="#ff6b35" />
+                    <View style={styles.planInfo}>
+                      <Text style={styles.planName}>{extra.name}</Text>
+                      <Text style={styles.planDescription}>
+                        ${extra.price.toFixed(2)}{EXTRA_PRICING_LABELS[extra.pricing]}
+                        {limit === 0 ? ' • Unavailable for these dates' : ''}
+                      </Text>
+                    </View>
+                    <View style={styles.stepperControl}>
+                      <TouchableOpacity
+                        onPress={() => changeExtraQuantity(extra, -1)}
+                        disabled={quantity === 0}
+                      >
+                        <Ionicons name="remove-circle-outline" size={28} color={quantity === 0 ? '#ccc' : '#ff6b35'} />
+                      </TouchableOpacity>
+                      <Text style={styles.stepperValue}>{quantity}</Text>
+                      <TouchableOpacity
+                        onPress={() => changeExtraQuantity(extra, 1)}
+                        disabled={quantity >= limit}
+                      >
+                        <Ionicons name="add-circle-outline" size={28} color={quantity >= limit ? '#ccc' : '#ff6b35'} />
+                      </TouchableOpacity>
+                    </View>
+                  </View>
+                );
+              })}
+            </View>
+          )}
+
+          {step === 'review' && (
+            <>
+              <VehicleSummary />
+              <View style={styles.card}>
+                <Text style={styles.cardTitle}>Trip Details</Text>
+                <DetailRow icon="calendar-outline" label="Pickup" value={formatDateTime(startDate)} />
+                <DetailRow icon="calendar-outline" label="Return" value={formatDateTime(endDate)} />
+                <DetailRow icon="location-outline" label="Pickup location" value={pickupLocation} />
+                <DetailRow
+                  icon="flag-outline"
+                  label="Drop-off location"
+                  value={sameDropoff ? pickupLocation : dropoffLocation}
+                />
+                <DetailRow icon="card-outline" label="Driver license" value={license?.license_number || ''} />
+                {protectionPlan && (
+                  <DetailRow
+                    icon="shield-checkmark-outline"
+                    label="Protection"
+                    value={`${protectionPlan.name} • ${formatDeductible(protectionPlan.deductible)}`}
+                  />
+                )}
+                {selectedExtras.length > 0 && (
+                  <DetailRow
+                    icon="bag-add-outline"
+                    label="Extras"
+                    value={selectedExtras
+                      .map(extra => (extra.quantity > 1 ? `${extra.name} × ${extra.quantity}` : extra.name))
+                      .join(', ')}
+                  />
+                )}
+                {specialRequests.trim() ? (
+                  <DetailRow icon="chatbubble-outline" label="Special requests" value={specialRequests} />
+                ) : null}
+              </View>
+              <View style={styles.card}>
+                <Text style={styles.cardTitle}>Payment method</Text>
+                {paymentMethods.map(method => (
+                  <TouchableOpacity
+                    key={method.id}
+                    style={[
+                      styles.paymentOption,
+                      method.id === paymentMethodId && styles.paymentOptionSelected,
+                    ]}
+                    onPress={() => setPaymentMethodId(method.id)}
+                  >
+                    <Ionicons
+                      name={method.id === paymentMethodId ? 'radio-button-on' : 'radio-button-off'}
+                      size={20}
+                      color={method.id === paymentMethodId ? '#ff6b35' : '#999'}
+                    />
+                    <Text style={styles.paymentOptionText}>{getPaymentMethodLabel(method)}</Text>
+                    {method.is_default && <Text style={styles.paymentOptionHint}>Default</Text>}
+                  </TouchableOpacity>
+                ))}
+                <TouchableOpacity
+                  style={styles.licenseLink}
+                  onPress={() => router.push('/profile/payment-methods')}
+                >
+                  <Text style={styles.licenseLinkText}>
+                    {paymentMethods.length > 0 ? 'Manage cards' : 'Add a card'}
+                  </Text>
+                  <Ionicons name="chevron-forward" size={16} color="#ff6b35" />
+                </TouchableOpacity>
+              </View>
+            </>
+          )}
+
+          <PriceBreakdown />
+        </ScrollView>
+
+        <View style={styles.footer}>
+          <View>
+            <Text style={styles.footerLabel}>
+              {formatDate(pickupDate)} - {formatDate(dropoffDate)}
+            </Text>
+            <Text style={styles.footerPrice}>${totalPrice.toFixed(2)}</Text>
+          </View>
+          {step === 'review' ? (
+            <TouchableOpacity
+              style={[styles.primaryButton, submitting && styles.primaryButtonDisabled]}
+              onPress={handleConfirm}
+              disabled={submitting}
+            >
+              <Text style={styles.primaryButtonText}>
+                {submitting ? 'Booking...' : 'Confirm Booking'}
+              </Text>
+            </TouchableOpacity>
+          ) : (
+            <TouchableOpacity style={styles.primaryButton} onPress={handleNext}>
+              <Text style={styles.primaryButtonText}>Continue</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+      </KeyboardAvoidingView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8f9fa',
+  },
+  keyboardView: {
+    flex: 1,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  emptyText: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#666',
+    marginTop: 16,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingVertical: 15,
+    backgroundColor: '#fff',
+    borderBottomWidth: 1,
+    borderBottomColor: '#e9ecef',
+  },
+  backButton: {
+    padding: 5,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#333',
+  },
+  placeholder: {
+    width: 34,
+  },
+  stepper: {
+    flexDirection: 'row',
+    justifyContent: 'space-around',
+    backgroundColor: '#fff',
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#e9ecef',
+  },
+  stepItem: {
+    alignItems: 'center',
+  },
+  stepDot: {
+    width: 28,
+    height: 28,
+    borderRadius: 14,
+    backgroundColor: '#e9ecef',
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginBottom: 4,
+  },
+  stepDotActive: {
+    backgroundColor: '#ff6b35',
+  },
+  stepNumber: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#666',
+  },
+  stepNumberActive: {
+    color: '#fff',
+  },
+  stepLabel: {
+    fontSize: 12,
+    color: '#666',
+  },
+  stepLabelActive: {
+    color: '#ff6b35',
+    fontWeight: '600',
+  },
+  content: {
+    flex: 1,
+    padding: 20,
+  },
+  card: {
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 16,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+  },
+  inspectionPhotos: {
+    marginTop: 12,
+  },
+  cardTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+    marginBottom: 12,
+  },
+  selectedChip: {
+    backgroundColor: '#ff6b35',
+    borderColor: '#ff6b35',
+  },
+  selectedChipText: {
+    color: '#fff',
+  },
+  timeRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  timeChip: {
+    backgroundColor: '#f8f9fa',
+    borderRadius: 8,
+    paddingVertical: 8,
+    paddingHorizontal: 14,
+    marginRight: 8,
+    marginBottom: 8,
+    borderWidth: 1,
+    borderColor: '#e9ecef',
+  },
+  timeChipText: {
+    fontSize: 14,
+    color: '#333',
+    fontWeight: '500',
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+    marginBottom: 12,
+    backgroundColor: '#f8f9fa',
+  },
+  licenseStatus: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  licenseStatusText: {
+    flex: 1,
+    fontSize: 14,
+    color: '#333',
+    marginLeft: 8,
+  },
+  licenseStatusError: {
+    color: '#dc3545',
+  },
+  licenseLink: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 16,
+  },
+  licenseLinkText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#ff6b35',
+    marginRight: 4,
+  },
+  depositNote: {
+    fontSize: 12,
+    color: '#666',
+    marginTop: 12,
+  },
+  paymentOption: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 12,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#e9ecef',
+    marginBottom: 8,
+  },
+  paymentOptionSelected: {
+    borderColor: '#ff6b35',
+    backgroundColor: '#fff5f0',
+  },
+  paymentOptionText: {
+    flex: 1,
+    fontSize: 14,
+    color: '#333',
+    marginLeft: 8,
+  },
+  paymentOptionHint: {
+    fontSize: 12,
+    color: '#666',
+  },
+  planOption: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    padding: 12,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#e9ecef',
+    marginBottom: 8,
+  },
+  planInfo: {
+    flex: 1,
+    marginLeft: 8,
+  },
+  planHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  planName: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#333',
+  },
+  planPrice: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#ff6b35',
+  },
+  planDeductible: {
+    fontSize: 13,
+    color: '#333',
+    marginTop: 2,
+  },
+  planDescription: {
+    fontSize: 13,
+    color: '#666',
+    marginTop: 4,
+  },
+  extraRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f1f3f5',
+  },
+  stepperControl: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  stepperValue: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+    minWidth: 28,
+    textAlign: 'center',
+  },
+  textArea: {
+    height: 100,
+    textAlignVertical: 'top',
+  },
+  checkboxRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  checkboxText: {
+    fontSize: 14,
+    color: '#333',
+    marginLeft: 8,
+  },
+  vehicleCard: {
+    flexDirection: 'row',
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 16,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+  },
+  vehicleImage: {
+    width: 100,
+    height: 70,
+    borderRadius: 8,
+  },
+  vehicleInfo: {
+    flex: 1,
+    marginLeft: 12,
+    justifyContent: 'center',
+  },
+  vehicleName: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+  },
+  vehicleType: {
+    fontSize: 13,
+    color: '#666',
+    marginTop: 2,
+  },
+  vehiclePrice: {
+    fontSize: 14,
+    fontWeight: '700',
+    color: '#ff6b35',
+    marginTop: 4,
+  },
+  detailRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    marginBottom: 12,
+  },
+  detailInfo: {
+    flex: 1,
+    marginLeft: 12,
+  },
+  detailLabel: {
+    fontSize: 12,
+    color: '#666',
+  },
+  detailValue: {
+    fontSize: 15,
+    color: '#333',
+    fontWeight: '500',
+    marginTop: 2,
+  },
+  statusRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 4,
+  },
+  statusBadge: {
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    borderRadius: 12,
+  },
+  statusText: {
+    color: '#fff',
+    fontSize: 10,
+    fontWeight: '600',
+  },
+  priceCard: {
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 40,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+  },
+  priceRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginBottom: 8,
+  },
+  priceLabel: {
+    fontSize: 14,
+    color: '#666',
+  },
+  priceValue: {
+    fontSize: 14,
+    color: '#333',
+    fontWeight: '500',
+  },
+  totalRow: {
+    borderTopWidth: 1,
+    borderTopColor: '#e9ecef',
+    paddingTop: 8,
+    marginTop: 4,
+  },
+  totalLabel: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+  },
+  totalValue: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: '#ff6b35',
+  },
+  cancelBookingButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#dc3545',
+    paddingVertical: 14,
+    marginBottom: 40,
+  },
+  cancelBookingText: {
+    color: '#dc3545',
+    fontSize: 16,
+    fontWeight: '600',
+    marginLeft: 8,
+  },
+  footer: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    backgroundColor: '#fff',
+    borderTopWidth: 1,
+    borderTopColor: '#e9ecef',
+  },
+  footerLabel: {
+    fontSize: 12,
+    color: '#666',
+  },
+  footerPrice: {
+    fontSize: 20,
+    fontWeight: '700',
+    color: '#ff6b35',
+  },
+  primaryButton: {
+    backgroundColor: '#ff6b35',
+    borderRadius: 12,
+    paddingHorizontal: 28,
+    paddingVertical: 14,
+  },
+  primaryButtonDisabled: {
+    opacity: 0.6,
+  },
+  primaryButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
@@ -1,9 +1,13 @@
 import { Stack } from 'expo-router';
+import RouteGuard from '@/components/RouteGuard';
 
 export default function BookingLayout() {
   return (
-    <Stack screenOptions={{ headerShown: false }}>
-      <Stack.Screen name="[vehicleId]" />
-    </Stack>
+    <RouteGuard>
+      <Stack screenOptions={{ headerShown: false }}>
+        <Stack.Screen name="[vehicleId]" />
+        <Stack.Screen name="reschedule/[id]" />
+      </Stack>
+    </RouteGuard>
   );
 }
\ No newline at end of file
@@ -0,0 +1,548 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  Alert,
+  ActivityIndicator,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { router, useLocalSearchParams } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import { supabase } from '@/lib/supabase';
+import { BookedRange, getBookedRanges, isDayBooked, isRangeFree } from '@/lib/availability';
+import { RescheduleBooking, hasRefundDue, isBookingConflict, isPriceChangedError, rescheduleBooking } from '@/lib/bookings';
+import { getModificationQuote, isChangeWindowError } from '@/lib/bookingPolicy';
+import { roundMoney } from '@/lib/payments';
+import { PricingRule, calculateQuote } from '@/lib/pricing';
+import { getFleetUtilization, getPricingRules } from '@/lib/pricingRules';
+import { BookingExtra, bookingExtrasToQuote, getBookingExtras, isExtrasUnavailableError } from '@/lib/extras';
+import { isEligibilityError } from '@/lib/licenses';
+import AvailabilityCalendar from '@/components/AvailabilityCalendar';
+import PriceQuoteBreakdown from '@/components/PriceQuoteBreakdown';
+
+interface Booking extends RescheduleBooking {
+  vehicle_id: string;
+  start_date: string;
+  end_date: string;
+  pickup_time: string | null;
+  dropoff_time: string | null;
+  status: string;
+  total_price: number;
+  protection_daily_price: number;
+  protection_plans: { name: string } | null;
+  vehicles: {
+    name: string;
+    type: string;
+    price_per_day: number;
+  };
+}
+
+const TIME_SLOTS = ['08:00', '10:00', '12:00', '14:00', '16:00', '18:00'];
+const AVAILABILITY_WINDOW_DAYS = 365;
+
+const startOfDay = (date: Date) => {
+  const day = new Date(date);
+  day.setHours(0, 0, 0, 0);
+  return day;
+};
+
+const addDays = (date: Date, days: number) => {
+  const result = new Date(date);
+  result.setDate(result.getDate() + days);
+  return result;
+};
+
+const combineDateAndTime = (date: Date, time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  const result = new Date(date);
+  result.setHours(hours, minutes, 0, 0);
+  return result;
+};
+
+export default function RescheduleScreen() {
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const today = startOfDay(new Date());
+  const [booking, setBooking] = useState<Booking | null>(null);
+  const [bookedRanges, setBookedRanges] = useState<BookedRange[]>([]);
+  const [pickupDate, setPickupDate] = useState(today);
+  const [dropoffDate, setDropoffDate] = useState(addDays(today, 1));
+  const [pickupTime, setPickupTime] = useState('10:00');
+  const [dropoffTime, setDropoffTime] = useState('10:00');
+  const [selectingReturn, setSelectingReturn] = useState(false);
+  const [pricingRules, setPricingRules] = useState<PricingRule[]>([]);
+  const [utilization, setUtilization] = useState(0);
+  const [bookingExtras, setBookingExtras] = useState<BookingExtra[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    loadBooking();
+  }, [id]);
+
+  useEffect(() => {
+    const start = combineDateAndTime(pickupDate, pickupTime);
+    const end = combineDateAndTime(dropoffDate, dropoffTime);
+    if (end <= start) return;
+
+    getFleetUtilization(start, end, id)
+      .then(setUtilization)
+      .catch(error => console.error('Error loading fleet utilization:', error));
+  }, [pickupDate, dropoffDate, pickupTime, dropoffTime]);
+
+  const loadBooking = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('bookings')
+        .select(`
+          *,
+          vehicles (
+            name,
+            type,
+            price_per_day
+          ),
+          protection_plans (
+            name
+          )
+        `)
+        .eq('id', id)
+        .single();
+
+      if (error) throw error;
+
+      setBooking(data);
+      setPickupDate(startOfDay(new Date(data.start_date)));
+      setDropoffDate(startOfDay(new Date(data.end_date)));
+      setPickupTime(data.pickup_time?.slice(0, 5) || '10:00');
+      setDropoffTime(data.dropoff_time?.slice(0, 5) || '10:00');
+
+      // The booking's own dates are free to move into
+      const [ranges, rules, items] = await Promise.all([
+        getBookedRanges(data.vehicle_id, today, addDays(today, AVAILABILITY_WINDOW_DAYS)),
+        getPricingRules(),
+        getBookingExtras(data.id),
+      ]);
+      setPricingRules(rules);
+      setBookingExtras(items);
+      setBookedRanges(ranges.filter(range =>
+        new Date(range.start_date).getTime() !== new Date(data.start_date).getTime() ||
+        new Date(range.end_date).getTime() !== new Date(data.end_date).getTime()
+      ));
+    } catch (error) {
+      console.error('Error loading booking:', error);
+      Alert.alert('Error', 'Failed to load booking');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const formatDateTime = (date: Date | string) => {
+    return new Date(date).toLocaleString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: '2-digit',
+    });
+  };
+
+  const hasBookedDayBetween = (from: Date, to: Date) => {
+    for (let day = addDays(from, 1); day < to; day = addDays(day, 1)) {
+      if (isDayBooked(day, bookedRanges)) return true;
+    }
+    return false;
+  };
+
+  const handleSelectDate = (date: Date) => {
+    if (selectingReturn && date > pickupDate && !hasBookedDayBetween(pickupDate, date)) {
+      setDropoffDate(date);
+      setSelectingReturn(false);
+      return;
+    }
+
+    setPickupDate(date);
+    setDropoffDate(addDays(date, 1));
+    setSelectingReturn(true);
+  };
+
+  const renderTimeSelector = (selected: string, onSelect: (time: string) => void) => (
+    <View style={styles.timeRow}>
+      {TIME_SLOTS.map((time) => (
+        <TouchableOpacity
+          key={time}
+          style={[styles.timeChip, selected === time && styles.selectedChip]}
+          onPress={() => onSelect(time)}
+        >
+          <Text style={[styles.timeChipText, selected === time && styles.selectedChipText]}>
+            {time}
+          </Text>
+        </TouchableOpacity>
+      ))}
+    </View>
+  );
+
+  if (loading) {
+    return (
+      <SafeAreaView style={styles.container}>
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color="#ff6b35" />
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  if (!booking) {
+    return (
+      <SafeAreaView style={styles.container}>
+        <View style={styles.loadingContainer}>
+          <Text style={styles.mutedText}>Booking not found</Text>
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  const quote = getModificationQuote(booking);
+  const startDate = combineDateAndTime(pickupDate, pickupTime);
+  const endDate = combineDateAndTime(dropoffDate, dropoffTime);
+  // Repriced under today's rules, the same way a new booking would be
+  const priceQuote = calculateQuote({
+    pricePerDay: booking.vehicles.price_per_day,
+    vehicleType: booking.vehicles.type,
+    start: startDate,
+    end: endDate,
+    rules: pricingRules,
+    utilization,
+    // The cover keeps the daily price it was bought at
+    protection: {
+      name: booking.protection_plans?.name || 'Protection',
+      dailyPrice: booking.protection_daily_price,
+    },
+    extras: bookingExtrasToQuote(bookingExtras),
+  });
+  const newTotal = priceQuote.total;
+  const previouslyPaid = roundMoney(booking.amount_charged - booking.refunded_amount);
+  const newCharge = roundMoney(newTotal + booking.modification_fee + quote.fee);
+  const unchanged =
+    startDate.getTime() === new Date(booking.start_date).getTime() &&
+    endDate.getTime() === new Date(booking.end_date).getTime();
+
+  const validate = () => {
+    if (!quote.allowed) {
+      Alert.alert('Cannot Reschedule', quote.reason);
+      return false;
+    }
+    if (startDate <= new Date()) {
+      Alert.alert('Error', 'Pickup time must be in the future');
+      return false;
+    }
+    if (endDate <= startDate) {
+      Alert.alert('Error', 'Return must be after pickup');
+      return false;
+    }
+    if (!isRangeFree(startDate, endDate, bookedRanges)) {
+      Alert.alert('Dates Unavailable', 'This vehicle is already booked for part of the selected period');
+      return false;
+    }
+    return true;
+  };
+
+  const submit = async () => {
+    setSaving(true);
+    try {
+      const updated = await rescheduleBooking(booking, {
+        start_date: startDate.toISOString(),
+        end_date: endDate.toISOString(),
+        pickup_time: pickupTime,
+        dropoff_time: dropoffTime,
+        total_price: newTotal,
+        modification_fee: quote.fee,
+      });
+
+      Alert.alert(
+        'Booking Rescheduled',
+        `Your ${booking.vehicles.name} is now booked for ${formatDateTime(startDate)} - ${formatDateTime(endDate)}.` +
+          (hasRefundDue(updated)
+            ? ` The refund of your original $${updated.refund_due_amount.toFixed(2)} payment is delayed; our team will complete it shortly.`
+            : ''),
+        [{ text: 'OK', onPress: () => router.back() }]
+      );
+    } catch (error: any) {
+      console.error('Error rescheduling booking:', error);
+      if (isBookingConflict(error)) {
+        Alert.alert('Dates Unavailable', 'This vehicle was just booked for part of those dates. Please choose others.');
+      } else if (isChangeWindowError(error)) {
+        Alert.alert('Cannot Reschedule', error.message);
+      } else if (isEligibilityError(error)) {
+        Alert.alert('Driver Not Eligible', `${error.message}. Please choose other dates or contact support.`);
+      } else if (isExtrasUnavailableError(error)) {
+        Alert.alert('Extras Unavailable', `${error.message}. Please choose other dates or contact support.`);
+      } else if (isPriceChangedError(error)) {
+        // The charge was refunded; reprice with the current rules and demand
+        Alert.alert('Price Changed', 'The price for these dates has just changed. Please review the new total and try again.');
+        Promise.all([getPricingRules(), getFleetUtilization(startDate, endDate, booking.id)])
+          .then(([rules, fleetUtilization]) => {
+            setPricingRules(rules);
+            setUtilization(fleetUtilization);
+          })
+          .catch(reloadError => console.error('Error refreshing prices:', reloadError));
+      } else {
+        Alert.alert('Reschedule Failed', error.message || 'Failed to reschedule booking');
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleConfirm = () => {
+    if (!validate()) return;
+
+    Alert.alert(
+      'Confirm Reschedule',
+      `Your card will be charged $${newCharge.toFixed(2)} for the new dates` +
+        (quote.fee > 0 ? `, including a $${quote.fee.toFixed(2)} modification fee` : '') +
+        (previouslyPaid > 0 ? `, and your original $${previouslyPaid.toFixed(2)} payment will be refunded.` : '.'),
+      [
+        { text: 'Back', style: 'cancel' },
+        { text: 'Reschedule', onPress: submit },
+      ]
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.backButton} onPress={() => router.back()}>
+          <Ionicons name="arrow-back" size={24} color="#333" />
+        </TouchableOpacity>
+        <Text style={styles.title}>Reschedule</Text>
+        <View style={styles.placeholder} />
+      </View>
+
+      <ScrollView style={styles.content}>
+        <View style={styles.card}>
+          <Text style={styles.vehicleName}>{booking.vehicles.name}</Text>
+          <Text style={styles.mutedText}>
+            Currently {formatDateTime(booking.start_date)} - {formatDateTime(booking.end_date)}
+          </Text>
+        </View>
+
+        {!quote.allowed ? (
+          <View style={styles.noticeCard}>
+            <Ionicons name="alert-circle-outline" size={20} color="#dc3545" />
+            <Text style={styles.noticeText}>{quote.reason}</Text>
+          </View>
+        ) : (
+          <>
+            <View style={styles.card}>
+              <Text style={styles.cardTitle}>
+                {selectingReturn ? 'Select your new return date' : 'Select your new pickup date'}
+              </Text>
+              <AvailabilityCalendar
+                bookedRanges={bookedRanges}
+                minDate={today}
+                startDate={pickupDate}
+                endDate={selectingReturn ? null : dropoffDate}
+                onSelectDate={handleSelectDate}
+              />
+            </View>
+
+            <View style={styles.card}>
+              <Text style={styles.cardTitle}>Pickup time</Text>
+              {renderTimeSelector(pickupTime, setPickupTime)}
+              <Text style={styles.cardTitle}>Return time</Text>
+              {renderTimeSelector(dropoffTime, setDropoffTime)}
+            </View>
+
+            <View style={styles.card}>
+              <Text style={styles.cardTitle}>Price Change</Text>
+              <PriceQuoteBreakdown quote={priceQuote} showTotal={false} />
+              {booking.modification_fee > 0 && (
+                <View style={styles.priceRow}>
+                  <Text style={styles.priceLabel}>Earlier modification fees</Text>
+                  <Text style={styles.priceValue}>${booking.modification_fee.toFixed(2)}</Text>
+                </View>
+              )}
+              <View style={styles.priceRow}>
+                <Text style={styles.priceLabel}>Modification fee</Text>
+                <Text style={styles.priceValue}>
+                  {quote.fee > 0 ? `$${quote.fee.toFixed(2)}` : 'Free'}
+                </Text>
+              </View>
+              <View style={[styles.priceRow, styles.totalRow]}>
+                <Text style={styles.totalLabel}>New charge</Text>
+                <Text style={styles.totalValue}>${newCharge.toFixed(2)}</Text>
+              </View>
+              {previouslyPaid > 0 && (
+                <View style={styles.priceRow}>
+                  <Text style={styles.priceLabel}>Refund of original payment</Text>
+                  <Text style={styles.priceValue}>-${previouslyPaid.toFixed(2)}</Text>
+                </View>
+              )}
+            </View>
+
+            <TouchableOpacity
+              style={[styles.confirmButton, (saving || unchanged) && styles.confirmButtonDisabled]}
+              onPress={handleConfirm}
+              disabled={saving || unchanged}
+            >
+              <Text style={styles.confirmButtonText}>
+                {saving ? 'Rescheduling...' : 'Confirm New Dates'}
+              </Text>
+            </TouchableOpacity>
+          </>
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8f9fa',
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingVertical: 15,
+    backgroundColor: '#fff',
+    borderBottomWidth: 1,
+    borderBottomColor: '#e9ecef',
+  },
+  backButton: {
+    padding: 5,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#333',
+  },
+  placeholder: {
+    width: 34,
+  },
+  content: {
+    flex: 1,
+    padding: 20,
+  },
+  card: {
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 16,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.05,
+    shadowRadius: 4,
+    elevation: 2,
+  },
+  cardTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+    marginBottom: 12,
+  },
+  vehicleName: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#333',
+    marginBottom: 4,
+  },
+  mutedText: {
+    fontSize: 14,
+    color: '#666',
+  },
+  noticeCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    padding: 16,
+    borderLeftWidth: 4,
+    borderLeftColor: '#dc3545',
+  },
+  noticeText: {
+    flex: 1,
+    fontSize: 14,
+    color: '#333',
+    marginLeft: 8,
+  },
+  timeRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginBottom: 8,
+  },
+  timeChip: {
+    backgroundColor: '#f8f9fa',
+    borderRadius: 8,
+    paddingVertical: 8,
+    paddingHorizontal: 14,
+    marginRight: 8,
+    marginBottom: 8,
+    borderWidth: 1,
+    borderColor: '#e9ecef',
+  },
+  selectedChip: {
+    backgroundColor: '#ff6b35',
+    borderColor: '#ff6b35',
+  },
+  timeChipText: {
+    fontSize: 14,
+    color: '#333',
+    fontWeight: '500',
+  },
+  selectedChipText: {
+    color: '#fff',
+  },
+  priceRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginBottom: 8,
+  },
+  priceLabel: {
+    fontSize: 14,
+    color: '#666',
+  },
+  priceValue: {
+    fontSize: 14,
+    color: '#333',
+    fontWeight: '500',
+  },
+  totalRow: {
+    borderTopWidth: 1,
+    borderTopColor: '#e9ecef',
+    paddingTop: 8,
+  },
+  totalLabel: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+  },
+  totalValue: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#ff6b35',
+  },
+  confirmButton: {
+    backgroundColor: '#ff6b35',
+    borderRadius: 12,
+    paddingVertical: 16,
+    alignItems: 'center',
+    marginBottom: 40,
+  },
+  confirmButtonDisabled: {
+    opacity: 0.6,
+  },
+  confirmButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
@@ -1,13 +1,18 @@
 import { Stack } from 'expo-router';
+import RouteGuard from '@/components/RouteGuard';
 
 export default function ProfileLayout() {
   return (
-    <Stack screenOptions={{ headerShown: false }}>
-      <Stack.Screen name="pickup-locations" />
-      <Stack.Screen name="payment-methods" />
-      <Stack.Screen name="notifications" />
-      <Stack.Screen name="help-support" />
-      <Stack.Screen name="settings" />
-    </Stack>
+    <RouteGuard>
+      <Stack screenOptions={{ headerShown: false }}>
+        <Stack.Screen name="edit" />
+        <Stack.Screen name="driver-license" />
+        <Stack.Screen name="pickup-locations" />
+        <Stack.Screen name="payment-methods" />
+        <Stack.Screen name="notifications" />
+        <Stack.Screen name="help-support" />
+        <Stack.Screen name="settings" />
+      </Stack>
+    </RouteGuard>
   );
 }
\ No newline at end of file
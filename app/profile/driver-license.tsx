@@ -0,0 +1,455 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  TextInput,
+  Image,
+  Alert,
+  KeyboardAvoidingView,
+  Platform,
+  ActivityIndicator,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { router } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import * as ImagePicker from 'expo-image-picker';
+import { useAuth } from '@/hooks/useAuth';
+import { parseDateInput } from '@/lib/profile';
+import {
+  DriverLicense,
+  LicenseImage,
+  LicenseStatus,
+  getLicense,
+  getLicenseImageUrl,
+  submitLicense,
+} from '@/lib/licenses';
+
+type Side = 'front' | 'back';
+
+interface PickedPhoto extends LicenseImage {
+  uri: string;
+}
+
+const STATUS_DETAILS: Record<LicenseStatus, { label: string; icon: string; color: string; message: string }> = {
+  pending: {
+    label: 'Under Review',
+    icon: 'time-outline',
+    color: '#ffc107',
+    message: 'We are reviewing your license. This usually takes less than a day.',
+  },
+  approved: {
+    label: 'Approved',
+    icon: 'checkmark-circle-outline',
+    color: '#28a745',
+    message: 'Your license is verified. You are ready to book.',
+  },
+  rejected: {
+    label: 'Rejected',
+    icon: 'close-circle-outline',
+    color: '#dc3545',
+    message: 'Your license could not be verified. Please update the details and resubmit.',
+  },
+};
+
+export default function DriverLicenseScreen() {
+  const { user } = useAuth();
+  const [license, setLicense] = useState<DriverLicense | null>(null);
+  const [licenseNumber, setLicenseNumber] = useState('');
+  const [expiryDate, setExpiryDate] = useState('');
+  const [photos, setPhotos] = useState<Partial<Record<Side, PickedPhoto>>>({});
+  const [storedPhotoUrls, setStoredPhotoUrls] = useState<Partial<Record<Side, string>>>({});
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    loadLicense();
+  }, []);
+
+  const loadLicense = async () => {
+    if (!user) return;
+
+    try {
+      const data = await getLicense(user.id);
+      setLicense(data);
+
+      if (data) {
+        setLicenseNumber(data.license_number);
+        setExpiryDate(data.expiry_date);
+        const [front, back] = await Promise.all([
+          getLicenseImageUrl(data.front_image_path),
+          getLicenseImageUrl(data.back_image_path),
+        ]);
+        setStoredPhotoUrls({ front, back });
+      }
+    } catch (error) {
+      console.error('Error loading license:', error);
+      Alert.alert('Error', 'Failed to load your driver license');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const pickPhoto = async (side: Side, source: 'camera' | 'library') => {
+    const permission = source === 'camera'
+      ? await ImagePicker.requestCameraPermissionsAsync()
+      : await ImagePicker.requestMediaLibraryPermissionsAsync();
+
+    if (!permission.granted) {
+      Alert.alert('Permission Needed', `Allow ${source === 'camera' ? 'camera' : 'photo library'} access to add your license.`);
+      return;
+    }
+
+    const options: ImagePicker.ImagePickerOptions = {
+      mediaTypes: ImagePicker.MediaTypeOptions.Images,
+      allowsEditing: true,
+      aspect: [16, 10],
+      quality: 0.8,
+      base64: true,
+    };
+
+    const result = source === 'camera'
+      ? await ImagePicker.launchCameraAsync(options)
+      : await ImagePicker.launchImageLibraryAsync(options);
+
+    const asset = result.canceled ? null : result.assets[0];
+    if (asset?.base64) {
+      setPhotos(current => ({
+        ...current,
+        [side]: { uri: asset.uri, base64: asset.base64!, mimeType: asset.mimeType },
+      }));
+    }
+  };
+
+  const choosePhotoSource = (side: Side) => {
+    Alert.alert(
+      side === 'front' ? 'Front of License' : 'Back of License',
+      'Make sure all four corners are visible and the text is readable.',
+      [
+        { text: 'Take Photo', onPress: () => pickPhoto(side, 'camera') },
+        { text: 'Choose from Library', onPress: () => pickPhoto(side, 'library') },
+        { text: 'Cancel', style: 'cancel' },
+      ]
+    );
+  };
+
+  const validate = () => {
+    if (licenseNumber.trim().length < 5) {
+      Alert.alert('Error', 'Please enter a valid driver license number');
+      return false;
+    }
+
+    const expiry = parseDateInput(expiryDate);
+    if (!expiry) {
+      Alert.alert('Error', 'Expiry date must be a valid date in the format YYYY-MM-DD');
+      return false;
+    }
+    if (expiry < new Date()) {
+      Alert.alert('Error', 'This license has expired');
+      return false;
+    }
+
+    if (!license && (!photos.front || !photos.back)) {
+      Alert.alert('Error', 'Please add photos of the front and back of your license');
+      return false;
+    }
+
+    return true;
+  };
+
+  const handleSubmit = async () => {
+    if (!user || !validate()) return;
+
+    setSaving(true);
+    try {
+      const saved = await submitLicense(user.id, {
+        license_number: licenseNumber.trim().toUpperCase(),
+        expiry_date: expiryDate.trim(),
+        front: photos.front,
+        back: photos.back,
+      }, license);
+
+      setLicense(saved);
+      setStoredPhotoUrls(current => ({
+        front: photos.front?.uri || current.front,
+        back: photos.back?.uri || current.back,
+      }));
+      setPhotos({});
+      Alert.alert('Submitted', 'Your license has been sent for review.');
+    } catch (error: any) {
+      console.error('Error submitting license:', error);
+      Alert.alert('Error', error.message || 'Failed to submit your license');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const renderPhoto = (side: Side) => {
+    const uri = photos[side]?.uri || storedPhotoUrls[side];
+
+    return (
+      <TouchableOpacity style={styles.photoSlot} onPress={() => choosePhotoSource(side)}>
+        {uri ? (
+          <Image source={{ uri }} style={styles.photo} />
+        ) : (
+          <View style={styles.photoPlaceholder}>
+            <Ionicons name="camera-outline" size={28} color="#999" />
+            <Text style={styles.photoPlaceholderText}>
+              {side === 'front' ? 'Front' : 'Back'}
+            </Text>
+          </View>
+        )}
+      </TouchableOpacity>
+    );
+  };
+
+  if (loading) {
+    return (
+      <SafeAreaView style={styles.container}>
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color="#ff6b35" />
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  const status = license ? STATUS_DETAILS[license.status] : null;
+  const hasChanges =
+    !license ||
+    !!photos.front ||
+    !!photos.back ||
+    licenseNumber.trim().toUpperCase() !== license.license_number ||
+    expiryDate.trim() !== license.expiry_date;
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.backButton} onPress={() => router.back()}>
+          <Ionicons name="arrow-back" size={24} color="#333" />
+        </TouchableOpacity>
+        <Text style={styles.title}>Driver License</Text>
+        <View style={styles.placeholder} />
+      </View>
+
+      <KeyboardAvoidingView
+        behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+        style={styles.keyboardView}
+      >
+        <ScrollView style={styles.content}>
+          {status && license ? (
+            <View style={[styles.statusCard, { borderLeftColor: status.color }]}>
+              <Ionicons name={status.icon as any} size={24} color={status.color} />
+              <View style={styles.statusInfo}>
+                <Text style={[styles.statusLabel, { color: status.color }]}>{status.label}</Text>
+                <Text style={styles.statusMessage}>{status.message}</Text>
+                {license.status === 'rejected' && license.rejection_reason && (
+                  <Text style={styles.rejectionReason}>Reason: {license.rejection_reason}</Text>
+                )}
+              </View>
+            </View>
+          ) : (
+            <View style={styles.infoCard}>
+              <Ionicons name="information-circle-outline" size={20} color="#007bff" />
+              <Text style={styles.infoText}>
+                A verified license is required before you can book. Drivers must be at least 21 years old.
+              </Text>
+            </View>
+          )}
+
+          <Text style={styles.sectionTitle}>License Photos</Text>
+          <View style={styles.photoRow}>
+            {renderPhoto('front')}
+            {renderPhoto('back')}
+          </View>
+
+          <View style={styles.field}>
+            <Text style={styles.label}>License Number</Text>
+            <TextInput
+              style={styles.input}
+              value={licenseNumber}
+              onChangeText={setLicenseNumber}
+              placeholder="License number"
+              autoCapitalize="characters"
+              autoCorrect={false}
+            />
+          </View>
+
+          <View style={styles.field}>
+            <Text style={styles.label}>Expiry Date</Text>
+            <TextInput
+              style={styles.input}
+              value={expiryDate}
+              onChangeText={setExpiryDate}
+              placeholder="YYYY-MM-DD"
+              keyboardType="numbers-and-punctuation"
+              maxLength={10}
+            />
+          </View>
+
+          <TouchableOpacity
+            style={[styles.submitButton, (saving || !hasChanges) && styles.submitButtonDisabled]}
+            onPress={handleSubmit}
+            disabled={saving || !hasChanges}
+          >
+            <Text style={styles.submitButtonText}>
+              {saving ? 'Submitting...' : license ? 'Resubmit for Review' : 'Submit for Review'}
+            </Text>
+          </TouchableOpacity>
+        </ScrollView>
+      </KeyboardAvoidingView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8f9fa',
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    backgroundColor: '#fff',
+    borderBottomWidth: 1,
+    borderBottomColor: '#e9ecef',
+  },
+  backButton: {
+    padding: 8,
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: '700',
+    color: '#333',
+  },
+  placeholder: {
+    width: 40,
+  },
+  keyboardView: {
+    flex: 1,
+  },
+  content: {
+    flex: 1,
+    padding: 20,
+  },
+  statusCard: {
+    flexDirection: 'row',
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 24,
+    borderLeftWidth: 4,
+  },
+  statusInfo: {
+    flex: 1,
+    marginLeft: 12,
+  },
+  statusLabel: {
+    fontSize: 16,
+    fontWeight: '700',
+    marginBottom: 4,
+  },
+  statusMessage: {
+    fontSize: 14,
+    color: '#666',
+    lineHeight: 20,
+  },
+  rejectionReason: {
+    fontSize: 14,
+    color: '#dc3545',
+    marginTop: 8,
+  },
+  infoCard: {
+    flexDirection: 'row',
+    backgroundColor: '#e7f1ff',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 24,
+  },
+  infoText: {
+    flex: 1,
+    fontSize: 14,
+    color: '#333',
+    lineHeight: 20,
+    marginLeft: 12,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+    marginBottom: 12,
+  },
+  photoRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginBottom: 24,
+  },
+  photoSlot: {
+    width: '48%',
+    aspectRatio: 1.6,
+    borderRadius: 12,
+    overflow: 'hidden',
+    backgroundColor: '#fff',
+    borderWidth: 1,
+    borderColor: '#e9ecef',
+    borderStyle: 'dashed',
+  },
+  photo: {
+    width: '100%',
+    height: '100%',
+  },
+  photoPlaceholder: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  photoPlaceholderText: {
+    fontSize: 14,
+    color: '#999',
+    marginTop: 4,
+  },
+  field: {
+    marginBottom: 20,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#333',
+    marginBottom: 8,
+  },
+  input: {
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 14,
+    fontSize: 16,
+    color: '#333',
+    borderWidth: 1,
+    borderColor: '#e9ecef',
+  },
+  submitButton: {
+    backgroundColor: '#ff6b35',
+    borderRadius: 12,
+    paddingVertical: 16,
+    alignItems: 'center',
+    marginTop: 8,
+    marginBottom: 40,
+  },
+  submitButtonDisabled: {
+    opacity: 0.6,
+  },
+  submitButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
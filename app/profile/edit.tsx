@@ -0,0 +1,306 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  TextInput,
+  Image,
+  Alert,
+  KeyboardAvoidingView,
+  Platform,
+  ActivityIndicator,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { router } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import * as ImagePicker from 'expo-image-picker';
+import { useAuth } from '@/hooks/useAuth';
+import {
+  MIN_PROFILE_AGE,
+  getAge,
+  isValidPhone,
+  parseDateInput,
+  updateProfile,
+  uploadAvatar,
+} from '@/lib/profile';
+
+interface PickedAvatar {
+  uri: string;
+  base64: string;
+  mimeType?: string;
+}
+
+export default function EditProfileScreen() {
+  const { user, refreshUser } = useAuth();
+  const [fullName, setFullName] = useState(user?.full_name || '');
+  const [phone, setPhone] = useState(user?.phone || '');
+  const [dateOfBirth, setDateOfBirth] = useState(user?.date_of_birth || '');
+  const [avatar, setAvatar] = useState<PickedAvatar | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const pickAvatar = async () => {
+    const permission = await ImagePicker.requestMediaLibraryPermissionsAsync();
+    if (!permission.granted) {
+      Alert.alert('Permission Needed', 'Allow photo library access to choose a profile picture.');
+      return;
+    }
+
+    const result = await ImagePicker.launchImageLibraryAsync({
+      mediaTypes: ImagePicker.MediaTypeOptions.Images,
+      allowsEditing: true,
+      aspect: [1, 1],
+      quality: 0.7,
+      base64: true,
+    });
+
+    const asset = result.canceled ? null : result.assets[0];
+    if (asset?.base64) {
+      setAvatar({ uri: asset.uri, base64: asset.base64, mimeType: asset.mimeType });
+    }
+  };
+
+  const validate = () => {
+    if (!fullName.trim()) {
+      Alert.alert('Error', 'Please enter your full name');
+      return false;
+    }
+
+    if (phone.trim() && !isValidPhone(phone.trim())) {
+      Alert.alert('Error', 'Please enter a valid phone number');
+      return false;
+    }
+
+    if (dateOfBirth.trim()) {
+      const dob = parseDateInput(dateOfBirth);
+      if (!dob || dob > new Date()) {
+        Alert.alert('Error', 'Date of birth must be a valid date in the format YYYY-MM-DD');
+        return false;
+      }
+      if (getAge(dob) < MIN_PROFILE_AGE) {
+        Alert.alert('Error', `You must be at least ${MIN_PROFILE_AGE} years old to use Aryeh Rentals`);
+        return false;
+      }
+    }
+
+    return true;
+  };
+
+  const handleSave = async () => {
+    if (!user || !validate()) return;
+
+    setSaving(true);
+    try {
+      const avatarUrl = avatar
+        ? await uploadAvatar(user.id, avatar.base64, avatar.mimeType)
+        : undefined;
+
+      await updateProfile(user.id, {
+        full_name: fullName.trim(),
+        phone: phone.trim() || null,
+        date_of_birth: dateOfBirth.trim() || null,
+        ...(avatarUrl && { avatar_url: avatarUrl }),
+      });
+
+      await refreshUser();
+      router.back();
+    } catch (error: any) {
+      console.error('Error saving profile:', error);
+      Alert.alert('Error', error.message || 'Failed to save profile');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const avatarUri = avatar?.uri || user?.avatar_url;
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.backButton} onPress={() => router.back()}>
+          <Ionicons name="arrow-back" size={24} color="#333" />
+        </TouchableOpacity>
+        <Text style={styles.title}>Edit Profile</Text>
+        <TouchableOpacity style={styles.headerButton} onPress={handleSave} disabled={saving}>
+          {saving ? (
+            <ActivityIndicator size="small" color="#ff6b35" />
+          ) : (
+            <Text style={styles.saveText}>Save</Text>
+          )}
+        </TouchableOpacity>
+      </View>
+
+      <KeyboardAvoidingView
+        behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+        style={styles.keyboardView}
+      >
+        <ScrollView style={styles.content}>
+          <TouchableOpacity style={styles.avatarContainer} onPress={pickAvatar}>
+            {avatarUri ? (
+              <Image source={{ uri: avatarUri }} style={styles.avatar} />
+            ) : (
+              <View style={[styles.avatar, styles.avatarPlaceholder]}>
+                <Ionicons name="person" size={40} color="#999" />
+              </View>
+            )}
+            <View style={styles.cameraBadge}>
+              <Ionicons name="camera" size={16} color="#fff" />
+            </View>
+          </TouchableOpacity>
+          <Text style={styles.avatarHint}>Tap to change photo</Text>
+
+          <View style={styles.field}>
+            <Text style={styles.label}>Full Name</Text>
+            <TextInput
+              style={styles.input}
+              value={fullName}
+              onChangeText={setFullName}
+              placeholder="Your name"
+              autoCapitalize="words"
+            />
+          </View>
+
+          <View style={styles.field}>
+            <Text style={styles.label}>Email</Text>
+            <TextInput
+              style={[styles.input, styles.inputDisabled]}
+              value={user?.email}
+              editable={false}
+            />
+          </View>
+
+          <View style={styles.field}>
+            <Text style={styles.label}>Phone</Text>
+            <TextInput
+              style={styles.input}
+              value={phone}
+              onChangeText={setPhone}
+              placeholder="+1 555 123 4567"
+              keyboardType="phone-pad"
+            />
+          </View>
+
+          <View style={styles.field}>
+            <Text style={styles.label}>Date of Birth</Text>
+            <TextInput
+              style={styles.input}
+              value={dateOfBirth}
+              onChangeText={setDateOfBirth}
+              placeholder="YYYY-MM-DD"
+              keyboardType="numbers-and-punctuation"
+              maxLength={10}
+            />
+            <Text style={styles.hint}>
+              Used to confirm you meet the minimum rental age
+            </Text>
+          </View>
+        </ScrollView>
+      </KeyboardAvoidingView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8f9fa',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    backgroundColor: '#fff',
+    borderBottomWidth: 1,
+    borderBottomColor: '#e9ecef',
+  },
+  backButton: {
+    padding: 8,
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: '700',
+    color: '#333',
+  },
+  headerButton: {
+    padding: 8,
+    minWidth: 48,
+    alignItems: 'flex-end',
+  },
+  saveText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#ff6b35',
+  },
+  keyboardView: {
+    flex: 1,
+  },
+  content: {
+    flex: 1,
+    padding: 20,
+  },
+  avatarContainer: {
+    alignSelf: 'center',
+    marginTop: 8,
+  },
+  avatar: {
+    width: 100,
+    height: 100,
+    borderRadius: 50,
+  },
+  avatarPlaceholder: {
+    backgroundColor: '#e9ecef',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  cameraBadge: {
+    position: 'absolute',
+    right: 0,
+    bottom: 0,
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    backgroundColor: '#ff6b35',
+    justifyContent: 'center',
+    alignItems: 'center',
+    borderWidth: 2,
+    borderColor: '#fff',
+  },
+  avatarHint: {
+    textAlign: 'center',
+    fontSize: 14,
+    color: '#666',
+    marginTop: 8,
+    marginBottom: 24,
+  },
+  field: {
+    marginBottom: 20,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#333',
+    marginBottom: 8,
+  },
+  input: {
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 14,
+    fontSize: 16,
+    color: '#333',
+    borderWidth: 1,
+    borderColor: '#e9ecef',
+  },
+  inputDisabled: {
+    color: '#999',
+    backgroundColor: '#f1f3f5',
+  },
+  hint: {
+    fontSize: 12,
+    color: '#999',
+    marginTop: 6,
+  },
+});
@@ -37,19 +37,19 @@ export default function HelpSupportScreen() {
     {
       id: '3',
       question: 'Can I cancel or modify my booking?',
-      answer: 'Yes, you can cancel or modify your booking up to 24 hours before your pickup time. Cancellation fees may apply depending on the timing.',
+      answer: 'Yes, from the Bookings tab, up to 24 hours before your pickup time. Changes are free until 72 hours before pickup. After that, cancelling costs 20% of the rental price and rescheduling costs $25.',
       expanded: false,
     },
     {
       id: '4',
       question: 'What happens if I return the car late?',
-      answer: 'Late returns may incur additional charges. Please contact us if you need to extend your rental period.',
+      answer: 'Returns after a short grace period are charged by the hour, up to one day\'s rental for each day late. Fuel below the pickup level and miles over your daily allowance are charged too. Charges come out of your deposit first and any balance goes on your card. Please contact us if you need to extend your rental period.',
       expanded: false,
     },
     {
       id: '5',
       question: 'Is insurance included in the rental?',
-      answer: 'Basic insurance is included, but you can purchase additional coverage for extra protection during the booking process.',
+      answer: 'Basic Protection is included with every rental. During booking you can upgrade to Standard or Premium Protection for a daily fee to lower or remove the deductible you pay if the vehicle is damaged.',
       expanded: false,
     },
   ]);
@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import {
   View,
   Text,
@@ -7,101 +7,134 @@ import {
   TouchableOpacity,
   TextInput,
   Alert,
+  ActivityIndicator,
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { router } from 'expo-router';
 import { Ionicons } from '@expo/vector-icons';
+import { useAuth } from '@/hooks/useAuth';
+import {
+  PaymentMethod,
+  NewCard,
+  getPaymentMethods,
+  addCard,
+  setDefaultPaymentMethod,
+  deletePaymentMethod,
+  validateCard,
+  formatCardNumber,
+  formatExpiryInput,
+  getPaymentMethodLabel,
+  isExpired,
+} from '@/lib/paymentMethods';
 
-interface PaymentMethod {
-  id: string;
-  type: 'card' | 'paypal' | 'apple_pay';
-  name: string;
-  details: string;
-  isDefault: boolean;
-}
+const EMPTY_CARD: NewCard = { number: '', expiry: '', cvc: '', name: '' };
 
 export default function PaymentMethodsScreen() {
-  const [paymentMethods, setPaymentMethods] = useState<PaymentMethod[]>([
-    {
-      id: '1',
-      type: 'card',
-      name: 'Visa ending in 1234',
-      details: 'Expires 12/25',
-      isDefault: true,
-    },
-    {
-      id: '2',
-      type: 'paypal',
-      name: 'PayPal',
-      details: 'user@example.com',
-      isDefault: false,
-    },
-  ]);
-
+  const { user } = useAuth();
+  const [paymentMethods, setPaymentMethods] = useState<PaymentMethod[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
   const [showAddForm, setShowAddForm] = useState(false);
-  const [newCard, setNewCard] = useState({
-    number: '',
-    expiry: '',
-    cvv: '',
-    name: '',
-  });
+  const [newCard, setNewCard] = useState<NewCard>(EMPTY_CARD);
 
-  const handleAddCard = () => {
-    if (!newCard.number || !newCard.expiry || !newCard.cvv || !newCard.name) {
-      Alert.alert('Error', 'Please fill in all fields');
-      return;
-    }
+  useEffect(() => {
+    loadPaymentMethods();
+  }, []);
+
+  const loadPaymentMethods = async () => {
+    if (!user) return;
 
-    const method: PaymentMethod = {
-      id: Date.now().toString(),
-      type: 'card',
-      name: `Card ending in ${newCard.number.slice(-4)}`,
-      details: `Expires ${newCard.expiry}`,
-      isDefault: false,
-    };
+    try {
+      setPaymentMethods(await getPaymentMethods(user.id));
+    } catch (error) {
+      console.error('Error loading payment methods:', error);
+      Alert.alert('Error', 'Failed to load payment methods');
+    } finally {
+      setLoading(false);
+    }
+  };
 
-    setPaymentMethods([...paymentMethods, method]);
-    setNewCard({ number: '', expiry: '', cvv: '', name: '' });
+  const closeForm = () => {
     setShowAddForm(false);
+    setNewCard(EMPTY_CARD);
   };
 
-  const handleSetDefault = (id: string) => {
-    setPaymentMethods(methods => methods.map(method => ({
-      ...method,
-      isDefault: method.id === id,
-    })));
+  const handleAddCard = async () => {
+    if (!user) return;
+
+    const validationError = validateCard(newCard);
+    if (validationError) {
+      Alert.alert('Error', validationError);
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await addCard(user.id, newCard, paymentMethods.length === 0);
+      closeForm();
+      await loadPaymentMethods();
+    } catch (error: any) {
+      console.error('Error adding card:', error);
+      Alert.alert('Error', error.message || 'Failed to add card');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSetDefault = async (id: string) => {
+    try {
+      await setDefaultPaymentMethod(id);
+      setPaymentMethods(methods => methods.map(method => ({
+        ...method,
+        is_default: method.id === id,
+      })));
+    } catch (error) {
+      console.error('Error setting default payment method:', error);
+      Alert.alert('Error', 'Failed to update default payment method');
+    }
   };
 
-  const handleDeleteMethod = (id: string) => {
+  const handleDeleteMethod = (method: PaymentMethod) => {
     Alert.alert(
       'Delete Payment Method',
-      'Are you sure you want to delete this payment method?',
+      `Are you sure you want to delete ${getPaymentMethodLabel(method)}?`,
       [
         { text: 'Cancel', style: 'cancel' },
         {
           text: 'Delete',
           style: 'destructive',
-          onPress: () => {
-            setPaymentMethods(methods => methods.filter(method => method.id !== id));
+          onPress: async () => {
+            try {
+              await deletePaymentMethod(method);
+              await loadPaymentMethods();
+            } catch (error) {
+              console.error('Error deleting payment method:', error);
+              Alert.alert('Error', 'Failed to delete payment method');
+            }
           },
         },
       ]
     );
   };
 
-  const getMethodIcon = (type: string) => {
-    switch (type) {
-      case 'card':
-        return 'card-outline';
-      case 'paypal':
-        return 'logo-paypal';
-      case 'apple_pay':
-        return 'logo-apple';
-      default:
-        return 'card-outline';
-    }
+  const formatExpiry = (method: PaymentMethod) => {
+    const month = String(method.exp_month).padStart(2, '0');
+    const year = String(method.exp_year).slice(-2);
+    return isExpired(method.exp_month, method.exp_year)
+      ? `Expired ${month}/${year}`
+      : `Expires ${month}/${year}`;
   };
 
+  if (loading) {
+    return (
+      <SafeAreaView style={styles.container}>
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color="#ff6b35" />
+        </View>
+      </SafeAreaView>
+    );
+  }
+
   return (
     <SafeAreaView style={styles.container}>
       <View style={styles.header}>
@@ -120,25 +153,40 @@ export default function PaymentMethodsScreen() {
         </TouchableOpacity>
       </View>
 
-      <ScrollView style={styles.content}>
+      <ScrollView style={styles.content} keyboardShouldPersistTaps="handled">
+        {paymentMethods.length === 0 && !showAddForm && (
+          <View style={styles.emptyState}>
+            <Ionicons name="card-outline" size={48} color="#ccc" />
+            <Text style={styles.emptyText}>No saved cards</Text>
+            <Text style={styles.emptySubtext}>Add a card to pay for your bookings</Text>
+          </View>
+        )}
+
         {paymentMethods.map((method) => (
           <View key={method.id} style={styles.methodCard}>
             <View style={styles.methodIcon}>
-              <Ionicons name={getMethodIcon(method.type) as any} size={24} color="#ff6b35" />
+              <Ionicons name="card-outline" size={24} color="#ff6b35" />
             </View>
             <View style={styles.methodInfo}>
               <View style={styles.methodHeader}>
-                <Text style={styles.methodName}>{method.name}</Text>
-                {method.isDefault && (
+                <Text style={styles.methodName}>{getPaymentMethodLabel(method)}</Text>
+                {method.is_default && (
                   <View style={styles.defaultBadge}>
                     <Text style={styles.defaultText}>Default</Text>
                   </View>
                 )}
               </View>
-              <Text style={styles.methodDetails}>{method.details}</Text>
+              <Text
+                style={[
+                  styles.methodDetails,
+                  isExpired(method.exp_month, method.exp_year) && styles.expiredText,
+                ]}
+              >
+                {formatExpiry(method)}
+              </Text>
             </View>
             <View style={styles.methodActions}>
-              {!method.isDefault && (
+              {!method.is_default && (
                 <TouchableOpacity
                   style={styles.actionButton}
                   onPress={() => handleSetDefault(method.id)}
@@ -148,7 +196,7 @@ export default function PaymentMethodsScreen() {
               )}
               <TouchableOpacity
                 style={styles.actionButton}
-                onPress={() => handleDeleteMethod(method.id)}
+                onPress={() => handleDeleteMethod(method)}
               >
                 <Ionicons name="trash-outline" size={20} color="#ff4444" />
               </TouchableOpacity>
@@ -163,24 +211,25 @@ export default function PaymentMethodsScreen() {
               style={styles.input}
               placeholder="Card number"
               value={newCard.number}
-              onChangeText={(text) => setNewCard({ ...newCard, number: text })}
+              onChangeText={(text) => setNewCard({ ...newCard, number: formatCardNumber(text) })}
               keyboardType="numeric"
-              maxLength={19}
+              maxLength={23}
+              autoComplete="cc-number"
             />
             <View style={styles.row}>
               <TextInput
                 style={[styles.input, styles.halfInput]}
                 placeholder="MM/YY"
                 value={newCard.expiry}
-                onChangeText={(text) => setNewCard({ ...newCard, expiry: text })}
+                onChangeText={(text) => setNewCard({ ...newCard, expiry: formatExpiryInput(text) })}
                 keyboardType="numeric"
                 maxLength={5}
               />
               <TextInput
                 style={[styles.input, styles.halfInput]}
                 placeholder="CVV"
-                value={newCard.cvv}
-                onChangeText={(text) => setNewCard({ ...newCard, cvv: text })}
+                value={newCard.cvc}
+                onChangeText={(text) => setNewCard({ ...newCard, cvc: text.replace(/\D/g, '') })}
                 keyboardType="numeric"
                 maxLength={4}
                 secureTextEntry
@@ -191,22 +240,28 @@ export default function PaymentMethodsScreen() {
               placeholder="Cardholder name"
               value={newCard.name}
               onChangeText={(text) => setNewCard({ ...newCard, name: text })}
+              autoCapitalize="words"
             />
+            <View style={styles.secureNote}>
+              <Ionicons name="lock-closed-outline" size={14} color="#666" />
+              <Text style={styles.secureNoteText}>
+                Card details go straight to our payment provider. We only keep the last four digits.
+              </Text>
+            </View>
             <View style={styles.formActions}>
               <TouchableOpacity
                 style={[styles.formButton, styles.cancelButton]}
-                onPress={() => {
-                  setShowAddForm(false);
-                  setNewCard({ number: '', expiry: '', cvv: '', name: '' });
-                }}
+                onPress={closeForm}
+                disabled={saving}
               >
                 <Text style={styles.cancelButtonText}>Cancel</Text>
               </TouchableOpacity>
               <TouchableOpacity
-                style={[styles.formButton, styles.saveButton]}
+                style={[styles.formButton, styles.saveButton, saving && styles.saveButtonDisabled]}
                 onPress={handleAddCard}
+                disabled={saving}
               >
-                <Text style={styles.saveButtonText}>Add Card</Text>
+                <Text style={styles.saveButtonText}>{saving ? 'Adding...' : 'Add Card'}</Text>
               </TouchableOpacity>
             </View>
           </View>
@@ -221,6 +276,11 @@ const styles = StyleSheet.create({
     flex: 1,
     backgroundColor: '#f8f9fa',
   },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
   header: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -246,6 +306,21 @@ const styles = StyleSheet.create({
     flex: 1,
     padding: 20,
   },
+  emptyState: {
+    alignItems: 'center',
+    paddingVertical: 60,
+  },
+  emptyText: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#333',
+    marginTop: 16,
+  },
+  emptySubtext: {
+    fontSize: 14,
+    color: '#666',
+    marginTop: 4,
+  },
   methodCard: {
     backgroundColor: '#fff',
     borderRadius: 12,
@@ -291,6 +366,9 @@ const styles = StyleSheet.create({
     fontSize: 14,
     color: '#666',
   },
+  expiredText: {
+    color: '#dc3545',
+  },
   methodActions: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -332,6 +410,17 @@ const styles = StyleSheet.create({
   halfInput: {
     width: '48%',
   },
+  secureNote: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  secureNoteText: {
+    flex: 1,
+    fontSize: 12,
+    color: '#666',
+    marginLeft: 6,
+  },
   formActions: {
     flexDirection: 'row',
     justifyContent: 'space-between',
@@ -351,6 +440,9 @@ const styles = StyleSheet.create({
     backgroundColor: '#ff6b35',
     marginLeft: 8,
   },
+  saveButtonDisabled: {
+    opacity: 0.6,
+  },
   cancelButtonText: {
     color: '#666',
     fontWeight: '600',
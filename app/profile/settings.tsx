@@ -11,6 +11,8 @@ import {
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { router } from 'expo-router';
 import { Ionicons } from '@expo/vector-icons';
+import { useAuth } from '@/hooks/useAuth';
+import { deleteAccount, hasBlockingBookings, isActiveBookingsError } from '@/lib/auth';
 
 interface Setting {
   id: string;
@@ -23,6 +25,7 @@ interface Setting {
 }
 
 export default function SettingsScreen() {
+  const { user } = useAuth();
   const [settings, setSettings] = useState<Setting[]>([
     {
       id: 'dark_mode',
@@ -116,18 +119,50 @@ export default function SettingsScreen() {
     );
   };
 
-  const handleDeleteAccount = () => {
+  const showActiveBookingsAlert = () => {
+    Alert.alert(
+      'Active Bookings',
+      'You have paid, confirmed or active bookings. Please complete or cancel them before deleting your account.',
+      [
+        { text: 'OK', style: 'cancel' },
+        { text: 'View Bookings', onPress: () => router.push('/(tabs)/bookings') },
+      ]
+    );
+  };
+
+  const handleDeleteAccount = async () => {
+    if (!user) return;
+
+    try {
+      if (await hasBlockingBookings(user.id)) {
+        showActiveBookingsAlert();
+        return;
+      }
+    } catch (error) {
+      console.error('Error checking bookings:', error);
+    }
+
     Alert.alert(
       'Delete Account',
-      'This action cannot be undone. All your data will be permanently deleted.',
+      'This action cannot be undone. Your profile, favorites and saved details will be permanently deleted. Past booking receipts are kept without your personal details for accounting.',
       [
         { text: 'Cancel', style: 'cancel' },
         {
           text: 'Delete',
           style: 'destructive',
-          onPress: () => {
-            Alert.alert('Account Deleted', 'Your account has been deleted.');
-            router.replace('/auth/login');
+          onPress: async () => {
+            try {
+              await deleteAccount(user.id);
+              Alert.alert('Account Deleted', 'Your account has been deleted.');
+              router.replace('/auth/login');
+            } catch (error: any) {
+              if (isActiveBookingsError(error)) {
+                showActiveBookingsAlert();
+                return;
+              }
+              console.error('Error deleting account:', error);
+              Alert.alert('Error', error.message || 'Failed to delete account');
+            }
           },
         },
       ]
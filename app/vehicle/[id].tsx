@@ -0,0 +1,578 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  Image,
+  Alert,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { router, useLocalSearchParams } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import { supabase } from '@/lib/supabase';
+import { getCurrentUser, User } from '@/lib/auth';
+import { BookedRange, getBookedRanges } from '@/lib/availability';
+import AvailabilityCalendar from '@/components/AvailabilityCalendar';
+
+interface Vehicle {
+  id: string;
+  name: string;
+  type: string;
+  brand: string;
+  model: string;
+  year: number;
+  price_per_day: number;
+  passenger_capacity: number;
+  fuel_type: string;
+  transmission: string;
+  image_url: string;
+  description: string;
+  features: string[];
+  location: string;
+  latitude: number | null;
+  longitude: number | null;
+  available: boolean;
+  rating: number;
+  total_reviews: number;
+  mileage: number | null;
+}
+
+interface Review {
+  id: string;
+  rating: number;
+  comment: string | null;
+  created_at: string;
+}
+
+export default function VehicleDetailScreen() {
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const [vehicle, setVehicle] = useState<Vehicle | null>(null);
+  const [reviews, setReviews] = useState<Review[]>([]);
+  const [bookedRanges, setBookedRanges] = useState<BookedRange[]>([]);
+  const [user, setUser] = useState<User | null>(null);
+  const [favoriteId, setFavoriteId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    loadVehicle();
+  }, [id]);
+
+  const loadVehicle = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('vehicles')
+        .select('*')
+        .eq('id', id)
+        .single();
+
+      if (error) throw error;
+
+      setVehicle(data);
+
+      const { data: reviewData, error: reviewError } = await supabase
+        .from('reviews')
+        .select('id, rating, comment, created_at')
+        .eq('vehicle_id', id)
+        .order('created_at', { ascending: false })
+        .limit(5);
+
+      if (reviewError) throw reviewError;
+
+      setReviews(reviewData || []);
+
+      const from = new Date();
+      const to = new Date();
+      to.setMonth(to.getMonth() + 6);
+      setBookedRanges(await getBookedRanges(id, from, to));
+
+      const currentUser = await getCurrentUser();
+      setUser(currentUser);
+
+      if (currentUser) {
+        const { data: favorite } = await supabase
+          .from('favorites')
+          .select('id')
+          .eq('user_id', currentUser.id)
+          .eq('vehicle_id', id)
+          .maybeSingle();
+
+        setFavoriteId(favorite?.id || null);
+      }
+    } catch (error) {
+      console.error('Error loading vehicle:', error);
+      Alert.alert('Error', 'Failed to load vehicle details');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const toggleFavorite = async () => {
+    if (!user) {
+      router.push('/auth/login');
+      return;
+    }
+
+    try {
+      if (favoriteId) {
+        const { error } = await supabase
+          .from('favorites')
+          .delete()
+          .eq('id', favoriteId);
+
+        if (error) throw error;
+
+        setFavoriteId(null);
+      } else {
+        const { data, error } = await supabase
+          .from('favorites')
+          .insert({ user_id: user.id, vehicle_id: id })
+          .select('id')
+          .single();
+
+        if (error) throw error;
+
+        setFavoriteId(data.id);
+      }
+    } catch (error) {
+      console.error('Error updating favorite:', error);
+      Alert.alert('Error', 'Failed to update favorites');
+    }
+  };
+
+  const handleBookNow = () => {
+    if (!user) {
+      router.push('/auth/login');
+      return;
+    }
+
+    router.push(`/booking/${id}`);
+  };
+
+  const formatDate = (dateString: string) => {
+    const date = new Date(dateString);
+    return date.toLocaleDateString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      year: 'numeric',
+    });
+  };
+
+  const SpecItem = ({ icon, label, value }: { icon: string; label: string; value: string }) => (
+    <View style={styles.specItem}>
+      <Ionicons name={icon as any} size={20} color="#ff6b35" />
+      <Text style={styles.specValue}>{value}</Text>
+      <Text style={styles.specLabel}>{label}</Text>
+    </View>
+  );
+
+  const ReviewCard = ({ review }: { review: Review }) => (
+    <View style={styles.reviewCard}>
+      <View style={styles.reviewHeader}>
+        <View style={styles.reviewStars}>
+          {[1, 2, 3, 4, 5].map((star) => (
+            <Ionicons
+              key={star}
+              name={star <= review.rating ? 'star' : 'star-outline'}
+              size={14}
+              color="#ffc107"
+            />
+          ))}
+        </View>
+        <Text style={styles.reviewDate}>{formatDate(review.created_at)}</Text>
+      </View>
+      {review.comment ? (
+        <Text style={styles.reviewComment}>{review.comment}</Text>
+      ) : null}
+    </View>
+  );
+
+  if (loading) {
+    return (
+      <SafeAreaView style={styles.container}>
+        <View style={styles.loadingContainer}>
+          <Text>Loading vehicle...</Text>
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  if (!vehicle) {
+    return (
+      <SafeAreaView style={styles.container}>
+        <View style={styles.loadingContainer}>
+          <Ionicons name="car-outline" size={64} color="#ccc" />
+          <Text style={styles.emptyText}>Vehicle not found</Text>
+          <TouchableOpacity style={styles.backLink} onPress={() => router.back()}>
+            <Text style={styles.backLinkText}>Go Back</Text>
+          </TouchableOpacity>
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity
+          style={styles.backButton}
+          onPress={() => router.back()}
+        >
+          <Ionicons name="arrow-back" size={24} color="#333" />
+        </TouchableOpacity>
+        <Text style={styles.title} numberOfLines={1}>{vehicle.name}</Text>
+        <TouchableOpacity
+          style={styles.favoriteButton}
+          onPress={toggleFavorite}
+        >
+          <Ionicons
+            name={favoriteId ? 'heart' : 'heart-outline'}
+            size={24}
+            color="#ff6b35"
+          />
+        </TouchableOpacity>
+      </View>
+
+      <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
+        <Image source={{ uri: vehicle.image_url }} style={styles.vehicleImage} />
+
+        <View style={styles.section}>
+          <Text style={styles.vehicleName}>{vehicle.name}</Text>
+          <Text style={styles.vehicleType}>
+            {vehicle.brand} {vehicle.model} • {vehicle.year} • {vehicle.type}
+          </Text>
+          <View style={styles.summaryRow}>
+            <View style={styles.rating}>
+              <Ionicons name="star" size={16} color="#ffc107" />
+              <Text style={styles.ratingText}>{vehicle.rating.toFixed(1)}</Text>
+              <Text style={styles.reviewsText}>({vehicle.total_reviews} reviews)</Text>
+            </View>
+            <View style={styles.location}>
+              <Ionicons name="location-outline" size={16} color="#666" />
+              <Text style={styles.locationText}>{vehicle.location}</Text>
+            </View>
+          </View>
+        </View>
+
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Specifications</Text>
+          <View style={styles.specsGrid}>
+            <SpecItem icon="people-outline" label="Seats" value={`${vehicle.passenger_capacity}`} />
+            <SpecItem icon="car-outline" label="Transmission" value={vehicle.transmission} />
+            <SpecItem icon="flash-outline" label="Fuel" value={vehicle.fuel_type} />
+            <SpecItem
+              icon="speedometer-outline"
+              label="Mileage"
+              value={vehicle.mileage ? `${vehicle.mileage.toLocaleString()} mi` : 'N/A'}
+            />
+          </View>
+        </View>
+
+        {vehicle.description ? (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>About this vehicle</Text>
+            <Text style={styles.description}>{vehicle.description}</Text>
+          </View>
+        ) : null}
+
+        {vehicle.features?.length > 0 && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Features</Text>
+            <View style={styles.featuresList}>
+              {vehicle.features.map((feature) => (
+                <View key={feature} style={styles.featureChip}>
+                  <Ionicons name="checkmark-circle" size={16} color="#28a745" />
+                  <Text style={styles.featureChipText}>{feature}</Text>
+                </View>
+              ))}
+            </View>
+          </View>
+        )}
+
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Pickup Location</Text>
+          <View style={styles.locationCard}>
+            <Ionicons name="map-outline" size={24} color="#ff6b35" />
+            <View style={styles.locationInfo}>
+              <Text style={styles.locationName}>{vehicle.location}</Text>
+              {vehicle.latitude != null && vehicle.longitude != null && (
+                <Text style={styles.coordinates}>
+                  {Number(vehicle.latitude).toFixed(4)}, {Number(vehicle.longitude).toFixed(4)}
+                </Text>
+              )}
+            </View>
+          </View>
+        </View>
+
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Availability</Text>
+          <AvailabilityCalendar bookedRanges={bookedRanges} />
+        </View>
+
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Recent Reviews</Text>
+          {reviews.length === 0 ? (
+            <Text style={styles.noReviewsText}>No reviews yet</Text>
+          ) : (
+            reviews.map((review) => (
+              <ReviewCard key={review.id} review={review} />
+            ))
+          )}
+        </View>
+      </ScrollView>
+
+      <View style={styles.footer}>
+        <View>
+          <Text style={styles.footerPrice}>${vehicle.price_per_day}</Text>
+          <Text style={styles.footerPriceLabel}>per day</Text>
+        </View>
+        <TouchableOpacity
+          style={[styles.bookButton, !vehicle.available && styles.bookButtonDisabled]}
+          onPress={handleBookNow}
+          disabled={!vehicle.available}
+        >
+          <Text style={styles.bookButtonText}>
+            {vehicle.available ? 'Book Now' : 'Unavailable'}
+          </Text>
+        </TouchableOpacity>
+      </View>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8f9fa',
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  emptyText: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#666',
+    marginTop: 16,
+  },
+  backLink: {
+    marginTop: 16,
+  },
+  backLinkText: {
+    color: '#ff6b35',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingVertical: 15,
+    backgroundColor: '#fff',
+    borderBottomWidth: 1,
+    borderBottomColor: '#e9ecef',
+  },
+  backButton: {
+    padding: 5,
+  },
+  title: {
+    flex: 1,
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#333',
+    textAlign: 'center',
+    marginHorizontal: 12,
+  },
+  favoriteButton: {
+    padding: 5,
+  },
+  content: {
+    flex: 1,
+  },
+  vehicleImage: {
+    width: '100%',
+    height: 240,
+  },
+  section: {
+    backgroundColor: '#fff',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    marginBottom: 8,
+  },
+  vehicleName: {
+    fontSize: 24,
+    fontWeight: '700',
+    color: '#333',
+    marginBottom: 4,
+  },
+  vehicleType: {
+    fontSize: 14,
+    color: '#666',
+    marginBottom: 12,
+  },
+  summaryRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  rating: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  ratingText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#333',
+    marginLeft: 4,
+  },
+  reviewsText: {
+    fontSize: 12,
+    color: '#666',
+    marginLeft: 4,
+  },
+  location: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  locationText: {
+    fontSize: 14,
+    color: '#666',
+    marginLeft: 4,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#333',
+    marginBottom: 12,
+  },
+  specsGrid: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  specItem: {
+    flex: 1,
+    alignItems: 'center',
+    backgroundColor: '#f8f9fa',
+    borderRadius: 12,
+    paddingVertical: 12,
+    marginHorizontal: 4,
+  },
+  specValue: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#333',
+    marginTop: 6,
+  },
+  specLabel: {
+    fontSize: 12,
+    color: '#666',
+    marginTop: 2,
+  },
+  description: {
+    fontSize: 14,
+    color: '#666',
+    lineHeight: 22,
+  },
+  featuresList: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  featureChip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#f8f9fa',
+    borderRadius: 16,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  featureChipText: {
+    fontSize: 13,
+    color: '#333',
+    marginLeft: 6,
+  },
+  locationCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#f8f9fa',
+    borderRadius: 12,
+    padding: 16,
+  },
+  locationInfo: {
+    marginLeft: 12,
+  },
+  locationName: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+  },
+  coordinates: {
+    fontSize: 12,
+    color: '#666',
+    marginTop: 2,
+  },
+  noReviewsText: {
+    fontSize: 14,
+    color: '#999',
+  },
+  reviewCard: {
+    borderBottomWidth: 1,
+    borderBottomColor: '#e9ecef',
+    paddingVertical: 12,
+  },
+  reviewHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 6,
+  },
+  reviewStars: {
+    flexDirection: 'row',
+  },
+  reviewDate: {
+    fontSize: 12,
+    color: '#999',
+  },
+  reviewComment: {
+    fontSize: 14,
+    color: '#333',
+    lineHeight: 20,
+  },
+  footer: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    backgroundColor: '#fff',
+    borderTopWidth: 1,
+    borderTopColor: '#e9ecef',
+  },
+  footerPrice: {
+    fontSize: 22,
+    fontWeight: '700',
+    color: '#ff6b35',
+  },
+  footerPriceLabel: {
+    fontSize: 12,
+    color: '#666',
+  },
+  bookButton: {
+    backgroundColor: '#ff6b35',
+    borderRadius: 12,
+    paddingHorizontal: 32,
+    paddingVertical: 14,
+  },
+  bookButtonDisabled: {
+    opacity: 0.6,
+  },
+  bookButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
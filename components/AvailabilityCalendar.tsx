@@ -0,0 +1,221 @@
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { BookedRange, isDayBooked } from '@/lib/availability';
+
+interface AvailabilityCalendarProps {
+  bookedRanges?: BookedRange[];
+  minDate?: Date;
+  startDate?: Date | null;
+  endDate?: Date | null;
+  onSelectDate?: (date: Date) => void;
+}
+
+const WEEKDAYS = ['Su', 'Mo', 'Tu', 'We', 'Th', 'Fr', 'Sa'];
+
+const startOfDay = (date: Date) => {
+  const day = new Date(date);
+  day.setHours(0, 0, 0, 0);
+  return day;
+};
+
+const isSameDay = (a?: Date | null, b?: Date | null) => {
+  return !!a && !!b && startOfDay(a).getTime() === startOfDay(b).getTime();
+};
+
+export default function AvailabilityCalendar({
+  bookedRanges = [],
+  minDate = new Date(),
+  startDate,
+  endDate,
+  onSelectDate,
+}: AvailabilityCalendarProps) {
+  const now = new Date();
+  const initial = startDate || (minDate > now ? minDate : now);
+  const [month, setMonth] = useState(new Date(initial.getFullYear(), initial.getMonth(), 1));
+
+  const earliest = startOfDay(minDate);
+  const canGoBack = month > new Date(earliest.getFullYear(), earliest.getMonth(), 1);
+
+  const changeMonth = (delta: number) => {
+    setMonth(new Date(month.getFullYear(), month.getMonth() + delta, 1));
+  };
+
+  const daysInMonth = new Date(month.getFullYear(), month.getMonth() + 1, 0).getDate();
+  const cells: (Date | null)[] = [
+    ...Array.from({ length: month.getDay() }, () => null),
+    ...Array.from({ length: daysInMonth }, (_, i) => new Date(month.getFullYear(), month.getMonth(), i + 1)),
+  ];
+
+  const renderDay = (day: Date | null, index: number) => {
+    if (!day) {
+      return <View key={`empty-${index}`} style={styles.dayCell} />;
+    }
+
+    const isPast = day < earliest;
+    const isBooked = isDayBooked(day, bookedRanges);
+    const disabled = isPast || isBooked || !onSelectDate;
+    const isEdge = isSameDay(day, startDate) || isSameDay(day, endDate);
+    const inRange = !!startDate && !!endDate && day > startOfDay(startDate) && day < startOfDay(endDate);
+
+    return (
+      <TouchableOpacity
+        key={day.toISOString()}
+        style={styles.dayCell}
+        disabled={disabled}
+        onPress={() => onSelectDate?.(day)}
+      >
+        <View
+          style={[
+            styles.day,
+            inRange && styles.dayInRange,
+            isEdge && styles.daySelected,
+            isBooked && styles.dayBooked,
+          ]}
+        >
+          <Text
+            style={[
+              styles.dayText,
+              isPast && styles.dayTextPast,
+              isBooked && styles.dayTextBooked,
+              isEdge && styles.dayTextSelected,
+            ]}
+          >
+            {day.getDate()}
+          </Text>
+        </View>
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity
+          style={styles.navButton}
+          onPress={() => changeMonth(-1)}
+          disabled={!canGoBack}
+        >
+          <Ionicons name="chevron-back" size={20} color={canGoBack ? '#333' : '#ccc'} />
+        </TouchableOpacity>
+        <Text style={styles.monthLabel}>
+          {month.toLocaleDateString('en-US', { month: 'long', year: 'numeric' })}
+        </Text>
+        <TouchableOpacity style={styles.navButton} onPress={() => changeMonth(1)}>
+          <Ionicons name="chevron-forward" size={20} color="#333" />
+        </TouchableOpacity>
+      </View>
+
+      <View style={styles.weekRow}>
+        {WEEKDAYS.map((weekday) => (
+          <Text key={weekday} style={styles.weekday}>{weekday}</Text>
+        ))}
+      </View>
+
+      <View style={styles.grid}>
+        {cells.map(renderDay)}
+      </View>
+
+      <View style={styles.legend}>
+        <View style={styles.legendItem}>
+          <View style={[styles.legendSwatch, styles.dayBooked]} />
+          <Text style={styles.legendText}>Booked</Text>
+        </View>
+        <View style={styles.legendItem}>
+          <View style={[styles.legendSwatch, styles.daySelected]} />
+          <Text style={styles.legendText}>Selected</Text>
+        </View>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginBottom: 12,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  navButton: {
+    padding: 6,
+  },
+  monthLabel: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+  },
+  weekRow: {
+    flexDirection: 'row',
+    marginBottom: 4,
+  },
+  weekday: {
+    width: `${100 / 7}%`,
+    textAlign: 'center',
+    fontSize: 12,
+    color: '#999',
+    fontWeight: '500',
+  },
+  grid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  dayCell: {
+    width: `${100 / 7}%`,
+    aspectRatio: 1,
+    padding: 2,
+  },
+  day: {
+    flex: 1,
+    borderRadius: 8,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  dayInRange: {
+    backgroundColor: '#ffe5da',
+  },
+  daySelected: {
+    backgroundColor: '#ff6b35',
+  },
+  dayBooked: {
+    backgroundColor: '#e9ecef',
+  },
+  dayText: {
+    fontSize: 14,
+    color: '#333',
+    fontWeight: '500',
+  },
+  dayTextPast: {
+    color: '#ccc',
+  },
+  dayTextBooked: {
+    color: '#adb5bd',
+    textDecorationLine: 'line-through',
+  },
+  dayTextSelected: {
+    color: '#fff',
+    fontWeight: '700',
+  },
+  legend: {
+    flexDirection: 'row',
+    marginTop: 8,
+  },
+  legendItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginRight: 16,
+  },
+  legendSwatch: {
+    width: 14,
+    height: 14,
+    borderRadius: 4,
+    marginRight: 6,
+  },
+  legendText: {
+    fontSize: 12,
+    color: '#666',
+  },
+});
@@ -0,0 +1,69 @@
+import React from 'react';
+import { View, Text, StyleSheet, ScrollView, Image } from 'react-native';
+import { InspectionPhoto, getAngleLabel } from '@/lib/inspections';
+
+interface InspectionPhotoStripProps {
+  photos: InspectionPhoto[];
+  urls: Record<string, string>;
+  emptyText?: string;
+}
+
+const formatTakenAt = (date: string) => {
+  return new Date(date).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+};
+
+// Read-only, horizontally scrolling row of inspection photos with the angle
+// and the time each one was taken
+export default function InspectionPhotoStrip({ photos, urls, emptyText = 'No photos' }: InspectionPhotoStripProps) {
+  if (photos.length === 0) {
+    return <Text style={styles.emptyText}>{emptyText}</Text>;
+  }
+
+  return (
+    <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+      {photos.map(photo => (
+        <View key={photo.id} style={styles.photoItem}>
+          {urls[photo.id] ? (
+            <Image source={{ uri: urls[photo.id] }} style={styles.photo} resizeMode="cover" />
+          ) : (
+            <View style={styles.photo} />
+          )}
+          <Text style={styles.photoLabel}>{getAngleLabel(photo.angle)}</Text>
+          <Text style={styles.photoTime}>{formatTakenAt(photo.taken_at)}</Text>
+        </View>
+      ))}
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  photoItem: {
+    width: 120,
+    marginRight: 10,
+  },
+  photo: {
+    width: 120,
+    height: 90,
+    borderRadius: 8,
+    backgroundColor: '#f1f3f5',
+  },
+  photoLabel: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#333',
+    marginTop: 4,
+  },
+  photoTime: {
+    fontSize: 11,
+    color: '#999',
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#999',
+  },
+});
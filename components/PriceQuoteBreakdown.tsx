@@ -0,0 +1,93 @@
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { PriceQuote, QuoteLine } from '@/lib/pricing';
+
+interface PriceQuoteBreakdownProps {
+  quote: PriceQuote;
+  showTotal?: boolean;
+}
+
+// Itemised lines of a quote: the base rate, rate adjustments, discounts, fees
+// and taxes, in the order the engine applies them
+export default function PriceQuoteBreakdown({ quote, showTotal = true }: PriceQuoteBreakdownProps) {
+  const renderLine = (line: QuoteLine, index: number, negative = false) => (
+    <View key={`${line.label}-${index}`} style={styles.row}>
+      <Text style={styles.label}>{line.label}</Text>
+      <Text style={[styles.value, negative && styles.discountValue]}>
+        {negative ? '-' : ''}${line.amount.toFixed(2)}
+      </Text>
+    </View>
+  );
+
+  const hasExtras = quote.adjustments.length > 0 || quote.discounts.length > 0;
+
+  return (
+    <View>
+      <View style={styles.row}>
+        <Text style={styles.label}>
+          ${quote.dailyRate.toFixed(2)} × {quote.days} day{quote.days !== 1 ? 's' : ''}
+        </Text>
+        <Text style={styles.value}>${quote.base.toFixed(2)}</Text>
+      </View>
+      {quote.adjustments.map((line, index) => renderLine(line, index))}
+      {quote.discounts.map((line, index) => renderLine(line, index, true))}
+      {hasExtras && (
+        <View style={[styles.row, styles.subtotalRow]}>
+          <Text style={styles.label}>Rental subtotal</Text>
+          <Text style={styles.value}>${quote.subtotal.toFixed(2)}</Text>
+        </View>
+      )}
+      {quote.fees.map((line, index) => renderLine(line, index))}
+      {quote.taxes.map((line, index) => renderLine(line, index))}
+      {showTotal && (
+        <View style={[styles.row, styles.totalRow]}>
+          <Text style={styles.totalLabel}>Total</Text>
+          <Text style={styles.totalValue}>${quote.total.toFixed(2)}</Text>
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  row: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginBottom: 8,
+  },
+  label: {
+    flex: 1,
+    fontSize: 14,
+    color: '#666',
+    marginRight: 12,
+  },
+  value: {
+    fontSize: 14,
+    color: '#333',
+    fontWeight: '500',
+  },
+  discountValue: {
+    color: '#28a745',
+  },
+  subtotalRow: {
+    borderTopWidth: 1,
+    borderTopColor: '#f1f3f5',
+    paddingTop: 8,
+  },
+  totalRow: {
+    borderTopWidth: 1,
+    borderTopColor: '#e9ecef',
+    paddingTop: 8,
+    marginTop: 4,
+  },
+  totalLabel: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+  },
+  totalValue: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: '#ff6b35',
+  },
+});
@@ -0,0 +1,43 @@
+import React from 'react';
+import { View, ActivityIndicator, StyleSheet } from 'react-native';
+import { Redirect } from 'expo-router';
+import { useAuth } from '@/hooks/useAuth';
+import { hasPermission, Permission } from '@/lib/permissions';
+
+interface RouteGuardProps {
+  permission?: Permission;
+  children: React.ReactNode;
+}
+
+// Wraps a stack layout: signed-out users go to login, signed-in users
+// without the required permission go back to the customer tabs
+export default function RouteGuard({ permission, children }: RouteGuardProps) {
+  const { user, loading } = useAuth();
+
+  if (loading) {
+    return (
+      <View style={styles.container}>
+        <ActivityIndicator size="large" color="#ff6b35" />
+      </View>
+    );
+  }
+
+  if (!user) {
+    return <Redirect href="/auth/login" />;
+  }
+
+  if (permission && !hasPermission(user, permission)) {
+    return <Redirect href="/(tabs)" />;
+  }
+
+  return <>{children}</>;
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: '#fff',
+  },
+});
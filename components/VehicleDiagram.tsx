@@ -0,0 +1,139 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, ViewStyle } from 'react-native';
+import { DAMAGE_SEVERITIES, DAMAGE_SEVERITY_LABELS, DAMAGE_ZONES, DamageSeverity } from '@/lib/damage';
+
+interface VehicleDiagramProps {
+  // Worst severity marked on each zone during this inspection
+  marks: Record<string, DamageSeverity>;
+  // Zones with damage from earlier rentals
+  previousZones?: string[];
+  selectedZone?: string | null;
+  onSelectZone?: (zone: string) => void;
+}
+
+const SEVERITY_COLORS: Record<DamageSeverity, string> = {
+  minor: '#ffc107',
+  moderate: '#fd7e14',
+  severe: '#dc3545',
+};
+
+// Positions on the top-down outline, front of the vehicle at the top
+const ZONE_LAYOUT: Record<string, ViewStyle> = {
+  front_bumper: { top: '0%', left: '18%', width: '64%', height: '6%' },
+  hood: { top: '7%', left: '18%', width: '64%', height: '17%' },
+  windshield: { top: '25%', left: '20%', width: '60%', height: '8%' },
+  roof: { top: '34%', left: '20%', width: '60%', height: '26%' },
+  rear_window: { top: '61%', left: '20%', width: '60%', height: '8%' },
+  trunk: { top: '70%', left: '18%', width: '64%', height: '17%' },
+  rear_bumper: { top: '88%', left: '18%', width: '64%', height: '6%' },
+  left_front: { top: '10%', left: '0%', width: '16%', height: '38%' },
+  left_rear: { top: '50%', left: '0%', width: '16%', height: '38%' },
+  right_front: { top: '10%', right: '0%', width: '16%', height: '38%' },
+  right_rear: { top: '50%', right: '0%', width: '16%', height: '38%' },
+};
+
+export default function VehicleDiagram({ marks, previousZones = [], selectedZone, onSelectZone }: VehicleDiagramProps) {
+  return (
+    <View style={styles.container}>
+      <View style={styles.diagram}>
+        <Text style={styles.frontLabel}>FRONT</Text>
+        <View style={styles.outline}>
+          {DAMAGE_ZONES.map(zone => {
+            const severity = marks[zone.key];
+            const previous = previousZones.includes(zone.key);
+
+            return (
+              <TouchableOpacity
+                key={zone.key}
+                style={[
+                  styles.zone,
+                  ZONE_LAYOUT[zone.key],
+                  previous && styles.previousZone,
+                  severity && { backgroundColor: SEVERITY_COLORS[severity] },
+                  selectedZone === zone.key && styles.selectedZone,
+                ]}
+                onPress={() => onSelectZone?.(zone.key)}
+                disabled={!onSelectZone}
+                accessibilityLabel={zone.label}
+              />
+            );
+          })}
+        </View>
+      </View>
+
+      <View style={styles.legend}>
+        {DAMAGE_SEVERITIES.map(severity => (
+          <View key={severity} style={styles.legendItem}>
+            <View style={[styles.legendSwatch, { backgroundColor: SEVERITY_COLORS[severity] }]} />
+            <Text style={styles.legendText}>{DAMAGE_SEVERITY_LABELS[severity]}</Text>
+          </View>
+        ))}
+        <View style={styles.legendItem}>
+          <View style={[styles.legendSwatch, styles.previousZone]} />
+          <Text style={styles.legendText}>Earlier damage</Text>
+        </View>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    alignItems: 'center',
+  },
+  diagram: {
+    alignItems: 'center',
+  },
+  frontLabel: {
+    fontSize: 11,
+    fontWeight: '600',
+    color: '#999',
+    marginBottom: 4,
+  },
+  outline: {
+    width: 180,
+    height: 320,
+    borderRadius: 40,
+    borderWidth: 2,
+    borderColor: '#ced4da',
+    backgroundColor: '#f8f9fa',
+  },
+  zone: {
+    position: 'absolute',
+    borderWidth: 1,
+    borderColor: '#dee2e6',
+    borderRadius: 6,
+    backgroundColor: '#fff',
+  },
+  previousZone: {
+    backgroundColor: '#dee2e6',
+  },
+  selectedZone: {
+    borderWidth: 2,
+    borderColor: '#ff6b35',
+  },
+  legend: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'center',
+    marginTop: 12,
+  },
+  legendItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginHorizontal: 6,
+    marginBottom: 4,
+  },
+  legendSwatch: {
+    width: 12,
+    height: 12,
+    borderRadius: 3,
+    marginRight: 4,
+    borderWidth: 1,
+    borderColor: '#dee2e6',
+  },
+  legendText: {
+    fontSize: 12,
+    color: '#666',
+  },
+});
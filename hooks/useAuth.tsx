@@ -0,0 +1,72 @@
+import React, { createContext, useCallback, useContext, useEffect, useRef, useState } from 'react';
+import type { Session } from '@supabase/supabase-js';
+import { supabase } from '@/lib/supabase';
+import { getUserProfile, User } from '@/lib/auth';
+
+interface AuthContextValue {
+  session: Session | null;
+  user: User | null;
+  loading: boolean;
+  refreshUser: () => Promise<void>;
+}
+
+const AuthContext = createContext<AuthContextValue>({
+  session: null,
+  user: null,
+  loading: true,
+  refreshUser: async () => {},
+});
+
+export function AuthProvider({ children }: { children: React.ReactNode }) {
+  const [session, setSession] = useState<Session | null>(null);
+  const [user, setUser] = useState<User | null>(null);
+  const [loading, setLoading] = useState(true);
+  const userIdRef = useRef<string | null>(null);
+
+  const loadUser = useCallback(async (nextSession: Session | null) => {
+    userIdRef.current = nextSession?.user.id || null;
+    try {
+      setUser(nextSession ? await getUserProfile(nextSession.user) : null);
+    } catch (error) {
+      console.error('Error loading user profile:', error);
+      setUser(null);
+    } finally {
+      setSession(nextSession);
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    supabase.auth.getSession().then(({ data: { session } }) => loadUser(session));
+
+    // Supabase holds a lock while this callback runs, so the profile query
+    // must not be awaited here or it deadlocks the client
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((event, nextSession) => {
+      if (event === 'INITIAL_SESSION') return;
+
+      // Hold guards in the loading state while a different user's profile is
+      // fetched, so a fresh sign-in isn't bounced back to login
+      if ((nextSession?.user.id || null) !== userIdRef.current) {
+        setLoading(true);
+      }
+      setTimeout(() => loadUser(nextSession), 0);
+    });
+
+    return () => subscription.unsubscribe();
+  }, [loadUser]);
+
+  const refreshUser = useCallback(async () => {
+    const { data: { session } } = await supabase.auth.getSession();
+    await loadUser(session);
+  }, [loadUser]);
+
+  return (
+    <AuthContext.Provider value={{ session, user, loading, refreshUser }}>
+      {children}
+    </AuthContext.Provider>
+  );
+}
+
+export function useAuth() {
+  return useContext(AuthContext);
+}
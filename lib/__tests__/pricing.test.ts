@@ -0,0 +1,155 @@
+import { PricingRule, calculateQuote, getRentalDays } from '../pricing';
+
+let nextId = 0;
+
+const rule = (overrides: Partial<PricingRule> & Pick<PricingRule, 'type' | 'value'>): PricingRule => ({
+  id: `rule-${++nextId}`,
+  name: overrides.type,
+  start_date: null,
+  end_date: null,
+  min_days: null,
+  min_utilization: null,
+  vehicle_type: null,
+  per_day: false,
+  active: true,
+  ...overrides,
+});
+
+// Local times, so weekends and rule dates line up whatever the machine's zone
+const at = (day: number, hour = 10) => new Date(2026, 5, day, hour);
+
+const quote = (start: Date, end: Date, rules: PricingRule[], utilization = 0) =>
+  calculateQuote({ pricePerDay: 100, vehicleType: 'sedan', start, end, rules, utilization });
+
+describe('calculateQuote', () => {
+  it('charges the daily rate when no rules apply', () => {
+    const result = quote(at(1), at(3), []);
+
+    expect(result.days).toBe(2);
+    expect(result.base).toBe(200);
+    expect(result.total).toBe(200);
+  });
+
+  describe('rule precedence', () => {
+    it('applies the higher of the weekend and holiday rates, not both', () => {
+      const rules = [
+        rule({ type: 'weekend', name: 'Weekend', value: 1.2 }),
+        rule({ type: 'holiday', name: 'Holiday', value: 1.5, start_date: '2026-06-06', end_date: '2026-06-06' }),
+      ];
+
+      // Friday to Monday: Saturday is a holiday, Sunday is only a weekend
+      const result = quote(at(5), at(8), rules);
+
+      expect(result.adjustments).toEqual([
+        { label: 'Holiday (1 day)', amount: 50 },
+        { label: 'Weekend (1 day)', amount: 20 },
+      ]);
+      expect(result.total).toBe(370);
+    });
+
+    it('adds a seasonal rate on top of the weekend rate', () => {
+      const rules = [
+        rule({ type: 'weekend', name: 'Weekend', value: 1.2 }),
+        rule({ type: 'seasonal', name: 'Summer', value: 1.1, start_date: '2026-06-01', end_date: '2026-08-31' }),
+      ];
+
+      const result = quote(at(6), at(8), rules);
+
+      expect(result.adjustments).toEqual([
+        { label: 'Weekend (2 days)', amount: 40 },
+        { label: 'Summer (2 days)', amount: 20 },
+      ]);
+      expect(result.total).toBe(260);
+    });
+
+    it('applies only the best duration discount the rental qualifies for', () => {
+      const rules = [
+        rule({ type: 'duration_discount', name: 'Weekly', value: 10, min_days: 7 }),
+        rule({ type: 'duration_discount', name: 'Monthly', value: 25, min_days: 28 }),
+      ];
+
+      expect(quote(at(1), at(11), rules).discounts).toEqual([{ label: 'Weekly (10%)', amount: 100 }]);
+      expect(quote(at(1), at(31), rules).discounts).toEqual([{ label: 'Monthly (25%)', amount: 750 }]);
+      expect(quote(at(1), at(4), rules).discounts).toEqual([]);
+    });
+
+    it('applies the highest surge the fleet utilisation has reached', () => {
+      const rules = [
+        rule({ type: 'surge', name: 'Busy', value: 1.1, min_utilization: 0.5 }),
+        rule({ type: 'surge', name: 'Very busy', value: 1.25, min_utilization: 0.8 }),
+      ];
+
+      expect(quote(at(1), at(3), rules, 0.85).adjustments).toEqual([{ label: 'Very busy', amount: 50 }]);
+      expect(quote(at(1), at(3), rules, 0.6).adjustments).toEqual([{ label: 'Busy', amount: 20 }]);
+      expect(quote(at(1), at(3), rules, 0.4).adjustments).toEqual([]);
+    });
+
+    it('discounts the rental before fees and taxes are added', () => {
+      const rules = [
+        rule({ type: 'duration_discount', name: 'Weekly', value: 10, min_days: 7 }),
+        rule({ type: 'fee', name: 'Airport', value: 5, per_day: true }),
+        rule({ type: 'tax', name: 'Sales tax', value: 10 }),
+      ];
+
+      const result = quote(at(1), at(11), rules);
+
+      expect(result.subtotal).toBe(900);
+      expect(result.fees).toEqual([{ label: 'Airport ($5.00 × 10)', amount: 50 }]);
+      expect(result.taxes).toEqual([{ label: 'Sales tax (10%)', amount: 95 }]);
+      expect(result.total).toBe(1045);
+    });
+
+    it('ignores inactive rules and rules for other vehicle types', () => {
+      const rules = [
+        rule({ type: 'surge', value: 2, min_utilization: 0, active: false }),
+        rule({ type: 'fee', value: 30, vehicle_type: 'truck' }),
+      ];
+
+      expect(quote(at(1), at(3), rules).total).toBe(200);
+    });
+  });
+
+  describe('overlapping date ranges', () => {
+    it('uses the higher seasonal rate on days two seasons share', () => {
+      const rules = [
+        rule({ type: 'seasonal', name: 'Summer', value: 1.1, start_date: '2026-06-01', end_date: '2026-06-30' }),
+        rule({ type: 'seasonal', name: 'Festival', value: 1.3, start_date: '2026-06-03', end_date: '2026-06-04' }),
+      ];
+
+      // Monday 1st to Friday 5th: four days, two of them in the festival
+      const result = quote(at(1), at(5), rules);
+
+      expect(result.adjustments).toEqual([
+        { label: 'Summer (2 days)', amount: 20 },
+        { label: 'Festival (2 days)', amount: 60 },
+      ]);
+      expect(result.total).toBe(480);
+    });
+
+    it('only charges a holiday on the days inside its range', () => {
+      const rules = [
+        rule({ type: 'holiday', name: 'Holiday', value: 1.5, start_date: '2026-05-30', end_date: '2026-06-02' }),
+      ];
+
+      expect(quote(at(1), at(5), rules).adjustments).toEqual([{ label: 'Holiday (2 days)', amount: 100 }]);
+    });
+  });
+
+  describe('minimum price', () => {
+    it('charges a full day for rentals shorter than a day', () => {
+      const result = quote(at(1, 10), at(1, 13), []);
+
+      expect(result.days).toBe(1);
+      expect(result.total).toBe(100);
+    });
+
+    it('charges one day when the return is not after pickup', () => {
+      expect(getRentalDays(at(3), at(3))).toBe(1);
+      expect(getRentalDays(at(3), at(1))).toBe(1);
+    });
+
+    it('rounds part days up to a whole day', () => {
+      expect(quote(at(1, 10), at(3, 11), []).days).toBe(3);
+    });
+  });
+});
@@ -1,11 +1,22 @@
+import type { EmailOtpType, User as AuthUser } from '@supabase/supabase-js';
+import { Platform } from 'react-native';
+import * as Linking from 'expo-linking';
 import { supabase } from './supabase';
+import { Role } from './permissions';
+import { AVATAR_BUCKET } from './profile';
+import { LICENSE_BUCKET } from './licenses';
+import { removeFolder } from './uploads';
+
+export type OAuthProvider = 'google' | 'apple';
 
 export interface User {
   id: string;
   email: string;
   full_name?: string;
   avatar_url?: string;
-  is_admin: boolean;
+  phone?: string;
+  date_of_birth?: string;
+  role: Role;
 }
 
 export const signIn = async (email: string, password: string) => {
@@ -17,19 +28,14 @@ export const signIn = async (email: string, password: string) => {
 
     if (error) throw error;
 
-    // Check if user is admin
-    if (email === 'sandewilliam594@gmail.com') {
-      return { user: data.user, isAdmin: true };
-    }
-
-    // Get user profile to check admin status
+    // Get user profile to check their role
     const { data: profile } = await supabase
       .from('profiles')
-      .select('is_admin')
+      .select('role')
       .eq('id', data.user?.id)
       .single();
 
-    return { user: data.user, isAdmin: profile?.is_admin || false };
+    return { user: data.user, role: (profile?.role || 'customer') as Role };
   } catch (error) {
     throw error;
   }
@@ -44,6 +50,7 @@ export const signUp = async (email: string, password: string, fullName: string)
         data: {
           full_name: fullName,
         },
+        emailRedirectTo: Linking.createURL('/auth/verify-email'),
       },
     });
 
@@ -54,6 +61,146 @@ export const signUp = async (email: string, password: string, fullName: string)
   }
 };
 
+export const sendMagicLink = async (email: string) => {
+  try {
+    const { error } = await supabase.auth.signInWithOtp({
+      email,
+      options: {
+        emailRedirectTo: Linking.createURL('/auth/callback'),
+      },
+    });
+    if (error) throw error;
+  } catch (error) {
+    throw error;
+  }
+};
+
+export const verifyEmailCode = async (email: string, token: string) => {
+  try {
+    const { data, error } = await supabase.auth.verifyOtp({ email, token, type: 'email' });
+    if (error) throw error;
+    if (data.user) await ensureProfile(data.user);
+    return data;
+  } catch (error) {
+    throw error;
+  }
+};
+
+// On native the provider page opens in the system browser and returns to
+// /auth/callback through the app scheme; on web Supabase redirects the tab
+export const signInWithOAuth = async (provider: OAuthProvider) => {
+  try {
+    const { data, error } = await supabase.auth.signInWithOAuth({
+      provider,
+      options: {
+        redirectTo: Linking.createURL('/auth/callback'),
+        skipBrowserRedirect: Platform.OS !== 'web',
+      },
+    });
+    if (error) throw error;
+
+    if (Platform.OS !== 'web' && data.url) {
+      await Linking.openURL(data.url);
+    }
+  } catch (error) {
+    throw error;
+  }
+};
+
+// handle_new_user creates the profile server-side; this is the fallback so a
+// passwordless or OAuth sign-in never lands without a profiles row
+export const ensureProfile = async (user: AuthUser) => {
+  const { data: existing } = await supabase
+    .from('profiles')
+    .select('id')
+    .eq('id', user.id)
+    .maybeSingle();
+
+  if (existing) return;
+
+  const { error } = await supabase.from('profiles').insert({
+    id: user.id,
+    email: user.email,
+    full_name: user.user_metadata?.full_name || user.user_metadata?.name || '',
+    avatar_url: user.user_metadata?.avatar_url || user.user_metadata?.picture || null,
+  });
+
+  // 23505: the trigger won the race, which is fine
+  if (error && error.code !== '23505') throw error;
+};
+
+export const requestPasswordReset = async (email: string) => {
+  try {
+    const { error } = await supabase.auth.resetPasswordForEmail(email, {
+      redirectTo: Linking.createURL('/auth/reset-password'),
+    });
+    if (error) throw error;
+  } catch (error) {
+    throw error;
+  }
+};
+
+export const updatePassword = async (password: string) => {
+  try {
+    const { error } = await supabase.auth.updateUser({ password });
+    if (error) throw error;
+  } catch (error) {
+    throw error;
+  }
+};
+
+// Auth emails append their tokens to the query string (PKCE / token_hash)
+// or the fragment (implicit flow), depending on the project's email templates
+const parseAuthParams = (url: string) => {
+  const params: Record<string, string> = {};
+  const [, rest = ''] = url.split('?');
+  const [, fragment = ''] = url.split('#');
+  const query = rest.split('#')[0];
+
+  [query, fragment].forEach(part => {
+    part.split('&').filter(Boolean).forEach(pair => {
+      const [key, value = ''] = pair.split('=');
+      params[decodeURIComponent(key)] = decodeURIComponent(value.replace(/\+/g, ' '));
+    });
+  });
+
+  return params;
+};
+
+export const completeSessionFromUrl = async (url: string) => {
+  const params = parseAuthParams(url);
+
+  if (params.error_description || params.error) {
+    throw new Error(params.error_description || params.error);
+  }
+
+  if (params.code) {
+    const { data, error } = await supabase.auth.exchangeCodeForSession(params.code);
+    if (error) throw error;
+    return data.session;
+  }
+
+  if (params.token_hash && params.type) {
+    const { data, error } = await supabase.auth.verifyOtp({
+      token_hash: params.token_hash,
+      type: params.type as EmailOtpType,
+    });
+    if (error) throw error;
+    return data.session;
+  }
+
+  if (params.access_token && params.refresh_token) {
+    const { data, error } = await supabase.auth.setSession({
+      access_token: params.access_token,
+      refresh_token: params.refresh_token,
+    });
+    if (error) throw error;
+    return data.session;
+  }
+
+  throw new Error('This link is invalid or has expired');
+};
+
 export const signOut = async () => {
   try {
     const { error } = await supabase.auth.signOut();
@@ -63,37 +210,65 @@ export const signOut = async () => {
   }
 };
 
+// Set as the HINT on the exception raised by delete_own_account()
+const ACTIVE_BOOKINGS_HINT = 'active_bookings';
+
+export const isActiveBookingsError = (error: any) => error?.hint === ACTIVE_BOOKINGS_HINT;
+
+export const hasBlockingBookings = async (userId: string) => {
+  const { count, error } = await supabase
+    .from('bookings')
+    .select('id', { count: 'exact', head: true })
+    .eq('user_id', userId)
+    .or('status.in.(confirmed,active),and(status.eq.pending,payment_status.eq.completed)');
+
+  if (error) throw error;
+  return (count || 0) > 0;
+};
+
+// Account data is removed or anonymised by delete_own_account(). Avatars and
+// license photos live in storage, which the database function can't reach,
+// so they are cleared afterwards with the still-valid access token
+export const deleteAccount = async (userId: string) => {
+  try {
+    const { error } = await supabase.rpc('delete_own_account');
+    if (error) throw error;
+
+    await removeFolder(AVATAR_BUCKET, userId);
+    await removeFolder(LICENSE_BUCKET, userId);
+
+    // The auth user is gone server-side; clear the stored session locally
+    await supabase.auth.signOut({ scope: 'local' });
+  } catch (error) {
+    throw error;
+  }
+};
+
+export const getUserProfile = async (user: AuthUser): Promise<User> => {
+  const { data: profile } = await supabase
+    .from('profiles')
+    .select('*')
+    .eq('id', user.id)
+    .single();
+
+  return {
+    id: user.id,
+    email: user.email!,
+    full_name: profile?.full_name || user.user_metadata?.full_name,
+    avatar_url: profile?.avatar_url || user.user_metadata?.avatar_url,
+    phone: profile?.phone || undefined,
+    date_of_birth: profile?.date_of_birth || undefined,
+    role: profile?.role || 'customer',
+  };
+};
+
 export const getCurrentUser = async (): Promise<User | null> => {
   try {
     const { data: { user } } = await supabase.auth.getUser();
     
     if (!user) return null;
 
-    // Check if user is the hardcoded admin
-    if (user.email === 'sandewilliam594@gmail.com') {
-      return {
-        id: user.id,
-        email: user.email!,
-        full_name: user.user_metadata?.full_name,
-        avatar_url: user.user_metadata?.avatar_url,
-        is_admin: true,
-      };
-    }
-
-    // Get user profile
-    const { data: profile } = await supabase
-      .from('profiles')
-      .select('*')
-      .eq('id', user.id)
-      .single();
-
-    return {
-      id: user.id,
-      email: user.email!,
-      full_name: profile?.full_name || user.user_metadata?.full_name,
-      avatar_url: profile?.avatar_url || user.user_metadata?.avatar_url,
-      is_admin: profile?.is_admin || false,
-    };
+    return await getUserProfile(user);
   } catch (error) {
     console.error('Error getting current user:', error);
     return null;
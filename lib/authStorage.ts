@@ -0,0 +1,66 @@
+import { Platform } from 'react-native';
+import * as SecureStore from 'expo-secure-store';
+
+// SecureStore warns above 2048 bytes and may reject larger values on some
+// devices; Supabase sessions (access + refresh token + user) regularly exceed it
+const CHUNK_SIZE = 1800;
+
+const chunkCountKey = (key: string) => `${key}.chunks`;
+const chunkKey = (key: string, index: number) => `${key}.${index}`;
+
+const removeChunks = async (key: string) => {
+  const count = Number(await SecureStore.getItemAsync(chunkCountKey(key))) || 0;
+
+  for (let i = 0; i < count; i++) {
+    await SecureStore.deleteItemAsync(chunkKey(key, i));
+  }
+  await SecureStore.deleteItemAsync(chunkCountKey(key));
+};
+
+const secureStorage = {
+  getItem: async (key: string): Promise<string | null> => {
+    const count = Number(await SecureStore.getItemAsync(chunkCountKey(key)));
+    if (!count) return null;
+
+    const chunks: string[] = [];
+    for (let i = 0; i < count; i++) {
+      const chunk = await SecureStore.getItemAsync(chunkKey(key, i));
+      // A missing chunk means a write was interrupted; treat it as signed out
+      if (chunk === null) return null;
+      chunks.push(chunk);
+    }
+
+    return chunks.join('');
+  },
+
+  setItem: async (key: string, value: string) => {
+    await removeChunks(key);
+
+    const count = Math.ceil(value.length / CHUNK_SIZE);
+    for (let i = 0; i < count; i++) {
+      await SecureStore.setItemAsync(chunkKey(key, i), value.slice(i * CHUNK_SIZE, (i + 1) * CHUNK_SIZE));
+    }
+    await SecureStore.setItemAsync(chunkCountKey(key), String(count));
+  },
+
+  removeItem: async (key: string) => {
+    await removeChunks(key);
+  },
+};
+
+// localStorage is undefined during static web rendering, so every call is guarded
+const webStorage = {
+  getItem: async (key: string) => {
+    return typeof localStorage === 'undefined' ? null : localStorage.getItem(key);
+  },
+
+  setItem: async (key: string, value: string) => {
+    if (typeof localStorage !== 'undefined') localStorage.setItem(key, value);
+  },
+
+  removeItem: async (key: string) => {
+    if (typeof localStorage !== 'undefined') localStorage.removeItem(key);
+  },
+};
+
+export const authStorage = Platform.OS === 'web' ? webStorage : secureStorage;
@@ -0,0 +1,53 @@
+import { supabase } from './supabase';
+
+export interface BookedRange {
+  start_date: string;
+  end_date: string;
+}
+
+export const getBookedRanges = async (vehicleId: string, from: Date, to: Date): Promise<BookedRange[]> => {
+  try {
+    const { data, error } = await supabase.rpc('get_vehicle_booked_ranges', {
+      p_vehicle_id: vehicleId,
+      p_from: from.toISOString(),
+      p_to: to.toISOString(),
+    });
+
+    if (error) throw error;
+    return data || [];
+  } catch (error) {
+    throw error;
+  }
+};
+
+export const getAvailableVehicles = async (start: Date, end: Date) => {
+  try {
+    const { data, error } = await supabase.rpc('get_available_vehicles', {
+      p_start: start.toISOString(),
+      p_end: end.toISOString(),
+    });
+
+    if (error) throw error;
+    return data || [];
+  } catch (error) {
+    throw error;
+  }
+};
+
+// A day counts as booked when any reservation overlaps part of it
+export const isDayBooked = (day: Date, ranges: BookedRange[]) => {
+  const dayStart = new Date(day);
+  dayStart.setHours(0, 0, 0, 0);
+  const dayEnd = new Date(dayStart);
+  dayEnd.setDate(dayEnd.getDate() + 1);
+
+  return ranges.some(range =>
+    new Date(range.start_date) < dayEnd && new Date(range.end_date) > dayStart
+  );
+};
+
+export const isRangeFree = (start: Date, end: Date, ranges: BookedRange[]) => {
+  return !ranges.some(range =>
+    new Date(range.start_date) < end && new Date(range.end_date) > start
+  );
+};
@@ -0,0 +1,119 @@
+import { roundMoney } from './payments';
+
+// Cancellation and modification rules, driven by the time left before pickup.
+// Tiers are checked in order; the first one whose notice period is met applies.
+// enforce_booking_change_window() in the database applies the same window and
+// fees, so keep the two in step.
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export interface PolicyTier {
+  minHoursBefore: number;
+  cancellationFeePercent: number;
+  modificationFee: number;
+}
+
+export interface BookingPolicy {
+  // No self-service changes inside this window; enforced server-side too
+  changeCutoffHours: number;
+  tiers: PolicyTier[];
+}
+
+export const BOOKING_POLICY: BookingPolicy = {
+  changeCutoffHours: 24,
+  tiers: [
+    { minHoursBefore: 72, cancellationFeePercent: 0, modificationFee: 0 },
+    { minHoursBefore: 24, cancellationFeePercent: 20, modificationFee: 25 },
+  ],
+};
+
+export interface PolicyBooking {
+  start_date: string;
+  status: string;
+  total_price: number;
+  amount_charged: number;
+  refunded_amount: number;
+  modification_fee: number;
+}
+
+export interface CancellationQuote {
+  allowed: boolean;
+  reason?: string;
+  hoursBefore: number;
+  feePercent: number;
+  fee: number;
+  refund: number;
+}
+
+export interface ModificationQuote {
+  allowed: boolean;
+  reason?: string;
+  hoursBefore: number;
+  fee: number;
+}
+
+const CHANGEABLE_STATUSES = ['pending', 'confirmed'];
+
+export const isChangeWindowError = (error: any) => error?.hint === 'change_window_closed';
+
+export const getHoursBeforePickup = (startDate: string, now: Date = new Date()) => {
+  return (new Date(startDate).getTime() - now.getTime()) / HOUR_MS;
+};
+
+const findTier = (hoursBefore: number, policy: BookingPolicy) => {
+  if (hoursBefore < policy.changeCutoffHours) return null;
+  return policy.tiers.find(tier => hoursBefore >= tier.minHoursBefore) || null;
+};
+
+const getBlockedReason = (booking: PolicyBooking, hoursBefore: number, policy: BookingPolicy) => {
+  if (!CHANGEABLE_STATUSES.includes(booking.status)) {
+    return `${booking.status.charAt(0).toUpperCase()}${booking.status.slice(1)} bookings cannot be changed`;
+  }
+  if (hoursBefore < policy.changeCutoffHours) {
+    return `Bookings can only be changed up to ${policy.changeCutoffHours} hours before pickup. Please contact support.`;
+  }
+  return undefined;
+};
+
+export const getCancellationQuote = (
+  booking: PolicyBooking,
+  now: Date = new Date(),
+  policy: BookingPolicy = BOOKING_POLICY
+): CancellationQuote => {
+  const hoursBefore = getHoursBeforePickup(booking.start_date, now);
+  const tier = findTier(hoursBefore, policy);
+  const reason = getBlockedReason(booking, hoursBefore, policy);
+
+  if (reason || !tier) {
+    return { allowed: false, reason, hoursBefore, feePercent: 0, fee: 0, refund: 0 };
+  }
+
+  // The fee is taken from what was paid, never charged on top. Earlier
+  // modification fees are not refundable.
+  const paid = Math.max(0, roundMoney(booking.amount_charged - booking.refunded_amount - booking.modification_fee));
+  const fee = Math.min(roundMoney(booking.total_price * tier.cancellationFeePercent / 100), paid);
+
+  return {
+    allowed: true,
+    hoursBefore,
+    feePercent: tier.cancellationFeePercent,
+    fee,
+    refund: roundMoney(paid - fee),
+  };
+};
+
+export const getModificationQuote = (
+  booking: PolicyBooking,
+  now: Date = new Date(),
+  policy: BookingPolicy = BOOKING_POLICY
+): ModificationQuote => {
+  const hoursBefore = getHoursBeforePickup(booking.start_date, now);
+  const tier = findTier(hoursBefore, policy);
+  const reason = getBlockedReason(booking, hoursBefore, policy);
+
+  if (reason || !tier) {
+    return { allowed: false, reason, hoursBefore, fee: 0 };
+  }
+
+  return { allowed: true, hoursBefore, fee: tier.modificationFee };
+};
@@ -0,0 +1,264 @@
+import { supabase } from './supabase';
+import { chargeCard, refundBooking, refundCharge, roundMoney } from './payments';
+import { DepositBooking, placeDepositHold, settleDeposit } from './deposits';
+
+// Raised by the bookings_no_overlap exclusion constraint
+const EXCLUSION_VIOLATION = '23P01';
+
+// Mirrors the CHECK constraints on bookings.status and bookings.payment_status
+export const BOOKING_STATUSES = ['pending', 'confirmed', 'active', 'completed', 'cancelled'] as const;
+export const PAYMENT_STATUSES = ['pending', 'completed', 'failed', 'refunded'] as const;
+
+export type BookingStatus = typeof BOOKING_STATUSES[number];
+export type PaymentStatus = typeof PAYMENT_STATUSES[number];
+
+export type BookingAction = 'confirm' | 'activate' | 'complete' | 'cancel';
+
+export const BOOKING_ACTIONS: Record<BookingAction, { label: string; from: BookingStatus[]; to: BookingStatus }> = {
+  confirm: { label: 'Confirm', from: ['pending'], to: 'confirmed' },
+  activate: { label: 'Activate', from: ['confirmed'], to: 'active' },
+  complete: { label: 'Complete', from: ['active'], to: 'completed' },
+  cancel: { label: 'Cancel', from: ['pending', 'confirmed'], to: 'cancelled' },
+};
+
+export const getAvailableActions = (status: string) => {
+  return (Object.keys(BOOKING_ACTIONS) as BookingAction[]).filter(action =>
+    BOOKING_ACTIONS[action].from.includes(status as BookingStatus)
+  );
+};
+
+export interface NewBooking {
+  user_id: string;
+  vehicle_id: string;
+  start_date: string;
+  end_date: string;
+  pickup_time: string;
+  dropoff_time: string;
+  pickup_location: string;
+  dropoff_location: string;
+  driver_license: string;
+  special_requests: string | null;
+  time_zone: string;
+  protection_plan_id: string;
+  payment_method_id: string;
+  payment_method: string;
+}
+
+export const isBookingConflict = (error: any) => error?.code === EXCLUSION_VIOLATION;
+
+// Raised by reschedule_booking() when the server's price differs from the one charged
+export const isPriceChangedError = (error: any) => error?.hint === 'price_changed';
+
+// Weekend and holiday rates follow the customer's calendar, so the database
+// prices each booking in the time zone it was made in
+export const getLocalTimeZone = () => Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+
+// total_price and price_quote are worked out by the database, and again once
+// extras are reserved, so read the booking back before charging it
+export const createBooking = async (booking: NewBooking) => {
+  try {
+    const { data, error } = await supabase
+      .from('bookings')
+      .insert(booking)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  } catch (error) {
+    throw error;
+  }
+};
+
+export const getBooking = async (bookingId: string) => {
+  const { data, error } = await supabase
+    .from('bookings')
+    .select('*')
+    .eq('id', bookingId)
+    .single();
+
+  if (error) throw error;
+  return data;
+};
+
+export const updateBookingStatus = async (bookingId: string, action: BookingAction) => {
+  try {
+    const { from, to } = BOOKING_ACTIONS[action];
+    const { data, error } = await supabase
+      .from('bookings')
+      .update({ status: to, updated_at: new Date().toISOString() })
+      .eq('id', bookingId)
+      .in('status', from)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  } catch (error) {
+    throw error;
+  }
+};
+
+// Cancels and refunds the captured payment, less the cancellation fee when a
+// policy quote is given. A failed refund leaves the booking cancelled with
+// payment_status 'completed', so staff can retry it.
+// The database sets the fee on customer cancellations, so the refund is
+// worked out from the cancelled booking rather than the quote.
+export const cancelBooking = async (bookingId: string, quote?: { fee: number }) => {
+  const { from, to } = BOOKING_ACTIONS.cancel;
+  const { data, error } = await supabase
+    .from('bookings')
+    .update({
+      status: to,
+      cancellation_fee: quote?.fee || 0,
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', bookingId)
+    .in('status', from)
+    .select()
+    .single();
+
+  if (error) throw error;
+
+  // Modification fees are not refundable either
+  const refund = quote
+    ? roundMoney(data.amount_charged - data.refunded_amount - data.modification_fee - data.cancellation_fee)
+    : undefined;
+  return refundBooking(data, refund);
+};
+
+export interface RescheduleBooking {
+  id: string;
+  payment_method_id: string | null;
+  payment_status: string;
+  payment_intent_id: string | null;
+  amount_charged: number;
+  refunded_amount: number;
+  modification_fee: number;
+  refund_due_amount: number;
+}
+
+export interface RescheduleChanges {
+  start_date: string;
+  end_date: string;
+  pickup_time: string;
+  dropoff_time: string;
+  // The total the customer was shown; the database reprices the booking and
+  // rejects the change if its total differs
+  total_price: number;
+  modification_fee: number;
+}
+
+export interface RefundDueBooking {
+  id: string;
+  refund_due_intent_id: string | null;
+  refund_due_amount: number;
+}
+
+// A reschedule keeps the charge it replaced as owed on the booking until it
+// has been refunded, so a failed refund can be retried
+export const hasRefundDue = (booking: RefundDueBooking) =>
+  !!booking.refund_due_intent_id && booking.refund_due_amount > 0;
+
+export const refundRescheduledCharge = async (booking: RefundDueBooking) => {
+  if (!hasRefundDue(booking)) {
+    return booking;
+  }
+
+  await refundCharge(booking.refund_due_intent_id!, booking.refund_due_amount);
+
+  const { data, error } = await supabase.rpc('record_rescheduled_refund', {
+    p_booking_id: booking.id,
+  });
+
+  if (error) throw error;
+  return data;
+};
+
+// The new total plus all modification fees so far is charged first, so a
+// declined card leaves the booking untouched; the original charge is refunded
+// once the dates move. The reschedule stands even if that refund fails: the
+// returned booking then still has a refund due.
+export const rescheduleBooking = async (booking: RescheduleBooking, changes: RescheduleChanges) => {
+  if (!booking.payment_method_id) {
+    throw new Error('This booking has no card to charge');
+  }
+  if (booking.refund_due_amount > 0) {
+    throw new Error('The refund from your last change is still being processed. Please try again later.');
+  }
+
+  const modificationFee = roundMoney(booking.modification_fee + changes.modification_fee);
+  const amount = roundMoney(changes.total_price + modificationFee);
+  const charge = await chargeCard(booking.payment_method_id, amount, booking.id);
+  if (!charge.succeeded) {
+    throw new Error(charge.message);
+  }
+
+  let updated;
+  try {
+    const { data, error } = await supabase.rpc('reschedule_booking', {
+      p_booking_id: booking.id,
+      p_start_date: changes.start_date,
+      p_end_date: changes.end_date,
+      p_pickup_time: changes.pickup_time,
+      p_dropoff_time: changes.dropoff_time,
+      p_modification_fee: modificationFee,
+      p_intent_id: charge.intentId,
+      p_amount: amount,
+    });
+
+    if (error) throw error;
+    updated = data;
+  } catch (error) {
+    await refundCharge(charge.intentId, amount);
+    throw error;
+  }
+
+  try {
+    return await refundRescheduledCharge(updated);
+  } catch (error) {
+    console.error('Error refunding original charge:', error);
+    return updated;
+  }
+};
+
+export interface CheckInReadings {
+  fuel_level_pickup: number;
+  mileage_start: number;
+}
+
+// Records the handover readings, then activates the booking. The readings
+// stay saved if activation fails, so the check-in can simply be retried.
+export const checkInBooking = async (booking: DepositBooking, staffId: string, readings: CheckInReadings) => {
+  const now = new Date().toISOString();
+  const { data, error } = await supabase
+    .from('bookings')
+    .update({
+      ...readings,
+      actual_pickup_time: now,
+      license_checked_at: now,
+      checked_in_by: staffId,
+      updated_at: now,
+    })
+    .eq('id', booking.id)
+    .eq('status', 'confirmed')
+    .select()
+    .single();
+
+  if (error) throw error;
+  return activateBooking(data);
+};
+
+// Pickup: the deposit hold has to succeed before the rental starts
+export const activateBooking = async (booking: DepositBooking) => {
+  const held = await placeDepositHold(booking);
+
+  try {
+    return await updateBookingStatus(booking.id, 'activate');
+  } catch (error) {
+    if (held.deposit_status === 'held' && booking.deposit_status !== 'held') {
+      await settleDeposit(held, 0, 'Pickup not completed');
+    }
+    throw error;
+  }
+};
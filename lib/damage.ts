@@ -0,0 +1,161 @@
+import { supabase } from './supabase';
+import { roundMoney } from './payments';
+import { INSPECTION_BUCKET, InspectionImage, InspectionPhoto, uploadInspectionPhoto } from './inspections';
+
+// Mirrors the CHECK constraint on damage_records.severity
+export const DAMAGE_SEVERITIES = ['minor', 'moderate', 'severe'] as const;
+
+export type DamageSeverity = typeof DAMAGE_SEVERITIES[number];
+
+export const DAMAGE_SEVERITY_LABELS: Record<DamageSeverity, string> = {
+  minor: 'Minor',
+  moderate: 'Moderate',
+  severe: 'Severe',
+};
+
+export interface DamageZone {
+  key: string;
+  label: string;
+}
+
+// The areas staff can mark on the top-down vehicle diagram
+export const DAMAGE_ZONES: DamageZone[] = [
+  { key: 'front_bumper', label: 'Front bumper' },
+  { key: 'hood', label: 'Hood' },
+  { key: 'windshield', label: 'Windshield' },
+  { key: 'roof', label: 'Roof' },
+  { key: 'rear_window', label: 'Rear window' },
+  { key: 'trunk', label: 'Trunk' },
+  { key: 'rear_bumper', label: 'Rear bumper' },
+  { key: 'left_front', label: 'Left front side' },
+  { key: 'left_rear', label: 'Left rear side' },
+  { key: 'right_front', label: 'Right front side' },
+  { key: 'right_rear', label: 'Right rear side' },
+];
+
+export interface DamageRecord {
+  id: string;
+  vehicle_id: string;
+  booking_id: string | null;
+  zone: string;
+  severity: DamageSeverity;
+  description: string;
+  repair_cost: number;
+  created_by: string | null;
+  created_at: string;
+  inspection_photos: InspectionPhoto[];
+}
+
+export interface DamageHistoryRecord extends DamageRecord {
+  bookings: {
+    start_date: string;
+    end_date: string;
+  } | null;
+}
+
+export interface NewDamage {
+  zone: string;
+  severity: DamageSeverity;
+  description: string;
+  repair_cost: number;
+  photos: InspectionImage[];
+}
+
+export const getZoneLabel = (zone: string) => {
+  return DAMAGE_ZONES.find(item => item.key === zone)?.label || zone;
+};
+
+export const getBookingDamage = async (bookingId: string): Promise<DamageRecord[]> => {
+  const { data, error } = await supabase
+    .from('damage_records')
+    .select('*, inspection_photos(*)')
+    .eq('booking_id', bookingId)
+    .order('created_at', { ascending: true });
+
+  if (error) throw error;
+  return data || [];
+};
+
+export const getVehicleDamage = async (vehicleId: string): Promise<DamageHistoryRecord[]> => {
+  const { data, error } = await supabase
+    .from('damage_records')
+    .select('*, inspection_photos(*), bookings(start_date, end_date)')
+    .eq('vehicle_id', vehicleId)
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+  return data || [];
+};
+
+// Removes the photo files too; the photo rows go with the record
+export const deleteDamageRecord = async (record: DamageRecord) => {
+  const { error } = await supabase
+    .from('damage_records')
+    .delete()
+    .eq('id', record.id);
+
+  if (error) throw error;
+
+  if (record.inspection_photos.length > 0) {
+    await supabase.storage
+      .from(INSPECTION_BUCKET)
+      .remove(record.inspection_photos.map(photo => photo.storage_path));
+  }
+};
+
+// Saves the record, then its photos. If a photo fails the whole record is
+// removed so staff can retry without leaving a half-saved entry behind.
+export const recordDamage = async (booking: { id: string; vehicle_id: string }, damage: NewDamage) => {
+  const { data, error } = await supabase
+    .from('damage_records')
+    .insert({
+      vehicle_id: booking.vehicle_id,
+      booking_id: booking.id,
+      zone: damage.zone,
+      severity: damage.severity,
+      description: damage.description,
+      repair_cost: damage.repair_cost,
+    })
+    .select()
+    .single();
+
+  if (error) throw error;
+
+  const record: DamageRecord = { ...data, inspection_photos: [] };
+  try {
+    for (const image of damage.photos) {
+      record.inspection_photos.push(
+        await uploadInspectionPhoto(booking.id, 'return', damage.zone, image, record.id)
+      );
+    }
+  } catch (uploadError) {
+    await deleteDamageRecord(record).catch(() => {});
+    throw uploadError;
+  }
+
+  return record;
+};
+
+export const getDamageTotal = (records: DamageRecord[]) => {
+  return roundMoney(records.reduce((sum, record) => sum + record.repair_cost, 0));
+};
+
+// Plain-text summary kept in bookings.damage_report
+export const formatDamageReport = (records: DamageRecord[]) => {
+  if (records.length === 0) return null;
+  return records
+    .map(record => `${getZoneLabel(record.zone)} (${DAMAGE_SEVERITY_LABELS[record.severity].toLowerCase()}): ${record.description}`)
+    .join('\n');
+};
+
+// The worst severity recorded on each zone, for coloring the diagram
+export const getDamageMarks = (records: DamageRecord[]) => {
+  const marks: Record<string, DamageSeverity> = {};
+  records.forEach(record => {
+    const current = marks[record.zone];
+    if (!current || DAMAGE_SEVERITIES.indexOf(record.severity) > DAMAGE_SEVERITIES.indexOf(current)) {
+      marks[record.zone] = record.severity;
+    }
+  });
+  return marks;
+};
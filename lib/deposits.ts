@@ -0,0 +1,149 @@
+import { supabase } from './supabase';
+import { paymentProvider } from './paymentProvider';
+import { PAYMENT_CURRENCY, getBookingCardToken, roundMoney, toMinorUnits } from './payments';
+
+// Mirrors the CHECK constraint on bookings.deposit_status
+export const DEPOSIT_STATUSES = ['none', 'held', 'released', 'partially_captured', 'captured'] as const;
+
+export type DepositStatus = typeof DEPOSIT_STATUSES[number];
+export type DepositTransactionType = 'hold' | 'release' | 'capture';
+
+export const DEPOSIT_STATUS_LABELS: Record<DepositStatus, string> = {
+  none: 'Not held',
+  held: 'Held',
+  released: 'Released',
+  partially_captured: 'Partially captured',
+  captured: 'Captured',
+};
+
+export interface DepositBooking {
+  id: string;
+  start_date: string;
+  end_date: string;
+  payment_method_id: string | null;
+  deposit_amount: number;
+  deposit_status: DepositStatus;
+  deposit_intent_id: string | null;
+}
+
+export interface DepositTransaction {
+  id: string;
+  booking_id: string;
+  type: DepositTransactionType;
+  amount: number;
+  reason: string | null;
+  provider_reference: string | null;
+  created_by: string | null;
+  created_at: string;
+}
+
+// Works out how much of the deposit to keep for the return charges. Anything
+// above the deposit is reported as uncovered rather than captured.
+export const calculateDepositCapture = (deposit: number, charges: number) => {
+  const capture = Math.min(roundMoney(charges), deposit);
+
+  return {
+    capture,
+    release: roundMoney(deposit - capture),
+    uncovered: roundMoney(charges - capture),
+  };
+};
+
+const recordTransaction = async (
+  bookingId: string,
+  type: DepositTransactionType,
+  amount: number,
+  reason: string | null,
+  providerReference: string | null
+) => {
+  const { error } = await supabase
+    .from('deposit_transactions')
+    .insert({
+      booking_id: bookingId,
+      type,
+      amount,
+      reason,
+      provider_reference: providerReference,
+    });
+
+  if (error) throw error;
+};
+
+const setDepositState = async (
+  bookingId: string,
+  updates: { deposit_status: DepositStatus; deposit_intent_id?: string }
+) => {
+  const { data, error } = await supabase
+    .from('bookings')
+    .update({ ...updates, updated_at: new Date().toISOString() })
+    .eq('id', bookingId)
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data;
+};
+
+export const getDepositTransactions = async (bookingId: string): Promise<DepositTransaction[]> => {
+  const { data, error } = await supabase
+    .from('deposit_transactions')
+    .select('*')
+    .eq('booking_id', bookingId)
+    .order('created_at', { ascending: true });
+
+  if (error) throw error;
+  return data || [];
+};
+
+// Authorises the deposit on the booking's card at pickup without charging it
+export const placeDepositHold = async (booking: DepositBooking) => {
+  if (booking.deposit_amount <= 0 || booking.deposit_status !== 'none') {
+    return booking;
+  }
+  if (!booking.payment_method_id) {
+    throw new Error('This booking has no card to hold the deposit on');
+  }
+
+  const cardToken = await getBookingCardToken(booking.id);
+  const intent = await paymentProvider.createPaymentIntent({
+    amount: toMinorUnits(booking.deposit_amount),
+    currency: PAYMENT_CURRENCY,
+    cardToken,
+    reference: `${booking.id}:deposit`,
+    captureMethod: 'manual',
+  });
+
+  const authorised = await paymentProvider.confirmPaymentIntent(intent.id);
+  if (authorised.status !== 'requires_capture') {
+    throw new Error(authorised.failureMessage || 'The deposit could not be authorised on this card');
+  }
+
+  await recordTransaction(booking.id, 'hold', booking.deposit_amount, 'Held at pickup', intent.id);
+  return setDepositState(booking.id, { deposit_status: 'held', deposit_intent_id: intent.id });
+};
+
+// Releases the hold, or captures part or all of it when the return carries
+// charges. Ledger entries add up to the original hold.
+export const settleDeposit = async (booking: DepositBooking, captureAmount: number, reason: string) => {
+  if (booking.deposit_status !== 'held' || !booking.deposit_intent_id) {
+    return booking;
+  }
+
+  const capture = roundMoney(Math.min(Math.max(captureAmount, 0), booking.deposit_amount));
+  const release = roundMoney(booking.deposit_amount - capture);
+
+  if (capture === 0) {
+    await paymentProvider.cancelPaymentIntent(booking.deposit_intent_id);
+  } else {
+    await paymentProvider.capturePaymentIntent(booking.deposit_intent_id, toMinorUnits(capture));
+    await recordTransaction(booking.id, 'capture', capture, reason, booking.deposit_intent_id);
+  }
+
+  if (release > 0) {
+    await recordTransaction(booking.id, 'release', release, 'Returned to card', booking.deposit_intent_id);
+  }
+
+  return setDepositState(booking.id, {
+    deposit_status: capture === 0 ? 'released' : release === 0 ? 'captured' : 'partially_captured',
+  });
+};
@@ -0,0 +1,162 @@
+import { supabase } from './supabase';
+import { QuoteExtra } from './pricing';
+
+export type ExtraPricing = 'per_day' | 'per_rental';
+
+export interface Extra {
+  id: string;
+  name: string;
+  description: string | null;
+  icon: string;
+  price: number;
+  pricing: ExtraPricing;
+  max_per_booking: number;
+  active: boolean;
+}
+
+export interface ExtraStock {
+  extra_id: string;
+  location: string;
+  quantity: number;
+}
+
+export interface BookingExtra {
+  id: string;
+  booking_id: string;
+  extra_id: string;
+  quantity: number;
+  unit_price: number;
+  pricing: ExtraPricing;
+  location: string;
+  extras: { name: string; icon: string };
+}
+
+// Extra id -> quantity chosen
+export type ExtraSelection = Record<string, number>;
+
+export const EXTRA_PRICING_LABELS: Record<ExtraPricing, string> = {
+  per_day: '/day',
+  per_rental: '/rental',
+};
+
+// Raised by check_extra_stock() when a branch runs out
+export const isExtrasUnavailableError = (error: any) => error?.hint === 'extras_unavailable';
+
+export const getExtras = async (includeInactive = false): Promise<Extra[]> => {
+  let query = supabase
+    .from('extras')
+    .select('id, name, description, icon, price, pricing, max_per_booking, active')
+    .order('sort_order', { ascending: true });
+
+  if (!includeInactive) {
+    query = query.eq('active', true);
+  }
+
+  const { data, error } = await query;
+
+  if (error) throw error;
+  return data || [];
+};
+
+// Units of each extra still free at a branch over the period. Extras the
+// branch does not stock are missing from the result.
+export const getExtraAvailability = async (location: string, start: Date, end: Date) => {
+  const { data, error } = await supabase.rpc('get_extra_availability', {
+    p_location: location,
+    p_start: start.toISOString(),
+    p_end: end.toISOString(),
+  });
+
+  if (error) throw error;
+  return Object.fromEntries(
+    ((data || []) as { extra_id: string; available: number }[]).map(row => [row.extra_id, row.available])
+  ) as Record<string, number>;
+};
+
+export const getBookingExtras = async (bookingId: string): Promise<BookingExtra[]> => {
+  const { data, error } = await supabase
+    .from('booking_extras')
+    .select(`
+      *,
+      extras (
+        name,
+        icon
+      )
+    `)
+    .eq('booking_id', bookingId)
+    .order('created_at', { ascending: true });
+
+  if (error) throw error;
+  return data || [];
+};
+
+// Price and branch are filled in server-side, which also checks stock
+export const reserveExtras = async (bookingId: string, selection: ExtraSelection) => {
+  const rows = Object.entries(selection)
+    .filter(([, quantity]) => quantity > 0)
+    .map(([extraId, quantity]) => ({ booking_id: bookingId, extra_id: extraId, quantity }));
+
+  if (rows.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from('booking_extras')
+    .insert(rows)
+    .select();
+
+  if (error) throw error;
+  return data;
+};
+
+export const toQuoteExtras = (extras: Extra[], selection: ExtraSelection): QuoteExtra[] => {
+  return extras
+    .filter(extra => (selection[extra.id] || 0) > 0)
+    .map(extra => ({
+      name: extra.name,
+      quantity: selection[extra.id],
+      unitPrice: extra.price,
+      perDay: extra.pricing === 'per_day',
+    }));
+};
+
+// Booked extras keep the price they were reserved at
+export const bookingExtrasToQuote = (items: BookingExtra[]): QuoteExtra[] => {
+  return items.map(item => ({
+    name: item.extras.name,
+    quantity: item.quantity,
+    unitPrice: item.unit_price,
+    perDay: item.pricing === 'per_day',
+  }));
+};
+
+export const formatBookingExtras = (items: BookingExtra[]) => {
+  return items
+    .map(item => (item.quantity > 1 ? `${item.extras.name} × ${item.quantity}` : item.extras.name))
+    .join(', ');
+};
+
+export const getExtraStock = async (): Promise<ExtraStock[]> => {
+  const { data, error } = await supabase
+    .from('extra_stock')
+    .select('extra_id, location, quantity')
+    .order('location', { ascending: true });
+
+  if (error) throw error;
+  return data || [];
+};
+
+export const setExtraStock = async (extraId: string, location: string, quantity: number) => {
+  const { error } = await supabase
+    .from('extra_stock')
+    .upsert({ extra_id: extraId, location, quantity, updated_at: new Date().toISOString() });
+
+  if (error) throw error;
+};
+
+export const setExtraActive = async (extraId: string, active: boolean) => {
+  const { error } = await supabase
+    .from('extras')
+    .update({ active, updated_at: new Date().toISOString() })
+    .eq('id', extraId);
+
+  if (error) throw error;
+};
@@ -0,0 +1,165 @@
+import * as ImagePicker from 'expo-image-picker';
+import { supabase } from './supabase';
+import { uploadImage } from './uploads';
+
+export const INSPECTION_BUCKET = 'vehicle-inspections';
+
+export type InspectionStage = 'pickup' | 'return';
+
+export interface InspectionAngle {
+  key: string;
+  label: string;
+  required: boolean;
+}
+
+// The four exterior angles are also required by enforce_booking_check_in()
+export const INSPECTION_ANGLES: InspectionAngle[] = [
+  { key: 'front', label: 'Front', required: true },
+  { key: 'rear', label: 'Rear', required: true },
+  { key: 'left', label: 'Left side', required: true },
+  { key: 'right', label: 'Right side', required: true },
+  { key: 'interior', label: 'Interior', required: false },
+  { key: 'dashboard', label: 'Dashboard', required: false },
+];
+
+export interface InspectionPhoto {
+  id: string;
+  booking_id: string;
+  stage: InspectionStage;
+  angle: string;
+  storage_path: string;
+  damage_record_id: string | null;
+  taken_at: string;
+  created_by: string | null;
+  created_at: string;
+}
+
+export interface InspectionImage {
+  base64: string;
+  mimeType?: string;
+  takenAt: Date;
+}
+
+// EXIF dates look like "2026:10:18 14:30:05" in the camera's local time
+const parseExifDate = (value: unknown) => {
+  if (typeof value !== 'string') return null;
+  const match = value.match(/^(\d{4}):(\d{2}):(\d{2}) (\d{2}):(\d{2}):(\d{2})$/);
+  if (!match) return null;
+  const [, year, month, day, hours, minutes, seconds] = match.map(Number);
+  return new Date(year, month - 1, day, hours, minutes, seconds);
+};
+
+// Photos from the camera are stamped with the capture time; library photos
+// keep the time from their EXIF data when it is there
+export const pickInspectionImage = async (source: 'camera' | 'library'): Promise<InspectionImage | null> => {
+  const permission = source === 'camera'
+    ? await ImagePicker.requestCameraPermissionsAsync()
+    : await ImagePicker.requestMediaLibraryPermissionsAsync();
+
+  if (!permission.granted) {
+    throw new Error(`Allow ${source === 'camera' ? 'camera' : 'photo library'} access to add inspection photos.`);
+  }
+
+  const options: ImagePicker.ImagePickerOptions = {
+    mediaTypes: ImagePicker.MediaTypeOptions.Images,
+    quality: 0.6,
+    base64: true,
+    exif: source === 'library',
+  };
+
+  const result = source === 'camera'
+    ? await ImagePicker.launchCameraAsync(options)
+    : await ImagePicker.launchImageLibraryAsync(options);
+
+  const asset = result.canceled ? null : result.assets[0];
+  if (!asset?.base64) return null;
+
+  return {
+    base64: asset.base64,
+    mimeType: asset.mimeType,
+    takenAt: parseExifDate(asset.exif?.DateTimeOriginal) || new Date(),
+  };
+};
+
+export const getAngleLabel = (angle: string) => {
+  return INSPECTION_ANGLES.find(item => item.key === angle)?.label || angle;
+};
+
+export const getInspectionPhotos = async (bookingId: string, stage?: InspectionStage): Promise<InspectionPhoto[]> => {
+  let query = supabase
+    .from('inspection_photos')
+    .select('*')
+    .eq('booking_id', bookingId)
+    .order('taken_at', { ascending: true });
+
+  if (stage) {
+    query = query.eq('stage', stage);
+  }
+
+  const { data, error } = await query;
+
+  if (error) throw error;
+  return data || [];
+};
+
+// Files are grouped by booking so RLS can match them to the customer.
+// Close-ups of damage pass the damage record and its zone as the angle.
+export const uploadInspectionPhoto = async (
+  bookingId: string,
+  stage: InspectionStage,
+  angle: string,
+  image: InspectionImage,
+  damageRecordId?: string
+) => {
+  const path = await uploadImage(INSPECTION_BUCKET, `${bookingId}/${stage}`, image.base64, image.mimeType);
+
+  const { data, error } = await supabase
+    .from('inspection_photos')
+    .insert({
+      booking_id: bookingId,
+      stage,
+      angle,
+      storage_path: path,
+      damage_record_id: damageRecordId || null,
+      taken_at: image.takenAt.toISOString(),
+    })
+    .select()
+    .single();
+
+  if (error) {
+    await supabase.storage.from(INSPECTION_BUCKET).remove([path]);
+    throw error;
+  }
+  return data as InspectionPhoto;
+};
+
+export const deleteInspectionPhoto = async (photo: InspectionPhoto) => {
+  const { error } = await supabase
+    .from('inspection_photos')
+    .delete()
+    .eq('id', photo.id);
+
+  if (error) throw error;
+  await supabase.storage.from(INSPECTION_BUCKET).remove([photo.storage_path]);
+};
+
+export const getInspectionPhotoUrls = async (photos: InspectionPhoto[]) => {
+  if (photos.length === 0) return {};
+
+  const { data, error } = await supabase.storage
+    .from(INSPECTION_BUCKET)
+    .createSignedUrls(photos.map(photo => photo.storage_path), 60 * 10);
+
+  if (error) throw error;
+  return Object.fromEntries(
+    photos.map((photo, index) => [photo.id, data[index]?.signedUrl || ''])
+  ) as Record<string, string>;
+};
+
+export const getMissingAngles = (photos: InspectionPhoto[], stage: InspectionStage) => {
+  return INSPECTION_ANGLES.filter(angle =>
+    angle.required && !photos.some(photo =>
+      photo.stage === stage && photo.angle === angle.key && !photo.damage_record_id
+    )
+  );
+};
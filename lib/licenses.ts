@@ -0,0 +1,149 @@
+import { supabase } from './supabase';
+import { uploadImage } from './uploads';
+import { getAge } from './profile';
+
+export const LICENSE_BUCKET = 'driver-licenses';
+
+// Matches the check in check_driver_eligibility(), which enforces it server-side
+export const MIN_DRIVER_AGE = 21;
+
+export type LicenseStatus = 'pending' | 'approved' | 'rejected';
+
+export interface DriverLicense {
+  id: string;
+  user_id: string;
+  license_number: string;
+  expiry_date: string;
+  front_image_path: string;
+  back_image_path: string;
+  status: LicenseStatus;
+  rejection_reason: string | null;
+  reviewed_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface LicenseImage {
+  base64: string;
+  mimeType?: string;
+}
+
+export interface LicenseSubmission {
+  license_number: string;
+  expiry_date: string;
+  front?: LicenseImage;
+  back?: LicenseImage;
+}
+
+// Hints raised by check_driver_eligibility()
+const ELIGIBILITY_HINTS = ['license_not_approved', 'license_expired', 'driver_underage'];
+
+export const isEligibilityError = (error: any) => ELIGIBILITY_HINTS.includes(error?.hint);
+
+export const getLicense = async (userId: string): Promise<DriverLicense | null> => {
+  const { data, error } = await supabase
+    .from('driver_licenses')
+    .select('*')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data;
+};
+
+// Photos are only required on the first submission; a resubmission without
+// new photos keeps the ones already on file
+export const submitLicense = async (userId: string, submission: LicenseSubmission, existing?: DriverLicense | null) => {
+  const frontPath = submission.front
+    ? await uploadImage(LICENSE_BUCKET, userId, submission.front.base64, submission.front.mimeType)
+    : existing?.front_image_path;
+  const backPath = submission.back
+    ? await uploadImage(LICENSE_BUCKET, userId, submission.back.base64, submission.back.mimeType)
+    : existing?.back_image_path;
+
+  if (!frontPath || !backPath) {
+    throw new Error('Photos of the front and back of your license are required');
+  }
+
+  const { data, error } = await supabase
+    .from('driver_licenses')
+    .upsert({
+      user_id: userId,
+      license_number: submission.license_number,
+      expiry_date: submission.expiry_date,
+      front_image_path: frontPath,
+      back_image_path: backPath,
+    }, { onConflict: 'user_id' })
+    .select()
+    .single();
+
+  if (error) throw error;
+
+  // Clean up the photos this submission replaced
+  const replaced = [
+    submission.front && existing?.front_image_path,
+    submission.back && existing?.back_image_path,
+  ].filter(Boolean) as string[];
+  if (replaced.length) {
+    await supabase.storage.from(LICENSE_BUCKET).remove(replaced);
+  }
+
+  return data as DriverLicense;
+};
+
+export const getLicenseImageUrl = async (path: string) => {
+  const { data, error } = await supabase.storage
+    .from(LICENSE_BUCKET)
+    .createSignedUrl(path, 60 * 10);
+
+  if (error) throw error;
+  return data.signedUrl;
+};
+
+export const reviewLicense = async (licenseId: string, status: 'approved' | 'rejected', rejectionReason?: string) => {
+  const { data, error } = await supabase
+    .from('driver_licenses')
+    .update({
+      status,
+      rejection_reason: status === 'rejected' ? rejectionReason || null : null,
+    })
+    .eq('id', licenseId)
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data as DriverLicense;
+};
+
+// Client-side mirror of check_driver_eligibility() so the booking flow can
+// explain the problem before the insert is rejected
+export const getDriverEligibility = (
+  license: DriverLicense | null,
+  dateOfBirth: string | null | undefined,
+  startDate: Date,
+  endDate: Date
+): { eligible: boolean; reason?: string } => {
+  if (!license) {
+    return { eligible: false, reason: 'Add your driver license before booking.' };
+  }
+  if (license.status === 'pending') {
+    return { eligible: false, reason: 'Your driver license is waiting for review. You can book once it is approved.' };
+  }
+  if (license.status === 'rejected') {
+    return { eligible: false, reason: `Your driver license was rejected${license.rejection_reason ? `: ${license.rejection_reason}` : ''}. Please resubmit it.` };
+  }
+
+  const expiry = new Date(`${license.expiry_date}T23:59:59`);
+  if (expiry < endDate) {
+    return { eligible: false, reason: 'Your driver license expires before the end of this rental.' };
+  }
+
+  if (!dateOfBirth) {
+    return { eligible: false, reason: 'Add your date of birth to your profile so we can confirm your age.' };
+  }
+  if (getAge(dateOfBirth, startDate) < MIN_DRIVER_AGE) {
+    return { eligible: false, reason: `Drivers must be at least ${MIN_DRIVER_AGE} years old on the pickup date.` };
+  }
+
+  return { eligible: true };
+};
@@ -0,0 +1,168 @@
+import { supabase } from './supabase';
+import { paymentProvider, detectCardBrand } from './paymentProvider';
+
+export interface PaymentMethod {
+  id: string;
+  user_id: string;
+  provider: string;
+  provider_token: string;
+  type: 'card';
+  brand: string;
+  last4: string;
+  exp_month: number;
+  exp_year: number;
+  cardholder_name: string | null;
+  is_default: boolean;
+  created_at: string;
+}
+
+export interface NewCard {
+  number: string;
+  expiry: string;
+  cvc: string;
+  name: string;
+}
+
+export const isValidLuhn = (number: string) => {
+  const digits = number.replace(/\D/g, '');
+  if (digits.length < 12 || digits.length > 19) return false;
+
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+};
+
+// Accepts MM/YY or MM/YYYY
+export const parseExpiry = (expiry: string) => {
+  const match = /^(\d{2})\s*\/\s*(\d{2}|\d{4})$/.exec(expiry.trim());
+  if (!match) return null;
+
+  const month = Number(match[1]);
+  const year = match[2].length === 2 ? 2000 + Number(match[2]) : Number(match[2]);
+  if (month < 1 || month > 12) return null;
+
+  return { month, year };
+};
+
+// Cards are valid through the last day of their expiry month
+export const isExpired = (month: number, year: number, on: Date = new Date()) => {
+  return new Date(year, month, 1) <= on;
+};
+
+export const formatCardNumber = (value: string) => {
+  return value.replace(/\D/g, '').slice(0, 19).replace(/(\d{4})(?=\d)/g, '$1 ');
+};
+
+export const formatExpiryInput = (value: string) => {
+  const digits = value.replace(/\D/g, '').slice(0, 4);
+  return digits.length > 2 ? `${digits.slice(0, 2)}/${digits.slice(2)}` : digits;
+};
+
+export const getPaymentMethodLabel = (method: Pick<PaymentMethod, 'brand' | 'last4'>) => {
+  return `${method.brand} •••• ${method.last4}`;
+};
+
+export const validateCard = (card: NewCard): string | null => {
+  if (!card.name.trim()) return 'Please enter the cardholder name';
+  if (!isValidLuhn(card.number)) return 'Please enter a valid card number';
+
+  const expiry = parseExpiry(card.expiry);
+  if (!expiry) return 'Expiry must be in the format MM/YY';
+  if (isExpired(expiry.month, expiry.year)) return 'This card has expired';
+
+  const cvcLength = detectCardBrand(card.number) === 'Amex' ? 4 : 3;
+  if (!new RegExp(`^\\d{${cvcLength}}$`).test(card.cvc)) {
+    return `Security code must be ${cvcLength} digits`;
+  }
+
+  return null;
+};
+
+export const getPaymentMethods = async (userId: string): Promise<PaymentMethod[]> => {
+  const { data, error } = await supabase
+    .from('payment_methods')
+    .select('*')
+    .eq('user_id', userId)
+    .order('is_default', { ascending: false })
+    .order('created_at', { ascending: true });
+
+  if (error) throw error;
+  return data || [];
+};
+
+export const getDefaultPaymentMethod = async (userId: string): Promise<PaymentMethod | null> => {
+  const { data, error } = await supabase
+    .from('payment_methods')
+    .select('*')
+    .eq('user_id', userId)
+    .eq('is_default', true)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data;
+};
+
+// The raw card goes to the provider only; what we store is its token
+export const addCard = async (userId: string, card: NewCard, makeDefault: boolean) => {
+  const expiry = parseExpiry(card.expiry)!;
+  const token = await paymentProvider.tokenizeCard({
+    number: card.number,
+    expMonth: expiry.month,
+    expYear: expiry.year,
+    cvc: card.cvc,
+    name: card.name.trim(),
+  });
+
+  const { data, error } = await supabase
+    .from('payment_methods')
+    .insert({
+      user_id: userId,
+      provider: paymentProvider.name,
+      provider_token: token.token,
+      brand: token.brand,
+      last4: token.last4,
+      exp_month: token.expMonth,
+      exp_year: token.expYear,
+      cardholder_name: card.name.trim(),
+    })
+    .select()
+    .single();
+
+  if (error) throw error;
+
+  if (makeDefault) {
+    await setDefaultPaymentMethod(data.id);
+    return { ...data, is_default: true } as PaymentMethod;
+  }
+  return data as PaymentMethod;
+};
+
+export const setDefaultPaymentMethod = async (methodId: string) => {
+  const { error } = await supabase.rpc('set_default_payment_method', { p_method_id: methodId });
+  if (error) throw error;
+};
+
+// Removing the default card promotes the oldest remaining card, so bookings
+// always have something to preselect
+export const deletePaymentMethod = async (method: PaymentMethod) => {
+  const { error } = await supabase
+    .from('payment_methods')
+    .delete()
+    .eq('id', method.id);
+
+  if (error) throw error;
+
+  if (method.is_default) {
+    const remaining = await getPaymentMethods(method.user_id);
+    if (remaining.length > 0) {
+      await setDefaultPaymentMethod(remaining[0].id);
+    }
+  }
+};
@@ -0,0 +1,220 @@
+// Payment provider abstraction. The app hands raw card details straight to
+// the provider's tokenizer and only ever persists the token it returns, the
+// same way a hosted SDK (Stripe Elements, Braintree Drop-in) works. Charges
+// follow the intent model: create an intent for an amount, confirm it against
+// a saved card token, and refund it later if needed. Intents created with
+// manual capture only authorise the card (a hold) until they are captured,
+// in full or in part, or cancelled.
+
+export interface CardDetails {
+  number: string;
+  expMonth: number;
+  expYear: number;
+  cvc: string;
+  name: string;
+}
+
+export interface CardToken {
+  token: string;
+  brand: string;
+  last4: string;
+  expMonth: number;
+  expYear: number;
+}
+
+export type PaymentIntentStatus =
+  | 'requires_confirmation'
+  | 'requires_capture'
+  | 'succeeded'
+  | 'failed'
+  | 'canceled';
+
+export interface PaymentIntent {
+  id: string;
+  amount: number;
+  currency: string;
+  status: PaymentIntentStatus;
+  failureCode?: string;
+  failureMessage?: string;
+}
+
+export interface Refund {
+  id: string;
+  paymentIntentId: string;
+  amount: number;
+}
+
+export interface CreateIntentParams {
+  amount: number;
+  currency: string;
+  cardToken: string;
+  reference: string;
+  captureMethod?: 'automatic' | 'manual';
+}
+
+export interface PaymentProvider {
+  name: string;
+  tokenizeCard: (card: CardDetails) => Promise<CardToken>;
+  createPaymentIntent: (params: CreateIntentParams) => Promise<PaymentIntent>;
+  confirmPaymentIntent: (intentId: string) => Promise<PaymentIntent>;
+  capturePaymentIntent: (intentId: string, amount: number) => Promise<PaymentIntent>;
+  cancelPaymentIntent: (intentId: string) => Promise<PaymentIntent>;
+  refundPayment: (intentId: string, amount?: number) => Promise<Refund>;
+}
+
+export class PaymentProviderError extends Error {
+  code: string;
+
+  constructor(message: string, code: string) {
+    super(message);
+    this.name = 'PaymentProviderError';
+    this.code = code;
+  }
+}
+
+export const detectCardBrand = (number: string) => {
+  const digits = number.replace(/\D/g, '');
+  if (/^4/.test(digits)) return 'Visa';
+  if (/^(5[1-5]|2[2-7])/.test(digits)) return 'Mastercard';
+  if (/^3[47]/.test(digits)) return 'Amex';
+  if (/^6(011|5)/.test(digits)) return 'Discover';
+  return 'Card';
+};
+
+// Card numbers the mock provider declines, mirroring Stripe's test cards
+const MOCK_DECLINED_CARDS: Record<string, string> = {
+  '4000000000000002': 'card_declined',
+  '4000000000009995': 'insufficient_funds',
+};
+
+// Saves fine but every charge against it fails
+const MOCK_CHARGE_FAILURE_CARD = '4000000000000341';
+const MOCK_FAILING_TOKEN_PREFIX = 'tok_mock_fail_';
+
+const randomId = () => Math.random().toString(36).slice(2, 12);
+
+interface MockIntent extends PaymentIntent {
+  cardToken: string;
+  captureMethod: 'automatic' | 'manual';
+  refunded: number;
+}
+
+// Intents only live in memory, so follow-up calls for one created before an
+// app restart are accepted as-is rather than rejected
+const mockIntents = new Map<string, MockIntent>();
+
+const toIntent = ({ cardToken, captureMethod, refunded, ...intent }: MockIntent): PaymentIntent => intent;
+
+// Development provider: never talks to a network and never keeps the card
+export const mockPaymentProvider: PaymentProvider = {
+  name: 'mock',
+
+  tokenizeCard: async (card) => {
+    const digits = card.number.replace(/\D/g, '');
+
+    const declineCode = MOCK_DECLINED_CARDS[digits];
+    if (declineCode) {
+      throw new PaymentProviderError('Your card was declined', declineCode);
+    }
+
+    return {
+      token: digits === MOCK_CHARGE_FAILURE_CARD
+        ? `${MOCK_FAILING_TOKEN_PREFIX}${randomId()}`
+        : `tok_mock_${randomId()}`,
+      brand: detectCardBrand(digits),
+      last4: digits.slice(-4),
+      expMonth: card.expMonth,
+      expYear: card.expYear,
+    };
+  },
+
+  createPaymentIntent: async ({ amount, currency, cardToken, captureMethod = 'automatic' }) => {
+    if (amount <= 0) {
+      throw new PaymentProviderError('Amount must be greater than zero', 'invalid_amount');
+    }
+
+    const intent: PaymentIntent = {
+      id: `pi_mock_${randomId()}`,
+      amount,
+      currency,
+      status: 'requires_confirmation',
+    };
+    mockIntents.set(intent.id, { ...intent, cardToken, captureMethod, refunded: 0 });
+    return intent;
+  },
+
+  confirmPaymentIntent: async (intentId) => {
+    const stored = mockIntents.get(intentId);
+    if (!stored) {
+      throw new PaymentProviderError('Payment not found', 'resource_missing');
+    }
+
+    if (stored.status === 'requires_confirmation') {
+      if (stored.cardToken.startsWith(MOCK_FAILING_TOKEN_PREFIX)) {
+        stored.status = 'failed';
+        stored.failureCode = 'card_declined';
+        stored.failureMessage = 'Your card was declined';
+      } else {
+        stored.status = stored.captureMethod === 'manual' ? 'requires_capture' : 'succeeded';
+      }
+    }
+
+    return toIntent(stored);
+  },
+
+  capturePaymentIntent: async (intentId, amount) => {
+    const stored = mockIntents.get(intentId);
+    if (!stored) {
+      return { id: intentId, amount, currency: 'usd', status: 'succeeded' };
+    }
+
+    if (stored.status !== 'requires_capture') {
+      throw new PaymentProviderError('This payment is not awaiting capture', 'payment_intent_unexpected_state');
+    }
+    if (amount <= 0 || amount > stored.amount) {
+      throw new PaymentProviderError('Capture amount must be within the authorised amount', 'amount_too_large');
+    }
+
+    stored.status = 'succeeded';
+    stored.amount = amount;
+    return toIntent(stored);
+  },
+
+  cancelPaymentIntent: async (intentId) => {
+    const stored = mockIntents.get(intentId);
+    if (!stored) {
+      return { id: intentId, amount: 0, currency: 'usd', status: 'canceled' };
+    }
+
+    if (stored.status === 'succeeded') {
+      throw new PaymentProviderError('Captured payments must be refunded instead', 'payment_intent_unexpected_state');
+    }
+
+    stored.status = 'canceled';
+    return toIntent(stored);
+  },
+
+  refundPayment: async (intentId, amount) => {
+    const stored = mockIntents.get(intentId);
+
+    if (stored) {
+      if (stored.status !== 'succeeded') {
+        throw new PaymentProviderError('Only successful payments can be refunded', 'charge_not_refundable');
+      }
+      const refundable = stored.amount - stored.refunded;
+      const refundAmount = amount ?? refundable;
+      if (refundAmount > refundable) {
+        throw new PaymentProviderError('Refund exceeds the amount charged', 'amount_too_large');
+      }
+      stored.refunded += refundAmount;
+      return { id: `re_mock_${randomId()}`, paymentIntentId: intentId, amount: refundAmount };
+    }
+
+    return { id: `re_mock_${randomId()}`, paymentIntentId: intentId, amount: amount ?? 0 };
+  },
+};
+
+// Development only. The database records the outcomes the app reports (see
+// 20261018240000_mock_checkout.sql); a real provider needs its webhook to
+// confirm payments server-side instead.
+export const paymentProvider: PaymentProvider = mockPaymentProvider;
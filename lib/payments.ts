@@ -0,0 +1,154 @@
+import { supabase } from './supabase';
+import { paymentProvider, PaymentProviderError } from './paymentProvider';
+
+export const PAYMENT_CURRENCY = 'usd';
+
+export interface PayableBooking {
+  id: string;
+  total_price: number;
+  payment_method_id: string | null;
+  payment_status: string;
+  payment_intent_id: string | null;
+  amount_charged: number;
+  refunded_amount: number;
+}
+
+export interface PaymentResult {
+  succeeded: boolean;
+  booking: PayableBooking;
+  message?: string;
+}
+
+// Provider amounts are in the smallest currency unit
+export const toMinorUnits = (amount: number) => Math.round(amount * 100);
+
+export const roundMoney = (amount: number) => Math.round(amount * 100) / 100;
+
+// Payment columns can only be written through these database functions, which
+// check the amounts against the booking
+const recordPayment = async (bookingId: string, intentId: string, succeeded: boolean) => {
+  const { data, error } = await supabase.rpc('record_booking_payment', {
+    p_booking_id: bookingId,
+    p_intent_id: intentId,
+    p_succeeded: succeeded,
+  });
+
+  if (error) throw error;
+  return data as PayableBooking;
+};
+
+const recordRefund = async (bookingId: string, amount: number) => {
+  const { data, error } = await supabase.rpc('record_booking_refund', {
+    p_booking_id: bookingId,
+    p_amount: amount,
+  });
+
+  if (error) throw error;
+  return data;
+};
+
+const toProviderToken = (card: { provider: string; provider_token: string }) => {
+  if (card.provider !== paymentProvider.name) {
+    throw new Error('This card was saved with a different payment provider. Please add it again.');
+  }
+  return card.provider_token;
+};
+
+export const getCardToken = async (paymentMethodId: string) => {
+  const { data, error } = await supabase
+    .from('payment_methods')
+    .select('provider, provider_token')
+    .eq('id', paymentMethodId)
+    .single();
+
+  if (error) throw error;
+  return toProviderToken(data);
+};
+
+// Staff cannot read a customer's saved cards, only the one attached to a
+// booking they are handling
+export const getBookingCardToken = async (bookingId: string) => {
+  const { data, error } = await supabase
+    .rpc('get_booking_card_token', { p_booking_id: bookingId })
+    .single();
+
+  if (error) throw error;
+  return toProviderToken(data as { provider: string; provider_token: string });
+};
+
+export interface ChargeResult {
+  succeeded: boolean;
+  intentId: string;
+  message?: string;
+}
+
+const chargeToken = async (cardToken: string, amount: number, reference: string): Promise<ChargeResult> => {
+  const intent = await paymentProvider.createPaymentIntent({
+    amount: toMinorUnits(amount),
+    currency: PAYMENT_CURRENCY,
+    cardToken,
+    reference,
+  });
+
+  let confirmed;
+  try {
+    confirmed = await paymentProvider.confirmPaymentIntent(intent.id);
+  } catch (error) {
+    if (!(error instanceof PaymentProviderError)) throw error;
+    confirmed = { ...intent, status: 'failed' as const, failureMessage: error.message };
+  }
+
+  const succeeded = confirmed.status === 'succeeded';
+  return {
+    succeeded,
+    intentId: intent.id,
+    message: succeeded ? undefined : confirmed.failureMessage || 'Your payment could not be completed',
+  };
+};
+
+// One-off charge against a saved card. Declines come back as a result rather
+// than an error so callers can offer another card.
+export const chargeCard = async (paymentMethodId: string, amount: number, reference: string) => {
+  return chargeToken(await getCardToken(paymentMethodId), amount, reference);
+};
+
+// The same, for staff charging the card attached to a customer's booking
+export const chargeBookingCard = async (bookingId: string, amount: number, reference: string) => {
+  return chargeToken(await getBookingCardToken(bookingId), amount, reference);
+};
+
+export const refundCharge = async (intentId: string, amount: number) => {
+  return paymentProvider.refundPayment(intentId, toMinorUnits(amount));
+};
+
+// Charges the booking total to the booking's saved card
+export const chargeBooking = async (booking: PayableBooking): Promise<PaymentResult> => {
+  if (booking.payment_status === 'completed') {
+    return { succeeded: true, booking };
+  }
+  if (!booking.payment_method_id) {
+    throw new Error('No payment method on this booking');
+  }
+
+  const charge = await chargeCard(booking.payment_method_id, booking.total_price, booking.id);
+  const updated = await recordPayment(booking.id, charge.intentId, charge.succeeded);
+
+  return { succeeded: charge.succeeded, booking: updated, message: charge.message };
+};
+
+// Refunds what is left of the charge, or a smaller amount when a fee is kept
+// back. Bookings that were never paid are left alone.
+export const refundBooking = async (booking: PayableBooking, amount?: number) => {
+  if (booking.payment_status !== 'completed' || !booking.payment_intent_id) {
+    return booking;
+  }
+
+  const refundable = roundMoney(booking.amount_charged - booking.refunded_amount);
+  const refund = Math.max(0, roundMoney(Math.min(amount ?? refundable, refundable)));
+
+  if (refund > 0) {
+    await refundCharge(booking.payment_intent_id, refund);
+  }
+
+  return recordRefund(booking.id, refund);
+};
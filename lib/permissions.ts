@@ -0,0 +1,35 @@
+export type Role = 'customer' | 'staff' | 'fleet_manager' | 'admin';
+
+export type Permission =
+  | 'access_admin'
+  | 'manage_bookings'
+  | 'manage_vehicles'
+  | 'manage_users'
+  | 'manage_pricing'
+  | 'verify_licenses';
+
+export const ROLES: Role[] = ['customer', 'staff', 'fleet_manager', 'admin'];
+
+export const ROLE_LABELS: Record<Role, string> = {
+  customer: 'Customer',
+  staff: 'Staff',
+  fleet_manager: 'Fleet Manager',
+  admin: 'Admin',
+};
+
+// Mirrors the role_permissions table, which RLS enforces server-side
+const ROLE_PERMISSIONS: Record<Role, Permission[]> = {
+  customer: [],
+  staff: ['access_admin', 'manage_bookings', 'verify_licenses'],
+  fleet_manager: ['access_admin', 'manage_bookings', 'manage_vehicles', 'manage_pricing', 'verify_licenses'],
+  admin: ['access_admin', 'manage_bookings', 'manage_vehicles', 'manage_users', 'manage_pricing', 'verify_licenses'],
+};
+
+export const hasPermission = (
+  subject: { role: Role } | Role | null | undefined,
+  permission: Permission
+) => {
+  if (!subject) return false;
+  const role = typeof subject === 'string' ? subject : subject.role;
+  return ROLE_PERMISSIONS[role]?.includes(permission) ?? false;
+};
@@ -0,0 +1,242 @@
+// Pricing engine. Pure functions only, so the booking screen and the
+// reschedule screen produce the same quote from the same inputs.
+// calculate_booking_quote() in the database mirrors calculateQuote() and has
+// the final say on what a booking costs; keep the two in step.
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Mirrors the CHECK constraint on pricing_rules.type
+export const PRICING_RULE_TYPES = [
+  'weekend',
+  'holiday',
+  'seasonal',
+  'surge',
+  'duration_discount',
+  'tax',
+  'fee',
+] as const;
+
+export type PricingRuleType = typeof PRICING_RULE_TYPES[number];
+
+export const PRICING_RULE_TYPE_LABELS: Record<PricingRuleType, string> = {
+  weekend: 'Weekend',
+  holiday: 'Holiday',
+  seasonal: 'Seasonal',
+  surge: 'High demand',
+  duration_discount: 'Long rental discount',
+  tax: 'Tax',
+  fee: 'Fee',
+};
+
+export interface PricingRule {
+  id: string;
+  name: string;
+  type: PricingRuleType;
+  value: number;
+  start_date: string | null;
+  end_date: string | null;
+  min_days: number | null;
+  min_utilization: number | null;
+  vehicle_type: string | null;
+  per_day: boolean;
+  active: boolean;
+}
+
+export interface QuoteLine {
+  label: string;
+  amount: number;
+}
+
+// Stored on bookings.price_quote, so keep it plain JSON
+export interface PriceQuote {
+  days: number;
+  dailyRate: number;
+  base: number;
+  adjustments: QuoteLine[];
+  discounts: QuoteLine[];
+  subtotal: number;
+  fees: QuoteLine[];
+  taxes: QuoteLine[];
+  total: number;
+}
+
+export interface QuoteInput {
+  pricePerDay: number;
+  vehicleType: string;
+  start: Date;
+  end: Date;
+  rules: PricingRule[];
+  // Share of the fleet already booked over the period, 0-1
+  utilization?: number;
+  // Protection plan chosen at checkout, charged per day alongside fees
+  protection?: { name: string; dailyPrice: number } | null;
+  extras?: QuoteExtra[];
+}
+
+export interface QuoteExtra {
+  name: string;
+  quantity: number;
+  unitPrice: number;
+  perDay: boolean;
+}
+
+const roundMoney = (amount: number) => Math.round(amount * 100) / 100;
+
+// The database reprices every booking with exact decimals, so its total can
+// drift a cent from this one
+export const isSamePrice = (a: number, b: number) => roundMoney(Math.abs(a - b)) <= 0.01;
+
+const sumLines = (lines: QuoteLine[]) => roundMoney(lines.reduce((sum, line) => sum + line.amount, 0));
+
+export const getRentalDays = (start: Date, end: Date) => {
+  return Math.max(1, Math.ceil((end.getTime() - start.getTime()) / DAY_MS));
+};
+
+// Local calendar day as YYYY-MM-DD, comparable with the rule date columns
+const toDateKey = (date: Date) => {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+};
+
+const isWeekend = (date: Date) => date.getDay() === 0 || date.getDay() === 6;
+
+const coversDay = (rule: PricingRule, dateKey: string) => {
+  return !!rule.start_date && !!rule.end_date && rule.start_date <= dateKey && dateKey <= rule.end_date;
+};
+
+const appliesTo = (rule: PricingRule, vehicleType: string) => {
+  return rule.active && (!rule.vehicle_type || rule.vehicle_type === vehicleType);
+};
+
+const formatPercent = (value: number) => `${Math.round(value * 100) / 100}%`;
+
+const formatMultiplier = (value: number) => formatPercent((value - 1) * 100);
+
+export const describePricingRule = (rule: PricingRule) => {
+  switch (rule.type) {
+    case 'weekend':
+      return `+${formatMultiplier(rule.value)} on Saturdays and Sundays`;
+    case 'holiday':
+    case 'seasonal':
+      return `+${formatMultiplier(rule.value)} from ${rule.start_date} to ${rule.end_date}`;
+    case 'surge':
+      return `+${formatMultiplier(rule.value)} when ${Math.round((rule.min_utilization || 0) * 100)}% of the fleet is booked`;
+    case 'duration_discount':
+      return `${formatPercent(rule.value)} off rentals of ${rule.min_days}+ days`;
+    case 'tax':
+      return `${formatPercent(rule.value)} of the rental and fees`;
+    case 'fee':
+      return `$${rule.value.toFixed(2)} ${rule.per_day ? 'per day' : 'per rental'}`;
+  }
+};
+
+// Day-by-day uplifts. Weekend and holiday rates do not stack, the higher one
+// wins; a seasonal rate is added on top of either.
+const getDailyAdjustments = (input: QuoteInput, days: number, rules: PricingRule[]) => {
+  const totals = new Map<string, QuoteLine & { days: number }>();
+
+  const add = (rule: PricingRule) => {
+    const entry = totals.get(rule.id) || { label: rule.name, amount: 0, days: 0 };
+    entry.amount += input.pricePerDay * (rule.value - 1);
+    entry.days += 1;
+    totals.set(rule.id, entry);
+  };
+
+  for (let i = 0; i < days; i++) {
+    const date = new Date(input.start.getTime() + i * DAY_MS);
+    const dateKey = toDateKey(date);
+
+    const peak = rules
+      .filter(rule =>
+        (rule.type === 'weekend' && isWeekend(date)) ||
+        (rule.type === 'holiday' && coversDay(rule, dateKey))
+      )
+      .sort((a, b) => b.value - a.value)[0];
+    if (peak) add(peak);
+
+    const season = rules
+      .filter(rule => rule.type === 'seasonal' && coversDay(rule, dateKey))
+      .sort((a, b) => b.value - a.value)[0];
+    if (season) add(season);
+  }
+
+  return Array.from(totals.values())
+    .map(({ label, amount, days: count }) => ({
+      label: `${label} (${count} day${count !== 1 ? 's' : ''})`,
+      amount: roundMoney(amount),
+    }))
+    .filter(line => line.amount !== 0);
+};
+
+export const calculateQuote = (input: QuoteInput): PriceQuote => {
+  const days = getRentalDays(input.start, input.end);
+  const rules = input.rules.filter(rule => appliesTo(rule, input.vehicleType));
+  const base = roundMoney(input.pricePerDay * days);
+
+  const adjustments = getDailyAdjustments(input, days, rules);
+
+  const utilization = input.utilization ?? 0;
+  const surge = rules
+    .filter(rule => rule.type === 'surge' && utilization >= (rule.min_utilization ?? 1))
+    .sort((a, b) => b.value - a.value)[0];
+  if (surge) {
+    adjustments.push({ label: surge.name, amount: roundMoney(base * (surge.value - 1)) });
+  }
+
+  const rental = roundMoney(base + sumLines(adjustments));
+
+  // Only the best long-rental discount applies
+  const discount = rules
+    .filter(rule => rule.type === 'duration_discount' && days >= (rule.min_days ?? Infinity))
+    .sort((a, b) => b.value - a.value)[0];
+  const discounts = discount
+    ? [{ label: `${discount.name} (${formatPercent(discount.value)})`, amount: roundMoney(rental * discount.value / 100) }]
+    : [];
+
+  const subtotal = roundMoney(rental - sumLines(discounts));
+
+  const fees = rules
+    .filter(rule => rule.type === 'fee')
+    .map(rule => ({
+      label: rule.per_day ? `${rule.name} ($${rule.value.toFixed(2)} × ${days})` : rule.name,
+      amount: roundMoney(rule.per_day ? rule.value * days : rule.value),
+    }));
+
+  if (input.protection && input.protection.dailyPrice > 0) {
+    fees.unshift({
+      label: `${input.protection.name} ($${input.protection.dailyPrice.toFixed(2)} × ${days})`,
+      amount: roundMoney(input.protection.dailyPrice * days),
+    });
+  }
+
+  for (const extra of input.extras || []) {
+    const units = extra.quantity > 1 ? ` × ${extra.quantity}` : '';
+    fees.push({
+      label: extra.perDay
+        ? `${extra.name}${units} ($${extra.unitPrice.toFixed(2)} × ${days} day${days !== 1 ? 's' : ''})`
+        : `${extra.name}${units}`,
+      amount: roundMoney(extra.unitPrice * extra.quantity * (extra.perDay ? days : 1)),
+    });
+  }
+
+  const taxable = roundMoney(subtotal + sumLines(fees));
+  const taxes = rules
+    .filter(rule => rule.type === 'tax')
+    .map(rule => ({
+      label: `${rule.name} (${formatPercent(rule.value)})`,
+      amount: roundMoney(taxable * rule.value / 100),
+    }));
+
+  return {
+    days,
+    dailyRate: input.pricePerDay,
+    base,
+    adjustments,
+    discounts,
+    subtotal,
+    fees,
+    taxes,
+    total: roundMoney(taxable + sumLines(taxes)),
+  };
+};
@@ -0,0 +1,54 @@
+import { supabase } from './supabase';
+import { PricingRule } from './pricing';
+
+export type PricingRuleInput = Omit<PricingRule, 'id'>;
+
+// RLS hides inactive rules from everyone but pricing managers, so customers
+// get exactly the rules that apply to them
+export const getPricingRules = async (): Promise<PricingRule[]> => {
+  const { data, error } = await supabase
+    .from('pricing_rules')
+    .select('id, name, type, value, start_date, end_date, min_days, min_utilization, vehicle_type, per_day, active')
+    .order('type', { ascending: true })
+    .order('name', { ascending: true });
+
+  if (error) throw error;
+  return data || [];
+};
+
+// A booking being repriced is left out so it does not raise its own surge
+export const getFleetUtilization = async (start: Date, end: Date, excludeBookingId?: string): Promise<number> => {
+  const { data, error } = await supabase.rpc('get_fleet_utilization', {
+    p_start: start.toISOString(),
+    p_end: end.toISOString(),
+    p_exclude_booking: excludeBookingId || null,
+  });
+
+  if (error) throw error;
+  return Number(data) || 0;
+};
+
+export const savePricingRule = async (rule: PricingRuleInput, id?: string) => {
+  const query = id
+    ? supabase
+        .from('pricing_rules')
+        .update({ ...rule, updated_at: new Date().toISOString() })
+        .eq('id', id)
+    : supabase
+        .from('pricing_rules')
+        .insert(rule);
+
+  const { data, error } = await query.select().single();
+
+  if (error) throw error;
+  return data as PricingRule;
+};
+
+export const deletePricingRule = async (id: string) => {
+  const { error } = await supabase
+    .from('pricing_rules')
+    .delete()
+    .eq('id', id);
+
+  if (error) throw error;
+};
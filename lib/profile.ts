@@ -0,0 +1,63 @@
+import { supabase } from './supabase';
+import { uploadImage } from './uploads';
+
+export const AVATAR_BUCKET = 'avatars';
+export const MIN_PROFILE_AGE = 18;
+
+export interface ProfileUpdate {
+  full_name: string;
+  phone: string | null;
+  date_of_birth: string | null;
+  avatar_url?: string | null;
+}
+
+// Accepts the common ways people type numbers: spaces, dashes, dots,
+// parentheses and an optional leading +, with 7 to 15 digits (E.164 max)
+export const isValidPhone = (phone: string) => {
+  if (!/^\+?[\d\s().-]+$/.test(phone)) return false;
+  const digits = phone.replace(/\D/g, '');
+  return digits.length >= 7 && digits.length <= 15;
+};
+
+// Parses YYYY-MM-DD strictly so "2000-02-31" doesn't roll over into March
+export const parseDateInput = (value: string) => {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value.trim());
+  if (!match) return null;
+
+  const [, year, month, day] = match.map(Number);
+  const date = new Date(year, month - 1, day);
+  if (date.getFullYear() !== year || date.getMonth() !== month - 1 || date.getDate() !== day) {
+    return null;
+  }
+  return date;
+};
+
+export const getAge = (dateOfBirth: string | Date, on: Date = new Date()) => {
+  const dob = typeof dateOfBirth === 'string'
+    ? parseDateInput(dateOfBirth) || new Date(dateOfBirth)
+    : dateOfBirth;
+  let age = on.getFullYear() - dob.getFullYear();
+  const beforeBirthday =
+    on.getMonth() < dob.getMonth() ||
+    (on.getMonth() === dob.getMonth() && on.getDate() < dob.getDate());
+  if (beforeBirthday) age--;
+  return age;
+};
+
+export const uploadAvatar = async (userId: string, base64: string, mimeType?: string) => {
+  const path = await uploadImage(AVATAR_BUCKET, userId, base64, mimeType);
+  const { data } = supabase.storage.from(AVATAR_BUCKET).getPublicUrl(path);
+  return data.publicUrl;
+};
+
+export const updateProfile = async (userId: string, updates: ProfileUpdate) => {
+  const { data, error } = await supabase
+    .from('profiles')
+    .update({ ...updates, updated_at: new Date().toISOString() })
+    .eq('id', userId)
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data;
+};
@@ -0,0 +1,45 @@
+import { supabase } from './supabase';
+
+export interface ProtectionPlan {
+  id: string;
+  code: string;
+  name: string;
+  description: string | null;
+  daily_price: number;
+  deductible: number;
+}
+
+// The cover included with every rental, preselected at checkout
+export const INCLUDED_PROTECTION_CODE = 'basic';
+
+export const getProtectionPlans = async (): Promise<ProtectionPlan[]> => {
+  const { data, error } = await supabase
+    .from('protection_plans')
+    .select('id, code, name, description, daily_price, deductible')
+    .eq('active', true)
+    .order('sort_order', { ascending: true });
+
+  if (error) throw error;
+  return data || [];
+};
+
+// Falls back to the cheapest plan if the included one has been retired
+export const getDefaultProtectionPlan = (plans: ProtectionPlan[]) => {
+  return plans.find(plan => plan.code === INCLUDED_PROTECTION_CODE)
+    || plans.reduce<ProtectionPlan | null>(
+      (cheapest, plan) => (!cheapest || plan.daily_price < cheapest.daily_price ? plan : cheapest),
+      null
+    );
+};
+
+// What the renter owes for damage under their plan. Bookings without a plan
+// carry no deductible and pay the full repair cost.
+export const getDamageLiability = (damageCharge: number, deductible: number | null) => {
+  if (damageCharge <= 0) return 0;
+  return deductible == null ? damageCharge : Math.min(damageCharge, deductible);
+};
+
+export const formatDeductible = (deductible: number | null) => {
+  if (deductible == null) return 'Full repair cost';
+  return deductible === 0 ? 'No deductible' : `$${deductible.toLocaleString()} deductible`;
+};
@@ -0,0 +1,245 @@
+import { supabase } from './supabase';
+import { chargeBookingCard, roundMoney } from './payments';
+import { DepositBooking, DepositTransaction, calculateDepositCapture, settleDeposit } from './deposits';
+import { getDamageLiability } from './protection';
+
+// Mirrors the CHECK constraint on bookings.settlement_status
+export const SETTLEMENT_STATUSES = ['none', 'settling', 'settled', 'charged', 'failed'] as const;
+
+export type SettlementStatus = typeof SETTLEMENT_STATUSES[number];
+export type SettlementItemType = 'late' | 'fuel' | 'mileage' | 'damage';
+
+export const SETTLEMENT_STATUS_LABELS: Record<SettlementStatus, string> = {
+  none: 'Not settled',
+  settling: 'Settling',
+  settled: 'Settled',
+  charged: 'Charged to card',
+  failed: 'Card charge failed',
+};
+
+export interface ChargeRates {
+  late_grace_minutes: number;
+  late_fee_per_hour: number;
+  fuel_per_percent: number;
+  refuel_service_fee: number;
+  included_miles_per_day: number;
+  per_excess_mile: number;
+}
+
+export interface SettlementItem {
+  type: SettlementItemType;
+  label: string;
+  amount: number;
+}
+
+// Stored on bookings.settlement
+export interface RentalSettlement {
+  items: SettlementItem[];
+  total: number;
+  fromDeposit: number;
+  toCard: number;
+}
+
+export interface ReturnCondition {
+  endDate: Date;
+  actualDropoff: Date;
+  dailyRate: number;
+  rentalDays: number;
+  fuelLevelPickup: number | null;
+  fuelLevelDropoff: number | null;
+  mileageStart: number | null;
+  mileageEnd: number | null;
+  damageCharge: number;
+  // From the booking's protection plan; null when the renter has no cover
+  damageDeductible: number | null;
+}
+
+export interface SettlementBooking extends DepositBooking {
+  settlement: RentalSettlement | null;
+  settlement_status: SettlementStatus;
+}
+
+export interface RevenueBooking {
+  amount_charged: number;
+  refunded_amount: number;
+  settlement_charged: number;
+  deposit_transactions: Pick<DepositTransaction, 'type' | 'amount'>[];
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export const getChargeRates = async (): Promise<ChargeRates> => {
+  const { data, error } = await supabase
+    .from('rental_charge_rates')
+    .select('late_grace_minutes, late_fee_per_hour, fuel_per_percent, refuel_service_fee, included_miles_per_day, per_excess_mile')
+    .single();
+
+  if (error) throw error;
+  return data;
+};
+
+export const saveChargeRates = async (rates: ChargeRates) => {
+  const { data, error } = await supabase
+    .from('rental_charge_rates')
+    .update({ ...rates, updated_at: new Date().toISOString() })
+    .eq('id', true)
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data as ChargeRates;
+};
+
+// Hours late are charged by the hour once the grace period is over, but each
+// day late never costs more than a day's rental
+const calculateLateFee = (condition: ReturnCondition, rates: ChargeRates) => {
+  const lateMs = condition.actualDropoff.getTime() - condition.endDate.getTime();
+  if (lateMs <= rates.late_grace_minutes * 60 * 1000) {
+    return { hours: 0, amount: 0 };
+  }
+
+  const hours = Math.ceil(lateMs / HOUR_MS);
+  const dayCap = condition.dailyRate > 0 ? condition.dailyRate : Infinity;
+  const amount = Math.floor(hours / 24) * Math.min(24 * rates.late_fee_per_hour, dayCap)
+    + Math.min((hours % 24) * rates.late_fee_per_hour, dayCap);
+
+  return { hours, amount: roundMoney(amount) };
+};
+
+export const calculateSettlementItems = (condition: ReturnCondition, rates: ChargeRates) => {
+  const items: SettlementItem[] = [];
+
+  const late = calculateLateFee(condition, rates);
+  if (late.amount > 0) {
+    items.push({
+      type: 'late',
+      label: `Late return (${late.hours} ${late.hours === 1 ? 'hour' : 'hours'})`,
+      amount: late.amount,
+    });
+  }
+
+  if (condition.fuelLevelPickup != null && condition.fuelLevelDropoff != null) {
+    const shortfall = condition.fuelLevelPickup - condition.fuelLevelDropoff;
+    if (shortfall > 0) {
+      items.push({
+        type: 'fuel',
+        label: `Refuelling (${shortfall}% below pickup)`,
+        amount: roundMoney(shortfall * rates.fuel_per_percent + rates.refuel_service_fee),
+      });
+    }
+  }
+
+  if (condition.mileageStart != null && condition.mileageEnd != null) {
+    const allowance = condition.rentalDays * rates.included_miles_per_day;
+    const excess = condition.mileageEnd - condition.mileageStart - allowance;
+    if (excess > 0) {
+      items.push({
+        type: 'mileage',
+        label: `Mileage (${excess} mi over ${allowance} mi allowance)`,
+        amount: roundMoney(excess * rates.per_excess_mile),
+      });
+    }
+  }
+
+  const liability = getDamageLiability(condition.damageCharge, condition.damageDeductible);
+  if (liability > 0) {
+    items.push({
+      type: 'damage',
+      label: liability < condition.damageCharge ? `Damage (capped at $${liability.toFixed(2)} deductible)` : 'Damage',
+      amount: roundMoney(liability),
+    });
+  }
+
+  return items;
+};
+
+// Charges come out of the held deposit first; the card pays the rest
+export const calculateSettlement = (
+  booking: Pick<DepositBooking, 'deposit_amount' | 'deposit_status'>,
+  items: SettlementItem[]
+): RentalSettlement => {
+  const total = roundMoney(items.reduce((sum, item) => sum + item.amount, 0));
+  const deposit = booking.deposit_status === 'held' ? booking.deposit_amount : 0;
+  const { capture, uncovered } = calculateDepositCapture(deposit, total);
+
+  return { items, total, fromDeposit: capture, toCard: uncovered };
+};
+
+const setSettlementState = async (
+  bookingId: string,
+  updates: {
+    settlement?: RentalSettlement;
+    settlement_status: SettlementStatus;
+    settlement_intent_id?: string;
+    settlement_charged?: number;
+  }
+) => {
+  const { data, error } = await supabase
+    .from('bookings')
+    .update({ ...updates, updated_at: new Date().toISOString() })
+    .eq('id', bookingId)
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data;
+};
+
+const chargeBalance = async (booking: DepositBooking, settlement: RentalSettlement) => {
+  if (!booking.payment_method_id) {
+    return setSettlementState(booking.id, { settlement, settlement_status: 'failed' });
+  }
+
+  const charge = await chargeBookingCard(booking.id, settlement.toCard, `${booking.id}:settlement`);
+  return setSettlementState(booking.id, {
+    settlement,
+    settlement_status: charge.succeeded ? 'charged' : 'failed',
+    settlement_intent_id: charge.intentId,
+    settlement_charged: charge.succeeded ? settlement.toCard : 0,
+  });
+};
+
+// Captures what the deposit covers, charges any balance to the booking's card
+// and records the itemised settlement. A declined card leaves the settlement
+// 'failed' so staff can retry the charge.
+// The breakdown is saved as 'settling' before any money moves. A retry after
+// a failure part-way reuses it and only does what is left: the deposit is
+// only settled while it is still held. Finished settlements are returned as
+// they are, so retrying a return never charges twice.
+export const settleRental = async (booking: SettlementBooking, settlement: RentalSettlement) => {
+  const current: SettlementBooking = booking.settlement_status === 'none'
+    ? await setSettlementState(booking.id, { settlement, settlement_status: 'settling' })
+    : booking;
+
+  if (current.settlement_status !== 'settling' || !current.settlement) {
+    return current;
+  }
+
+  const saved = current.settlement;
+  const reason = saved.items.map(item => `${item.label}: $${item.amount.toFixed(2)}`).join('; ');
+  const settled = await settleDeposit(current, saved.fromDeposit, reason || 'No charges');
+
+  if (saved.toCard <= 0) {
+    return setSettlementState(booking.id, { settlement: saved, settlement_status: 'settled' });
+  }
+  return chargeBalance(settled, saved);
+};
+
+export const retrySettlementCharge = async (booking: SettlementBooking) => {
+  if (booking.settlement_status !== 'failed' || !booking.settlement) {
+    return booking;
+  }
+  return chargeBalance(booking, booking.settlement);
+};
+
+// Money kept from a booking: the rental charge after refunds, plus return
+// charges taken from the deposit or charged to the card
+export const getBookingRevenue = (booking: RevenueBooking) => {
+  const captured = (booking.deposit_transactions || [])
+    .filter(transaction => transaction.type === 'capture')
+    .reduce((sum, transaction) => sum + transaction.amount, 0);
+
+  return roundMoney(
+    (booking.amount_charged || 0) - (booking.refunded_amount || 0) + (booking.settlement_charged || 0) + captured
+  );
+};
@@ -1,12 +1,26 @@
 import { createClient } from '@supabase/supabase-js';
+import { authStorage } from './authStorage';
 
-const supabaseUrl = process.env.EXPO_PUBLIC_SUPABASE_URL!;
-const supabaseAnonKey = process.env.EXPO_PUBLIC_SUPABASE_ANON_KEY!;
+const requireEnv = (name: string, value: string | undefined) => {
+  if (!value) {
+    throw new Error(`Missing ${name}. Add it to your .env file and restart the dev server.`);
+  }
+  return value;
+};
+
+// Expo only inlines EXPO_PUBLIC_ variables accessed by their full static name
+const supabaseUrl = requireEnv('EXPO_PUBLIC_SUPABASE_URL', process.env.EXPO_PUBLIC_SUPABASE_URL);
+const supabaseAnonKey = requireEnv('EXPO_PUBLIC_SUPABASE_ANON_KEY', process.env.EXPO_PUBLIC_SUPABASE_ANON_KEY);
+
+if (!/^https?:\/\/\S+$/.test(supabaseUrl)) {
+  throw new Error(`EXPO_PUBLIC_SUPABASE_URL is not a valid URL: ${supabaseUrl}`);
+}
 
 export const supabase = createClient(supabaseUrl, supabaseAnonKey, {
   auth: {
+    storage: authStorage,
     autoRefreshToken: true,
     persistSession: true,
     detectSessionInUrl: false,
   },
-});
\ No newline at end of file
+});
@@ -0,0 +1,37 @@
+import { supabase } from './supabase';
+
+const decodeBase64 = (base64: string) => {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+};
+
+// Image picker assets are uploaded from their base64 payload because fetching
+// a local file:// URI into a Blob is unreliable across platforms. Each upload
+// gets a fresh file name so CDN and Image caches never serve a stale copy.
+export const uploadImage = async (
+  bucket: string,
+  folder: string,
+  base64: string,
+  mimeType = 'image/jpeg'
+) => {
+  const extension = mimeType.split('/')[1] || 'jpg';
+  const path = `${folder}/${Date.now()}-${Math.random().toString(36).slice(2, 8)}.${extension}`;
+
+  const { error } = await supabase.storage
+    .from(bucket)
+    .upload(path, decodeBase64(base64), { contentType: mimeType });
+
+  if (error) throw error;
+  return path;
+};
+
+export const removeFolder = async (bucket: string, folder: string) => {
+  const { data: files } = await supabase.storage.from(bucket).list(folder);
+  if (files?.length) {
+    await supabase.storage.from(bucket).remove(files.map(file => `${folder}/${file.name}`));
+  }
+};
@@ -0,0 +1,26 @@
+/*
+  # Prevent overlapping bookings
+
+  1. Extensions
+    - Enable btree_gist so uuid equality can be combined with range overlap in one index
+
+  2. Constraints
+    - Add `bookings_no_overlap` exclusion constraint on bookings
+    - Two bookings for the same vehicle_id may not have overlapping
+      [start_date, end_date) ranges while either is pending, confirmed or active
+    - Cancelled and completed bookings never block new reservations
+
+  3. Notes
+    - Violations raise SQLSTATE 23P01 (exclusion_violation), which the app
+      surfaces as a "dates unavailable" error
+*/
+
+CREATE EXTENSION IF NOT EXISTS btree_gist;
+
+ALTER TABLE bookings
+  ADD CONSTRAINT bookings_no_overlap
+  EXCLUDE USING gist (
+    vehicle_id WITH =,
+    tstzrange(start_date, end_date, '[)') WITH &&
+  )
+  WHERE (status IN ('pending', 'confirmed', 'active'));
@@ -0,0 +1,57 @@
+/*
+  # Vehicle availability queries
+
+  1. Functions
+    - `get_vehicle_booked_ranges(p_vehicle_id, p_from, p_to)` returns the
+      start/end of every pending, confirmed or active booking for one vehicle
+      that overlaps the window. Only the date ranges are exposed, never who
+      booked them.
+    - `get_available_vehicles(p_start, p_end)` returns every available vehicle
+      with no pending, confirmed or active booking overlapping the range.
+
+  2. Security
+    - Both functions are SECURITY DEFINER because bookings RLS only lets users
+      see their own rows, and availability has to consider everyone's bookings
+    - Execution is granted to authenticated users only
+
+  3. Notes
+    - Both filters use the existing idx_bookings_dates and idx_bookings_vehicle_id indexes
+*/
+
+CREATE OR REPLACE FUNCTION get_vehicle_booked_ranges(
+  p_vehicle_id uuid,
+  p_from timestamptz,
+  p_to timestamptz
+)
+RETURNS TABLE (start_date timestamptz, end_date timestamptz) AS $$
+  SELECT b.start_date, b.end_date
+  FROM bookings b
+  WHERE b.vehicle_id = p_vehicle_id
+    AND b.status IN ('pending', 'confirmed', 'active')
+    AND b.start_date < p_to
+    AND b.end_date > p_from
+  ORDER BY b.start_date;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION get_available_vehicles(
+  p_start timestamptz,
+  p_end timestamptz
+)
+RETURNS SETOF vehicles AS $$
+  SELECT v.*
+  FROM vehicles v
+  WHERE v.available = true
+    AND NOT EXISTS (
+      SELECT 1 FROM bookings b
+      WHERE b.vehicle_id = v.id
+        AND b.status IN ('pending', 'confirmed', 'active')
+        AND b.start_date < p_end
+        AND b.end_date > p_start
+    )
+  ORDER BY v.rating DESC;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION get_vehicle_booked_ranges(uuid, timestamptz, timestamptz) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION get_available_vehicles(timestamptz, timestamptz) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION get_vehicle_booked_ranges(uuid, timestamptz, timestamptz) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_available_vehicles(timestamptz, timestamptz) TO authenticated;
@@ -0,0 +1,72 @@
+/*
+  # Admin user management
+
+  1. Functions
+    - `is_admin()` checks the caller's profile without going through RLS, so
+      policies on profiles can use it without recursing into themselves
+    - `protect_admin_flag()` trigger function rejects any change to
+      profiles.is_admin made by a non-admin, and stops admins from removing
+      their own access
+
+  2. Security
+    - Replace the self-referencing "Admins can read all profiles" policy with
+      one based on is_admin()
+    - Add "Admins can update all profiles" so admins can grant or revoke access
+    - "Users can update own profile" stays, but the trigger now blocks users
+      from setting is_admin on their own row
+*/
+
+CREATE OR REPLACE FUNCTION is_admin()
+RETURNS boolean AS $$
+  SELECT COALESCE(
+    (SELECT is_admin FROM profiles WHERE id = auth.uid()),
+    false
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+DROP POLICY IF EXISTS "Admins can read all profiles" ON profiles;
+
+CREATE POLICY "Admins can read all profiles" ON profiles
+  FOR SELECT TO authenticated
+  USING (is_admin());
+
+CREATE POLICY "Admins can update all profiles" ON profiles
+  FOR UPDATE TO authenticated
+  USING (is_admin());
+
+CREATE OR REPLACE FUNCTION protect_admin_flag()
+RETURNS trigger AS $$
+BEGIN
+  -- Service role and SQL editor sessions have no auth.uid() and are trusted
+  IF auth.uid() IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.is_admin AND NOT is_admin() THEN
+      RAISE EXCEPTION 'Only admins can grant admin access'
+        USING ERRCODE = '42501';
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.is_admin IS DISTINCT FROM OLD.is_admin THEN
+    IF NOT is_admin() THEN
+      RAISE EXCEPTION 'Only admins can change admin access'
+        USING ERRCODE = '42501';
+    END IF;
+
+    IF OLD.id = auth.uid() AND NOT NEW.is_admin THEN
+      RAISE EXCEPTION 'Admins cannot revoke their own admin access'
+        USING ERRCODE = '42501';
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS protect_admin_flag_trigger ON profiles;
+CREATE TRIGGER protect_admin_flag_trigger
+  BEFORE INSERT OR UPDATE ON profiles
+  FOR EACH ROW EXECUTE FUNCTION protect_admin_flag();
@@ -0,0 +1,165 @@
+/*
+  # Role-based access control
+
+  1. Tables
+    - Add `role` to profiles: customer, staff, fleet_manager or admin
+    - Create `role_permissions` mapping each role to the permissions it grants
+    - Backfill role from is_admin, then drop is_admin
+
+  2. Functions
+    - `has_permission(p_permission)` is the single check used by RLS policies
+    - `protect_profile_role()` replaces protect_admin_flag(): only users with
+      manage_users may change a role, and nobody may change their own
+    - `handle_new_user()` no longer special-cases an email address; every new
+      account starts as a customer
+
+  3. Security
+    - Every policy that checked profiles.is_admin now calls has_permission()
+    - role_permissions is readable by authenticated users and writable by nobody
+      through the API
+
+  4. Permissions
+    - access_admin: staff, fleet_manager, admin
+    - manage_bookings: staff, fleet_manager, admin
+    - manage_vehicles: fleet_manager, admin
+    - manage_users: admin
+*/
+
+ALTER TABLE profiles
+  ADD COLUMN IF NOT EXISTS role text NOT NULL DEFAULT 'customer'
+  CHECK (role IN ('customer', 'staff', 'fleet_manager', 'admin'));
+
+UPDATE profiles SET role = 'admin' WHERE is_admin = true;
+
+CREATE TABLE IF NOT EXISTS role_permissions (
+  role text NOT NULL CHECK (role IN ('customer', 'staff', 'fleet_manager', 'admin')),
+  permission text NOT NULL,
+  PRIMARY KEY (role, permission)
+);
+
+INSERT INTO role_permissions (role, permission) VALUES
+  ('staff', 'access_admin'),
+  ('staff', 'manage_bookings'),
+  ('fleet_manager', 'access_admin'),
+  ('fleet_manager', 'manage_bookings'),
+  ('fleet_manager', 'manage_vehicles'),
+  ('admin', 'access_admin'),
+  ('admin', 'manage_bookings'),
+  ('admin', 'manage_vehicles'),
+  ('admin', 'manage_users')
+ON CONFLICT DO NOTHING;
+
+ALTER TABLE role_permissions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can read role permissions" ON role_permissions
+  FOR SELECT TO authenticated
+  USING (true);
+
+CREATE OR REPLACE FUNCTION has_permission(p_permission text)
+RETURNS boolean AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM profiles p
+    JOIN role_permissions rp ON rp.role = p.role
+    WHERE p.id = auth.uid()
+      AND rp.permission = p_permission
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Profiles policies
+DROP POLICY IF EXISTS "Admins can read all profiles" ON profiles;
+DROP POLICY IF EXISTS "Admins can update all profiles" ON profiles;
+
+CREATE POLICY "Staff can read all profiles" ON profiles
+  FOR SELECT TO authenticated
+  USING (has_permission('access_admin'));
+
+CREATE POLICY "User managers can update all profiles" ON profiles
+  FOR UPDATE TO authenticated
+  USING (has_permission('manage_users'));
+
+-- Vehicles policies
+DROP POLICY IF EXISTS "Admins can read all vehicles" ON vehicles;
+DROP POLICY IF EXISTS "Admins can manage vehicles" ON vehicles;
+
+CREATE POLICY "Staff can read all vehicles" ON vehicles
+  FOR SELECT TO authenticated
+  USING (has_permission('access_admin'));
+
+CREATE POLICY "Fleet managers can manage vehicles" ON vehicles
+  FOR ALL TO authenticated
+  USING (has_permission('manage_vehicles'))
+  WITH CHECK (has_permission('manage_vehicles'));
+
+-- Bookings policies
+DROP POLICY IF EXISTS "Admins can read all bookings" ON bookings;
+DROP POLICY IF EXISTS "Admins can update all bookings" ON bookings;
+
+CREATE POLICY "Staff can read all bookings" ON bookings
+  FOR SELECT TO authenticated
+  USING (has_permission('access_admin'));
+
+CREATE POLICY "Staff can update all bookings" ON bookings
+  FOR UPDATE TO authenticated
+  USING (has_permission('manage_bookings'));
+
+-- Role changes
+DROP TRIGGER IF EXISTS protect_admin_flag_trigger ON profiles;
+DROP FUNCTION IF EXISTS protect_admin_flag();
+DROP FUNCTION IF EXISTS is_admin();
+
+CREATE OR REPLACE FUNCTION protect_profile_role()
+RETURNS trigger AS $$
+BEGIN
+  -- Service role and SQL editor sessions have no auth.uid() and are trusted
+  IF auth.uid() IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.role <> 'customer' AND NOT has_permission('manage_users') THEN
+      RAISE EXCEPTION 'Only user managers can assign roles'
+        USING ERRCODE = '42501';
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.role IS DISTINCT FROM OLD.role THEN
+    IF NOT has_permission('manage_users') THEN
+      RAISE EXCEPTION 'Only user managers can change roles'
+        USING ERRCODE = '42501';
+    END IF;
+
+    IF OLD.id = auth.uid() THEN
+      RAISE EXCEPTION 'You cannot change your own role'
+        USING ERRCODE = '42501';
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS protect_profile_role_trigger ON profiles;
+CREATE TRIGGER protect_profile_role_trigger
+  BEFORE INSERT OR UPDATE ON profiles
+  FOR EACH ROW EXECUTE FUNCTION protect_profile_role();
+
+ALTER TABLE profiles DROP COLUMN IF EXISTS is_admin;
+
+-- New users always start as customers; roles are granted from the admin console
+CREATE OR REPLACE FUNCTION handle_new_user()
+RETURNS trigger AS $$
+BEGIN
+  INSERT INTO profiles (id, email, full_name, role)
+  VALUES (
+    NEW.id,
+    NEW.email,
+    COALESCE(NEW.raw_user_meta_data->>'full_name', ''),
+    'customer'
+  );
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE INDEX IF NOT EXISTS idx_profiles_role ON profiles(role);
@@ -0,0 +1,33 @@
+/*
+  # Profiles for passwordless and OAuth sign-ups
+
+  1. Functions
+    - `handle_new_user()` now reads the name and avatar that Google and Apple
+      put in raw_user_meta_data (`name`, `picture`) in addition to the keys our
+      own sign-up form sends (`full_name`, `avatar_url`)
+    - The insert skips users that already have a profile, so the client-side
+      fallback in lib/auth.ts and this trigger can never collide
+*/
+
+CREATE OR REPLACE FUNCTION handle_new_user()
+RETURNS trigger AS $$
+BEGIN
+  INSERT INTO profiles (id, email, full_name, avatar_url, role)
+  VALUES (
+    NEW.id,
+    NEW.email,
+    COALESCE(
+      NEW.raw_user_meta_data->>'full_name',
+      NEW.raw_user_meta_data->>'name',
+      ''
+    ),
+    COALESCE(
+      NEW.raw_user_meta_data->>'avatar_url',
+      NEW.raw_user_meta_data->>'picture'
+    ),
+    'customer'
+  )
+  ON CONFLICT (id) DO NOTHING;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
@@ -0,0 +1,80 @@
+/*
+  # Account deletion with data retention
+
+  1. Schema
+    - bookings.user_id and reviews.user_id become nullable and their foreign
+      keys switch from ON DELETE CASCADE to ON DELETE SET NULL, so deleting an
+      auth user no longer wipes the financial history
+    - `anonymized_at` on bookings records when personal data was stripped
+
+  2. Functions
+    - `delete_own_account()` deletes the calling user:
+      - refuses while the user has confirmed or active bookings
+      - cancels pending bookings, which were never paid for
+      - strips driver licence and special requests from every booking and
+        detaches it from the user; prices, dates and payment fields stay for
+        accounting
+      - detaches reviews so vehicle ratings remain intact
+      - deletes the auth user; profiles and favorites go with it via their
+        existing ON DELETE CASCADE
+
+  3. Security
+    - Callable by authenticated users only, and only ever acts on auth.uid()
+*/
+
+ALTER TABLE bookings ALTER COLUMN user_id DROP NOT NULL;
+ALTER TABLE bookings DROP CONSTRAINT IF EXISTS bookings_user_id_fkey;
+ALTER TABLE bookings
+  ADD CONSTRAINT bookings_user_id_fkey
+  FOREIGN KEY (user_id) REFERENCES auth.users(id) ON DELETE SET NULL;
+
+ALTER TABLE bookings ADD COLUMN IF NOT EXISTS anonymized_at timestamptz;
+
+ALTER TABLE reviews ALTER COLUMN user_id DROP NOT NULL;
+ALTER TABLE reviews DROP CONSTRAINT IF EXISTS reviews_user_id_fkey;
+ALTER TABLE reviews
+  ADD CONSTRAINT reviews_user_id_fkey
+  FOREIGN KEY (user_id) REFERENCES auth.users(id) ON DELETE SET NULL;
+
+CREATE OR REPLACE FUNCTION delete_own_account()
+RETURNS void AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated'
+      USING ERRCODE = '42501';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM bookings
+    WHERE user_id = v_user_id
+      AND status IN ('confirmed', 'active')
+  ) THEN
+    RAISE EXCEPTION 'Account has confirmed or active bookings'
+      USING ERRCODE = 'P0001', HINT = 'active_bookings';
+  END IF;
+
+  UPDATE bookings
+  SET status = 'cancelled', updated_at = now()
+  WHERE user_id = v_user_id
+    AND status = 'pending';
+
+  UPDATE bookings
+  SET user_id = NULL,
+      driver_license = NULL,
+      special_requests = NULL,
+      anonymized_at = now(),
+      updated_at = now()
+  WHERE user_id = v_user_id;
+
+  UPDATE reviews
+  SET user_id = NULL
+  WHERE user_id = v_user_id;
+
+  DELETE FROM auth.users WHERE id = v_user_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, auth;
+
+REVOKE EXECUTE ON FUNCTION delete_own_account() FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION delete_own_account() TO authenticated;
@@ -0,0 +1,155 @@
+/*
+  # Driver license verification
+
+  1. Tables
+    - `driver_licenses`: one row per user with the license number, expiry,
+      storage paths of the front and back photos and the review outcome
+      (pending, approved, rejected)
+
+  2. Storage
+    - Private `driver-licenses` bucket; files live under `<user id>/...`
+
+  3. Permissions
+    - New `verify_licenses` permission for staff, fleet managers and admins
+
+  4. Security
+    - Users can read and (re)submit their own license; any customer write
+      resets the review to pending, so only reviewers can approve
+    - Reviewers can read every license and its photos and record a decision
+    - `check_driver_eligibility()` runs before a booking is inserted and
+      rejects it unless the driver has an approved license valid through the
+      return date and is at least 21 on the pickup date; it also copies the
+      verified license number onto the booking
+*/
+
+CREATE TABLE IF NOT EXISTS driver_licenses (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL UNIQUE,
+  license_number text NOT NULL,
+  expiry_date date NOT NULL,
+  front_image_path text NOT NULL,
+  back_image_path text NOT NULL,
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'rejected')),
+  rejection_reason text,
+  reviewed_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  reviewed_at timestamptz,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_driver_licenses_status ON driver_licenses(status);
+
+INSERT INTO role_permissions (role, permission) VALUES
+  ('staff', 'verify_licenses'),
+  ('fleet_manager', 'verify_licenses'),
+  ('admin', 'verify_licenses')
+ON CONFLICT DO NOTHING;
+
+ALTER TABLE driver_licenses ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read own license" ON driver_licenses
+  FOR SELECT TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can submit own license" ON driver_licenses
+  FOR INSERT TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own license" ON driver_licenses
+  FOR UPDATE TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Reviewers can read all licenses" ON driver_licenses
+  FOR SELECT TO authenticated
+  USING (has_permission('verify_licenses'));
+
+CREATE POLICY "Reviewers can update all licenses" ON driver_licenses
+  FOR UPDATE TO authenticated
+  USING (has_permission('verify_licenses'))
+  WITH CHECK (has_permission('verify_licenses'));
+
+-- Customer submissions always go back into the queue; reviewers may not
+-- approve their own license
+CREATE OR REPLACE FUNCTION protect_license_review()
+RETURNS trigger AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF NOT has_permission('verify_licenses') OR NEW.user_id = auth.uid() THEN
+    NEW.status := 'pending';
+    NEW.rejection_reason := NULL;
+    NEW.reviewed_by := NULL;
+    NEW.reviewed_at := NULL;
+  ELSE
+    NEW.reviewed_by := auth.uid();
+    NEW.reviewed_at := now();
+  END IF;
+
+  NEW.updated_at := now();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS protect_license_review_trigger ON driver_licenses;
+CREATE TRIGGER protect_license_review_trigger
+  BEFORE INSERT OR UPDATE ON driver_licenses
+  FOR EACH ROW EXECUTE FUNCTION protect_license_review();
+
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES ('driver-licenses', 'driver-licenses', false, 10485760, ARRAY['image/jpeg', 'image/png', 'image/webp'])
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Users can read own license photos" ON storage.objects
+  FOR SELECT TO authenticated
+  USING (bucket_id = 'driver-licenses' AND (storage.foldername(name))[1] = auth.uid()::text);
+
+CREATE POLICY "Users can upload own license photos" ON storage.objects
+  FOR INSERT TO authenticated
+  WITH CHECK (bucket_id = 'driver-licenses' AND (storage.foldername(name))[1] = auth.uid()::text);
+
+CREATE POLICY "Users can delete own license photos" ON storage.objects
+  FOR DELETE TO authenticated
+  USING (bucket_id = 'driver-licenses' AND (storage.foldername(name))[1] = auth.uid()::text);
+
+CREATE POLICY "Reviewers can read license photos" ON storage.objects
+  FOR SELECT TO authenticated
+  USING (bucket_id = 'driver-licenses' AND has_permission('verify_licenses'));
+
+CREATE OR REPLACE FUNCTION check_driver_eligibility()
+RETURNS trigger AS $$
+DECLARE
+  v_license driver_licenses%ROWTYPE;
+  v_date_of_birth date;
+BEGIN
+  SELECT * INTO v_license FROM driver_licenses WHERE user_id = NEW.user_id;
+
+  IF NOT FOUND OR v_license.status <> 'approved' THEN
+    RAISE EXCEPTION 'Your driver license has not been approved yet'
+      USING ERRCODE = 'P0001', HINT = 'license_not_approved';
+  END IF;
+
+  IF v_license.expiry_date < NEW.end_date::date THEN
+    RAISE EXCEPTION 'Your driver license expires before the end of this rental'
+      USING ERRCODE = 'P0001', HINT = 'license_expired';
+  END IF;
+
+  SELECT date_of_birth INTO v_date_of_birth FROM profiles WHERE id = NEW.user_id;
+
+  IF v_date_of_birth IS NULL
+    OR v_date_of_birth + interval '21 years' > NEW.start_date::date THEN
+    RAISE EXCEPTION 'Drivers must be at least 21 years old on the pickup date'
+      USING ERRCODE = 'P0001', HINT = 'driver_underage';
+  END IF;
+
+  NEW.driver_license := v_license.license_number;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS check_driver_eligibility_trigger ON bookings;
+CREATE TRIGGER check_driver_eligibility_trigger
+  BEFORE INSERT ON bookings
+  FOR EACH ROW EXECUTE FUNCTION check_driver_eligibility();
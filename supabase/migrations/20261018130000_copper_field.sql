@@ -0,0 +1,83 @@
+/*
+  # Saved payment methods
+
+  1. Tables
+    - `payment_methods`: a user's saved cards, stored only as the payment
+      provider's token plus display details (brand, last four digits, expiry,
+      cardholder name). Card numbers and CVVs never reach the database.
+    - bookings gets `payment_method_id`; the existing `payment_method` text
+      column keeps the human-readable label ("Visa •••• 4242") so receipts stay
+      readable after the card is removed
+
+  2. Functions
+    - `set_default_payment_method(p_method_id)` clears the previous default and
+      sets the new one in one transaction; the unique index allows at most one
+      default per user
+
+  3. Security
+    - Users can only see and manage their own payment methods
+*/
+
+CREATE TABLE IF NOT EXISTS payment_methods (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  provider text NOT NULL,
+  provider_token text NOT NULL,
+  type text NOT NULL DEFAULT 'card' CHECK (type IN ('card')),
+  brand text NOT NULL,
+  last4 text NOT NULL CHECK (last4 ~ '^[0-9]{4}$'),
+  exp_month integer NOT NULL CHECK (exp_month BETWEEN 1 AND 12),
+  exp_year integer NOT NULL CHECK (exp_year >= 2000),
+  cardholder_name text,
+  is_default boolean NOT NULL DEFAULT false,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  UNIQUE (provider, provider_token)
+);
+
+CREATE INDEX IF NOT EXISTS idx_payment_methods_user_id ON payment_methods(user_id);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_payment_methods_one_default
+  ON payment_methods(user_id) WHERE is_default;
+
+ALTER TABLE payment_methods ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read own payment methods" ON payment_methods
+  FOR SELECT TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can add own payment methods" ON payment_methods
+  FOR INSERT TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own payment methods" ON payment_methods
+  FOR UPDATE TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own payment methods" ON payment_methods
+  FOR DELETE TO authenticated
+  USING (auth.uid() = user_id);
+
+ALTER TABLE bookings
+  ADD COLUMN IF NOT EXISTS payment_method_id uuid REFERENCES payment_methods(id) ON DELETE SET NULL;
+
+CREATE OR REPLACE FUNCTION set_default_payment_method(p_method_id uuid)
+RETURNS void AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM payment_methods
+    WHERE id = p_method_id AND user_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Payment method not found'
+      USING ERRCODE = 'P0002';
+  END IF;
+
+  UPDATE payment_methods
+  SET is_default = false, updated_at = now()
+  WHERE user_id = auth.uid() AND is_default AND id <> p_method_id;
+
+  UPDATE payment_methods
+  SET is_default = true, updated_at = now()
+  WHERE id = p_method_id;
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER;
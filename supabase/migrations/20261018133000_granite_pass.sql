@@ -0,0 +1,85 @@
+/*
+  # Security deposits
+
+  1. Tables
+    - vehicles gets `deposit_amount`, the refundable deposit held for each
+      rental of that vehicle (0 means no deposit)
+    - bookings gets `deposit_amount` (copied from the vehicle when the booking
+      is created), `deposit_status` and `deposit_intent_id`, the provider's
+      authorisation hold
+    - `deposit_transactions`: ledger of every deposit event for a booking
+      (hold, release, capture) with the amount, the reason and who recorded it
+
+  2. Functions
+    - `set_booking_deposit()` runs before a booking is inserted and copies the
+      vehicle's deposit, so customers cannot choose their own
+
+  3. Security
+    - Customers can read the ledger for their own bookings
+    - Booking managers can read and append to every ledger; entries are never
+      updated or deleted
+*/
+
+ALTER TABLE vehicles
+  ADD COLUMN IF NOT EXISTS deposit_amount numeric NOT NULL DEFAULT 0 CHECK (deposit_amount >= 0);
+
+ALTER TABLE bookings
+  ADD COLUMN IF NOT EXISTS deposit_amount numeric NOT NULL DEFAULT 0 CHECK (deposit_amount >= 0),
+  ADD COLUMN IF NOT EXISTS deposit_status text NOT NULL DEFAULT 'none'
+    CHECK (deposit_status IN ('none', 'held', 'released', 'partially_captured', 'captured')),
+  ADD COLUMN IF NOT EXISTS deposit_intent_id text;
+
+CREATE TABLE IF NOT EXISTS deposit_transactions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  booking_id uuid REFERENCES bookings(id) ON DELETE CASCADE NOT NULL,
+  type text NOT NULL CHECK (type IN ('hold', 'release', 'capture')),
+  amount numeric NOT NULL CHECK (amount >= 0),
+  reason text,
+  provider_reference text,
+  created_by uuid DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_deposit_transactions_booking_id ON deposit_transactions(booking_id);
+
+ALTER TABLE deposit_transactions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read own deposit transactions" ON deposit_transactions
+  FOR SELECT TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM bookings
+      WHERE bookings.id = deposit_transactions.booking_id
+        AND bookings.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Staff can read deposit transactions" ON deposit_transactions
+  FOR SELECT TO authenticated
+  USING (has_permission('access_admin'));
+
+CREATE POLICY "Booking managers can record deposit transactions" ON deposit_transactions
+  FOR INSERT TO authenticated
+  WITH CHECK (has_permission('manage_bookings') AND created_by = auth.uid());
+
+CREATE OR REPLACE FUNCTION set_booking_deposit()
+RETURNS trigger AS $$
+BEGIN
+  SELECT deposit_amount INTO NEW.deposit_amount
+  FROM vehicles
+  WHERE id = NEW.vehicle_id;
+
+  NEW.deposit_amount := COALESCE(NEW.deposit_amount, 0);
+  NEW.deposit_status := 'none';
+  NEW.deposit_intent_id := NULL;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS set_booking_deposit_trigger ON bookings;
+CREATE TRIGGER set_booking_deposit_trigger
+  BEFORE INSERT ON bookings
+  FOR EACH ROW EXECUTE FUNCTION set_booking_deposit();
+
+-- Sensible defaults for the larger vehicles in the seed fleet
+UPDATE vehicles SET deposit_amount = 500 WHERE type IN ('Truck', 'Luxury') AND deposit_amount = 0;
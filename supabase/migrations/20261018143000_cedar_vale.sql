@@ -0,0 +1,108 @@
+/*
+  # Dynamic pricing rules
+
+  1. Tables
+    - `pricing_rules`: admin-managed rules read by the pricing engine. What
+      `value` means depends on the rule type:
+        - weekend, holiday, seasonal: day-rate multiplier (1.2 = +20%)
+        - surge: multiplier applied when fleet utilisation reaches
+          `min_utilization` (0-1)
+        - duration_discount: percent off once the rental lasts `min_days`
+        - tax: percent of the discounted rental plus fees
+        - fee: flat amount, charged per day when `per_day` is set
+      Holiday and seasonal rules apply between `start_date` and `end_date`
+      (inclusive). A rule with a `vehicle_type` only applies to that type.
+    - bookings gets `price_quote`, the itemised quote the customer accepted
+
+  2. Functions
+    - `get_fleet_utilization(p_start, p_end)` returns the share of available
+      vehicles with a pending, confirmed or active booking overlapping the
+      range. SECURITY DEFINER because customers cannot see other bookings.
+
+  3. Permissions
+    - New `manage_pricing` permission for fleet managers and admins
+
+  4. Security
+    - Anyone can read active rules, since quotes are shown before sign-in
+    - Only pricing managers can read inactive rules and change rules
+*/
+
+CREATE TABLE IF NOT EXISTS pricing_rules (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL,
+  type text NOT NULL CHECK (type IN ('weekend', 'holiday', 'seasonal', 'surge', 'duration_discount', 'tax', 'fee')),
+  value numeric NOT NULL CHECK (value >= 0),
+  start_date date,
+  end_date date,
+  min_days integer CHECK (min_days > 0),
+  min_utilization numeric CHECK (min_utilization >= 0 AND min_utilization <= 1),
+  vehicle_type text,
+  per_day boolean NOT NULL DEFAULT false,
+  active boolean NOT NULL DEFAULT true,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  CONSTRAINT pricing_rule_dates CHECK (
+    (type IN ('holiday', 'seasonal')) = (start_date IS NOT NULL AND end_date IS NOT NULL)
+    AND (start_date IS NULL OR end_date >= start_date)
+  ),
+  CONSTRAINT pricing_rule_min_days CHECK ((type = 'duration_discount') = (min_days IS NOT NULL)),
+  CONSTRAINT pricing_rule_utilization CHECK ((type = 'surge') = (min_utilization IS NOT NULL))
+);
+
+CREATE INDEX IF NOT EXISTS idx_pricing_rules_active ON pricing_rules(active);
+
+ALTER TABLE bookings
+  ADD COLUMN IF NOT EXISTS price_quote jsonb;
+
+INSERT INTO role_permissions (role, permission) VALUES
+  ('fleet_manager', 'manage_pricing'),
+  ('admin', 'manage_pricing')
+ON CONFLICT DO NOTHING;
+
+ALTER TABLE pricing_rules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can read active pricing rules" ON pricing_rules
+  FOR SELECT TO anon, authenticated
+  USING (active = true);
+
+CREATE POLICY "Pricing managers can read all pricing rules" ON pricing_rules
+  FOR SELECT TO authenticated
+  USING (has_permission('manage_pricing'));
+
+CREATE POLICY "Pricing managers can manage pricing rules" ON pricing_rules
+  FOR ALL TO authenticated
+  USING (has_permission('manage_pricing'))
+  WITH CHECK (has_permission('manage_pricing'));
+
+CREATE OR REPLACE FUNCTION get_fleet_utilization(
+  p_start timestamptz,
+  p_end timestamptz
+)
+RETURNS numeric AS $$
+  SELECT COALESCE(
+    COUNT(DISTINCT b.vehicle_id)::numeric / NULLIF((SELECT COUNT(*) FROM vehicles WHERE available = true), 0),
+    0
+  )
+  FROM bookings b
+  JOIN vehicles v ON v.id = b.vehicle_id AND v.available = true
+  WHERE b.status IN ('pending', 'confirmed', 'active')
+    AND b.start_date < p_end
+    AND b.end_date > p_start;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION get_fleet_utilization(timestamptz, timestamptz) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION get_fleet_utilization(timestamptz, timestamptz) TO authenticated;
+
+INSERT INTO pricing_rules (name, type, value, start_date, end_date, min_days, min_utilization, per_day) VALUES
+  ('Weekend rate', 'weekend', 1.15, NULL, NULL, NULL, NULL, false),
+  ('Thanksgiving', 'holiday', 1.3, '2026-11-25', '2026-11-29', NULL, NULL, false),
+  ('Christmas', 'holiday', 1.3, '2026-12-23', '2026-12-27', NULL, NULL, false),
+  ('New Year', 'holiday', 1.3, '2026-12-30', '2027-01-02', NULL, NULL, false),
+  ('Independence Day', 'holiday', 1.3, '2027-07-02', '2027-07-05', NULL, NULL, false),
+  ('Summer season', 'seasonal', 1.2, '2027-06-15', '2027-08-31', NULL, NULL, false),
+  ('High demand', 'surge', 1.25, NULL, NULL, NULL, 0.8, false),
+  ('Weekly discount', 'duration_discount', 10, NULL, NULL, 7, NULL, false),
+  ('Monthly discount', 'duration_discount', 25, NULL, NULL, 28, NULL, false),
+  ('Sales tax', 'tax', 8.25, NULL, NULL, NULL, NULL, false),
+  ('Vehicle license fee', 'fee', 1.5, NULL, NULL, NULL, NULL, true),
+  ('Booking fee', 'fee', 4.99, NULL, NULL, NULL, NULL, false);
@@ -0,0 +1,88 @@
+/*
+  # Protection plans
+
+  1. Tables
+    - `protection_plans`: coverage tiers offered at checkout, each with a
+      daily price and the deductible the renter still owes on damage
+    - bookings gets `protection_plan_id` plus `protection_daily_price` and
+      `protection_deductible`, copied from the plan when the booking is made
+      so later catalogue changes do not alter existing rentals
+
+  2. Functions
+    - `set_booking_protection()` runs before a booking is inserted and copies
+      the chosen plan's price and deductible, so customers cannot set their own
+
+  3. Security
+    - Anyone can read active plans
+    - Pricing managers can manage the catalogue
+*/
+
+CREATE TABLE IF NOT EXISTS protection_plans (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  code text UNIQUE NOT NULL,
+  name text NOT NULL,
+  description text,
+  daily_price numeric NOT NULL DEFAULT 0 CHECK (daily_price >= 0),
+  deductible numeric NOT NULL CHECK (deductible >= 0),
+  sort_order integer NOT NULL DEFAULT 0,
+  active boolean NOT NULL DEFAULT true,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE bookings
+  ADD COLUMN IF NOT EXISTS protection_plan_id uuid REFERENCES protection_plans(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS protection_daily_price numeric NOT NULL DEFAULT 0 CHECK (protection_daily_price >= 0),
+  ADD COLUMN IF NOT EXISTS protection_deductible numeric CHECK (protection_deductible >= 0);
+
+ALTER TABLE protection_plans ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can read active protection plans" ON protection_plans
+  FOR SELECT TO anon, authenticated
+  USING (active = true);
+
+CREATE POLICY "Pricing managers can manage protection plans" ON protection_plans
+  FOR ALL TO authenticated
+  USING (has_permission('manage_pricing'))
+  WITH CHECK (has_permission('manage_pricing'));
+
+CREATE OR REPLACE FUNCTION set_booking_protection()
+RETURNS trigger AS $$
+BEGIN
+  IF NEW.protection_plan_id IS NULL THEN
+    NEW.protection_daily_price := 0;
+    NEW.protection_deductible := NULL;
+    RETURN NEW;
+  END IF;
+
+  SELECT daily_price, deductible
+  INTO NEW.protection_daily_price, NEW.protection_deductible
+  FROM protection_plans
+  WHERE id = NEW.protection_plan_id AND active = true;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'This protection plan is no longer available';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS set_booking_protection_trigger ON bookings;
+CREATE TRIGGER set_booking_protection_trigger
+  BEFORE INSERT ON bookings
+  FOR EACH ROW EXECUTE FUNCTION set_booking_protection();
+
+INSERT INTO protection_plans (code, name, description, daily_price, deductible, sort_order) VALUES
+  ('basic', 'Basic Protection', 'Included with every rental. Covers third-party liability and collision damage above the deductible.', 0, 2500, 1),
+  ('standard', 'Standard Protection', 'Lower deductible, plus theft protection and glass and tyre cover.', 15, 1000, 2),
+  ('premium', 'Premium Protection', 'No deductible on damage or theft, plus roadside assistance.', 29, 0, 3)
+ON CONFLICT (code) DO NOTHING;
+
+-- Existing rentals were made under the included basic cover
+UPDATE bookings
+SET protection_plan_id = plans.id,
+    protection_deductible = plans.deductible
+FROM protection_plans plans
+WHERE plans.code = 'basic'
+  AND bookings.protection_plan_id IS NULL;
@@ -0,0 +1,265 @@
+/*
+  # Rental extras
+
+  1. Tables
+    - `extras`: catalogue of add-ons (child seats, GPS, roof racks, ...) priced
+      per day or per rental
+    - `extra_stock`: how many of each extra a branch holds. The branch is the
+      vehicle's `location`, where the rental starts.
+    - `booking_extras`: extras reserved for a booking. Price and branch are
+      copied when the row is created so catalogue changes do not alter
+      existing rentals.
+
+  2. Functions
+    - `check_extra_stock(...)` raises `extras_unavailable` when a branch does
+      not have enough units free over a period. It locks the stock row, so
+      concurrent checkouts cannot both take the last unit.
+    - `reserve_booking_extra()` runs before a booking extra is inserted,
+      copies the catalogue price and branch and checks stock
+    - `recheck_booking_extras()` runs before a booking's dates change and
+      checks its extras are still free over the new dates
+    - `get_extra_availability(p_location, p_start, p_end)` returns the units
+      of each extra still free at a branch over a period
+    All are SECURITY DEFINER because stock depends on everyone's bookings.
+
+  3. Security
+    - Anyone can read active extras; fleet managers manage the catalogue and
+      stock, which staff can read
+    - Customers can read their own booking extras and add them to their own
+      pending bookings; staff can read all, booking managers can change them
+*/
+
+CREATE TABLE IF NOT EXISTS extras (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL,
+  description text,
+  icon text NOT NULL DEFAULT 'add-circle-outline',
+  price numeric NOT NULL CHECK (price >= 0),
+  pricing text NOT NULL DEFAULT 'per_day' CHECK (pricing IN ('per_day', 'per_rental')),
+  max_per_booking integer NOT NULL DEFAULT 1 CHECK (max_per_booking > 0),
+  sort_order integer NOT NULL DEFAULT 0,
+  active boolean NOT NULL DEFAULT true,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS extra_stock (
+  extra_id uuid REFERENCES extras(id) ON DELETE CASCADE NOT NULL,
+  location text NOT NULL,
+  quantity integer NOT NULL DEFAULT 0 CHECK (quantity >= 0),
+  updated_at timestamptz DEFAULT now(),
+  PRIMARY KEY (extra_id, location)
+);
+
+CREATE TABLE IF NOT EXISTS booking_extras (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  booking_id uuid REFERENCES bookings(id) ON DELETE CASCADE NOT NULL,
+  extra_id uuid REFERENCES extras(id) ON DELETE RESTRICT NOT NULL,
+  quantity integer NOT NULL CHECK (quantity > 0),
+  unit_price numeric NOT NULL DEFAULT 0 CHECK (unit_price >= 0),
+  pricing text NOT NULL DEFAULT 'per_day' CHECK (pricing IN ('per_day', 'per_rental')),
+  location text NOT NULL DEFAULT '',
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (booking_id, extra_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_booking_extras_extra_location ON booking_extras(extra_id, location);
+
+ALTER TABLE extras ENABLE ROW LEVEL SECURITY;
+ALTER TABLE extra_stock ENABLE ROW LEVEL SECURITY;
+ALTER TABLE booking_extras ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can read active extras" ON extras
+  FOR SELECT TO anon, authenticated
+  USING (active = true);
+
+CREATE POLICY "Fleet managers can manage extras" ON extras
+  FOR ALL TO authenticated
+  USING (has_permission('manage_vehicles'))
+  WITH CHECK (has_permission('manage_vehicles'));
+
+CREATE POLICY "Staff can read extra stock" ON extra_stock
+  FOR SELECT TO authenticated
+  USING (has_permission('access_admin'));
+
+CREATE POLICY "Fleet managers can manage extra stock" ON extra_stock
+  FOR ALL TO authenticated
+  USING (has_permission('manage_vehicles'))
+  WITH CHECK (has_permission('manage_vehicles'));
+
+CREATE POLICY "Users can read own booking extras" ON booking_extras
+  FOR SELECT TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM bookings
+      WHERE bookings.id = booking_extras.booking_id
+        AND bookings.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can add extras to own pending bookings" ON booking_extras
+  FOR INSERT TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM bookings
+      WHERE bookings.id = booking_extras.booking_id
+        AND bookings.user_id = auth.uid()
+        AND bookings.status = 'pending'
+    )
+  );
+
+CREATE POLICY "Staff can read booking extras" ON booking_extras
+  FOR SELECT TO authenticated
+  USING (has_permission('access_admin'));
+
+CREATE POLICY "Booking managers can manage booking extras" ON booking_extras
+  FOR ALL TO authenticated
+  USING (has_permission('manage_bookings'))
+  WITH CHECK (has_permission('manage_bookings'));
+
+CREATE OR REPLACE FUNCTION check_extra_stock(
+  p_extra_id uuid,
+  p_location text,
+  p_start timestamptz,
+  p_end timestamptz,
+  p_quantity integer,
+  p_exclude_booking uuid
+)
+RETURNS void AS $$
+DECLARE
+  v_name text;
+  v_stock integer;
+  v_reserved integer;
+BEGIN
+  SELECT quantity INTO v_stock
+  FROM extra_stock
+  WHERE extra_id = p_extra_id AND location = p_location
+  FOR UPDATE;
+
+  SELECT COALESCE(SUM(be.quantity), 0) INTO v_reserved
+  FROM booking_extras be
+  JOIN bookings b ON b.id = be.booking_id
+  WHERE be.extra_id = p_extra_id
+    AND be.location = p_location
+    AND b.id <> p_exclude_booking
+    AND b.status IN ('pending', 'confirmed', 'active')
+    AND b.start_date < p_end
+    AND b.end_date > p_start;
+
+  IF COALESCE(v_stock, 0) - v_reserved < p_quantity THEN
+    SELECT name INTO v_name FROM extras WHERE id = p_extra_id;
+    RAISE EXCEPTION '% is not available at % for these dates', v_name, p_location
+      USING ERRCODE = 'P0001', HINT = 'extras_unavailable';
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION check_extra_stock(uuid, text, timestamptz, timestamptz, integer, uuid) FROM PUBLIC;
+
+CREATE OR REPLACE FUNCTION reserve_booking_extra()
+RETURNS trigger AS $$
+DECLARE
+  v_booking bookings%ROWTYPE;
+  v_extra extras%ROWTYPE;
+BEGIN
+  SELECT * INTO v_booking FROM bookings WHERE id = NEW.booking_id;
+
+  SELECT * INTO v_extra FROM extras WHERE id = NEW.extra_id AND active = true;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'This extra is no longer available'
+      USING ERRCODE = 'P0001', HINT = 'extras_unavailable';
+  END IF;
+
+  IF NEW.quantity > v_extra.max_per_booking THEN
+    RAISE EXCEPTION 'At most % % can be added to a booking', v_extra.max_per_booking, v_extra.name
+      USING ERRCODE = 'P0001', HINT = 'extras_unavailable';
+  END IF;
+
+  NEW.unit_price := v_extra.price;
+  NEW.pricing := v_extra.pricing;
+  SELECT location INTO NEW.location FROM vehicles WHERE id = v_booking.vehicle_id;
+
+  PERFORM check_extra_stock(
+    NEW.extra_id, NEW.location, v_booking.start_date, v_booking.end_date, NEW.quantity, v_booking.id
+  );
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS reserve_booking_extra_trigger ON booking_extras;
+CREATE TRIGGER reserve_booking_extra_trigger
+  BEFORE INSERT ON booking_extras
+  FOR EACH ROW EXECUTE FUNCTION reserve_booking_extra();
+
+CREATE OR REPLACE FUNCTION recheck_booking_extras()
+RETURNS trigger AS $$
+DECLARE
+  v_item booking_extras%ROWTYPE;
+BEGIN
+  IF NEW.start_date IS NOT DISTINCT FROM OLD.start_date
+    AND NEW.end_date IS NOT DISTINCT FROM OLD.end_date
+  THEN
+    RETURN NEW;
+  END IF;
+
+  FOR v_item IN SELECT * FROM booking_extras WHERE booking_id = NEW.id LOOP
+    PERFORM check_extra_stock(
+      v_item.extra_id, v_item.location, NEW.start_date, NEW.end_date, v_item.quantity, NEW.id
+    );
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS recheck_booking_extras_trigger ON bookings;
+CREATE TRIGGER recheck_booking_extras_trigger
+  BEFORE UPDATE OF start_date, end_date ON bookings
+  FOR EACH ROW EXECUTE FUNCTION recheck_booking_extras();
+
+CREATE OR REPLACE FUNCTION get_extra_availability(
+  p_location text,
+  p_start timestamptz,
+  p_end timestamptz
+)
+RETURNS TABLE (extra_id uuid, available integer) AS $$
+  SELECT
+    s.extra_id,
+    GREATEST(s.quantity - COALESCE((
+      SELECT SUM(be.quantity)
+      FROM booking_extras be
+      JOIN bookings b ON b.id = be.booking_id
+      WHERE be.extra_id = s.extra_id
+        AND be.location = s.location
+        AND b.status IN ('pending', 'confirmed', 'active')
+        AND b.start_date < p_end
+        AND b.end_date > p_start
+    ), 0), 0)::integer
+  FROM extra_stock s
+  WHERE s.location = p_location;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION get_extra_availability(text, timestamptz, timestamptz) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION get_extra_availability(text, timestamptz, timestamptz) TO authenticated;
+
+INSERT INTO extras (name, description, icon, price, pricing, max_per_booking, sort_order) VALUES
+  ('Child seat', 'Rear-facing or forward-facing seat for children up to 18 kg', 'happy-outline', 8, 'per_day', 3, 1),
+  ('Booster seat', 'For children from 15 kg and 100 cm', 'happy-outline', 6, 'per_day', 3, 2),
+  ('GPS navigation', 'Portable sat nav with up-to-date maps', 'navigate-outline', 10, 'per_day', 1, 3),
+  ('Roof rack', 'Fitted roof bars for bikes, boxes or boards', 'cube-outline', 25, 'per_rental', 1, 4),
+  ('Snow chains', 'Set of snow chains for winter trips', 'snow-outline', 15, 'per_rental', 1, 5);
+
+-- Starting stock at every branch that has vehicles
+INSERT INTO extra_stock (extra_id, location, quantity)
+SELECT e.id, branches.location,
+  CASE e.name
+    WHEN 'Child seat' THEN 6
+    WHEN 'Booster seat' THEN 4
+    WHEN 'GPS navigation' THEN 5
+    WHEN 'Roof rack' THEN 2
+    ELSE 3
+  END
+FROM extras e
+CROSS JOIN (SELECT DISTINCT location FROM vehicles) branches
+ON CONFLICT DO NOTHING;
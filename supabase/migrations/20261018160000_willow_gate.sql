@@ -0,0 +1,133 @@
+/*
+  # Pickup check-in
+
+  1. Tables
+    - `inspection_photos`: timestamped walk-around photos taken at pickup (and
+      later at return), one row per photo with the angle it shows
+    - bookings gets `checked_in_by`, the staff member who handed the vehicle
+      over, and `license_checked_at`, when they matched the driver's license
+      against the booking
+
+  2. Functions
+    - `enforce_booking_check_in()` runs before a booking is updated:
+        - only booking managers can write the check-in columns
+        - a booking can only become active once the odometer, fuel level,
+          license check and the four exterior photos are recorded
+
+  3. Security
+    - Private `vehicle-inspections` bucket; files live under `<booking id>/...`
+    - Customers can see the photos and readings for their own bookings
+    - Booking managers record photos; staff can read them
+*/
+
+ALTER TABLE bookings
+  ADD COLUMN IF NOT EXISTS checked_in_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS license_checked_at timestamptz;
+
+CREATE TABLE IF NOT EXISTS inspection_photos (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  booking_id uuid REFERENCES bookings(id) ON DELETE CASCADE NOT NULL,
+  stage text NOT NULL CHECK (stage IN ('pickup', 'return')),
+  angle text NOT NULL,
+  storage_path text NOT NULL,
+  taken_at timestamptz NOT NULL DEFAULT now(),
+  created_by uuid DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_inspection_photos_booking_id ON inspection_photos(booking_id, stage);
+
+ALTER TABLE inspection_photos ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read own inspection photos" ON inspection_photos
+  FOR SELECT TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM bookings
+      WHERE bookings.id = inspection_photos.booking_id
+        AND bookings.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Staff can read inspection photos" ON inspection_photos
+  FOR SELECT TO authenticated
+  USING (has_permission('access_admin'));
+
+CREATE POLICY "Booking managers can record inspection photos" ON inspection_photos
+  FOR INSERT TO authenticated
+  WITH CHECK (has_permission('manage_bookings') AND created_by = auth.uid());
+
+CREATE POLICY "Booking managers can remove inspection photos" ON inspection_photos
+  FOR DELETE TO authenticated
+  USING (has_permission('manage_bookings'));
+
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES ('vehicle-inspections', 'vehicle-inspections', false, 10485760, ARRAY['image/jpeg', 'image/png', 'image/webp'])
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Users can read own inspection files" ON storage.objects
+  FOR SELECT TO authenticated
+  USING (
+    bucket_id = 'vehicle-inspections'
+    AND EXISTS (
+      SELECT 1 FROM bookings
+      WHERE bookings.id::text = (storage.foldername(name))[1]
+        AND bookings.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Staff can read inspection files" ON storage.objects
+  FOR SELECT TO authenticated
+  USING (bucket_id = 'vehicle-inspections' AND has_permission('access_admin'));
+
+CREATE POLICY "Booking managers can upload inspection files" ON storage.objects
+  FOR INSERT TO authenticated
+  WITH CHECK (bucket_id = 'vehicle-inspections' AND has_permission('manage_bookings'));
+
+CREATE POLICY "Booking managers can delete inspection files" ON storage.objects
+  FOR DELETE TO authenticated
+  USING (bucket_id = 'vehicle-inspections' AND has_permission('manage_bookings'));
+
+CREATE OR REPLACE FUNCTION enforce_booking_check_in()
+RETURNS trigger AS $$
+BEGIN
+  -- Service role and SQL editor sessions have no auth.uid() and are trusted
+  IF auth.uid() IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF NOT has_permission('manage_bookings') AND (
+    NEW.actual_pickup_time IS DISTINCT FROM OLD.actual_pickup_time
+    OR NEW.fuel_level_pickup IS DISTINCT FROM OLD.fuel_level_pickup
+    OR NEW.mileage_start IS DISTINCT FROM OLD.mileage_start
+    OR NEW.checked_in_by IS DISTINCT FROM OLD.checked_in_by
+    OR NEW.license_checked_at IS DISTINCT FROM OLD.license_checked_at
+  ) THEN
+    RAISE EXCEPTION 'Only staff can record a vehicle check-in'
+      USING ERRCODE = 'P0001', HINT = 'check_in_staff_only';
+  END IF;
+
+  IF NEW.status = 'active' AND OLD.status <> 'active' AND (
+    NEW.actual_pickup_time IS NULL
+    OR NEW.fuel_level_pickup IS NULL
+    OR NEW.mileage_start IS NULL
+    OR NEW.license_checked_at IS NULL
+    OR (
+      SELECT COUNT(DISTINCT angle) FROM inspection_photos
+      WHERE booking_id = NEW.id
+        AND stage = 'pickup'
+        AND angle IN ('front', 'rear', 'left', 'right')
+    ) < 4
+  ) THEN
+    RAISE EXCEPTION 'Complete the check-in (odometer, fuel, license check and walk-around photos) before handing over the vehicle'
+      USING ERRCODE = 'P0001', HINT = 'check_in_incomplete';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS enforce_booking_check_in_trigger ON bookings;
+CREATE TRIGGER enforce_booking_check_in_trigger
+  BEFORE UPDATE ON bookings
+  FOR EACH ROW EXECUTE FUNCTION enforce_booking_check_in();
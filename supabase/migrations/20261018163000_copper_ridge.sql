@@ -0,0 +1,147 @@
+/*
+  # Return inspection and damage records
+
+  1. Tables
+    - `damage_records`: structured damage marked on the vehicle diagram at
+      return, one row per damaged zone with its severity, description and
+      estimated repair cost. Records belong to the vehicle, so they build up
+      into its damage history, and point back to the booking they were found on.
+    - `inspection_photos.damage_record_id` links close-up photos to the damage
+      they show; walk-around photos leave it empty
+
+  2. Functions
+    - `enforce_booking_return()` runs before a booking is updated:
+        - only booking managers can write the return columns
+        - a booking can only be completed once the drop-off time, odometer,
+          fuel level and the four exterior return photos are recorded
+    - `sync_vehicle_mileage()` copies the return odometer onto the vehicle so
+      the next check-in starts from it. SECURITY DEFINER because staff cannot
+      edit vehicles.
+
+  3. Security
+    - Staff can read all damage records; customers can read the ones found on
+      their own bookings
+    - Booking managers record damage while the rental is still active and can
+      remove it until the return is completed
+*/
+
+CREATE TABLE IF NOT EXISTS damage_records (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  vehicle_id uuid REFERENCES vehicles(id) ON DELETE CASCADE NOT NULL,
+  booking_id uuid REFERENCES bookings(id) ON DELETE SET NULL,
+  zone text NOT NULL,
+  severity text NOT NULL CHECK (severity IN ('minor', 'moderate', 'severe')),
+  description text NOT NULL,
+  repair_cost numeric NOT NULL DEFAULT 0 CHECK (repair_cost >= 0),
+  created_by uuid DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_damage_records_vehicle_id ON damage_records(vehicle_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_damage_records_booking_id ON damage_records(booking_id);
+
+ALTER TABLE inspection_photos
+  ADD COLUMN IF NOT EXISTS damage_record_id uuid REFERENCES damage_records(id) ON DELETE CASCADE;
+
+CREATE INDEX IF NOT EXISTS idx_inspection_photos_damage_record_id ON inspection_photos(damage_record_id);
+
+ALTER TABLE damage_records ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read damage on own bookings" ON damage_records
+  FOR SELECT TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM bookings
+      WHERE bookings.id = damage_records.booking_id
+        AND bookings.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Staff can read damage records" ON damage_records
+  FOR SELECT TO authenticated
+  USING (has_permission('access_admin'));
+
+CREATE POLICY "Booking managers can record damage" ON damage_records
+  FOR INSERT TO authenticated
+  WITH CHECK (
+    has_permission('manage_bookings')
+    AND created_by = auth.uid()
+    AND EXISTS (
+      SELECT 1 FROM bookings
+      WHERE bookings.id = damage_records.booking_id
+        AND bookings.vehicle_id = damage_records.vehicle_id
+        AND bookings.status = 'active'
+    )
+  );
+
+CREATE POLICY "Booking managers can remove damage before completion" ON damage_records
+  FOR DELETE TO authenticated
+  USING (
+    has_permission('manage_bookings')
+    AND EXISTS (
+      SELECT 1 FROM bookings
+      WHERE bookings.id = damage_records.booking_id
+        AND bookings.status = 'active'
+    )
+  );
+
+CREATE OR REPLACE FUNCTION enforce_booking_return()
+RETURNS trigger AS $$
+BEGIN
+  -- Service role and SQL editor sessions have no auth.uid() and are trusted
+  IF auth.uid() IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF NOT has_permission('manage_bookings') AND (
+    NEW.actual_dropoff_time IS DISTINCT FROM OLD.actual_dropoff_time
+    OR NEW.fuel_level_dropoff IS DISTINCT FROM OLD.fuel_level_dropoff
+    OR NEW.mileage_end IS DISTINCT FROM OLD.mileage_end
+    OR NEW.damage_report IS DISTINCT FROM OLD.damage_report
+  ) THEN
+    RAISE EXCEPTION 'Only staff can record a vehicle return'
+      USING ERRCODE = 'P0001', HINT = 'return_staff_only';
+  END IF;
+
+  IF NEW.status = 'completed' AND OLD.status <> 'completed' AND (
+    NEW.actual_dropoff_time IS NULL
+    OR NEW.fuel_level_dropoff IS NULL
+    OR NEW.mileage_end IS NULL
+    OR (
+      SELECT COUNT(DISTINCT angle) FROM inspection_photos
+      WHERE booking_id = NEW.id
+        AND stage = 'return'
+        AND damage_record_id IS NULL
+        AND angle IN ('front', 'rear', 'left', 'right')
+    ) < 4
+  ) THEN
+    RAISE EXCEPTION 'Complete the return inspection (odometer, fuel and walk-around photos) before closing the booking'
+      USING ERRCODE = 'P0001', HINT = 'return_incomplete';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS enforce_booking_return_trigger ON bookings;
+CREATE TRIGGER enforce_booking_return_trigger
+  BEFORE UPDATE ON bookings
+  FOR EACH ROW EXECUTE FUNCTION enforce_booking_return();
+
+CREATE OR REPLACE FUNCTION sync_vehicle_mileage()
+RETURNS trigger AS $$
+BEGIN
+  UPDATE vehicles
+  SET mileage = GREATEST(COALESCE(mileage, 0), NEW.mileage_end)
+  WHERE id = NEW.vehicle_id;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS sync_vehicle_mileage_trigger ON bookings;
+CREATE TRIGGER sync_vehicle_mileage_trigger
+  AFTER UPDATE OF status ON bookings
+  FOR EACH ROW
+  WHEN (NEW.status = 'completed' AND OLD.status <> 'completed' AND NEW.mileage_end IS NOT NULL)
+  EXECUTE FUNCTION sync_vehicle_mileage();
@@ -0,0 +1,53 @@
+/*
+  # Post-rental charges
+
+  1. Tables
+    - `rental_charge_rates`: the single row of rates used to charge for a
+      return — late fee per hour after a grace period, refuelling per percent
+      plus a service fee, and the daily mileage allowance with its excess rate.
+      These replace the rates that were hard-coded in the app.
+    - bookings gets the settlement worked out at return:
+        - `settlement`: the itemised charges and how they were paid
+        - `settlement_status`: none, settled (covered by the deposit or nothing
+          owed), charged (balance charged to the card) or failed (the card
+          was declined and staff need to retry)
+        - `settlement_intent_id` and `settlement_charged`: the card charge for
+          whatever the deposit did not cover
+
+  2. Security
+    - Anyone can read the rates, so customers can see what a late return costs
+    - Pricing managers can change them
+*/
+
+CREATE TABLE IF NOT EXISTS rental_charge_rates (
+  id boolean PRIMARY KEY DEFAULT true CHECK (id),
+  late_grace_minutes integer NOT NULL DEFAULT 30 CHECK (late_grace_minutes >= 0),
+  late_fee_per_hour numeric NOT NULL DEFAULT 15 CHECK (late_fee_per_hour >= 0),
+  fuel_per_percent numeric NOT NULL DEFAULT 0.75 CHECK (fuel_per_percent >= 0),
+  refuel_service_fee numeric NOT NULL DEFAULT 10 CHECK (refuel_service_fee >= 0),
+  included_miles_per_day integer NOT NULL DEFAULT 200 CHECK (included_miles_per_day >= 0),
+  per_excess_mile numeric NOT NULL DEFAULT 0.35 CHECK (per_excess_mile >= 0),
+  updated_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE bookings
+  ADD COLUMN IF NOT EXISTS settlement jsonb,
+  ADD COLUMN IF NOT EXISTS settlement_status text NOT NULL DEFAULT 'none'
+    CHECK (settlement_status IN ('none', 'settled', 'charged', 'failed')),
+  ADD COLUMN IF NOT EXISTS settlement_intent_id text,
+  ADD COLUMN IF NOT EXISTS settlement_charged numeric NOT NULL DEFAULT 0 CHECK (settlement_charged >= 0);
+
+ALTER TABLE rental_charge_rates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can read rental charge rates" ON rental_charge_rates
+  FOR SELECT TO anon, authenticated
+  USING (true);
+
+CREATE POLICY "Pricing managers can update rental charge rates" ON rental_charge_rates
+  FOR UPDATE TO authenticated
+  USING (has_permission('manage_pricing'))
+  WITH CHECK (has_permission('manage_pricing'));
+
+-- Fuel and mileage defaults match the rates the app used to hard-code
+INSERT INTO rental_charge_rates (id) VALUES (true)
+ON CONFLICT (id) DO NOTHING;
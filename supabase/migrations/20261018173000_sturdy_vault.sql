@@ -0,0 +1,200 @@
+/*
+  # Server-owned payment state
+
+  1. Functions
+    - `protect_booking_payment()` runs before a booking is inserted or updated:
+        - new bookings always start unpaid, whatever the client sends
+        - only booking managers can change payment_status, payment_intent_id,
+          amount_charged or refunded_amount directly
+    - `record_booking_payment(p_booking_id, p_intent_id, p_succeeded)` records
+      the outcome of the checkout charge. The amount charged is the booking
+      total, never a figure from the client, and a paid booking is never
+      marked unpaid again.
+    - `record_booking_refund(p_booking_id, p_amount)` records a refund on a
+      paid booking. Customers are only refunded on cancelled bookings, and
+      never more than they paid less the fees kept back.
+    - `reschedule_booking(...)` moves a booking to new dates and records the
+      charge for the new total in one update
+    The three functions are SECURITY DEFINER so they can write the payment
+    columns for customers. They run as their owner rather than as
+    `authenticated`, which is how protect_booking_payment() tells them apart
+    from direct API writes.
+
+  2. Security
+    - Callable by authenticated users, for their own bookings only; booking
+      managers can call them for any booking
+*/
+
+CREATE OR REPLACE FUNCTION protect_booking_payment()
+RETURNS trigger AS $$
+BEGIN
+  -- Service role and SQL editor sessions have no auth.uid() and are trusted,
+  -- as are the payment functions below, which do their own checks
+  IF auth.uid() IS NULL OR current_user <> 'authenticated' OR has_permission('manage_bookings') THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    NEW.payment_status := 'pending';
+    NEW.payment_intent_id := NULL;
+    NEW.amount_charged := 0;
+    NEW.refunded_amount := 0;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.payment_status IS DISTINCT FROM OLD.payment_status
+    OR NEW.payment_intent_id IS DISTINCT FROM OLD.payment_intent_id
+    OR NEW.amount_charged IS DISTINCT FROM OLD.amount_charged
+    OR NEW.refunded_amount IS DISTINCT FROM OLD.refunded_amount
+  THEN
+    RAISE EXCEPTION 'Only staff can change the payment on a booking'
+      USING ERRCODE = 'P0001', HINT = 'payment_staff_only';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS protect_booking_payment_trigger ON bookings;
+CREATE TRIGGER protect_booking_payment_trigger
+  BEFORE INSERT OR UPDATE ON bookings
+  FOR EACH ROW EXECUTE FUNCTION protect_booking_payment();
+
+CREATE OR REPLACE FUNCTION record_booking_payment(
+  p_booking_id uuid,
+  p_intent_id text,
+  p_succeeded boolean
+)
+RETURNS bookings AS $$
+DECLARE
+  v_booking bookings%ROWTYPE;
+BEGIN
+  SELECT * INTO v_booking FROM bookings WHERE id = p_booking_id FOR UPDATE;
+
+  IF NOT FOUND
+    OR (v_booking.user_id IS DISTINCT FROM auth.uid() AND NOT has_permission('manage_bookings'))
+  THEN
+    RAISE EXCEPTION 'Booking not found'
+      USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_booking.payment_status NOT IN ('pending', 'failed') THEN
+    RAISE EXCEPTION 'This booking has already been paid'
+      USING ERRCODE = 'P0001', HINT = 'already_paid';
+  END IF;
+
+  UPDATE bookings
+  SET payment_intent_id = p_intent_id,
+      payment_status = CASE WHEN p_succeeded THEN 'completed' ELSE 'failed' END,
+      amount_charged = CASE WHEN p_succeeded THEN total_price ELSE 0 END,
+      updated_at = now()
+  WHERE id = p_booking_id
+  RETURNING * INTO v_booking;
+
+  RETURN v_booking;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION record_booking_refund(
+  p_booking_id uuid,
+  p_amount numeric
+)
+RETURNS bookings AS $$
+DECLARE
+  v_booking bookings%ROWTYPE;
+  v_refundable numeric;
+BEGIN
+  SELECT * INTO v_booking FROM bookings WHERE id = p_booking_id FOR UPDATE;
+
+  IF NOT FOUND
+    OR (v_booking.user_id IS DISTINCT FROM auth.uid() AND NOT has_permission('manage_bookings'))
+  THEN
+    RAISE EXCEPTION 'Booking not found'
+      USING ERRCODE = 'P0002';
+  END IF;
+
+  -- Bookings that were never paid are left alone
+  IF v_booking.payment_status <> 'completed' THEN
+    RETURN v_booking;
+  END IF;
+
+  v_refundable := v_booking.amount_charged - v_booking.refunded_amount;
+
+  IF NOT has_permission('manage_bookings') THEN
+    IF v_booking.status <> 'cancelled' THEN
+      RAISE EXCEPTION 'Only cancelled bookings can be refunded'
+        USING ERRCODE = 'P0001', HINT = 'refund_not_allowed';
+    END IF;
+
+    -- Modification fees are not refundable and the cancellation fee is kept
+    v_refundable := v_refundable - v_booking.modification_fee - v_booking.cancellation_fee;
+  END IF;
+
+  UPDATE bookings
+  SET payment_status = 'refunded',
+      refunded_amount = refunded_amount + LEAST(GREATEST(p_amount, 0), GREATEST(v_refundable, 0)),
+      updated_at = now()
+  WHERE id = p_booking_id
+  RETURNING * INTO v_booking;
+
+  RETURN v_booking;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION reschedule_booking(
+  p_booking_id uuid,
+  p_start_date timestamptz,
+  p_end_date timestamptz,
+  p_pickup_time time,
+  p_dropoff_time time,
+  p_total_price numeric,
+  p_price_quote jsonb,
+  p_modification_fee numeric,
+  p_intent_id text
+)
+RETURNS bookings AS $$
+DECLARE
+  v_booking bookings%ROWTYPE;
+BEGIN
+  SELECT * INTO v_booking FROM bookings WHERE id = p_booking_id FOR UPDATE;
+
+  IF NOT FOUND
+    OR (v_booking.user_id IS DISTINCT FROM auth.uid() AND NOT has_permission('manage_bookings'))
+  THEN
+    RAISE EXCEPTION 'Booking not found'
+      USING ERRCODE = 'P0002';
+  END IF;
+
+  -- The change window, extras and overlap checks still run on this update
+  UPDATE bookings
+  SET start_date = p_start_date,
+      end_date = p_end_date,
+      pickup_time = p_pickup_time,
+      dropoff_time = p_dropoff_time,
+      total_price = p_total_price,
+      price_quote = p_price_quote,
+      modification_fee = p_modification_fee,
+      payment_intent_id = p_intent_id,
+      payment_status = 'completed',
+      amount_charged = p_total_price + p_modification_fee,
+      refunded_amount = 0,
+      updated_at = now()
+  WHERE id = p_booking_id
+    AND status IN ('pending', 'confirmed')
+  RETURNING * INTO v_booking;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Only pending or confirmed bookings can be changed'
+      USING ERRCODE = 'P0001', HINT = 'change_not_allowed';
+  END IF;
+
+  RETURN v_booking;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION record_booking_payment(uuid, text, boolean) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION record_booking_refund(uuid, numeric) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION reschedule_booking(uuid, timestamptz, timestamptz, time, time, numeric, jsonb, numeric, text) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION record_booking_payment(uuid, text, boolean) TO authenticated;
+GRANT EXECUTE ON FUNCTION record_booking_refund(uuid, numeric) TO authenticated;
+GRANT EXECUTE ON FUNCTION reschedule_booking(uuid, timestamptz, timestamptz, time, time, numeric, jsonb, numeric, text) TO authenticated;
@@ -0,0 +1,55 @@
+/*
+  # Account deletion with paid pending bookings
+
+  1. Functions
+    - `delete_own_account()` also refuses while the user has a pending booking
+      that has been paid for. Bookings are charged at checkout, before staff
+      confirm them, so cancelling them here would keep the customer's money.
+      Cancelling through the app refunds the payment first.
+    - Pending bookings still left are unpaid (a declined checkout) and are
+      cancelled as before
+*/
+
+CREATE OR REPLACE FUNCTION delete_own_account()
+RETURNS void AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated'
+      USING ERRCODE = '42501';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM bookings
+    WHERE user_id = v_user_id
+      AND (
+        status IN ('confirmed', 'active')
+        OR (status = 'pending' AND payment_status = 'completed')
+      )
+  ) THEN
+    RAISE EXCEPTION 'Account has paid, confirmed or active bookings'
+      USING ERRCODE = 'P0001', HINT = 'active_bookings';
+  END IF;
+
+  -- Only unpaid pending bookings are left, so there is nothing to refund
+  UPDATE bookings
+  SET status = 'cancelled', updated_at = now()
+  WHERE user_id = v_user_id
+    AND status = 'pending';
+
+  UPDATE bookings
+  SET user_id = NULL,
+      driver_license = NULL,
+      special_requests = NULL,
+      anonymized_at = now(),
+      updated_at = now()
+  WHERE user_id = v_user_id;
+
+  UPDATE reviews
+  SET user_id = NULL
+  WHERE user_id = v_user_id;
+
+  DELETE FROM auth.users WHERE id = v_user_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, auth;
@@ -0,0 +1,35 @@
+/*
+  # Protect booking deposits after checkout
+
+  1. Functions
+    - `protect_booking_deposit()` runs before a booking is updated and rejects
+      changes to `deposit_amount`, `deposit_status` or `deposit_intent_id`
+      unless the caller is a booking manager. set_booking_deposit() only covers
+      inserts, and the own-bookings update policy has no column limits, so a
+      customer could otherwise zero their deposit or mark it released.
+*/
+
+CREATE OR REPLACE FUNCTION protect_booking_deposit()
+RETURNS trigger AS $$
+BEGIN
+  -- Service role and SQL editor sessions have no auth.uid() and are trusted
+  IF auth.uid() IS NULL OR has_permission('manage_bookings') THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.deposit_amount IS DISTINCT FROM OLD.deposit_amount
+    OR NEW.deposit_status IS DISTINCT FROM OLD.deposit_status
+    OR NEW.deposit_intent_id IS DISTINCT FROM OLD.deposit_intent_id
+  THEN
+    RAISE EXCEPTION 'Only staff can change the deposit on a booking'
+      USING ERRCODE = 'P0001', HINT = 'deposit_staff_only';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS protect_booking_deposit_trigger ON bookings;
+CREATE TRIGGER protect_booking_deposit_trigger
+  BEFORE UPDATE ON bookings
+  FOR EACH ROW EXECUTE FUNCTION protect_booking_deposit();
@@ -0,0 +1,35 @@
+/*
+  # Protect booking cover after checkout
+
+  1. Functions
+    - `protect_booking_protection()` runs before a booking is updated and
+      rejects changes to `protection_plan_id`, `protection_daily_price` or
+      `protection_deductible` unless the caller is a booking manager.
+      set_booking_protection() only covers inserts, and a deductible lowered
+      afterwards would cap the damage charged at return.
+*/
+
+CREATE OR REPLACE FUNCTION protect_booking_protection()
+RETURNS trigger AS $$
+BEGIN
+  -- Service role and SQL editor sessions have no auth.uid() and are trusted
+  IF auth.uid() IS NULL OR has_permission('manage_bookings') THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.protection_plan_id IS DISTINCT FROM OLD.protection_plan_id
+    OR NEW.protection_daily_price IS DISTINCT FROM OLD.protection_daily_price
+    OR NEW.protection_deductible IS DISTINCT FROM OLD.protection_deductible
+  THEN
+    RAISE EXCEPTION 'Only staff can change the protection plan on a booking'
+      USING ERRCODE = 'P0001', HINT = 'protection_staff_only';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS protect_booking_protection_trigger ON bookings;
+CREATE TRIGGER protect_booking_protection_trigger
+  BEFORE UPDATE ON bookings
+  FOR EACH ROW EXECUTE FUNCTION protect_booking_protection();
@@ -0,0 +1,355 @@
+/*
+  # Server-side booking prices
+
+  1. Tables
+    - bookings gets `time_zone`, the customer's IANA time zone. Weekend,
+      holiday and seasonal rates follow the customer's calendar, as they do
+      in the app's quote.
+
+  2. Functions
+    - `get_fleet_utilization(p_start, p_end, p_exclude_booking)` can leave one
+      booking out, so a booking being repriced does not push up its own surge
+    - `calculate_booking_quote(p_booking)` ports calculateQuote() from
+      lib/pricing.ts: the vehicle's daily rate, active pricing rules, fleet
+      utilisation, the protection price locked on the booking and its
+      reserved extras. It returns the same itemised quote the app stores in
+      `price_quote`.
+    - `set_booking_quote()` runs before a booking is inserted or its dates,
+      time zone or price are changed, and replaces `total_price` and
+      `price_quote` with the server's quote. Whatever the client sends is
+      ignored.
+    - `reprice_booking_extras()` reprices the booking after extras are added
+      or removed
+    - `reschedule_booking(...)` no longer takes the new price. It checks the
+      amount charged to the card against the repriced booking and raises
+      `price_changed` if they differ, so the app can refund the charge.
+
+  3. Notes
+    - set_booking_quote_trigger sorts after set_booking_protection_trigger,
+      so the protection price is already copied when the quote is worked out
+*/
+
+ALTER TABLE bookings
+  ADD COLUMN IF NOT EXISTS time_zone text NOT NULL DEFAULT 'UTC';
+
+DROP FUNCTION IF EXISTS get_fleet_utilization(timestamptz, timestamptz);
+
+CREATE OR REPLACE FUNCTION get_fleet_utilization(
+  p_start timestamptz,
+  p_end timestamptz,
+  p_exclude_booking uuid DEFAULT NULL
+)
+RETURNS numeric AS $$
+  SELECT COALESCE(
+    COUNT(DISTINCT b.vehicle_id)::numeric / NULLIF((SELECT COUNT(*) FROM vehicles WHERE available = true), 0),
+    0
+  )
+  FROM bookings b
+  JOIN vehicles v ON v.id = b.vehicle_id AND v.available = true
+  WHERE b.status IN ('pending', 'confirmed', 'active')
+    AND b.id IS DISTINCT FROM p_exclude_booking
+    AND b.start_date < p_end
+    AND b.end_date > p_start;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION get_fleet_utilization(timestamptz, timestamptz, uuid) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION get_fleet_utilization(timestamptz, timestamptz, uuid) TO authenticated;
+
+CREATE OR REPLACE FUNCTION sum_quote_lines(p_lines jsonb)
+RETURNS numeric AS $$
+  SELECT COALESCE(round(SUM((line->>'amount')::numeric), 2), 0)
+  FROM jsonb_array_elements(p_lines) line;
+$$ LANGUAGE sql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION calculate_booking_quote(p_booking bookings)
+RETURNS jsonb AS $$
+DECLARE
+  v_vehicle vehicles%ROWTYPE;
+  v_rule pricing_rules%ROWTYPE;
+  v_extra record;
+  v_days integer;
+  v_day date;
+  v_base numeric;
+  v_rental numeric;
+  v_subtotal numeric;
+  v_taxable numeric;
+  v_amount numeric;
+  v_pos integer;
+  v_rule_ids uuid[] := '{}';
+  v_rule_names text[] := '{}';
+  v_rule_amounts numeric[] := '{}';
+  v_rule_days integer[] := '{}';
+  v_adjustments jsonb := '[]';
+  v_discounts jsonb := '[]';
+  v_fees jsonb := '[]';
+  v_taxes jsonb := '[]';
+BEGIN
+  SELECT * INTO v_vehicle FROM vehicles WHERE id = p_booking.vehicle_id;
+
+  v_days := GREATEST(1, CEIL(EXTRACT(EPOCH FROM p_booking.end_date - p_booking.start_date) / 86400))::integer;
+  v_base := round(v_vehicle.price_per_day * v_days, 2);
+
+  -- Day-by-day uplifts. Weekend and holiday rates do not stack, the higher
+  -- one wins (pass 1); a seasonal rate is added on top of either (pass 2).
+  FOR i IN 0 .. v_days - 1 LOOP
+    v_day := ((p_booking.start_date + i * interval '24 hours') AT TIME ZONE p_booking.time_zone)::date;
+
+    FOR v_pass IN 1 .. 2 LOOP
+      SELECT * INTO v_rule
+      FROM pricing_rules r
+      WHERE r.active
+        AND (r.vehicle_type IS NULL OR r.vehicle_type = v_vehicle.type)
+        AND CASE v_pass
+          WHEN 1 THEN (r.type = 'weekend' AND EXTRACT(ISODOW FROM v_day) >= 6)
+            OR (r.type = 'holiday' AND v_day BETWEEN r.start_date AND r.end_date)
+          ELSE r.type = 'seasonal' AND v_day BETWEEN r.start_date AND r.end_date
+        END
+      ORDER BY r.value DESC, r.type, r.name
+      LIMIT 1;
+
+      IF FOUND THEN
+        v_pos := array_position(v_rule_ids, v_rule.id);
+        IF v_pos IS NULL THEN
+          v_rule_ids := v_rule_ids || v_rule.id;
+          v_rule_names := v_rule_names || v_rule.name;
+          v_rule_amounts := v_rule_amounts || 0::numeric;
+          v_rule_days := v_rule_days || 0;
+          v_pos := array_length(v_rule_ids, 1);
+        END IF;
+
+        v_rule_amounts[v_pos] := v_rule_amounts[v_pos] + v_vehicle.price_per_day * (v_rule.value - 1);
+        v_rule_days[v_pos] := v_rule_days[v_pos] + 1;
+      END IF;
+    END LOOP;
+  END LOOP;
+
+  FOR v_pos IN 1 .. COALESCE(array_length(v_rule_ids, 1), 0) LOOP
+    v_amount := round(v_rule_amounts[v_pos], 2);
+    IF v_amount <> 0 THEN
+      v_adjustments := v_adjustments || jsonb_build_object(
+        'label', format('%s (%s day%s)', v_rule_names[v_pos], v_rule_days[v_pos], CASE WHEN v_rule_days[v_pos] <> 1 THEN 's' ELSE '' END),
+        'amount', v_amount
+      );
+    END IF;
+  END LOOP;
+
+  SELECT * INTO v_rule
+  FROM pricing_rules r
+  WHERE r.active
+    AND (r.vehicle_type IS NULL OR r.vehicle_type = v_vehicle.type)
+    AND r.type = 'surge'
+    AND get_fleet_utilization(p_booking.start_date, p_booking.end_date, p_booking.id) >= r.min_utilization
+  ORDER BY r.value DESC, r.type, r.name
+  LIMIT 1;
+
+  IF FOUND THEN
+    v_adjustments := v_adjustments || jsonb_build_object(
+      'label', v_rule.name,
+      'amount', round(v_base * (v_rule.value - 1), 2)
+    );
+  END IF;
+
+  v_rental := round(v_base + sum_quote_lines(v_adjustments), 2);
+
+  -- Only the best long-rental discount applies
+  SELECT * INTO v_rule
+  FROM pricing_rules r
+  WHERE r.active
+    AND (r.vehicle_type IS NULL OR r.vehicle_type = v_vehicle.type)
+    AND r.type = 'duration_discount'
+    AND v_days >= r.min_days
+  ORDER BY r.value DESC, r.type, r.name
+  LIMIT 1;
+
+  IF FOUND THEN
+    v_discounts := v_discounts || jsonb_build_object(
+      'label', format('%s (%s%%)', v_rule.name, trim_scale(round(v_rule.value, 2))),
+      'amount', round(v_rental * v_rule.value / 100, 2)
+    );
+  END IF;
+
+  v_subtotal := round(v_rental - sum_quote_lines(v_discounts), 2);
+
+  IF p_booking.protection_daily_price > 0 THEN
+    v_fees := v_fees || jsonb_build_object(
+      'label', format(
+        '%s ($%s × %s)',
+        COALESCE((SELECT name FROM protection_plans WHERE id = p_booking.protection_plan_id), 'Protection'),
+        to_char(p_booking.protection_daily_price, 'FM999999990.00'),
+        v_days
+      ),
+      'amount', round(p_booking.protection_daily_price * v_days, 2)
+    );
+  END IF;
+
+  FOR v_rule IN
+    SELECT * FROM pricing_rules r
+    WHERE r.active
+      AND (r.vehicle_type IS NULL OR r.vehicle_type = v_vehicle.type)
+      AND r.type = 'fee'
+    ORDER BY r.name
+  LOOP
+    v_fees := v_fees || jsonb_build_object(
+      'label', CASE WHEN v_rule.per_day
+        THEN format('%s ($%s × %s)', v_rule.name, to_char(v_rule.value, 'FM999999990.00'), v_days)
+        ELSE v_rule.name
+      END,
+      'amount', round(CASE WHEN v_rule.per_day THEN v_rule.value * v_days ELSE v_rule.value END, 2)
+    );
+  END LOOP;
+
+  -- Extras keep the price they were reserved at
+  FOR v_extra IN
+    SELECT e.name, be.quantity, be.unit_price, be.pricing = 'per_day' AS per_day
+    FROM booking_extras be
+    JOIN extras e ON e.id = be.extra_id
+    WHERE be.booking_id = p_booking.id
+    ORDER BY e.sort_order, be.created_at
+  LOOP
+    v_fees := v_fees || jsonb_build_object(
+      'label', CASE WHEN v_extra.per_day
+        THEN format(
+          '%s%s ($%s × %s day%s)',
+          v_extra.name,
+          CASE WHEN v_extra.quantity > 1 THEN ' × ' || v_extra.quantity ELSE '' END,
+          to_char(v_extra.unit_price, 'FM999999990.00'),
+          v_days,
+          CASE WHEN v_days <> 1 THEN 's' ELSE '' END
+        )
+        ELSE v_extra.name || CASE WHEN v_extra.quantity > 1 THEN ' × ' || v_extra.quantity ELSE '' END
+      END,
+      'amount', round(v_extra.unit_price * v_extra.quantity * CASE WHEN v_extra.per_day THEN v_days ELSE 1 END, 2)
+    );
+  END LOOP;
+
+  v_taxable := round(v_subtotal + sum_quote_lines(v_fees), 2);
+
+  FOR v_rule IN
+    SELECT * FROM pricing_rules r
+    WHERE r.active
+      AND (r.vehicle_type IS NULL OR r.vehicle_type = v_vehicle.type)
+      AND r.type = 'tax'
+    ORDER BY r.name
+  LOOP
+    v_taxes := v_taxes || jsonb_build_object(
+      'label', format('%s (%s%%)', v_rule.name, trim_scale(round(v_rule.value, 2))),
+      'amount', round(v_taxable * v_rule.value / 100, 2)
+    );
+  END LOOP;
+
+  RETURN jsonb_build_object(
+    'days', v_days,
+    'dailyRate', v_vehicle.price_per_day,
+    'base', v_base,
+    'adjustments', v_adjustments,
+    'discounts', v_discounts,
+    'subtotal', v_subtotal,
+    'fees', v_fees,
+    'taxes', v_taxes,
+    'total', round(v_taxable + sum_quote_lines(v_taxes), 2)
+  );
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION calculate_booking_quote(bookings) FROM PUBLIC;
+
+CREATE OR REPLACE FUNCTION set_booking_quote()
+RETURNS trigger AS $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_timezone_names WHERE name = NEW.time_zone) THEN
+    NEW.time_zone := 'UTC';
+  END IF;
+
+  NEW.price_quote := calculate_booking_quote(NEW);
+  NEW.total_price := (NEW.price_quote->>'total')::numeric;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS set_booking_quote_trigger ON bookings;
+CREATE TRIGGER set_booking_quote_trigger
+  BEFORE INSERT OR UPDATE OF start_date, end_date, time_zone, total_price, price_quote ON bookings
+  FOR EACH ROW EXECUTE FUNCTION set_booking_quote();
+
+CREATE OR REPLACE FUNCTION reprice_booking_extras()
+RETURNS trigger AS $$
+BEGIN
+  -- Writing price_quote makes set_booking_quote() work it out again, now
+  -- with the booking's extras
+  UPDATE bookings
+  SET price_quote = NULL, updated_at = now()
+  WHERE id = COALESCE(NEW.booking_id, OLD.booking_id);
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS reprice_booking_extras_trigger ON booking_extras;
+CREATE TRIGGER reprice_booking_extras_trigger
+  AFTER INSERT OR UPDATE OR DELETE ON booking_extras
+  FOR EACH ROW EXECUTE FUNCTION reprice_booking_extras();
+
+DROP FUNCTION IF EXISTS reschedule_booking(uuid, timestamptz, timestamptz, time, time, numeric, jsonb, numeric, text);
+
+CREATE OR REPLACE FUNCTION reschedule_booking(
+  p_booking_id uuid,
+  p_start_date timestamptz,
+  p_end_date timestamptz,
+  p_pickup_time time,
+  p_dropoff_time time,
+  p_modification_fee numeric,
+  p_intent_id text,
+  p_amount numeric
+)
+RETURNS bookings AS $$
+DECLARE
+  v_booking bookings%ROWTYPE;
+BEGIN
+  SELECT * INTO v_booking FROM bookings WHERE id = p_booking_id FOR UPDATE;
+
+  IF NOT FOUND
+    OR (v_booking.user_id IS DISTINCT FROM auth.uid() AND NOT has_permission('manage_bookings'))
+  THEN
+    RAISE EXCEPTION 'Booking not found'
+      USING ERRCODE = 'P0002';
+  END IF;
+
+  -- The change window, extras and overlap checks still run on this update,
+  -- and set_booking_quote() reprices the new dates
+  UPDATE bookings
+  SET start_date = p_start_date,
+      end_date = p_end_date,
+      pickup_time = p_pickup_time,
+      dropoff_time = p_dropoff_time,
+      modification_fee = p_modification_fee,
+      updated_at = now()
+  WHERE id = p_booking_id
+    AND status IN ('pending', 'confirmed')
+  RETURNING * INTO v_booking;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Only pending or confirmed bookings can be changed'
+      USING ERRCODE = 'P0001', HINT = 'change_not_allowed';
+  END IF;
+
+  -- The card was charged for the price the customer was shown
+  IF abs(v_booking.total_price + v_booking.modification_fee - p_amount) > 0.01 THEN
+    RAISE EXCEPTION 'The price for these dates has changed'
+      USING ERRCODE = 'P0001', HINT = 'price_changed';
+  END IF;
+
+  UPDATE bookings
+  SET payment_intent_id = p_intent_id,
+      payment_status = 'completed',
+      amount_charged = total_price + modification_fee,
+      refunded_amount = 0,
+      updated_at = now()
+  WHERE id = p_booking_id
+  RETURNING * INTO v_booking;
+
+  RETURN v_booking;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION reschedule_booking(uuid, timestamptz, timestamptz, time, time, numeric, text, numeric) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION reschedule_booking(uuid, timestamptz, timestamptz, time, time, numeric, text, numeric) TO authenticated;
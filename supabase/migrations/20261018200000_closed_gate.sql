@@ -0,0 +1,24 @@
+/*
+  # Extras only before payment
+
+  1. Security
+    - "Users can add extras to own pending bookings" now also requires the
+      booking to be unpaid. Bookings stay pending after checkout until staff
+      confirm them, so extras added then were never charged for.
+      payment_status is only written by the payment functions, so customers
+      cannot reset it to get around this.
+*/
+
+DROP POLICY IF EXISTS "Users can add extras to own pending bookings" ON booking_extras;
+
+CREATE POLICY "Users can add extras to own unpaid bookings" ON booking_extras
+  FOR INSERT TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM bookings
+      WHERE bookings.id = booking_extras.booking_id
+        AND bookings.user_id = auth.uid()
+        AND bookings.status = 'pending'
+        AND bookings.payment_status = 'pending'
+    )
+  );
@@ -0,0 +1,64 @@
+/*
+  # Change window on server-owned fields
+
+  1. Functions
+    - `enforce_booking_change_window()` no longer trusts the booking's
+      payment state as the client left it:
+        - a booking counts as paid while amount_charged is more than
+          refunded_amount, and only the payment functions write those
+        - only cancelling an unpaid booking (a declined checkout or a price
+          change at checkout) skips the 24-hour window; date changes are always
+          checked
+        - for customers the cancellation and modification fees are worked
+          out here from the policy tiers, replacing whatever the client sent.
+          The tiers mirror BOOKING_POLICY in lib/bookingPolicy.ts.
+    Booking managers are still not restricted.
+*/
+
+CREATE OR REPLACE FUNCTION enforce_booking_change_window()
+RETURNS trigger AS $$
+DECLARE
+  v_cancelling boolean := NEW.status = 'cancelled' AND OLD.status <> 'cancelled';
+  v_moving boolean := NEW.start_date IS DISTINCT FROM OLD.start_date OR NEW.end_date IS DISTINCT FROM OLD.end_date;
+  v_paid numeric := OLD.amount_charged - OLD.refunded_amount;
+  v_hours numeric := EXTRACT(EPOCH FROM OLD.start_date - now()) / 3600;
+BEGIN
+  -- Service role and SQL editor sessions have no auth.uid() and are trusted
+  IF auth.uid() IS NULL OR has_permission('manage_bookings') THEN
+    RETURN NEW;
+  END IF;
+
+  NEW.cancellation_fee := OLD.cancellation_fee;
+  NEW.modification_fee := OLD.modification_fee;
+
+  IF NOT v_cancelling AND NOT v_moving THEN
+    RETURN NEW;
+  END IF;
+
+  -- Unpaid bookings can always be released, free of charge
+  IF v_cancelling AND v_paid <= 0 THEN
+    RETURN NEW;
+  END IF;
+
+  IF v_hours < 24 THEN
+    RAISE EXCEPTION 'Bookings cannot be cancelled or changed less than 24 hours before pickup'
+      USING ERRCODE = 'P0001', HINT = 'change_window_closed';
+  END IF;
+
+  -- Free with 72 hours' notice; after that 20% of the total to cancel, or
+  -- $25 to change the dates. The fee is taken from what was paid, and
+  -- earlier modification fees are not refundable.
+  IF v_hours < 72 THEN
+    IF v_cancelling THEN
+      NEW.cancellation_fee := LEAST(
+        round(OLD.total_price * 20 / 100, 2),
+        GREATEST(v_paid - OLD.modification_fee, 0)
+      );
+    ELSE
+      NEW.modification_fee := OLD.modification_fee + 25;
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,49 @@
+/*
+  # Check the driver again when booking dates move
+
+  1. Functions
+    - `check_driver_eligibility()` now also runs when a booking's
+      `start_date` or `end_date` changes, so a reschedule cannot push the
+      return past the license expiry or the pickup before the driver turns 21.
+      Bookings whose customer has been deleted have no driver left to check.
+*/
+
+CREATE OR REPLACE FUNCTION check_driver_eligibility()
+RETURNS trigger AS $$
+DECLARE
+  v_license driver_licenses%ROWTYPE;
+  v_date_of_birth date;
+BEGIN
+  IF TG_OP = 'UPDATE' AND NEW.user_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO v_license FROM driver_licenses WHERE user_id = NEW.user_id;
+
+  IF NOT FOUND OR v_license.status <> 'approved' THEN
+    RAISE EXCEPTION 'Your driver license has not been approved yet'
+      USING ERRCODE = 'P0001', HINT = 'license_not_approved';
+  END IF;
+
+  IF v_license.expiry_date < NEW.end_date::date THEN
+    RAISE EXCEPTION 'Your driver license expires before the end of this rental'
+      USING ERRCODE = 'P0001', HINT = 'license_expired';
+  END IF;
+
+  SELECT date_of_birth INTO v_date_of_birth FROM profiles WHERE id = NEW.user_id;
+
+  IF v_date_of_birth IS NULL
+    OR v_date_of_birth + interval '21 years' > NEW.start_date::date THEN
+    RAISE EXCEPTION 'Drivers must be at least 21 years old on the pickup date'
+      USING ERRCODE = 'P0001', HINT = 'driver_underage';
+  END IF;
+
+  NEW.driver_license := v_license.license_number;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS check_driver_eligibility_trigger ON bookings;
+CREATE TRIGGER check_driver_eligibility_trigger
+  BEFORE INSERT OR UPDATE OF start_date, end_date ON bookings
+  FOR EACH ROW EXECUTE FUNCTION check_driver_eligibility();
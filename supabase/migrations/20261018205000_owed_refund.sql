@@ -0,0 +1,163 @@
+/*
+  # Keep track of refunds owed after a reschedule
+
+  1. Tables
+    - bookings gets `refund_due_intent_id` and `refund_due_amount`: the
+      original charge of a rescheduled booking and how much of it still has to
+      be refunded. The new charge replaces payment_intent_id straight away, so
+      without these a failed refund of the old charge left nothing to retry.
+
+  2. Functions
+    - `protect_booking_payment()` also covers the new columns
+    - `reschedule_booking(...)` moves the old charge into the refund-due
+      columns when it records the new one, and refuses a further change while
+      a refund is still owed
+    - `record_rescheduled_refund(p_booking_id)` clears the refund-due columns
+      once the old charge has been refunded
+
+  3. Security
+    - Callable by authenticated users, for their own bookings only; booking
+      managers can call it for any booking
+*/
+
+ALTER TABLE bookings
+  ADD COLUMN IF NOT EXISTS refund_due_intent_id text,
+  ADD COLUMN IF NOT EXISTS refund_due_amount numeric NOT NULL DEFAULT 0 CHECK (refund_due_amount >= 0);
+
+CREATE OR REPLACE FUNCTION protect_booking_payment()
+RETURNS trigger AS $$
+BEGIN
+  -- Service role and SQL editor sessions have no auth.uid() and are trusted,
+  -- as are the payment functions, which do their own checks
+  IF auth.uid() IS NULL OR current_user <> 'authenticated' OR has_permission('manage_bookings') THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    NEW.payment_status := 'pending';
+    NEW.payment_intent_id := NULL;
+    NEW.amount_charged := 0;
+    NEW.refunded_amount := 0;
+    NEW.refund_due_intent_id := NULL;
+    NEW.refund_due_amount := 0;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.payment_status IS DISTINCT FROM OLD.payment_status
+    OR NEW.payment_intent_id IS DISTINCT FROM OLD.payment_intent_id
+    OR NEW.amount_charged IS DISTINCT FROM OLD.amount_charged
+    OR NEW.refunded_amount IS DISTINCT FROM OLD.refunded_amount
+    OR NEW.refund_due_intent_id IS DISTINCT FROM OLD.refund_due_intent_id
+    OR NEW.refund_due_amount IS DISTINCT FROM OLD.refund_due_amount
+  THEN
+    RAISE EXCEPTION 'Only staff can change the payment on a booking'
+      USING ERRCODE = 'P0001', HINT = 'payment_staff_only';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION reschedule_booking(
+  p_booking_id uuid,
+  p_start_date timestamptz,
+  p_end_date timestamptz,
+  p_pickup_time time,
+  p_dropoff_time time,
+  p_modification_fee numeric,
+  p_intent_id text,
+  p_amount numeric
+)
+RETURNS bookings AS $$
+DECLARE
+  v_booking bookings%ROWTYPE;
+  v_previous_intent text;
+  v_previous_paid numeric;
+BEGIN
+  SELECT * INTO v_booking FROM bookings WHERE id = p_booking_id FOR UPDATE;
+
+  IF NOT FOUND
+    OR (v_booking.user_id IS DISTINCT FROM auth.uid() AND NOT has_permission('manage_bookings'))
+  THEN
+    RAISE EXCEPTION 'Booking not found'
+      USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_booking.refund_due_amount > 0 THEN
+    RAISE EXCEPTION 'The refund from the last change to this booking is still being processed'
+      USING ERRCODE = 'P0001', HINT = 'refund_pending';
+  END IF;
+
+  v_previous_intent := v_booking.payment_intent_id;
+  v_previous_paid := CASE
+    WHEN v_booking.payment_status = 'completed' AND v_booking.payment_intent_id IS NOT NULL
+      THEN GREATEST(v_booking.amount_charged - v_booking.refunded_amount, 0)
+    ELSE 0
+  END;
+
+  -- The change window, eligibility, extras and overlap checks still run on
+  -- this update, and set_booking_quote() reprices the new dates
+  UPDATE bookings
+  SET start_date = p_start_date,
+      end_date = p_end_date,
+      pickup_time = p_pickup_time,
+      dropoff_time = p_dropoff_time,
+      modification_fee = p_modification_fee,
+      updated_at = now()
+  WHERE id = p_booking_id
+    AND status IN ('pending', 'confirmed')
+  RETURNING * INTO v_booking;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Only pending or confirmed bookings can be changed'
+      USING ERRCODE = 'P0001', HINT = 'change_not_allowed';
+  END IF;
+
+  -- The card was charged for the price the customer was shown
+  IF abs(v_booking.total_price + v_booking.modification_fee - p_amount) > 0.01 THEN
+    RAISE EXCEPTION 'The price for these dates has changed'
+      USING ERRCODE = 'P0001', HINT = 'price_changed';
+  END IF;
+
+  UPDATE bookings
+  SET payment_intent_id = p_intent_id,
+      payment_status = 'completed',
+      amount_charged = total_price + modification_fee,
+      refunded_amount = 0,
+      refund_due_intent_id = CASE WHEN v_previous_paid > 0 THEN v_previous_intent END,
+      refund_due_amount = v_previous_paid,
+      updated_at = now()
+  WHERE id = p_booking_id
+  RETURNING * INTO v_booking;
+
+  RETURN v_booking;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION record_rescheduled_refund(p_booking_id uuid)
+RETURNS bookings AS $$
+DECLARE
+  v_booking bookings%ROWTYPE;
+BEGIN
+  SELECT * INTO v_booking FROM bookings WHERE id = p_booking_id FOR UPDATE;
+
+  IF NOT FOUND
+    OR (v_booking.user_id IS DISTINCT FROM auth.uid() AND NOT has_permission('manage_bookings'))
+  THEN
+    RAISE EXCEPTION 'Booking not found'
+      USING ERRCODE = 'P0002';
+  END IF;
+
+  UPDATE bookings
+  SET refund_due_intent_id = NULL,
+      refund_due_amount = 0,
+      updated_at = now()
+  WHERE id = p_booking_id
+  RETURNING * INTO v_booking;
+
+  RETURN v_booking;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION record_rescheduled_refund(uuid) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION record_rescheduled_refund(uuid) TO authenticated;
@@ -0,0 +1,32 @@
+/*
+  # Staff access to the card on a booking
+
+  1. Functions
+    - `get_booking_card_token(p_booking_id)` returns the provider and token of
+      the card attached to a booking. payment_methods only has owner
+      policies, so staff could not read the customer's card to place the
+      deposit hold at check-in.
+
+  2. Security
+    - Booking managers only, and only for the card a booking was paid with;
+      the rest of a customer's saved cards stay private
+*/
+
+CREATE OR REPLACE FUNCTION get_booking_card_token(p_booking_id uuid)
+RETURNS TABLE (provider text, provider_token text) AS $$
+BEGIN
+  IF NOT has_permission('manage_bookings') THEN
+    RAISE EXCEPTION 'Booking not found'
+      USING ERRCODE = 'P0002';
+  END IF;
+
+  RETURN QUERY
+  SELECT pm.provider, pm.provider_token
+  FROM bookings b
+  JOIN payment_methods pm ON pm.id = b.payment_method_id
+  WHERE b.id = p_booking_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION get_booking_card_token(uuid) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION get_booking_card_token(uuid) TO authenticated;
@@ -0,0 +1,47 @@
+/*
+  # Protect return settlements
+
+  1. Functions
+    - `protect_booking_settlement()` runs before a booking is inserted or
+      updated:
+        - new bookings always start unsettled, whatever the client sends
+        - only booking managers can change `settlement`, `settlement_status`,
+          `settlement_intent_id` or `settlement_charged`
+      Otherwise a customer could mark their own return settled, so nothing
+      is charged and the deposit stays held, or inflate the amount recorded
+      as charged.
+*/
+
+CREATE OR REPLACE FUNCTION protect_booking_settlement()
+RETURNS trigger AS $$
+BEGIN
+  -- Service role and SQL editor sessions have no auth.uid() and are trusted
+  IF auth.uid() IS NULL OR has_permission('manage_bookings') THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    NEW.settlement := NULL;
+    NEW.settlement_status := 'none';
+    NEW.settlement_intent_id := NULL;
+    NEW.settlement_charged := 0;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.settlement IS DISTINCT FROM OLD.settlement
+    OR NEW.settlement_status IS DISTINCT FROM OLD.settlement_status
+    OR NEW.settlement_intent_id IS DISTINCT FROM OLD.settlement_intent_id
+    OR NEW.settlement_charged IS DISTINCT FROM OLD.settlement_charged
+  THEN
+    RAISE EXCEPTION 'Only staff can change the settlement on a booking'
+      USING ERRCODE = 'P0001', HINT = 'settlement_staff_only';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS protect_booking_settlement_trigger ON bookings;
+CREATE TRIGGER protect_booking_settlement_trigger
+  BEFORE INSERT OR UPDATE ON bookings
+  FOR EACH ROW EXECUTE FUNCTION protect_booking_settlement();
@@ -0,0 +1,15 @@
+/*
+  # Settlements saved before any money moves
+
+  1. Tables
+    - bookings.settlement_status gains `settling`: the itemised settlement has
+      been worked out and saved, but capturing the deposit or charging the
+      card has not finished. A return retried after a failure part-way picks
+      up the saved breakdown instead of working it out again from a deposit
+      that may already have been captured.
+*/
+
+ALTER TABLE bookings DROP CONSTRAINT IF EXISTS bookings_settlement_status_check;
+ALTER TABLE bookings
+  ADD CONSTRAINT bookings_settlement_status_check
+  CHECK (settlement_status IN ('none', 'settling', 'settled', 'charged', 'failed'));
@@ -0,0 +1,45 @@
+/*
+  # Protect booking status
+
+  1. Functions
+    - `protect_booking_status()` runs before a booking is inserted or
+      updated:
+        - customer bookings always start pending, whatever the client sends
+        - customers can only cancel their own pending or confirmed bookings;
+          confirming, activating, completing or reopening a booking is left
+          to booking managers
+      The check-in and return triggers only cover updates to active and
+      completed, so without this a customer could confirm an unpaid booking,
+      reopen a refunded one or insert one that is already active.
+    The payment functions run as their owner and are trusted, as in
+    protect_booking_payment().
+*/
+
+CREATE OR REPLACE FUNCTION protect_booking_status()
+RETURNS trigger AS $$
+BEGIN
+  -- Service role and SQL editor sessions have no auth.uid() and are trusted
+  IF auth.uid() IS NULL OR current_user <> 'authenticated' OR has_permission('manage_bookings') THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    NEW.status := 'pending';
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status IS DISTINCT FROM OLD.status
+    AND (NEW.status <> 'cancelled' OR OLD.status NOT IN ('pending', 'confirmed'))
+  THEN
+    RAISE EXCEPTION 'Only staff can change the status of a booking'
+      USING ERRCODE = 'P0001', HINT = 'status_staff_only';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS protect_booking_status_trigger ON bookings;
+CREATE TRIGGER protect_booking_status_trigger
+  BEFORE INSERT OR UPDATE ON bookings
+  FOR EACH ROW EXECUTE FUNCTION protect_booking_status();
@@ -0,0 +1,32 @@
+/*
+  # Keep customers on the vehicle they booked
+
+  1. Functions
+    - `protect_booking_vehicle()` runs before a booking is updated and rejects
+      a change of `vehicle_id` unless the caller is a booking manager.
+      set_booking_quote() only reprices on date changes and
+      set_booking_deposit() only runs on insert, so switching to a pricier
+      vehicle after checkout would keep the old price and deposit.
+*/
+
+CREATE OR REPLACE FUNCTION protect_booking_vehicle()
+RETURNS trigger AS $$
+BEGIN
+  -- Service role and SQL editor sessions have no auth.uid() and are trusted
+  IF auth.uid() IS NULL OR has_permission('manage_bookings') THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.vehicle_id IS DISTINCT FROM OLD.vehicle_id THEN
+    RAISE EXCEPTION 'Only staff can change the vehicle on a booking'
+      USING ERRCODE = 'P0001', HINT = 'vehicle_staff_only';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS protect_booking_vehicle_trigger ON bookings;
+CREATE TRIGGER protect_booking_vehicle_trigger
+  BEFORE UPDATE ON bookings
+  FOR EACH ROW EXECUTE FUNCTION protect_booking_vehicle();
@@ -0,0 +1,29 @@
+/*
+  # Price bookings with the owner's rights
+
+  1. Functions
+    - `set_booking_quote()` is now SECURITY DEFINER. It runs on customer
+      inserts and updates and calls calculate_booking_quote(), which customers
+      are not meant to call themselves. As an invoker-rights trigger it needed
+      that execute grant, so revoking it either broke checkout or, where
+      default privileges granted it anyway, left it callable.
+
+  2. Security
+    - calculate_booking_quote() is only executable by its owner; execute is
+      revoked from anon and authenticated as well as PUBLIC
+*/
+
+CREATE OR REPLACE FUNCTION set_booking_quote()
+RETURNS trigger AS $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_timezone_names WHERE name = NEW.time_zone) THEN
+    NEW.time_zone := 'UTC';
+  END IF;
+
+  NEW.price_quote := calculate_booking_quote(NEW);
+  NEW.total_price := (NEW.price_quote->>'total')::numeric;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION calculate_booking_quote(bookings) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,18 @@
+/*
+  # Client-reported payments are for the mock provider only
+
+  1. Functions
+    - `record_booking_payment(p_booking_id, p_intent_id, p_succeeded)` takes
+      the outcome of the checkout charge from the app. That only holds while
+      the app runs the mock payment provider (lib/paymentProvider.ts), which
+      exists in the app alone and has no server to confirm charges with, so
+      it is for development and testing only. The same goes for the refunds
+      and reschedule charges the app reports.
+    - Before a real provider goes live, payments must be confirmed by the
+      provider's webhook under the service role, and execute on these
+      functions revoked from authenticated. The function comment below
+      records this in the database too.
+*/
+
+COMMENT ON FUNCTION record_booking_payment(uuid, text, boolean) IS
+  'Development only: trusts the payment outcome reported by the app while it runs the mock provider. Replace with provider webhook confirmation and revoke execute from authenticated before taking real payments.';